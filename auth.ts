@@ -0,0 +1,338 @@
+import { NewApiKey, NginxConfig, Role } from "./types.ts";
+import { jsonResponse, Route, routeAccess, RouteParams } from "./http.ts";
+import { splitArguments } from "./directives.ts";
+import { isInsideDirectory } from "./deploy.ts";
+import { siteListeners } from "./listeners.ts";
+import { hostRedirects } from "./redirects.ts";
+
+// Roles in increasing order of privilege; each includes the ones before it
+export const ROLES: Role[] = ["read", "operator", "admin"];
+
+export interface ApiKey {
+    id: string;
+    name: string;
+    role: Role;
+    domains?: string[];
+    // Hex SHA-256 of the secret part of the token; the token itself is only
+    // shown when the key is created
+    secretHash: string;
+    created: string;
+}
+
+export interface KeyStore {
+    list(): Promise<ApiKey[]>;
+    get(id: string): Promise<ApiKey | null>;
+    put(key: ApiKey): Promise<void>;
+    delete(id: string): Promise<boolean>;
+}
+
+export class MemoryKeyStore implements KeyStore {
+    private keys = new Map<string, ApiKey>();
+
+    list(): Promise<ApiKey[]> {
+        return Promise.resolve([...this.keys.values()].map(key => structuredClone(key)));
+    }
+
+    get(id: string): Promise<ApiKey | null> {
+        const key = this.keys.get(id);
+        return Promise.resolve(key ? structuredClone(key) : null);
+    }
+
+    put(key: ApiKey): Promise<void> {
+        this.keys.set(key.id, structuredClone(key));
+        return Promise.resolve();
+    }
+
+    delete(id: string): Promise<boolean> {
+        return Promise.resolve(this.keys.delete(id));
+    }
+}
+
+// Keeps all keys in one JSON file, readable by its owner only. Writes go
+// through a temporary file and a rename.
+export class FileKeyStore implements KeyStore {
+    constructor(private path: string) {}
+
+    async list(): Promise<ApiKey[]> {
+        try {
+            return JSON.parse(await Deno.readTextFile(this.path));
+        } catch (error) {
+            if (error instanceof Deno.errors.NotFound) {
+                return [];
+            }
+            throw error;
+        }
+    }
+
+    async get(id: string): Promise<ApiKey | null> {
+        return (await this.list()).find(key => key.id === id) || null;
+    }
+
+    async put(key: ApiKey): Promise<void> {
+        const keys = (await this.list()).filter(existing => existing.id !== key.id);
+        await this.write([...keys, key]);
+    }
+
+    async delete(id: string): Promise<boolean> {
+        const keys = await this.list();
+        const remaining = keys.filter(key => key.id !== id);
+        if (remaining.length === keys.length) {
+            return false;
+        }
+        await this.write(remaining);
+        return true;
+    }
+
+    private async write(keys: ApiKey[]): Promise<void> {
+        await Deno.writeTextFile(`${this.path}.tmp`, JSON.stringify(keys, null, 2), { mode: 0o600 });
+        await Deno.rename(`${this.path}.tmp`, this.path);
+    }
+}
+
+function hex(bytes: Uint8Array): string {
+    return [...bytes].map(byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+async function hashSecret(secret: string): Promise<string> {
+    return hex(new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(secret))));
+}
+
+// Compares in constant time so hashes cannot be guessed byte by byte
+function sameHash(a: string, b: string): boolean {
+    let difference = a.length ^ b.length;
+    for (let i = 0; i < b.length; i++) {
+        difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    }
+    return difference === 0;
+}
+
+export function validateNewKey(key: NewApiKey): string | null {
+    if (typeof key?.name !== "string" || !key.name.trim()) {
+        return "name is required";
+    }
+    if (!ROLES.includes(key.role)) {
+        return `role must be one of ${ROLES.join(", ")}`;
+    }
+    if (key.domains !== undefined) {
+        if (!Array.isArray(key.domains) || key.domains.length === 0) {
+            return "domains must be a non-empty array when given";
+        }
+        const invalid = key.domains.find(domain => typeof domain !== "string" || !/^(\*\.)?[a-zA-Z0-9][a-zA-Z0-9-_.]*$/.test(domain));
+        if (invalid !== undefined) {
+            return `Invalid domain pattern '${invalid}'`;
+        }
+    }
+    return null;
+}
+
+// Creates a key and returns it with its token, "nxk_<id>_<secret>". Only the
+// hash of the secret is stored: the secret is 256 random bits, so a fast
+// hash is as good as a slow one here.
+export async function createKey(store: KeyStore, options: NewApiKey): Promise<{ key: ApiKey; token: string }> {
+    const id = hex(crypto.getRandomValues(new Uint8Array(6)));
+    const secret = hex(crypto.getRandomValues(new Uint8Array(32)));
+    const key: ApiKey = {
+        id,
+        name: options.name.trim(),
+        role: options.role,
+        ...(options.domains && { domains: options.domains.map(domain => domain.toLowerCase()) }),
+        secretHash: await hashSecret(secret),
+        created: new Date().toISOString()
+    };
+    await store.put(key);
+    return { key, token: `nxk_${id}_${secret}` };
+}
+
+// The key of an "Authorization: Bearer <token>" or "X-API-Key: <token>"
+// header, or null when there is none or it does not match
+export async function authenticate(store: KeyStore, req: Request): Promise<ApiKey | null> {
+    const authorization = req.headers.get("Authorization") || "";
+    const token = authorization.startsWith("Bearer ") ? authorization.slice(7).trim() : req.headers.get("X-API-Key");
+    const match = token?.match(/^nxk_([0-9a-f]{12})_([0-9a-f]{64})$/);
+    if (!match) {
+        return null;
+    }
+    const key = await store.get(match[1]);
+    if (!key || !sameHash(await hashSecret(match[2]), key.secretHash)) {
+        return null;
+    }
+    return key;
+}
+
+export function domainAllowed(key: ApiKey, domain: string): boolean {
+    if (!key.domains) {
+        return true;
+    }
+    const name = domain.toLowerCase();
+    return key.domains.some(pattern =>
+        pattern.startsWith("*.") ? name.endsWith(pattern.slice(1)) : name === pattern
+    );
+}
+
+// Key that authenticated each request, set by protectRoutes
+const principals = new WeakMap<Request, ApiKey>();
+
+export function principal(req: Request): ApiKey | undefined {
+    return principals.get(req);
+}
+
+// Whether the request may act on a site; always true without authentication
+export function canAccessDomain(req: Request, domain: string): boolean {
+    const key = principals.get(req);
+    return !key || domainAllowed(key, domain);
+}
+
+// Whether the request may deploy a site. Besides its domain, a key limited to
+// domains must cover every name the site answers to, host redirects
+// included, and may not claim default_server or reuseport, which decide for
+// every site on the socket. With a certificate directory, its certificate
+// and key must be in the subdirectory of a name it covers, since renewal
+// issues the certificates there. Returns the 403 response, or null when
+// allowed.
+export function siteForbidden(req: Request, config: NginxConfig, certificateDir?: string): Response | null {
+    const key = principals.get(req);
+    if (!key?.domains) {
+        return null;
+    }
+    const names = [
+        config.domain,
+        ...splitArguments(config.serverName),
+        ...hostRedirects(config).flatMap(redirect => redirect.serverNames.flatMap(splitArguments))
+    ];
+    const denied = names.find(name => !nameAllowed(key, name));
+    if (denied !== undefined) {
+        return domainForbidden(denied);
+    }
+    if (siteListeners(config).some(listener => listener.defaultServer || listener.reuseport)) {
+        return forbidden("API keys limited to domains may not set default_server or reuseport, which apply to every site on the socket");
+    }
+    if (certificateDir) {
+        const path = [config.ssl?.certificate, config.ssl?.certificateKey].find(path =>
+            typeof path === "string" && !certificatePathAllowed(key, path, certificateDir)
+        );
+        if (path !== undefined) {
+            return forbidden(`This API key may only use certificates in ${certificateDir}/<name>/ for names it covers, not '${path}'`);
+        }
+    }
+    return null;
+}
+
+// A path inside <dir>/<name>/, for a name the key covers
+function certificatePathAllowed(key: ApiKey, path: string, dir: string): boolean {
+    const base = dir.replace(/\/+$/, "");
+    const name = path.startsWith(`${base}/`) ? path.slice(base.length + 1).split("/")[0] : "";
+    return name !== "" && nameAllowed(key, name) && isInsideDirectory(path, `${base}/${name}`);
+}
+
+// A server_name entry: a regex may match any host, and ".example.com" stands
+// for example.com and all its subdomains
+function nameAllowed(key: ApiKey, name: string): boolean {
+    if (name.startsWith("~")) {
+        return false;
+    }
+    if (name.startsWith(".")) {
+        return domainAllowed(key, name.slice(1)) && domainAllowed(key, `*${name}`);
+    }
+    return domainAllowed(key, name);
+}
+
+export function unauthorized(): Response {
+    return new Response(JSON.stringify({ error: "Missing or invalid API key" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json", "WWW-Authenticate": "Bearer" }
+    });
+}
+
+export function forbidden(message: string): Response {
+    return jsonResponse({ error: message }, 403);
+}
+
+export function domainForbidden(domain: string): Response {
+    return forbidden(`This API key may not act on '${domain}'`);
+}
+
+// Requires a valid key with a sufficient role for every non-public route.
+// Keys limited to domains may only call routes whose :domain they cover,
+// and no global routes.
+export function protectRoutes(routes: Route[], store: KeyStore): Route[] {
+    return routes.map(route => ({
+        ...route,
+        handler: async (req: Request, params: RouteParams): Promise<Response> => {
+            const access = routeAccess(route);
+            if (access === "public") {
+                return await route.handler(req, params);
+            }
+            const key = await authenticate(store, req);
+            if (!key) {
+                return unauthorized();
+            }
+            if (ROLES.indexOf(key.role) < ROLES.indexOf(access)) {
+                return forbidden(`This API key has the ${key.role} role, ${access} is required`);
+            }
+            if (key.domains && route.global) {
+                return forbidden("API keys limited to domains may not act on all sites");
+            }
+            if (params.domain && !domainAllowed(key, params.domain)) {
+                return domainForbidden(params.domain);
+            }
+            principals.set(req, key);
+            return await route.handler(req, params);
+        }
+    }));
+}
+
+// Key management, for admins. Without any keys authentication is off and
+// these routes refuse to work; the first key is made with tools/keys.ts.
+export function keyRoutes(store: KeyStore, enabled: boolean): Route[] {
+    function disabled(): Response {
+        return jsonResponse({ error: "Authentication is not configured; create the first key with tools/keys.ts" }, 503);
+    }
+
+    // Never return secret hashes
+    function publicKey({ secretHash: _, ...key }: ApiKey) {
+        return key;
+    }
+
+    async function listKeys(): Promise<Response> {
+        if (!enabled) {
+            return disabled();
+        }
+        return jsonResponse({ keys: (await store.list()).map(publicKey) });
+    }
+
+    async function addKey(req: Request): Promise<Response> {
+        if (!enabled) {
+            return disabled();
+        }
+        const body: NewApiKey = await req.json();
+        const error = validateNewKey(body);
+        if (error) {
+            return jsonResponse({ error }, 400);
+        }
+        const { key, token } = await createKey(store, body);
+        return jsonResponse({ key: publicKey(key), token }, 201);
+    }
+
+    async function deleteKey(_req: Request, params: RouteParams): Promise<Response> {
+        if (!enabled) {
+            return disabled();
+        }
+        const keys = await store.list();
+        const key = keys.find(key => key.id === params.id);
+        if (!key) {
+            return jsonResponse({ error: `API key '${params.id}' not found` }, 404);
+        }
+        // Without an admin nobody could manage keys through the API again
+        if (key.role === "admin" && !key.domains && !keys.some(other => other.id !== key.id && other.role === "admin" && !other.domains)) {
+            return jsonResponse({ error: "Cannot delete the last unrestricted admin key" }, 409);
+        }
+        await store.delete(key.id);
+        return jsonResponse({ success: true, id: key.id });
+    }
+
+    return [
+        { method: "GET", path: "/keys", summary: "List API keys", access: "admin", global: true, handler: listKeys },
+        { method: "POST", path: "/keys", summary: "Create an API key", body: "NewApiKey", access: "admin", global: true, handler: addKey },
+        { method: "DELETE", path: "/keys/:id", summary: "Revoke an API key", access: "admin", global: true, handler: deleteKey }
+    ];
+}
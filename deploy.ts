@@ -0,0 +1,312 @@
+import { jsonResponse } from "./http.ts";
+
+export interface DeployOptions {
+    targetDir: string;
+    // nginx's configuration directory, which relative paths in the configs
+    // (e.g. htpasswd files) are resolved against
+    confDir: string;
+    // Main configuration file; `{conf}` in the commands stands for it
+    // (default: nginx.conf in confDir)
+    confFile?: string;
+    testCommand?: string[];
+    reloadCommand?: string[];
+}
+
+export interface DeployResult {
+    success: boolean;
+    path: string;
+    stage?: "write" | "test" | "reload";
+    output?: string;
+    rolledBack?: boolean;
+}
+
+export interface CommandResult {
+    success: boolean;
+    output: string;
+}
+
+// What a deploy does to a path: write a file, point a symlink somewhere, or
+// remove whatever is there (null)
+type Entry = { content: string } | { symlink: string } | null;
+
+// Reads the deploy settings from the environment. Testing and reloading are
+// only enabled when an nginx binary (or a stub standing in for it) is given.
+export function deployOptionsFromEnv(): DeployOptions {
+    const nginx = Deno.env.get("NGINX_BIN");
+    const conf = Deno.env.get("NGINX_CONF");
+    const testCommand = Deno.env.get("NGINX_TEST_COMMAND");
+    const reloadCommand = Deno.env.get("NGINX_RELOAD_COMMAND");
+
+    return {
+        targetDir: Deno.env.get("NGINX_SITES_DIR") || ".",
+        confDir: Deno.env.get("NGINX_CONF_DIR") || "nginx",
+        confFile: conf,
+        testCommand: testCommand
+            ? splitCommand(testCommand)
+            : nginx ? [nginx, "-t", "-c", "{conf}"] : undefined,
+        reloadCommand: reloadCommand
+            ? splitCommand(reloadCommand)
+            : nginx ? [nginx, "-s", "reload", ...(conf ? ["-c", conf] : [])] : undefined
+    };
+}
+
+export class Deployer {
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(private options: DeployOptions) {}
+
+    // Deploys a site file, and `files` below confDir along with it. See
+    // apply() for the test, reload and rollback steps.
+    deploy(fileName: string, content: string, files: { [path: string]: string } = {}): Promise<DeployResult> {
+        const path = `${this.options.targetDir}/${fileName}`;
+        const changes = new Map<string, Entry>([
+            ...Object.entries(files).map(([file, fileContent]): [string, Entry] => [`${this.options.confDir}/${file}`, { content: fileContent }]),
+            [path, { content }]
+        ]);
+        return this.exclusive(() => this.apply(path, changes));
+    }
+
+    // Removes a deployed file, and `files` below confDir, with the same test,
+    // reload and rollback steps.
+    remove(fileName: string, files: string[] = []): Promise<DeployResult> {
+        return this.exclusive(async () => {
+            const path = `${this.options.targetDir}/${fileName}`;
+            if (await readEntry(path) === null) {
+                return { success: true, path };
+            }
+            const changes = new Map<string, Entry>([path, ...files.map(file => `${this.options.confDir}/${file}`)].map(target => [target, null]));
+            return await this.apply(path, changes);
+        });
+    }
+
+    // Deploys a tree of files and symlinks below confDir, such as a rendered
+    // workspace. Symlinks in `linkDirs` (e.g. sites-enabled) that the tree
+    // does not name are removed; other files are left alone.
+    deployTree(tree: { files: { [path: string]: string }; symlinks: { [path: string]: string } }, linkDirs: string[] = []): Promise<DeployResult> {
+        return this.exclusive(async () => {
+            const confDir = this.options.confDir;
+            const changes = new Map<string, Entry>([
+                ...Object.entries(tree.files).map(([file, content]): [string, Entry] => [`${confDir}/${file}`, { content }]),
+                ...Object.entries(tree.symlinks).map(([link, target]): [string, Entry] => [`${confDir}/${link}`, { symlink: target }])
+            ]);
+            for (const dir of linkDirs) {
+                for (const entry of await listDir(`${confDir}/${dir}`)) {
+                    if (entry.isSymlink && !tree.symlinks[`${dir}/${entry.name}`]) {
+                        changes.set(`${confDir}/${dir}/${entry.name}`, null);
+                    }
+                }
+            }
+            return await this.apply(confDir, changes);
+        });
+    }
+
+    // When every change and the main config lie below confDir, the test
+    // command runs on a staged copy of confDir with the changes applied, and
+    // nothing is moved into place unless it passes. Otherwise the changes
+    // are moved into place and tested there. Either way the previous files
+    // are restored when the test or the reload fails afterwards.
+    private async apply(path: string, changes: Map<string, Entry>): Promise<DeployResult> {
+        const previous = new Map<string, Entry>();
+        for (const target of changes.keys()) {
+            previous.set(target, await readEntry(target));
+        }
+
+        const staged = this.canStage(changes);
+        if (staged) {
+            const result = await this.testStaged(changes);
+            if (!result.success) {
+                return { success: false, path, stage: "test", output: result.output, rolledBack: false };
+            }
+        }
+
+        try {
+            for (const [target, entry] of changes) {
+                await writeEntry(target, entry);
+            }
+        } catch (error) {
+            await restoreAll(previous);
+            return { success: false, path, stage: "write", output: error.message };
+        }
+
+        for (const stage of staged ? ["reload"] as const : ["test", "reload"] as const) {
+            const command = stage === "test" ? this.options.testCommand : this.options.reloadCommand;
+            if (!command?.length) {
+                continue;
+            }
+
+            const result = await runCommand(withConf(command, this.confFile()));
+            if (!result.success) {
+                await restoreAll(previous);
+                return { success: false, path, stage, output: result.output, rolledBack: true };
+            }
+        }
+
+        return { success: true, path };
+    }
+
+    private canStage(changes: Map<string, Entry>): boolean {
+        if (!this.options.testCommand?.some(arg => arg.includes("{conf}"))) {
+            return false;
+        }
+        return [this.confFile(), ...changes.keys()].every(target => isInsideDirectory(resolvePath(target), this.options.confDir));
+    }
+
+    private async testStaged(changes: Map<string, Entry>): Promise<CommandResult> {
+        const confDir = resolvePath(this.options.confDir);
+        const staging = await Deno.makeTempDir({ dir: dirname(confDir), prefix: ".nginx-staging-" });
+        const stagedPath = (target: string) => `${staging}${resolvePath(target).slice(confDir.length)}`;
+        try {
+            await copyTree(confDir, staging);
+            for (const [target, entry] of changes) {
+                await writeEntry(stagedPath(target), entry);
+            }
+            return await runCommand(withConf(this.options.testCommand!, stagedPath(this.confFile())));
+        } catch (error) {
+            return { success: false, output: `Failed to stage the configuration: ${error.message}` };
+        } finally {
+            await Deno.remove(staging, { recursive: true }).catch(() => {});
+        }
+    }
+
+    private confFile(): string {
+        return this.options.confFile || `${this.options.confDir}/nginx.conf`;
+    }
+
+    private exclusive<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(task, task);
+        this.queue = result.catch(() => {});
+        return result;
+    }
+}
+
+export function deployFailedResponse(result: DeployResult): Response {
+    const messages = {
+        write: "Failed to write the configuration file",
+        test: "nginx rejected the configuration",
+        reload: "nginx failed to reload"
+    };
+    return jsonResponse({
+        error: messages[result.stage || "write"],
+        stage: result.stage,
+        output: result.output,
+        rolledBack: result.rolledBack || false
+    }, result.stage === "test" ? 422 : 500);
+}
+
+export async function runCommand(command: string[]): Promise<CommandResult> {
+    try {
+        const output = await new Deno.Command(command[0], {
+            args: command.slice(1),
+            stdout: "piped",
+            stderr: "piped"
+        }).output();
+        const decoder = new TextDecoder();
+        return {
+            success: output.success,
+            output: (decoder.decode(output.stderr) + decoder.decode(output.stdout)).trim()
+        };
+    } catch (error) {
+        return { success: false, output: `Failed to run '${command.join(" ")}': ${error.message}` };
+    }
+}
+
+async function restoreAll(previous: Map<string, Entry>): Promise<void> {
+    for (const [path, entry] of previous) {
+        await writeEntry(path, entry);
+    }
+}
+
+// Files and symlinks are created next to the target and renamed over it, so
+// nginx never reads a half-written file
+async function writeEntry(path: string, entry: Entry): Promise<void> {
+    if (entry === null) {
+        await Deno.remove(path).catch(error => {
+            if (!(error instanceof Deno.errors.NotFound)) {
+                throw error;
+            }
+        });
+        return;
+    }
+    await Deno.mkdir(dirname(path), { recursive: true });
+    await Deno.remove(`${path}.staging`).catch(() => {});
+    if ("symlink" in entry) {
+        await Deno.symlink(entry.symlink, `${path}.staging`);
+    } else {
+        await Deno.writeTextFile(`${path}.staging`, entry.content);
+    }
+    await Deno.rename(`${path}.staging`, path);
+}
+
+async function readEntry(path: string): Promise<Entry> {
+    try {
+        const info = await Deno.lstat(path);
+        return info.isSymlink ? { symlink: await Deno.readLink(path) } : { content: await Deno.readTextFile(path) };
+    } catch (error) {
+        if (error instanceof Deno.errors.NotFound) {
+            return null;
+        }
+        throw error;
+    }
+}
+
+async function listDir(path: string): Promise<Deno.DirEntry[]> {
+    const entries: Deno.DirEntry[] = [];
+    try {
+        for await (const entry of Deno.readDir(path)) {
+            entries.push(entry);
+        }
+    } catch (error) {
+        if (!(error instanceof Deno.errors.NotFound)) {
+            throw error;
+        }
+    }
+    return entries;
+}
+
+// Copies files, directories and symlinks as they are; relative symlinks,
+// like those in sites-enabled, keep pointing inside the copy
+async function copyTree(from: string, to: string): Promise<void> {
+    for (const entry of await listDir(from)) {
+        const source = `${from}/${entry.name}`;
+        const target = `${to}/${entry.name}`;
+        if (entry.isSymlink) {
+            await Deno.symlink(await Deno.readLink(source), target);
+        } else if (entry.isDirectory) {
+            await Deno.mkdir(target);
+            await copyTree(source, target);
+        } else {
+            await Deno.copyFile(source, target);
+        }
+    }
+}
+
+function withConf(command: string[], conf: string): string[] {
+    return command.map(arg => arg.replaceAll("{conf}", conf));
+}
+
+// Whether an absolute path lies below `dir`, with . and .. resolved
+export function isInsideDirectory(path: string, dir: string): boolean {
+    return path.startsWith("/") && resolvePath(path).startsWith(`${resolvePath(dir)}/`);
+}
+
+// An absolute path with . and .. resolved, without touching the file system
+function resolvePath(path: string): string {
+    const parts: string[] = [];
+    for (const part of (path.startsWith("/") ? path : `${Deno.cwd()}/${path}`).split("/")) {
+        if (part === "..") {
+            parts.pop();
+        } else if (part && part !== ".") {
+            parts.push(part);
+        }
+    }
+    return `/${parts.join("/")}`;
+}
+
+function dirname(path: string): string {
+    const index = path.lastIndexOf("/");
+    return index > 0 ? path.slice(0, index) : ".";
+}
+
+export function splitCommand(command: string): string[] {
+    return command.trim().split(/\s+/);
+}
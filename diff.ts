@@ -0,0 +1,79 @@
+interface DiffLine {
+    type: " " | "-" | "+";
+    text: string;
+}
+
+// Line-based unified diff (the format produced by `diff -u`), built from the
+// longest common subsequence of both inputs.
+export function unifiedDiff(before: string, after: string, fromLabel: string, toLabel: string, context = 3): string {
+    const lines = diffLines(splitLines(before), splitLines(after));
+    const changes = lines.map((line, index) => line.type === " " ? -1 : index).filter(index => index >= 0);
+    if (changes.length === 0) {
+        return "";
+    }
+
+    // Group changes whose context windows touch into a single hunk
+    const ranges: [number, number][] = [];
+    for (const index of changes) {
+        const start = Math.max(0, index - context);
+        const end = Math.min(lines.length - 1, index + context);
+        const last = ranges[ranges.length - 1];
+        if (last && start <= last[1] + 1) {
+            last[1] = end;
+        } else {
+            ranges.push([start, end]);
+        }
+    }
+
+    let output = `--- ${fromLabel}\n+++ ${toLabel}\n`;
+    for (const [start, end] of ranges) {
+        const before = lines.slice(0, start);
+        const hunk = lines.slice(start, end + 1);
+        const oldOffset = before.filter(line => line.type !== "+").length;
+        const newOffset = before.filter(line => line.type !== "-").length;
+        const oldLength = hunk.filter(line => line.type !== "+").length;
+        const newLength = hunk.filter(line => line.type !== "-").length;
+
+        output += `@@ -${oldOffset + (oldLength ? 1 : 0)},${oldLength} +${newOffset + (newLength ? 1 : 0)},${newLength} @@\n`;
+        output += hunk.map(line => `${line.type}${line.text}\n`).join("");
+    }
+    return output;
+}
+
+function diffLines(a: string[], b: string[]): DiffLine[] {
+    // lcs[i][j] holds the LCS length of a[i..] and b[j..]
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const lines: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            lines.push({ type: " ", text: a[i++] });
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            lines.push({ type: "-", text: a[i++] });
+        } else {
+            lines.push({ type: "+", text: b[j++] });
+        }
+    }
+    while (i < a.length) {
+        lines.push({ type: "-", text: a[i++] });
+    }
+    while (j < b.length) {
+        lines.push({ type: "+", text: b[j++] });
+    }
+    return lines;
+}
+
+function splitLines(text: string): string[] {
+    if (text === "") {
+        return [];
+    }
+    return text.replace(/\n$/, "").split("\n");
+}
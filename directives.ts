@@ -0,0 +1,119 @@
+// Writes config values as nginx directive arguments. nginx splits a directive
+// at whitespace, ends it at ";", opens and closes blocks at "{" and "}" and
+// starts a comment at "#", unless those appear in a quoted argument; every
+// value the generator writes goes through here, so none of them can end its
+// directive or block early.
+
+export class UnsafeValueError extends Error {
+    constructor(public value: string) {
+        super(`Control characters cannot be written to nginx configs: ${JSON.stringify(value)}`);
+        this.name = "UnsafeValueError";
+    }
+}
+
+// Which extraDirectives configs sent to the API may hold: any, none, or only
+// the listed directives (nested ones included)
+export type ExtraDirectivesPolicy = "all" | "none" | string[];
+
+const CONTROL_CHARACTERS = /[\x00-\x1f\x7f]/;
+
+const MAP_PARAMETERS = ["default", "hostnames", "include", "volatile"];
+
+// Escapes the nginx lexer resolves in quoted and unquoted words alike
+const ESCAPES: Record<string, string> = { '"': '"', "'": "'", "\\": "\\", t: "\t", r: "\r", n: "\n" };
+
+export function hasControlCharacters(value: string): boolean {
+    return CONTROL_CHARACTERS.test(value);
+}
+
+// Quotes a value only when nginx would otherwise read it differently.
+// Backslashes nginx would take for an escape are doubled; single quotes are
+// used for values with double quotes in them, such as log formats.
+export function quoteArgument(value: string): string {
+    if (value !== "" && !/[\s;{}"'#]|\\(["'\\trn]|$)/.test(value)) {
+        return value;
+    }
+    const quote = value.includes('"') && !value.includes("'") ? "'" : '"';
+    const escaped = value
+        .replace(/\\(?=["'\\trn]|$)/g, "\\\\")
+        .replace(new RegExp(quote, "g"), `\\${quote}`)
+        .replace(/\n/g, "\\n")
+        .replace(/\r/g, "\\r")
+        .replace(/\t/g, "\\t");
+    return `${quote}${escaped}${quote}`;
+}
+
+// A value as a single argument, e.g. a root or proxy_pass URL
+export function arg(value: string | number): string {
+    const text = String(value);
+    if (hasControlCharacters(text)) {
+        throw new UnsafeValueError(text);
+    }
+    return quoteArgument(text);
+}
+
+// A map source value as an argument. nginx drops one leading backslash from
+// a map source value, which is how values spelled like the map parameters
+// (include, default, hostnames, volatile) are told apart from them
+export function mapKey(value: string): string {
+    const escape = MAP_PARAMETERS.includes(value) || value.startsWith("\\");
+    return arg(escape ? `\\${value}` : value);
+}
+
+// A space separated list of arguments, e.g. server names or try_files, split
+// the way nginx splits them: quotes keep an argument with spaces together
+export function args(value: string | string[]): string {
+    const values = Array.isArray(value) ? value : [value];
+    values.forEach(text => {
+        if (hasControlCharacters(text)) {
+            throw new UnsafeValueError(text);
+        }
+    });
+    return values.flatMap(splitArguments).map(quoteArgument).join(" ");
+}
+
+// The arguments of a space separated list, with quotes and escapes resolved
+export function splitArguments(value: string): string[] {
+    const words: string[] = [];
+    let pos = 0;
+    while (pos < value.length) {
+        if (/\s/.test(value[pos])) {
+            pos++;
+            continue;
+        }
+        const quote = value[pos] === '"' || value[pos] === "'" ? value[pos++] : undefined;
+        let word = "";
+        while (pos < value.length) {
+            const c = value[pos++];
+            if (quote ? c === quote : /\s/.test(c)) {
+                break;
+            }
+            if (c === "\\" && pos < value.length) {
+                const escaped = value[pos++];
+                word += ESCAPES[escaped] ?? `\\${escaped}`;
+            } else {
+                word += c;
+            }
+        }
+        words.push(word);
+    }
+    return words;
+}
+
+// EXTRA_DIRECTIVES: "all" (the default), "none", or directive names
+// separated by commas
+export function parseExtraDirectivesPolicy(value: string | undefined): ExtraDirectivesPolicy {
+    const setting = value?.trim() || "all";
+    if (setting === "all" || setting === "none") {
+        return setting;
+    }
+    return setting.split(",").map(name => name.trim()).filter(Boolean);
+}
+
+// Text for a "# ..." comment line, which only a line break could end early
+export function commentText(value: string): string {
+    if (hasControlCharacters(value)) {
+        throw new UnsafeValueError(value);
+    }
+    return value;
+}
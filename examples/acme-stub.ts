@@ -0,0 +1,423 @@
+// Minimal RFC 8555 server in the spirit of Pebble, used to run
+// tools/ssl-generator.ts end to end without a real CA:
+//
+//   luwak examples/acme-stub.ts --port 14000 --http-port 5002 &
+//   luwak tools/ssl-generator.ts --directory http://127.0.0.1:14000/dir \
+//     --http-port 5002 -d example.com,www.example.com -e admin@example.com
+//
+// JWS signatures, nonces and request URLs are checked like a real CA would.
+// http-01 challenges are validated against 127.0.0.1:<http-port> whatever
+// the domain is; dns-01 challenges by looking up the TXT record, through
+// --dns-resolver <ip:port> when given (see examples/dns-stub.ts). Wildcard
+// names are offered dns-01 only. Certificates are issued by a throwaway CA
+// created at startup. Nothing is persisted.
+
+import { parse as parseFlags } from "https://deno.land/std/flags/mod.ts";
+import { decode as decodeBase64Url, encode as encodeBase64Url } from "https://deno.land/std/encoding/base64url.ts";
+import { serve } from "https://deno.land/std/http/server.ts";
+import {
+  bitString,
+  boolean,
+  DerNode,
+  integer,
+  name,
+  nullValue,
+  OID,
+  octetString,
+  oid,
+  readDer,
+  readOid,
+  sequence,
+  subjectAltName,
+  tagged,
+  time,
+  toPem,
+} from "../tools/x509.ts";
+import { parseHostPort } from "../tools/dns.ts";
+
+const flags = parseFlags(Deno.args, {
+  string: ["port", "http-port", "validity-days", "dns-resolver"],
+  default: { port: "14000", "http-port": "5002", "validity-days": "90" },
+});
+const port = Number(flags.port);
+const httpPort = Number(flags["http-port"]);
+const validityDays = Number(flags["validity-days"]);
+const dnsResolver = flags["dns-resolver"] ? parseHostPort(flags["dns-resolver"], 53) : undefined;
+const base = `http://127.0.0.1:${port}`;
+
+const KEY_ALGORITHM: RsaHashedKeyGenParams = {
+  name: "RSASSA-PKCS1-v1_5",
+  modulusLength: 2048,
+  publicExponent: new Uint8Array([1, 0, 1]),
+  hash: "SHA-256",
+};
+
+interface Order {
+  status: string;
+  expires: string;
+  identifiers: { type: string; value: string }[];
+  authorizations: string[];
+  finalize: string;
+  certificate?: string;
+  error?: Problem;
+  account: string;
+}
+
+interface Authorization {
+  status: string;
+  identifier: { type: string; value: string };
+  challenges: Challenge[];
+  wildcard?: boolean;
+  account: string;
+}
+
+interface Challenge {
+  type: string;
+  url: string;
+  token: string;
+  status: string;
+  error?: Problem;
+}
+
+interface Problem {
+  type: string;
+  detail: string;
+}
+
+const accounts = new Map<string, { jwk: JsonWebKey; key: CryptoKey; thumbprint: string }>();
+const orders = new Map<string, Order>();
+const authorizations = new Map<string, Authorization>();
+const certificates = new Map<string, string>();
+const nonces = new Set<string>();
+let serial = 1;
+
+const caKeys = await crypto.subtle.generateKey(KEY_ALGORITHM, true, ["sign", "verify"]) as CryptoKeyPair;
+const caName = name("Luwak ACME stub CA");
+const caCertificate = await issue(
+  caName,
+  new Uint8Array(await crypto.subtle.exportKey("spki", caKeys.publicKey)),
+  sequence(oid(OID.basicConstraints), boolean(true), octetString(sequence(boolean(true)))),
+);
+
+function id(): string {
+  return encodeBase64Url(crypto.getRandomValues(new Uint8Array(12)));
+}
+
+function newNonce(): string {
+  const nonce = id();
+  nonces.add(nonce);
+  return nonce;
+}
+
+function reply(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(typeof body === "string" ? body : JSON.stringify(body, null, 2), {
+    status,
+    headers: {
+      "Content-Type": typeof body === "string" ? "application/pem-certificate-chain" : "application/json",
+      "Replay-Nonce": newNonce(),
+      "Cache-Control": "no-store",
+      ...headers,
+    },
+  });
+}
+
+function problem(type: string, detail: string, status = 400): Response {
+  return new Response(JSON.stringify({ type: `urn:ietf:params:acme:error:${type}`, detail }), {
+    status,
+    headers: { "Content-Type": "application/problem+json", "Replay-Nonce": newNonce() },
+  });
+}
+
+async function thumbprint(jwk: JsonWebKey): Promise<string> {
+  const { e, kty, n } = jwk;
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(JSON.stringify({ e, kty, n })));
+  return encodeBase64Url(new Uint8Array(digest));
+}
+
+// Checks the JWS envelope and returns the payload (null for POST-as-GET)
+// together with the account URL, or a problem response
+async function verify(req: Request, url: string): Promise<{ payload: any; account?: string; jwk?: JsonWebKey } | Response> {
+  const body = await req.json().catch(() => null);
+  if (!body?.protected || body.payload === undefined || !body.signature) {
+    return problem("malformed", "Request body is not a flattened JWS");
+  }
+
+  const decoder = new TextDecoder();
+  const header = JSON.parse(decoder.decode(decodeBase64Url(body.protected)));
+  if (!nonces.delete(header.nonce)) {
+    return problem("badNonce", "Unknown or reused nonce");
+  }
+  if (header.url !== url) {
+    return problem("unauthorized", `JWS url '${header.url}' does not match '${url}'`, 401);
+  }
+  if (header.alg !== "RS256") {
+    return problem("badSignatureAlgorithm", `Unsupported algorithm '${header.alg}'`);
+  }
+  if (!!header.jwk === !!header.kid) {
+    return problem("malformed", "Exactly one of jwk and kid is required");
+  }
+
+  const account = header.kid ? accounts.get(header.kid) : undefined;
+  if (header.kid && !account) {
+    return problem("accountDoesNotExist", `Unknown account '${header.kid}'`);
+  }
+  const key = account?.key ?? await crypto.subtle.importKey("jwk", header.jwk, KEY_ALGORITHM, true, ["verify"]);
+  const valid = await crypto.subtle.verify(
+    "RSASSA-PKCS1-v1_5",
+    key,
+    new Uint8Array(decodeBase64Url(body.signature)),
+    new TextEncoder().encode(`${body.protected}.${body.payload}`),
+  );
+  if (!valid) {
+    return problem("malformed", "JWS signature is invalid");
+  }
+
+  const payload = body.payload === "" ? null : JSON.parse(decoder.decode(decodeBase64Url(body.payload)));
+  return { payload, account: header.kid, jwk: header.jwk };
+}
+
+async function validate(authorization: Authorization, challenge: Challenge): Promise<void> {
+  const keyAuthorization = `${challenge.token}.${accounts.get(authorization.account)!.thumbprint}`;
+  try {
+    challenge.error = challenge.type === "dns-01"
+      ? await validateDns(authorization.identifier.value, keyAuthorization)
+      : await validateHttp(challenge.token, keyAuthorization);
+  } catch (error) {
+    challenge.error = { type: "urn:ietf:params:acme:error:connection", detail: error.message };
+  }
+  challenge.status = authorization.status = challenge.error ? "invalid" : "valid";
+}
+
+async function validateHttp(token: string, expected: string): Promise<Problem | undefined> {
+  const response = await fetch(`http://127.0.0.1:${httpPort}/.well-known/acme-challenge/${token}`);
+  const text = (await response.text()).trim();
+  if (response.ok && text === expected) {
+    return undefined;
+  }
+  return {
+    type: "urn:ietf:params:acme:error:incorrectResponse",
+    detail: `Expected '${expected}', got HTTP ${response.status} '${text}'`,
+  };
+}
+
+async function validateDns(domain: string, keyAuthorization: string): Promise<Problem | undefined> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(keyAuthorization));
+  const expected = encodeBase64Url(new Uint8Array(digest));
+  const name = `_acme-challenge.${domain}`;
+  let values: string[] = [];
+  try {
+    const records = await Deno.resolveDns(name, "TXT", dnsResolver && { nameServer: { ipAddr: dnsResolver.hostname, port: dnsResolver.port } });
+    values = records.map((chunks) => chunks.join(""));
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) {
+      return { type: "urn:ietf:params:acme:error:dns", detail: `Looking up ${name} failed: ${error.message}` };
+    }
+  }
+  if (values.includes(expected)) {
+    return undefined;
+  }
+  return {
+    type: "urn:ietf:params:acme:error:incorrectResponse",
+    detail: `No TXT record '${expected}' at ${name} (found: ${values.join(", ") || "none"})`,
+  };
+}
+
+// Reads the public key and the names out of a PKCS#10 request
+function parseCsr(csr: Uint8Array): { publicKey: Uint8Array; domains: string[] } {
+  const info = readDer(csr).children![0];
+  const [, subject, publicKey, attributes] = info.children!;
+  const domains = new Set<string>();
+
+  const cn = subject.children?.[0]?.children?.[0]?.children?.[1];
+  if (cn) domains.add(new TextDecoder().decode(cn.value));
+
+  for (const attribute of attributes?.children || []) {
+    if (readOid(attribute.children![0]) !== OID.extensionRequest) continue;
+    for (const extension of attribute.children![1].children![0].children!) {
+      if (readOid(extension.children![0]) !== OID.subjectAltName) continue;
+      const names: DerNode = readDer(extension.children![extension.children!.length - 1].value);
+      for (const general of names.children || []) {
+        if (general.tag === 0x82) domains.add(new TextDecoder().decode(general.value));
+      }
+    }
+  }
+  return { publicKey: publicKey.raw, domains: [...domains] };
+}
+
+// Signs a certificate for the key with the stub CA
+async function issue(subject: Uint8Array, publicKey: Uint8Array, extension: Uint8Array): Promise<Uint8Array> {
+  const algorithm = sequence(oid(OID.sha256WithRSAEncryption), nullValue());
+  const now = Date.now();
+  const tbs = sequence(
+    tagged(0, true, integer(2)),
+    integer(serial++),
+    algorithm,
+    caName,
+    sequence(time(new Date(now - 60_000)), time(new Date(now + validityDays * 86_400_000))),
+    subject,
+    publicKey,
+    tagged(3, true, sequence(extension)),
+  );
+  const signature = new Uint8Array(await crypto.subtle.sign("RSASSA-PKCS1-v1_5", caKeys.privateKey, tbs));
+  return sequence(tbs, algorithm, bitString(signature));
+}
+
+function orderView(url: string): Record<string, unknown> {
+  const { account: _account, ...order } = orders.get(url)!;
+  return order;
+}
+
+async function handler(req: Request): Promise<Response> {
+  const url = `${base}${new URL(req.url).pathname}`;
+  const path = new URL(req.url).pathname;
+
+  if (path === "/dir") {
+    return Response.json({
+      newNonce: `${base}/nonce`,
+      newAccount: `${base}/new-acct`,
+      newOrder: `${base}/new-order`,
+      revokeCert: `${base}/revoke-cert`,
+      keyChange: `${base}/key-change`,
+    });
+  }
+  if (path === "/nonce") {
+    return new Response(null, { status: req.method === "HEAD" ? 200 : 204, headers: { "Replay-Nonce": newNonce() } });
+  }
+  if (req.method !== "POST") {
+    return problem("malformed", "Only POST is supported", 405);
+  }
+
+  const verified = await verify(req, url);
+  if (verified instanceof Response) {
+    return verified;
+  }
+  const { payload, account, jwk } = verified;
+
+  if (path === "/new-acct") {
+    if (!jwk) {
+      return problem("malformed", "newAccount requires a jwk");
+    }
+    const print = await thumbprint(jwk);
+    for (const [existing, known] of accounts) {
+      if (known.thumbprint === print) {
+        return reply({ status: "valid" }, 200, { Location: existing });
+      }
+    }
+    const accountUrl = `${base}/acct/${id()}`;
+    const key = await crypto.subtle.importKey("jwk", jwk, KEY_ALGORITHM, true, ["verify"]);
+    accounts.set(accountUrl, { jwk, key, thumbprint: print });
+    console.log(`Account ${accountUrl} created for ${payload?.contact?.join(", ") || "no contact"}`);
+    return reply({ status: "valid", contact: payload?.contact || [] }, 201, { Location: accountUrl });
+  }
+
+  if (!account) {
+    return problem("malformed", "Requests other than newAccount must use kid");
+  }
+
+  if (path === "/new-order") {
+    const identifiers = payload?.identifiers || [];
+    if (!identifiers.length || identifiers.some((i: { type: string }) => i.type !== "dns")) {
+      return problem("rejectedIdentifier", "Only dns identifiers are supported");
+    }
+    const orderUrl = `${base}/order/${id()}`;
+    const order: Order = {
+      status: "pending",
+      expires: new Date(Date.now() + 86_400_000).toISOString(),
+      identifiers,
+      authorizations: [],
+      finalize: `${base}/finalize/${id()}`,
+      account,
+    };
+    for (const identifier of identifiers) {
+      const authorizationUrl = `${base}/authz/${id()}`;
+      const wildcard = identifier.value.startsWith("*.");
+      const types = wildcard ? ["dns-01"] : ["http-01", "dns-01"];
+      authorizations.set(authorizationUrl, {
+        status: "pending",
+        identifier: { type: "dns", value: identifier.value.replace(/^\*\./, "") },
+        challenges: types.map((type) => ({ type, url: `${base}/chall/${id()}`, token: id(), status: "pending" })),
+        ...(wildcard && { wildcard }),
+        account,
+      });
+      order.authorizations.push(authorizationUrl);
+    }
+    orders.set(orderUrl, order);
+    return reply(orderView(orderUrl), 201, { Location: orderUrl });
+  }
+
+  if (path.startsWith("/authz/")) {
+    const authorization = authorizations.get(url);
+    if (!authorization || authorization.account !== account) {
+      return problem("malformed", "No such authorization", 404);
+    }
+    const { account: _account, ...view } = authorization;
+    return reply(view);
+  }
+
+  if (path.startsWith("/chall/")) {
+    const authorization = [...authorizations.values()].find((a) => a.challenges.some((c) => c.url === url));
+    if (!authorization || authorization.account !== account) {
+      return problem("malformed", "No such challenge", 404);
+    }
+    const challenge = authorization.challenges.find((c) => c.url === url)!;
+    if (payload && challenge.status === "pending" && authorization.status === "pending") {
+      challenge.status = "processing";
+      validate(authorization, challenge);
+    }
+    return reply(challenge);
+  }
+
+  if (path.startsWith("/order/")) {
+    const order = orders.get(url);
+    if (!order || order.account !== account) {
+      return problem("malformed", "No such order", 404);
+    }
+    if (order.status === "pending") {
+      const states = order.authorizations.map((a) => authorizations.get(a)!.status);
+      if (states.includes("invalid")) order.status = "invalid";
+      else if (states.every((s) => s === "valid")) order.status = "ready";
+    }
+    return reply(orderView(url));
+  }
+
+  if (path.startsWith("/finalize/")) {
+    const [orderUrl, order] = [...orders.entries()].find(([, o]) => o.finalize === url) || [];
+    if (!orderUrl || !order || order.account !== account) {
+      return problem("malformed", "No such order", 404);
+    }
+    if (order.status !== "ready") {
+      return problem("orderNotReady", `Order is '${order.status}', not 'ready'`, 403);
+    }
+
+    let csr;
+    try {
+      csr = parseCsr(decodeBase64Url(payload.csr));
+    } catch (error) {
+      return problem("badCSR", `Cannot parse CSR: ${error.message}`);
+    }
+    const requested = order.identifiers.map((i) => i.value).sort();
+    if (csr.domains.sort().join(",") !== requested.join(",")) {
+      return problem("badCSR", `CSR names [${csr.domains}] do not match the order [${requested}]`);
+    }
+
+    const leaf = await issue(name(requested[0]), csr.publicKey, subjectAltName(order.identifiers.map((i) => i.value)));
+    order.certificate = `${base}/cert/${id()}`;
+    order.status = "valid";
+    certificates.set(order.certificate, toPem("CERTIFICATE", leaf) + toPem("CERTIFICATE", caCertificate));
+    console.log(`Issued certificate for ${requested.join(", ")}`);
+    return reply(orderView(orderUrl), 200, { Location: orderUrl });
+  }
+
+  if (path.startsWith("/cert/")) {
+    const chain = certificates.get(url);
+    return chain ? reply(chain) : problem("malformed", "No such certificate", 404);
+  }
+
+  return problem("malformed", `Unknown resource ${path}`, 404);
+}
+
+console.log(
+  `ACME stub listening on ${base}/dir, validating http-01 on port ${httpPort}` +
+    ` and dns-01 through ${flags["dns-resolver"] || "the system resolver"}`,
+);
+await serve(handler, { port, hostname: "127.0.0.1" });
@@ -0,0 +1,257 @@
+// Authoritative name server for a single zone that accepts RFC 2136 updates
+// of TXT records, used with examples/acme-stub.ts to run the dns-01 flow of
+// tools/ssl-generator.ts without real DNS:
+//
+//   luwak --unstable-net examples/dns-stub.ts --port 5353 --zone example.com &
+//   luwak examples/acme-stub.ts --dns-resolver 127.0.0.1:5353 &
+//   luwak tools/ssl-generator.ts --directory http://127.0.0.1:14000/dir \
+//     --dns-server 127.0.0.1:5353 --dns-resolver 127.0.0.1:5353 \
+//     -d example.com,*.example.com -e admin@example.com
+//
+// Queries are answered over UDP (which needs --unstable-net) and TCP,
+// updates are accepted over TCP. With --tsig-key every update must carry a
+// valid TSIG signature made with that key. Only TXT and SOA records exist.
+
+import { parse as parseFlags } from "https://deno.land/std/flags/mod.ts";
+import {
+  encodeName,
+  messageHeader,
+  parseTsigKey,
+  readExactly,
+  readName,
+  readUint16,
+  RecordClass,
+  RecordType,
+  resourceRecord,
+  tsigMac,
+  TsigKey,
+  txtData,
+  uint16,
+} from "../tools/dns.ts";
+
+const flags = parseFlags(Deno.args, {
+  string: ["port", "zone", "tsig-key"],
+  default: { port: "5353", zone: "example.com" },
+});
+const port = Number(flags.port);
+const zone = flags.zone.toLowerCase().replace(/\.$/, "");
+const tsigKey: TsigKey | null = flags["tsig-key"] ? parseTsigKey(flags["tsig-key"]) : null;
+
+const RCODE = { NOERROR: 0, FORMERR: 1, NXDOMAIN: 3, NOTIMP: 4, REFUSED: 5, NOTAUTH: 9, NOTZONE: 10 };
+
+// Lower-cased owner name to TXT values
+const records = new Map<string, string[]>();
+
+function inZone(name: string): boolean {
+  return name === zone || name.endsWith(`.${zone}`);
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+interface DnsRecord {
+  name: string;
+  type: number;
+  recordClass: number;
+  data: Uint8Array;
+  // Where the record starts in the message
+  offset: number;
+}
+
+function readRecords(message: Uint8Array, offset: number, count: number, question = false): [DnsRecord[], number] {
+  const result: DnsRecord[] = [];
+  for (let i = 0; i < count; i++) {
+    const start = offset;
+    const [name, next] = readName(message, offset);
+    const type = readUint16(message, next);
+    const recordClass = readUint16(message, next + 2);
+    if (question) {
+      result.push({ name: name.toLowerCase(), type, recordClass, data: new Uint8Array(), offset: start });
+      offset = next + 4;
+      continue;
+    }
+    const length = readUint16(message, next + 8);
+    const data = message.subarray(next + 10, next + 10 + length);
+    result.push({ name: name.toLowerCase(), type, recordClass, data, offset: start });
+    offset = next + 10 + length;
+  }
+  return [result, offset];
+}
+
+function readTxt(data: Uint8Array): string {
+  let value = "";
+  for (let offset = 0; offset < data.length; offset += data[offset] + 1) {
+    value += new TextDecoder().decode(data.subarray(offset + 1, offset + 1 + data[offset]));
+  }
+  return value;
+}
+
+function soa(): Uint8Array {
+  const serial = new Uint8Array(20);
+  new DataView(serial.buffer).setUint32(0, Math.floor(Date.now() / 1000));
+  [3600, 600, 86400, 60].forEach((value, i) => new DataView(serial.buffer).setUint32(4 + i * 4, value));
+  return resourceRecord(zone, RecordType.SOA, RecordClass.IN, 60, concat(encodeName(`ns.${zone}`), encodeName(`hostmaster.${zone}`), serial));
+}
+
+function respond(request: Uint8Array, rcode: number, question: Uint8Array = new Uint8Array(), answers: Uint8Array[] = []): Uint8Array {
+  const opcode = (request[2] >> 3) & 0x0f;
+  // QR, the request's opcode and RD, AA
+  const flags = 0x8000 | (opcode << 11) | (request[2] & 0x01) << 8 | 0x0400 | rcode;
+  return concat(
+    messageHeader(readUint16(request, 0), flags, [question.length ? 1 : 0, answers.length, 0, 0]),
+    question,
+    ...answers,
+  );
+}
+
+function query(message: Uint8Array): Uint8Array {
+  const [[question], end] = readRecords(message, 12, 1, true);
+  const questionBytes = message.subarray(12, end);
+  if (!inZone(question.name)) {
+    return respond(message, RCODE.REFUSED, questionBytes);
+  }
+
+  const answers: Uint8Array[] = [];
+  if (question.type === RecordType.SOA && question.name === zone) {
+    answers.push(soa());
+  }
+  if (question.type === RecordType.TXT) {
+    for (const value of records.get(question.name) || []) {
+      answers.push(resourceRecord(question.name, RecordType.TXT, RecordClass.IN, 60, txtData(value)));
+    }
+  }
+  const exists = question.name === zone || records.has(question.name);
+  return respond(message, exists ? RCODE.NOERROR : RCODE.NXDOMAIN, questionBytes, answers);
+}
+
+// RFC 8945, 5.2: the MAC is computed over the message without the TSIG
+// record, with the additional count decremented and the original ID
+async function verifyTsig(message: Uint8Array, additional: DnsRecord[]): Promise<string | null> {
+  const tsig = additional[additional.length - 1];
+  if (!tsig || tsig.type !== RecordType.TSIG) {
+    return "update is not signed";
+  }
+  if (tsig.name !== tsigKey!.name.toLowerCase()) {
+    return `unknown key '${tsig.name}'`;
+  }
+
+  const data = tsig.data;
+  const [algorithm, next] = readName(data, 0);
+  const timeSigned = readUint16(data, next) * 2 ** 32 + new DataView(data.buffer, data.byteOffset + next + 2, 4).getUint32(0);
+  const fudge = readUint16(data, next + 6);
+  const macSize = readUint16(data, next + 8);
+  const mac = data.subarray(next + 10, next + 10 + macSize);
+  const originalId = data.subarray(next + 10 + macSize, next + 12 + macSize);
+  if (algorithm.toLowerCase() !== tsigKey!.algorithm) {
+    return `algorithm '${algorithm}' does not match the key`;
+  }
+  if (Math.abs(Date.now() / 1000 - timeSigned) > fudge) {
+    return "signature time is outside the fudge window";
+  }
+
+  const unsigned = message.slice(0, tsig.offset);
+  unsigned.set(originalId, 0);
+  unsigned.set(uint16(additional.length - 1), 10);
+  const expected = await tsigMac(tsigKey!, unsigned, timeSigned, fudge);
+  if (expected.length !== mac.length || expected.some((byte, i) => byte !== mac[i])) {
+    return "signature does not match";
+  }
+  return null;
+}
+
+async function update(message: Uint8Array): Promise<Uint8Array> {
+  const counts = [4, 6, 8, 10].map((offset) => readUint16(message, offset));
+  const [[zoneRecord], afterZone] = readRecords(message, 12, counts[0], true);
+  const [, afterPrerequisites] = readRecords(message, afterZone, counts[1]);
+  const [updates, afterUpdates] = readRecords(message, afterPrerequisites, counts[2]);
+  const [additional] = readRecords(message, afterUpdates, counts[3]);
+
+  if (zoneRecord?.name !== zone) {
+    return respond(message, RCODE.NOTAUTH);
+  }
+  if (tsigKey) {
+    const failure = await verifyTsig(message, additional);
+    if (failure) {
+      console.log(`Rejected update: ${failure}`);
+      return respond(message, RCODE.NOTAUTH);
+    }
+  }
+  if (updates.some((record) => !inZone(record.name))) {
+    return respond(message, RCODE.NOTZONE);
+  }
+
+  for (const record of updates) {
+    const values = records.get(record.name) || [];
+    if (record.recordClass === RecordClass.ANY) {
+      records.delete(record.name);
+      console.log(`Deleted ${record.name}`);
+      continue;
+    }
+    if (record.type !== RecordType.TXT) {
+      return respond(message, RCODE.NOTIMP);
+    }
+    const value = readTxt(record.data);
+    if (record.recordClass === RecordClass.NONE) {
+      const remaining = values.filter((v) => v !== value);
+      remaining.length ? records.set(record.name, remaining) : records.delete(record.name);
+      console.log(`Deleted ${record.name} TXT "${value}"`);
+    } else if (!values.includes(value)) {
+      records.set(record.name, [...values, value]);
+      console.log(`Added ${record.name} TXT "${value}"`);
+    }
+  }
+  return respond(message, RCODE.NOERROR);
+}
+
+async function handle(message: Uint8Array): Promise<Uint8Array> {
+  try {
+    const opcode = (message[2] >> 3) & 0x0f;
+    if (opcode === 0) return query(message);
+    if (opcode === 5) return await update(message);
+    return respond(message, RCODE.NOTIMP);
+  } catch (error) {
+    console.log(`Malformed message: ${error.message}`);
+    return respond(message, RCODE.FORMERR);
+  }
+}
+
+async function serveTcp(): Promise<void> {
+  for await (const conn of Deno.listen({ hostname: "127.0.0.1", port })) {
+    (async () => {
+      try {
+        for (;;) {
+          const length = readUint16(await readExactly(conn, 2), 0);
+          const response = await handle(await readExactly(conn, length));
+          await conn.write(concat(uint16(response.length), response));
+        }
+      } catch {
+        // Client closed the connection
+      } finally {
+        conn.close();
+      }
+    })();
+  }
+}
+
+async function serveUdp(): Promise<void> {
+  // deno-lint-ignore no-explicit-any
+  const listenDatagram = (Deno as any).listenDatagram;
+  if (!listenDatagram) {
+    console.log("UDP is not available without --unstable-net; answering over TCP only");
+    return;
+  }
+  const socket = listenDatagram({ transport: "udp", hostname: "127.0.0.1", port });
+  for await (const [message, address] of socket) {
+    await socket.send(await handle(message), address);
+  }
+}
+
+console.log(`DNS stub for ${zone} listening on 127.0.0.1:${port}${tsigKey ? `, updates signed with ${tsigKey.name}` : ""}`);
+await Promise.all([serveTcp(), serveUdp()]);
@@ -1,20 +1,9 @@
 #!/bin/bash
 
 # Example script to generate SSL certificates for multiple domains
-
-# Start the challenge server (requires root for port 80)
-sudo luwak ../tools/challenge-server.ts &
-CHALLENGE_PID=$!
-
-# Function to clean up challenge server
-cleanup() {
-  echo "Stopping challenge server..."
-  sudo kill $CHALLENGE_PID
-  exit
-}
-
-# Set up trap for cleanup
-trap cleanup EXIT INT TERM
+#
+# ssl-generator.ts serves the http-01 challenges itself on port 80, so this
+# needs to run as root (or with --http-port behind a forwarding rule).
 
 # Generate certificates for domains
 DOMAINS=(
@@ -45,5 +34,3 @@ for domain in "${DOMAINS[@]}"; do
       --output "$OUTPUT_DIR"
   fi
 done
-
-# Clean up will happen automatically due to trap
\ No newline at end of file
@@ -0,0 +1,45 @@
+#!/bin/bash
+
+# Stand-in for the nginx binary, used to exercise the deploy pipeline without
+# nginx installed:
+#
+#   NGINX_BIN=./examples/nginx-stub.sh NGINX_SITES_DIR=/tmp/sites luwak main.ts
+#
+# "nginx -t" fails when any .conf file in NGINX_SITES_DIR contains the text in
+# NGINX_STUB_FAIL_PATTERN (default: "stub_fail"); with "-c FILE" the .conf
+# files below the directory of FILE are checked as well, which is how staged
+# copies are tested. "nginx -s reload" fails when NGINX_STUB_RELOAD_FAIL is
+# set. Invocations are appended to NGINX_STUB_LOG.
+
+SITES_DIR="${NGINX_SITES_DIR:-.}"
+FAIL_PATTERN="${NGINX_STUB_FAIL_PATTERN:-stub_fail}"
+
+if [ -n "$NGINX_STUB_LOG" ]; then
+  echo "nginx $*" >> "$NGINX_STUB_LOG"
+fi
+
+case "$1" in
+  -t)
+    confs=$(ls "$SITES_DIR"/*.conf 2>/dev/null)
+    if [ "$2" = "-c" ] && [ -n "$3" ] && [ -d "$(dirname "$3")" ]; then
+      confs="$confs $(find "$(dirname "$3")" -name '*.conf' \( -type f -o -type l \) | sort)"
+    fi
+    for conf in $confs; do
+      [ -e "$conf" ] || continue
+      line=$(grep -n -m 1 -F "$FAIL_PATTERN" "$conf" | cut -d: -f1)
+      if [ -n "$line" ]; then
+        echo "nginx: [emerg] unknown directive \"$FAIL_PATTERN\" in $conf:$line" >&2
+        echo "nginx: configuration file test failed" >&2
+        exit 1
+      fi
+    done
+    echo "nginx: the configuration file syntax is ok" >&2
+    echo "nginx: configuration file test is successful" >&2
+    ;;
+  -s)
+    if [ -n "$NGINX_STUB_RELOAD_FAIL" ]; then
+      echo "nginx: [error] invalid PID number \"\" in \"/run/nginx.pid\"" >&2
+      exit 1
+    fi
+    ;;
+esac
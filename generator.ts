@@ -1,32 +1,170 @@
-import { NginxConfig } from "./types.ts";
+import { AccessRule, AcmeChallengeConfig, HostRedirect, IpList, LocationAuth, NginxConfig, RealIpConfig, SharedZones, VariableMap } from "./types.ts";
+import { htpasswdPath } from "./htpasswd.ts";
+import { defaultRedirectTarget, hostRedirects } from "./redirects.ts";
+import { listenArguments, redirectListeners, secondaryListeners, siteListeners } from "./listeners.ts";
+import { logDirectives, logFormatArguments, logFormatName, siteLogFormats, skipLogMap } from "./logging.ts";
+import { arg, args, mapKey } from "./directives.ts";
 
-export function generateNginxConfig(config: NginxConfig): string {
+// Sites with more exact redirects than this look them up in a map instead of
+// getting a location each, which keeps migrations with thousands of old URLs
+// to a single hash lookup
+export const BULK_REDIRECTS = 20;
+
+// Renders the upstream, rate limit and cache zone declarations. These live in
+// the http context, either at the top of a site file or in nginx.conf itself.
+// IP lists are not rendered themselves; geo entries that name one are
+// expanded from ipLists.
+export function generateSharedBlocks(zones: SharedZones, ipLists: Record<string, IpList> = zones.ipLists || {}): string {
   let nginxConfig = '';
 
+  // Generate map blocks if defined
+  if (zones.maps) {
+    for (const [name, map] of Object.entries(zones.maps)) {
+      nginxConfig += `map ${arg(map.source)} ${arg(`$${name}`)} {\n`;
+      if (map.hostnames) nginxConfig += '    hostnames;\n';
+      if (map.volatile) nginxConfig += '    volatile;\n';
+      if (map.default !== undefined) nginxConfig += `    default ${arg(map.default)};\n`;
+      map.entries.forEach(entry => {
+        nginxConfig += `    ${mapKey(entry.match)} ${arg(entry.value)};\n`;
+      });
+      nginxConfig += '}\n\n';
+    }
+  }
+
+  if (zones.geo) {
+    for (const [name, geo] of Object.entries(zones.geo)) {
+      nginxConfig += `geo ${geo.source ? `${arg(geo.source)} ` : ''}${arg(`$${name}`)} {\n`;
+      if (geo.default !== undefined) nginxConfig += `    default ${arg(geo.default)};\n`;
+      geo.entries.forEach(entry => {
+        const addresses = entry.list ? ipLists[entry.list] || [] : [entry.address];
+        addresses.forEach(address => {
+          nginxConfig += `    ${arg(address!)} ${arg(entry.value)};\n`;
+        });
+      });
+      nginxConfig += '}\n\n';
+    }
+  }
+
   // Generate upstream blocks if defined
-  if (config.upstreams) {
-    for (const [name, servers] of Object.entries(config.upstreams)) {
-      nginxConfig += `upstream ${name} {\n`;
-      servers.forEach(server => {
-        let serverConfig = `    server ${server.address}`;
-        if (server.weight) serverConfig += ` weight=${server.weight}`;
-        if (server.maxFails) serverConfig += ` max_fails=${server.maxFails}`;
-        if (server.failTimeout) serverConfig += ` fail_timeout=${server.failTimeout}`;
+  if (zones.upstreams) {
+    for (const [name, upstream] of Object.entries(zones.upstreams)) {
+      nginxConfig += `upstream ${arg(name)} {\n`;
+      if (upstream.zone) {
+        nginxConfig += `    zone ${arg(upstream.zone)} ${arg(upstream.zoneSize || '64k')};\n`;
+      }
+      const balancing = upstream.loadBalancing;
+      if (balancing?.method === 'least_conn' || balancing?.method === 'ip_hash') {
+        nginxConfig += `    ${balancing.method};\n`;
+      } else if (balancing?.method === 'hash') {
+        nginxConfig += `    hash ${arg(balancing.key!)}${balancing.consistent ? ' consistent' : ''};\n`;
+      } else if (balancing?.method === 'random') {
+        let randomConfig = '    random';
+        if (balancing.two) {
+          randomConfig += ' two';
+          if (balancing.twoMethod) randomConfig += ` ${arg(balancing.twoMethod)}`;
+        }
+        nginxConfig += randomConfig + ';\n';
+      }
+      upstream.servers.forEach(server => {
+        let serverConfig = `    server ${arg(server.address)}`;
+        if (server.weight) serverConfig += ` ${arg(`weight=${server.weight}`)}`;
+        if (server.maxFails) serverConfig += ` ${arg(`max_fails=${server.maxFails}`)}`;
+        if (server.failTimeout) serverConfig += ` ${arg(`fail_timeout=${server.failTimeout}`)}`;
+        if (server.maxConns) serverConfig += ` ${arg(`max_conns=${server.maxConns}`)}`;
+        if (server.slowStart) serverConfig += ` ${arg(`slow_start=${server.slowStart}`)}`;
+        if (server.backup) serverConfig += ' backup';
+        if (server.down) serverConfig += ' down';
         nginxConfig += serverConfig + ';\n';
       });
+      if (upstream.keepalive) {
+        nginxConfig += `    keepalive ${arg(upstream.keepalive)};\n`;
+        if (upstream.keepaliveRequests) {
+          nginxConfig += `    keepalive_requests ${arg(upstream.keepaliveRequests)};\n`;
+        }
+        if (upstream.keepaliveTimeout) {
+          nginxConfig += `    keepalive_timeout ${arg(upstream.keepaliveTimeout)};\n`;
+        }
+      }
       nginxConfig += '}\n\n';
     }
   }
 
-  // Generate HTTP to HTTPS redirect if needed
-  if (config.ssl?.forceRedirect) {
+  // Generate rate limit zones if defined
+  if (zones.rateLimitZones) {
+    for (const [name, zone] of Object.entries(zones.rateLimitZones)) {
+      nginxConfig += `limit_req_zone ${arg(zone.key)} ${arg(`zone=${name}:${zone.size || '10m'}`)} ${arg(`rate=${zone.rate}`)};\n`;
+    }
+    nginxConfig += '\n';
+  }
+
+  if (zones.connectionLimitZones) {
+    for (const [name, zone] of Object.entries(zones.connectionLimitZones)) {
+      nginxConfig += `limit_conn_zone ${arg(zone.key)} ${arg(`zone=${name}:${zone.size || '10m'}`)};\n`;
+    }
+    nginxConfig += '\n';
+  }
+
+  // Generate cache zones if defined
+  if (zones.cacheZones) {
+    for (const [name, zone] of Object.entries(zones.cacheZones)) {
+      let cachePath = `proxy_cache_path ${arg(zone.path)} ${arg(`levels=${zone.levels || '1:2'}`)} ${arg(`keys_zone=${name}:${zone.keysZoneSize || '10m'}`)}`;
+      if (zone.maxSize) cachePath += ` ${arg(`max_size=${zone.maxSize}`)}`;
+      if (zone.inactive) cachePath += ` ${arg(`inactive=${zone.inactive}`)}`;
+      if (zone.useTempPath !== undefined) cachePath += ` use_temp_path=${zone.useTempPath ? 'on' : 'off'}`;
+      nginxConfig += cachePath + ';\n';
+    }
+    nginxConfig += '\n';
+  }
+
+  return nginxConfig;
+}
+
+export function generateNginxConfig(config: NginxConfig, shared: SharedZones = {}): string {
+  let nginxConfig = '';
+  const ipLists = { ...shared.ipLists, ...config.ipLists };
+
+  nginxConfig += generateSharedBlocks(config, ipLists);
+
+  // Log formats have to be declared before the servers using them
+  const logFormats = Object.entries(siteLogFormats(config, shared));
+  if (logFormats.length) {
+    nginxConfig += logFormats.map(([name, format]) => `log_format ${arg(name)} ${logFormatArguments(format)};\n`).join('') + '\n';
+  }
+  const formatName = (format: string) => logFormatName(config, shared, format);
+  const skipLog = skipLogMap(config);
+
+  const redirects = generateRedirects(config);
+  nginxConfig += generateSharedBlocks({ maps: { ...redirects.maps, ...(skipLog && { [skipLog.variable]: skipLog.map }) } });
+
+  const acmeChallenge = config.acmeChallenge ? generateAcmeChallengeLocation(config.acmeChallenge) : '';
+
+  // Generate HTTP to HTTPS redirect if needed. With an ACME challenge
+  // location the redirect moves into `location /`, since a server-level
+  // return would answer before any location is matched.
+  const redirectListen = redirectListeners(config).map(l => `    listen ${listenArguments(l)};\n`).join('');
+  if (config.ssl?.forceRedirect && acmeChallenge) {
     nginxConfig += `server {
-    listen 80;
-    server_name ${config.serverName};
+${redirectListen}    server_name ${args(config.serverName)};
+
+${acmeChallenge}
+    location / {
+        return 301 https://$server_name$request_uri;
+    }
+}\n\n`;
+  } else if (config.ssl?.forceRedirect) {
+    nginxConfig += `server {
+${redirectListen}    server_name ${args(config.serverName)};
     return 301 https://$server_name$request_uri;
 }\n\n`;
   }
 
+  for (const redirect of hostRedirects(config)) {
+    nginxConfig += generateHostRedirect(config, redirect, acmeChallenge);
+  }
+
+  // Microservice routes are appended to a copy so the input config is left untouched
+  const locationList = [...config.locations];
+
   // Generate microservices routes if defined
   if (config.microservices) {
     config.microservices.forEach(ms => {
@@ -37,7 +175,7 @@ export function generateNginxConfig(config: NginxConfig): string {
       };
 
       if (ms.rewrite) {
-        location.extraDirectives?.push(`rewrite ${ms.rewrite}`);
+        location.extraDirectives?.push(`rewrite ${args(ms.rewrite)}`);
       }
 
       if (ms.stripPath) {
@@ -45,34 +183,42 @@ export function generateNginxConfig(config: NginxConfig): string {
       }
 
       if (ms.methods) {
-        location.extraDirectives?.push(`limit_except ${ms.methods.join(' ')} { deny all; }`);
+        location.extraDirectives?.push(`limit_except ${args(ms.methods)} { deny all; }`);
       }
 
       if (ms.cors?.enabled) {
         location.extraDirectives?.push(
-          `add_header 'Access-Control-Allow-Origin' '${ms.cors.origins?.join(' ') || '*'}'`,
-          `add_header 'Access-Control-Allow-Methods' '${ms.cors.methods?.join(' ') || 'GET, POST, OPTIONS'}'`,
-          `add_header 'Access-Control-Allow-Headers' '${ms.cors.headers?.join(' ') || 'DNT,X-CustomHeader,Keep-Alive,User-Agent,X-Requested-With,If-Modified-Since,Cache-Control,Content-Type'}'`
+          `add_header Access-Control-Allow-Origin ${arg(ms.cors.origins?.join(' ') || '*')}`,
+          `add_header Access-Control-Allow-Methods ${arg(ms.cors.methods?.join(', ') || 'GET, POST, OPTIONS')}`,
+          `add_header Access-Control-Allow-Headers ${arg(ms.cors.headers?.join(', ') || 'DNT,X-CustomHeader,Keep-Alive,User-Agent,X-Requested-With,If-Modified-Since,Cache-Control,Content-Type')}`
         );
         if (ms.cors.credentials) {
-          location.extraDirectives?.push(`add_header 'Access-Control-Allow-Credentials' 'true'`);
+          location.extraDirectives?.push('add_header Access-Control-Allow-Credentials true');
         }
       }
 
-      config.locations.push(location);
+      locationList.push(location);
     });
   }
 
   // Generate location blocks
-  const locations = config.locations.map(loc => {
-    let locationConfig = `    location ${loc.path} {\n`;
+  const locations = locationList.map(loc => {
+    let locationConfig = `    location ${args(loc.path)} {\n`;
     
     if (loc.proxyPass) {
-      locationConfig += `        proxy_pass ${loc.proxyPass};\n`;
-      locationConfig += `        proxy_set_header Host $host;\n`;
-      locationConfig += `        proxy_set_header X-Real-IP $remote_addr;\n`;
-      locationConfig += `        proxy_set_header X-Forwarded-For $proxy_add_x_forwarded_for;\n`;
-      locationConfig += `        proxy_set_header X-Forwarded-Proto $scheme;\n`;
+      locationConfig += `        proxy_pass ${arg(loc.proxyPass)};\n`;
+      if (loc.proxyHeaders !== false) {
+        locationConfig += `        proxy_set_header Host $host;\n`;
+        locationConfig += `        proxy_set_header X-Real-IP $remote_addr;\n`;
+        locationConfig += `        proxy_set_header X-Forwarded-For $proxy_add_x_forwarded_for;\n`;
+        locationConfig += `        proxy_set_header X-Forwarded-Proto $scheme;\n`;
+      }
+    }
+
+    // Upstream keepalive connections require HTTP/1.1 and an empty Connection header
+    if (loc.proxyPass && !loc.websocket?.enabled && (config.upstreams?.[upstreamName(loc.proxyPass)] || shared.upstreams?.[upstreamName(loc.proxyPass)])?.keepalive) {
+      locationConfig += `        proxy_http_version 1.1;\n`;
+      locationConfig += `        proxy_set_header Connection "";\n`;
     }
 
     if (loc.websocket?.enabled) {
@@ -80,140 +226,207 @@ export function generateNginxConfig(config: NginxConfig): string {
       locationConfig += `        proxy_set_header Upgrade $http_upgrade;\n`;
       locationConfig += `        proxy_set_header Connection "upgrade";\n`;
       if (loc.websocket.timeout) {
-        locationConfig += `        proxy_read_timeout ${loc.websocket.timeout}s;\n`;
+        locationConfig += `        proxy_read_timeout ${arg(`${loc.websocket.timeout}s`)};\n`;
       }
       if (loc.websocket.keepaliveTimeout) {
-        locationConfig += `        proxy_send_timeout ${loc.websocket.keepaliveTimeout}s;\n`;
-        locationConfig += `        proxy_read_timeout ${loc.websocket.keepaliveTimeout}s;\n`;
+        locationConfig += `        proxy_send_timeout ${arg(`${loc.websocket.keepaliveTimeout}s`)};\n`;
+        if (!loc.websocket.timeout) {
+          locationConfig += `        proxy_read_timeout ${arg(`${loc.websocket.keepaliveTimeout}s`)};\n`;
+        }
       }
     }
 
+    if (loc.authEndpoint) {
+      locationConfig += '        internal;\n';
+      locationConfig += '        proxy_pass_request_body off;\n';
+      locationConfig += '        proxy_set_header Content-Length "";\n';
+      locationConfig += '        proxy_set_header X-Original-URI $request_uri;\n';
+      locationConfig += '        proxy_set_header X-Original-Method $request_method;\n';
+    }
+
+    if (loc.auth) {
+      locationConfig += generateLocationAuth(loc.auth, htpasswdPath(config.domain, loc.path), !loc.proxyPass && !!loc.php?.enabled);
+    }
+
+    const locationAccess = [
+      ...denyCategoryDirectives(loc.denyCategories),
+      ...accessDirectives(loc.access, ipLists)
+    ];
+    locationConfig += locationAccess.map(d => `        ${terminate(d)}\n`).join('');
+
     if (loc.root) {
-      locationConfig += `        root ${loc.root};\n`;
+      locationConfig += `        root ${arg(loc.root)};\n`;
     }
 
     if (loc.index) {
-      locationConfig += `        index ${loc.index};\n`;
+      locationConfig += `        index ${args(loc.index)};\n`;
     }
 
     if (loc.try_files) {
-      locationConfig += `        try_files ${loc.try_files};\n`;
+      locationConfig += `        try_files ${args(loc.try_files)};\n`;
     }
 
     // PHP configuration
     if (loc.php?.enabled) {
-      locationConfig += `        fastcgi_pass ${loc.php.socketPath || 'unix:/var/run/php/php-fpm.sock'};\n`;
+      locationConfig += `        fastcgi_pass ${arg(loc.php.socketPath || 'unix:/var/run/php/php-fpm.sock')};\n`;
       locationConfig += '        fastcgi_index index.php;\n';
       locationConfig += '        include fastcgi_params;\n';
       if (loc.php.extraParams) {
         Object.entries(loc.php.extraParams).forEach(([key, value]) => {
-          locationConfig += `        fastcgi_param ${key} ${value};\n`;
+          locationConfig += `        fastcgi_param ${arg(key)} ${arg(value)};\n`;
         });
       }
     }
 
     // Advanced cache configuration
     if (loc.cache?.enabled) {
-      locationConfig += `        proxy_cache_valid ${loc.cache.validTime || '60m'};\n`;
+      locationConfig += `        proxy_cache ${arg(loc.cache.zone)};\n`;
+      if (loc.cache.valid) {
+        Object.entries(loc.cache.valid).forEach(([codes, time]) => {
+          locationConfig += `        proxy_cache_valid ${args(codes)} ${arg(time)};\n`;
+        });
+      }
+      if (loc.cache.validTime || !loc.cache.valid) {
+        locationConfig += `        proxy_cache_valid ${arg(loc.cache.validTime || '60m')};\n`;
+      }
       if (loc.cache.keys) {
-        locationConfig += `        proxy_cache_key ${loc.cache.keys.join(' ')};\n`;
+        locationConfig += `        proxy_cache_key ${args(loc.cache.keys)};\n`;
       }
       if (loc.cache.useStale) {
-        locationConfig += `        proxy_cache_use_stale ${loc.cache.useStale.join(' ')};\n`;
+        locationConfig += `        proxy_cache_use_stale ${args(loc.cache.useStale)};\n`;
       }
       if (loc.cache.minUses) {
-        locationConfig += `        proxy_cache_min_uses ${loc.cache.minUses};\n`;
+        locationConfig += `        proxy_cache_min_uses ${arg(loc.cache.minUses)};\n`;
       }
       if (loc.cache.bypass) {
-        locationConfig += `        proxy_cache_bypass ${loc.cache.bypass.join(' ')};\n`;
+        locationConfig += `        proxy_cache_bypass ${args(loc.cache.bypass)};\n`;
       }
       if (loc.cache.noCache) {
-        locationConfig += `        proxy_no_cache ${loc.cache.noCache.join(' ')};\n`;
+        locationConfig += `        proxy_no_cache ${args(loc.cache.noCache)};\n`;
       }
       if (loc.cache.methods) {
-        locationConfig += `        proxy_cache_methods ${loc.cache.methods.join(' ')};\n`;
+        locationConfig += `        proxy_cache_methods ${args(loc.cache.methods)};\n`;
+      }
+      if (loc.cache.lock) {
+        locationConfig += `        proxy_cache_lock on;\n`;
+        if (loc.cache.lockTimeout) {
+          locationConfig += `        proxy_cache_lock_timeout ${arg(loc.cache.lockTimeout)};\n`;
+        }
+      }
+      if (loc.cache.backgroundUpdate) {
+        locationConfig += `        proxy_cache_background_update on;\n`;
+      }
+      if (loc.cache.statusHeader) {
+        locationConfig += `        add_header X-Cache-Status $upstream_cache_status;\n`;
       }
     }
 
     // CORS configuration
     if (loc.cors?.enabled) {
-      locationConfig += `        add_header 'Access-Control-Allow-Origin' '${loc.cors.origins?.join(' ') || '*'}';\n`;
-      locationConfig += `        add_header 'Access-Control-Allow-Methods' '${loc.cors.methods?.join(' ') || 'GET, POST, OPTIONS'}';\n`;
-      locationConfig += `        add_header 'Access-Control-Allow-Headers' '${loc.cors.headers?.join(' ') || 'DNT,X-CustomHeader,Keep-Alive,User-Agent,X-Requested-With,If-Modified-Since,Cache-Control,Content-Type'}';\n`;
+      locationConfig += `        add_header Access-Control-Allow-Origin ${arg(loc.cors.origins?.join(' ') || '*')};\n`;
+      locationConfig += `        add_header Access-Control-Allow-Methods ${arg(loc.cors.methods?.join(', ') || 'GET, POST, OPTIONS')};\n`;
+      locationConfig += `        add_header Access-Control-Allow-Headers ${arg(loc.cors.headers?.join(', ') || 'DNT,X-CustomHeader,Keep-Alive,User-Agent,X-Requested-With,If-Modified-Since,Cache-Control,Content-Type')};\n`;
       if (loc.cors.credentials) {
-        locationConfig += `        add_header 'Access-Control-Allow-Credentials' 'true';\n`;
+        locationConfig += `        add_header Access-Control-Allow-Credentials true;\n`;
       }
     }
 
     // Rate limiting
     if (loc.rateLimit) {
-      locationConfig += `        limit_req zone=one rate=${loc.rateLimit.rate}`;
+      locationConfig += `        limit_req ${arg(`zone=${loc.rateLimit.zone}`)}`;
       if (loc.rateLimit.burstSize) {
-        locationConfig += ` burst=${loc.rateLimit.burstSize}`;
-        if (loc.rateLimit.nodelay) {
-          locationConfig += ' nodelay';
-        }
+        locationConfig += ` ${arg(`burst=${loc.rateLimit.burstSize}`)}`;
+      }
+      if (loc.rateLimit.delay !== undefined) {
+        locationConfig += ` ${arg(`delay=${loc.rateLimit.delay}`)}`;
+      } else if (loc.rateLimit.nodelay) {
+        locationConfig += ' nodelay';
       }
       locationConfig += ';\n';
+      if (loc.rateLimit.status) {
+        locationConfig += `        limit_req_status ${arg(loc.rateLimit.status)};\n`;
+      }
     }
 
+    // Connection limiting
+    if (loc.connectionLimit) {
+      locationConfig += `        limit_conn ${arg(loc.connectionLimit.zone)} ${arg(loc.connectionLimit.connections)};\n`;
+      if (loc.connectionLimit.status) {
+        locationConfig += `        limit_conn_status ${arg(loc.connectionLimit.status)};\n`;
+      }
+    }
+
+    locationConfig += logDirectives(loc.logging, formatName, skipLog?.variable).map(d => `        ${d};\n`).join('');
+
     if (loc.extraDirectives) {
-      locationConfig += loc.extraDirectives.map(d => `        ${d};\n`).join('');
+      locationConfig += loc.extraDirectives.map(d => `        ${terminate(d)}\n`).join('');
     }
 
     locationConfig += '    }\n';
     return locationConfig;
-  }).join('\n');
+  });
+  locations.unshift(...redirects.locations);
+  if (acmeChallenge) {
+    locations.unshift(acmeChallenge);
+  }
 
   // Main server block
+  const listeners = siteListeners(config);
   let serverConfig = `server {
-    listen ${config.port}${config.ssl ? ' ssl' : ''};
-    server_name ${config.serverName};\n`;
+${listeners.map(l => `    listen ${listenArguments(l)};\n`).join('')}    server_name ${args(config.serverName)};\n`;
+  if (config.http2) {
+    serverConfig += '    http2 on;\n';
+  }
 
   // SSL configuration
   if (config.ssl) {
     serverConfig += `
-    ssl_certificate ${config.ssl.certificate};
-    ssl_certificate_key ${config.ssl.certificateKey};`;
+    ssl_certificate ${arg(config.ssl.certificate)};
+    ssl_certificate_key ${arg(config.ssl.certificateKey)};`;
     
     if (config.ssl.protocols) {
-      serverConfig += `\n    ssl_protocols ${config.ssl.protocols.join(' ')};`;
+      serverConfig += `\n    ssl_protocols ${args(config.ssl.protocols)};`;
     }
     if (config.ssl.ciphers) {
-      serverConfig += `\n    ssl_ciphers ${config.ssl.ciphers.join(':')};`;
+      serverConfig += `\n    ssl_ciphers ${arg(config.ssl.ciphers.join(':'))};`;
     }
     if (config.ssl.preferServerCiphers) {
       serverConfig += `\n    ssl_prefer_server_ciphers on;`;
     }
     if (config.ssl.dhParam) {
-      serverConfig += `\n    ssl_dhparam ${config.ssl.dhParam};`;
+      serverConfig += `\n    ssl_dhparam ${arg(config.ssl.dhParam)};`;
     }
     if (config.ssl.ocspStapling) {
       serverConfig += `\n    ssl_stapling on;\n    ssl_stapling_verify on;`;
     }
     if (config.ssl.sessionTimeout) {
-      serverConfig += `\n    ssl_session_timeout ${config.ssl.sessionTimeout};`;
+      serverConfig += `\n    ssl_session_timeout ${arg(config.ssl.sessionTimeout)};`;
     }
     if (config.ssl.sessionTickets === false) {
       serverConfig += `\n    ssl_session_tickets off;`;
     }
     if (config.ssl.hsts?.enabled) {
-      let hstsDirective = `\n    add_header Strict-Transport-Security "max-age=${config.ssl.hsts.maxAge || 31536000}`;
+      let hsts = `max-age=${config.ssl.hsts.maxAge || 31536000}`;
       if (config.ssl.hsts.includeSubdomains) {
-        hstsDirective += '; includeSubDomains';
+        hsts += '; includeSubDomains';
       }
       if (config.ssl.hsts.preload) {
-        hstsDirective += '; preload';
+        hsts += '; preload';
       }
-      hstsDirective += '";';
-      serverConfig += hstsDirective;
+      serverConfig += `\n    add_header Strict-Transport-Security ${arg(hsts)};`;
+    }
+
+    // Browsers learn about HTTP/3 from responses over TCP
+    const quicPorts = [...new Set(listeners.filter(l => l.quic).map(l => l.port))];
+    if (quicPorts.length) {
+      serverConfig += `\n    add_header Alt-Svc ${arg(quicPorts.map(port => `h3=":${port}"; ma=86400`).join(', '))};`;
     }
   }
 
   // Security headers
   if (config.security) {
     if (config.security.xFrameOptions) {
-      serverConfig += `\n    add_header X-Frame-Options "${config.security.xFrameOptions}";`;
+      serverConfig += `\n    add_header X-Frame-Options ${arg(config.security.xFrameOptions)};`;
     }
     if (config.security.xContentTypeOptions) {
       serverConfig += `\n    add_header X-Content-Type-Options "nosniff";`;
@@ -222,28 +435,198 @@ export function generateNginxConfig(config: NginxConfig): string {
       serverConfig += `\n    add_header X-XSS-Protection "1; mode=block";`;
     }
     if (config.security.referrerPolicy) {
-      serverConfig += `\n    add_header Referrer-Policy "${config.security.referrerPolicy}";`;
+      serverConfig += `\n    add_header Referrer-Policy ${arg(config.security.referrerPolicy)};`;
     }
     if (config.security.contentSecurityPolicy) {
-      serverConfig += `\n    add_header Content-Security-Policy "${config.security.contentSecurityPolicy.join('; ')}";`;
+      serverConfig += `\n    add_header Content-Security-Policy ${arg(config.security.contentSecurityPolicy.join('; '))};`;
     }
   }
 
+  // Client addresses and access control
+  const serverAccess = [
+    ...realIpDirectives(config.realIp, ipLists),
+    ...denyCategoryDirectives(config.denyCategories),
+    ...accessDirectives(config.access, ipLists)
+  ];
+  serverConfig += serverAccess.map(d => `\n    ${terminate(d)}`).join('');
+
   if (config.clientMaxBodySize) {
-    serverConfig += `\n    client_max_body_size ${config.clientMaxBodySize};`;
+    serverConfig += `\n    client_max_body_size ${arg(config.clientMaxBodySize)};`;
   }
 
   // Gzip configuration
   if (config.gzip) {
     serverConfig += `\n    gzip on;`;
     if (config.gzipTypes) {
-      serverConfig += `\n    gzip_types ${config.gzipTypes.join(' ')};`;
+      if (config.gzipTypes.length) {
+        serverConfig += `\n    gzip_types ${args(config.gzipTypes)};`;
+      }
     } else {
       serverConfig += `\n    gzip_types text/plain text/css application/json application/javascript text/xml application/xml application/xml+rss text/javascript;`;
     }
   }
 
-  serverConfig += `\n\n${locations}}`;
+  serverConfig += logDirectives(config.logging, formatName, skipLog?.variable).map(d => `\n    ${d};`).join('');
+
+  serverConfig += redirects.serverDirectives.map(d => `\n    ${d}`).join('');
+
+  if (config.extraDirectives) {
+    serverConfig += config.extraDirectives.map(d => `\n    ${terminate(d)}`).join('');
+  }
+
+  serverConfig += `\n\n${locations.join('\n')}}`;
   nginxConfig += serverConfig;
   return nginxConfig;
-}
\ No newline at end of file
+}
+
+// ^~ keeps regex locations (e.g. for static files) from taking over
+function generateAcmeChallengeLocation(acmeChallenge: AcmeChallengeConfig): string {
+  let location = '    location ^~ /.well-known/acme-challenge/ {\n';
+  if (acmeChallenge.proxy) {
+    location += `        proxy_pass ${arg(acmeChallenge.proxy)};\n`;
+    location += '        proxy_set_header Host $host;\n';
+  } else {
+    location += `        root ${arg(acmeChallenge.webroot!)};\n`;
+    location += '        default_type text/plain;\n';
+    location += '        try_files $uri =404;\n';
+  }
+  location += '    }\n';
+  return location;
+}
+
+// Path redirects come before the other locations, so that regex redirects
+// are tried first. return is used wherever it can be, since it answers
+// without running a regex; prefix redirects need rewrite to carry the rest
+// of the path over, and a nested regex location for 307 and 308, which
+// rewrite cannot send.
+function generateRedirects(config: NginxConfig): { maps: Record<string, VariableMap>; serverDirectives: string[]; locations: string[] } {
+  const maps: Record<string, VariableMap> = {};
+  const serverDirectives: string[] = [];
+  const locations: string[] = [];
+  const redirects = config.redirects || [];
+  const bulk = redirects.filter(r => (r.match || 'exact') === 'exact').length > BULK_REDIRECTS;
+
+  for (const redirect of redirects) {
+    const status = redirect.status || 301;
+    const query = redirect.keepQuery === false ? '' : '$is_args$args';
+    const match = redirect.match || 'exact';
+
+    if (match === 'exact' && bulk) {
+      const name = `redirect_${config.domain.replace(/[^A-Za-z0-9]+/g, '_')}_${status}${query ? '' : '_noquery'}`;
+      if (!maps[name]) {
+        maps[name] = { source: '$uri', entries: [] };
+        serverDirectives.push(`if ($${name}) { return ${status} $${name}${query}; }`);
+      }
+      maps[name].entries.push({ match: redirect.source, value: redirect.target });
+    } else if (match === 'exact' || match === 'regex') {
+      locations.push(`    location ${match === 'exact' ? '=' : '~'} ${arg(redirect.source)} {
+        return ${status} ${arg(`${redirect.target}${query}`)};
+    }\n`);
+    } else {
+      // rewrite appends the query string unless the replacement ends with ?
+      const pattern = `^${redirect.source.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(.*)$`;
+      if (status === 301 || status === 302) {
+        locations.push(`    location ^~ ${arg(redirect.source)} {
+        rewrite ${arg(pattern)} ${arg(`${redirect.target}$1${query ? '' : '?'}`)} ${status === 301 ? 'permanent' : 'redirect'};
+    }\n`);
+      } else {
+        locations.push(`    location ^~ ${arg(redirect.source)} {
+        location ~ ${arg(pattern)} {
+            return ${status} ${arg(`${redirect.target}$1${query}`)};
+        }
+    }\n`);
+      }
+    }
+  }
+
+  return { maps, serverDirectives, locations };
+}
+
+// A server answering for other names of the site, on the same ports
+function generateHostRedirect(config: NginxConfig, redirect: HostRedirect, acmeChallenge: string): string {
+  const status = redirect.status || 301;
+  const target = `${redirect.target || defaultRedirectTarget(config)}${redirect.keepPath === false ? '' : '$request_uri'}`;
+
+  let server = `server {
+${secondaryListeners(config).map(l => `    listen ${listenArguments(l)};\n`).join('')}    server_name ${args(redirect.serverNames)};\n`;
+  if (config.ssl) {
+    server += `
+    ssl_certificate ${arg(redirect.certificate || config.ssl.certificate)};
+    ssl_certificate_key ${arg(redirect.certificateKey || config.ssl.certificateKey)};\n`;
+  }
+
+  if (acmeChallenge) {
+    server += `
+${acmeChallenge}
+    location / {
+        return ${status} ${arg(target)};
+    }\n`;
+  } else {
+    server += `    return ${status} ${arg(target)};\n`;
+  }
+  return `${server}}\n\n`;
+}
+
+// Address rules, basic auth and the auth_request subrequest. Headers from the
+// auth service go to FastCGI as HTTP_* params when the location runs PHP.
+function generateLocationAuth(auth: LocationAuth, userFile: string, fastcgi: boolean): string {
+  let config = '';
+  if (auth.satisfy === 'any') {
+    config += '        satisfy any;\n';
+  }
+  if (auth.allow?.length) {
+    config += auth.allow.map(address => `        allow ${arg(address)};\n`).join('');
+    config += '        deny all;\n';
+  }
+  if (auth.basic) {
+    config += `        auth_basic ${arg(auth.basic.realm || 'Restricted')};\n`;
+    config += `        auth_basic_user_file ${arg(auth.basic.userFile || userFile)};\n`;
+  }
+  if (auth.request) {
+    config += `        auth_request ${arg(auth.request.uri)};\n`;
+    for (const header of auth.request.headers || []) {
+      const name = header.toLowerCase().replace(/-/g, '_');
+      config += `        auth_request_set $auth_${name} $upstream_http_${name};\n`;
+      config += fastcgi
+        ? `        fastcgi_param HTTP_${name.toUpperCase()} $auth_${name};\n`
+        : `        proxy_set_header ${header} $auth_${name};\n`;
+    }
+  }
+  return config;
+}
+
+// set_real_ip_from for each trusted proxy, then the header to trust
+export function realIpDirectives(realIp: RealIpConfig | undefined, ipLists: Record<string, IpList>): string[] {
+  if (!realIp) {
+    return [];
+  }
+  const proxies = [...(realIp.from || []), ...(realIp.fromLists || []).flatMap(name => ipLists[name] || [])];
+  return [
+    ...proxies.map(address => `set_real_ip_from ${arg(address)}`),
+    `real_ip_header ${arg(realIp.header || 'X-Forwarded-For')}`,
+    ...(realIp.recursive ? ['real_ip_recursive on'] : [])
+  ];
+}
+
+// allow/deny rules in order, with IP lists expanded in place
+function accessDirectives(rules: AccessRule[] | undefined, ipLists: Record<string, IpList>): string[] {
+  return (rules || []).flatMap(rule =>
+    (rule.list ? ipLists[rule.list] || [] : [rule.address]).map(address => `${rule.action} ${arg(address!)}`)
+  );
+}
+
+// `if` runs in the rewrite phase, before allow/deny are checked
+function denyCategoryDirectives(categories: Record<string, string[]> | undefined): string[] {
+  return Object.entries(categories || {}).flatMap(([variable, values]) =>
+    values.map(value => `if (${arg(`$${variable}`)} = ${arg(value)}) { return 403; }`)
+  );
+}
+
+function upstreamName(proxyPass: string): string {
+  return proxyPass.replace(/^[a-z]+:\/\//, '').split(/[/:]/)[0];
+}
+
+// Raw directives get a closing semicolon unless they end in a block
+export function terminate(directive: string): string {
+  return directive.trimEnd().endsWith('}') ? directive : `${directive};`;
+}
@@ -0,0 +1,97 @@
+import { NginxConfig } from "./types.ts";
+
+export interface SiteVersion {
+    version: number;
+    timestamp: string;
+    author: string;
+    message?: string;
+    config: NginxConfig;
+    rendered: string;
+}
+
+export type NewSiteVersion = Omit<SiteVersion, "version" | "timestamp">;
+
+export interface HistoryStore {
+    list(domain: string): Promise<SiteVersion[]>;
+    get(domain: string, version: number): Promise<SiteVersion | null>;
+    append(domain: string, entry: NewSiteVersion): Promise<SiteVersion>;
+}
+
+export class MemoryHistoryStore implements HistoryStore {
+    private versions = new Map<string, SiteVersion[]>();
+
+    list(domain: string): Promise<SiteVersion[]> {
+        return Promise.resolve(structuredClone(this.versions.get(domain) || []));
+    }
+
+    get(domain: string, version: number): Promise<SiteVersion | null> {
+        const entry = this.versions.get(domain)?.find(v => v.version === version);
+        return Promise.resolve(entry ? structuredClone(entry) : null);
+    }
+
+    append(domain: string, entry: NewSiteVersion): Promise<SiteVersion> {
+        const versions = this.versions.get(domain) || [];
+        const saved: SiteVersion = {
+            version: versions.length + 1,
+            timestamp: new Date().toISOString(),
+            ...structuredClone(entry)
+        };
+        this.versions.set(domain, [...versions, saved]);
+        return Promise.resolve(structuredClone(saved));
+    }
+}
+
+// Keeps every version as <dir>/<domain>/<version>.json.
+export class FileHistoryStore implements HistoryStore {
+    constructor(private dir: string) {}
+
+    private siteDir(domain: string): string {
+        if (!/^[a-zA-Z0-9][a-zA-Z0-9-_.]*$/.test(domain)) {
+            throw new Error(`Invalid domain '${domain}'`);
+        }
+        return `${this.dir}/${domain}`;
+    }
+
+    async list(domain: string): Promise<SiteVersion[]> {
+        const versions: SiteVersion[] = [];
+        try {
+            for await (const entry of Deno.readDir(this.siteDir(domain))) {
+                if (entry.isFile && /^\d+\.json$/.test(entry.name)) {
+                    versions.push(JSON.parse(await Deno.readTextFile(`${this.siteDir(domain)}/${entry.name}`)));
+                }
+            }
+        } catch (error) {
+            if (!(error instanceof Deno.errors.NotFound)) {
+                throw error;
+            }
+        }
+        return versions.sort((a, b) => a.version - b.version);
+    }
+
+    async get(domain: string, version: number): Promise<SiteVersion | null> {
+        try {
+            return JSON.parse(await Deno.readTextFile(`${this.siteDir(domain)}/${version}.json`));
+        } catch (error) {
+            if (error instanceof Deno.errors.NotFound) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async append(domain: string, entry: NewSiteVersion): Promise<SiteVersion> {
+        const dir = this.siteDir(domain);
+        await Deno.mkdir(dir, { recursive: true });
+
+        const versions = await this.list(domain);
+        const saved: SiteVersion = {
+            version: (versions[versions.length - 1]?.version || 0) + 1,
+            timestamp: new Date().toISOString(),
+            ...entry
+        };
+
+        // createNew makes a concurrent append with the same number fail instead of overwriting
+        await Deno.writeTextFile(`${dir}/${saved.version}.json`, JSON.stringify(saved, null, 2), { createNew: true });
+        return saved;
+    }
+}
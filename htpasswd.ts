@@ -0,0 +1,159 @@
+import { BasicAuthUser, NginxConfig } from "./types.ts";
+
+// htpasswd files for locations with basic auth users, written next to the
+// site configs by the API. nginx resolves relative paths against its
+// configuration directory.
+//
+// Passwords are hashed with Apache's apr1 (MD5-crypt with 1000 rounds), the
+// strongest scheme nginx verifies itself on every platform; bcrypt ($2y$)
+// only works where the system crypt() supports it. Hashes made elsewhere,
+// e.g. with `htpasswd -nB`, can be given as passwordHash instead.
+
+const ITOA64 = "./0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+
+// Per-round shift amounts and the integer parts of abs(sin(i + 1)) * 2^32
+const SHIFTS = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21];
+const SINES = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) >>> 0);
+
+// WebCrypto has no MD5, which apr1 is built on
+export function md5(data: Uint8Array): Uint8Array {
+    const padded = new Uint8Array(((data.length + 8) >> 6) * 64 + 64);
+    padded.set(data);
+    padded[data.length] = 0x80;
+    const view = new DataView(padded.buffer);
+    view.setUint32(padded.length - 8, (data.length * 8) >>> 0, true);
+    view.setUint32(padded.length - 4, Math.floor(data.length / 2 ** 29), true);
+
+    const state = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476];
+    for (let offset = 0; offset < padded.length; offset += 64) {
+        let [a, b, c, d] = state;
+        for (let i = 0; i < 64; i++) {
+            const round = i >> 4;
+            let f: number;
+            let g: number;
+            if (round === 0) {
+                f = (b & c) | (~b & d);
+                g = i;
+            } else if (round === 1) {
+                f = (d & b) | (~d & c);
+                g = (5 * i + 1) % 16;
+            } else if (round === 2) {
+                f = b ^ c ^ d;
+                g = (3 * i + 5) % 16;
+            } else {
+                f = c ^ (b | ~d);
+                g = (7 * i) % 16;
+            }
+            const sum = (a + f + SINES[i] + view.getUint32(offset + g * 4, true)) >>> 0;
+            const shift = SHIFTS[round * 4 + (i % 4)];
+            a = d;
+            d = c;
+            c = b;
+            b = (b + ((sum << shift) | (sum >>> (32 - shift)))) >>> 0;
+        }
+        state[0] = (state[0] + a) >>> 0;
+        state[1] = (state[1] + b) >>> 0;
+        state[2] = (state[2] + c) >>> 0;
+        state[3] = (state[3] + d) >>> 0;
+    }
+
+    const digest = new Uint8Array(16);
+    const digestView = new DataView(digest.buffer);
+    state.forEach((word, i) => digestView.setUint32(i * 4, word, true));
+    return digest;
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+}
+
+function to64(value: number, length: number): string {
+    let result = "";
+    for (let i = 0; i < length; i++) {
+        result += ITOA64[value & 0x3f];
+        value >>= 6;
+    }
+    return result;
+}
+
+// "$apr1$<salt>$<hash>", as made by `htpasswd -m` or `openssl passwd -apr1`
+export function apr1(password: string, salt?: string): string {
+    salt = (salt ?? [...crypto.getRandomValues(new Uint8Array(8))].map(byte => ITOA64[byte & 0x3f]).join("")).slice(0, 8);
+    const encoder = new TextEncoder();
+    const pw = encoder.encode(password);
+    const saltBytes = encoder.encode(salt);
+
+    const alternate = md5(concat(pw, saltBytes, pw));
+    const parts: Uint8Array[] = [pw, encoder.encode("$apr1$"), saltBytes];
+    for (let length = pw.length; length > 0; length -= 16) {
+        parts.push(alternate.subarray(0, Math.min(16, length)));
+    }
+    for (let length = pw.length; length > 0; length >>= 1) {
+        parts.push(length & 1 ? new Uint8Array(1) : pw.subarray(0, 1));
+    }
+    let final = md5(concat(...parts));
+
+    for (let i = 0; i < 1000; i++) {
+        const round = [i & 1 ? pw : final];
+        if (i % 3) {
+            round.push(saltBytes);
+        }
+        if (i % 7) {
+            round.push(pw);
+        }
+        round.push(i & 1 ? final : pw);
+        final = md5(concat(...round));
+    }
+
+    const f = final;
+    const hash = to64((f[0] << 16) | (f[6] << 8) | f[12], 4) +
+        to64((f[1] << 16) | (f[7] << 8) | f[13], 4) +
+        to64((f[2] << 16) | (f[8] << 8) | f[14], 4) +
+        to64((f[3] << 16) | (f[9] << 8) | f[15], 4) +
+        to64((f[4] << 16) | (f[10] << 8) | f[5], 4) +
+        to64(f[11], 2);
+    return `$apr1$${salt}$${hash}`;
+}
+
+// Path of the generated htpasswd file of a location, e.g.
+// "htpasswd/example.com/admin" for "/admin/"
+export function htpasswdPath(domain: string, locationPath: string): string {
+    const name = locationPath.replace(/[^A-Za-z0-9.-]+/g, "_").replace(/^_+|_+$/g, "") || "root";
+    return `htpasswd/${domain}/${name}`;
+}
+
+function htpasswdLine(user: BasicAuthUser): string {
+    return `${user.username}:${user.passwordHash || apr1(user.password!)}\n`;
+}
+
+// The htpasswd files of a site by path; plain passwords are hashed with a
+// new salt each time, so store configs through hashPasswords() first
+export function htpasswdFiles(config: NginxConfig): { [path: string]: string } {
+    const files: { [path: string]: string } = {};
+    for (const location of config.locations || []) {
+        const users = location.auth?.basic?.users;
+        if (users?.length) {
+            files[htpasswdPath(config.domain, location.path)] = users.map(htpasswdLine).join("");
+        }
+    }
+    return files;
+}
+
+// Replaces plain passwords with their apr1 hashes, so they are never stored
+export function hashPasswords(config: NginxConfig): NginxConfig {
+    for (const location of config.locations || []) {
+        const basic = location.auth?.basic;
+        if (basic?.users) {
+            basic.users = basic.users.map(({ password, ...user }) =>
+                password === undefined ? user : { ...user, passwordHash: apr1(password) }
+            );
+        }
+    }
+    return config;
+}
@@ -0,0 +1,68 @@
+import { Role } from "./types.ts";
+
+export type RouteParams = Record<string, string | undefined>;
+
+export interface Route {
+    method: string;
+    path: string;
+    handler: (req: Request, params: RouteParams) => Promise<Response>;
+    // Documentation for /openapi.json. body and response name types of
+    // types.ts; responses are JSON unless contentType says otherwise.
+    summary?: string;
+    body?: string;
+    response?: string;
+    contentType?: string;
+    query?: Record<string, string>;
+    // Least role allowed to call the route when authentication is on;
+    // defaults to read for GET and operator for other methods
+    access?: Role | "public";
+    // Acts on all sites, so keys limited to some domains may not call it
+    global?: boolean;
+}
+
+export function jsonResponse(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { "Content-Type": "application/json" }
+    });
+}
+
+export function routeAccess(route: Route): Role | "public" {
+    return route.access || (route.method === "GET" ? "read" : "operator");
+}
+
+export function createRouter(routes: Route[]): (req: Request) => Promise<Response> {
+    const compiled = routes.map(route => ({
+        ...route,
+        pattern: new URLPattern({ pathname: route.path })
+    }));
+
+    return async (req: Request): Promise<Response> => {
+        const url = new URL(req.url);
+        const matches = compiled.filter(route => route.pattern.test(url));
+
+        if (matches.length === 0) {
+            return jsonResponse({ error: "Not found" }, 404);
+        }
+
+        const route = matches.find(route => route.method === req.method);
+        if (!route) {
+            return jsonResponse({ error: "Method not allowed" }, 405);
+        }
+
+        const params: RouteParams = {};
+        const groups = route.pattern.exec(url)?.pathname.groups || {};
+        for (const [name, value] of Object.entries(groups)) {
+            params[name] = value === undefined ? undefined : decodeURIComponent(value);
+        }
+
+        try {
+            return await route.handler(req, params);
+        } catch (error) {
+            if (error instanceof SyntaxError) {
+                return jsonResponse({ error: `Invalid JSON body: ${error.message}` }, 400);
+            }
+            return jsonResponse({ error: error.message }, 500);
+        }
+    };
+}
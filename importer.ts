@@ -0,0 +1,1556 @@
+// Converts nginx configs into site configs and workspaces for the API, and
+// checks that rendering the result again gives back the same directives.
+
+import { HttpContext, Listener, LogLevel, MainContext, NginxConfig, StreamContext, StreamServer, Workspace } from "./types.ts";
+import { generateNginxConfig } from "./generator.ts";
+import { defaultRedirectTarget, REDIRECT_STATUSES } from "./redirects.ts";
+import { listenArguments, redirectListeners, secondaryListeners } from "./listeners.ts";
+import { JSON_LOG_FIELDS, jsonLogFormat, LOG_LEVELS, logFormatName, skipLogVariable } from "./logging.ts";
+import { quoteArgument } from "./directives.ts";
+import { DirectiveNode, formatDirective, ImportWarning, NginxParser } from "./parser.ts";
+
+export interface ImportResult {
+  workspace: Workspace;
+  warnings: ImportWarning[];
+}
+
+const ZONE_DIRECTIVES = ['limit_req_zone', 'limit_conn_zone', 'proxy_cache_path'];
+
+const PROXY_HEADERS: Record<string, string> = {
+  'Host': '$host',
+  'X-Real-IP': '$remote_addr',
+  'X-Forwarded-For': '$proxy_add_x_forwarded_for',
+  'X-Forwarded-Proto': '$scheme'
+};
+
+const AUTH_ENDPOINT_HEADERS: Record<string, string> = {
+  'Content-Length': '',
+  'X-Original-URI': '$request_uri',
+  'X-Original-Method': '$request_method'
+};
+
+const CACHE_DIRECTIVES = [
+  'proxy_cache', 'proxy_cache_valid', 'proxy_cache_key', 'proxy_cache_use_stale', 'proxy_cache_min_uses',
+  'proxy_cache_bypass', 'proxy_no_cache', 'proxy_cache_methods', 'proxy_cache_lock', 'proxy_cache_lock_timeout',
+  'proxy_cache_background_update'
+];
+
+export class NginxToJSON {
+  private parser = new NginxParser();
+  private upstreams: Record<string, Record<string, unknown>> = {};
+  // Variables set by geo blocks, which `if (...) { return 403; }` may test
+  private geoVariables = new Set<string>();
+  // Maps of the http context; bulk redirect and skipPaths maps are taken out
+  // of them
+  private maps: Record<string, Record<string, unknown>> = {};
+  warnings: ImportWarning[] = [];
+
+  private extractDomainFromServerName(serverName: string): string {
+    return serverName.split(' ')[0];
+  }
+
+  private parseSSLDirective(node: DirectiveNode, ssl: Record<string, unknown>): boolean {
+    const value = node.args[0];
+    const single = node.args.length === 1;
+    switch (node.name) {
+      case 'ssl_certificate':
+        if (!single || ssl.certificate) return false;
+        ssl.certificate = value;
+        return true;
+      case 'ssl_certificate_key':
+        if (!single || ssl.certificateKey) return false;
+        ssl.certificateKey = value;
+        return true;
+      case 'ssl_protocols':
+        ssl.protocols = node.args;
+        return true;
+      case 'ssl_ciphers':
+        if (!single) return false;
+        ssl.ciphers = value.split(':');
+        return true;
+      case 'ssl_prefer_server_ciphers':
+        if (value !== 'on') return false;
+        ssl.preferServerCiphers = true;
+        return true;
+      case 'ssl_dhparam':
+        if (!single) return false;
+        ssl.dhParam = value;
+        return true;
+      case 'ssl_stapling':
+        if (value !== 'on') return false;
+        ssl.ocspStapling = true;
+        return true;
+      // Emitted together with ssl_stapling by the generator
+      case 'ssl_stapling_verify':
+        return value === 'on';
+      case 'ssl_session_timeout':
+        if (!single) return false;
+        ssl.sessionTimeout = value;
+        return true;
+      case 'ssl_session_tickets':
+        if (value !== 'off') return false;
+        ssl.sessionTickets = false;
+        return true;
+    }
+    return false;
+  }
+
+  private parseZones(nodes: DirectiveNode[]): Record<string, Record<string, unknown>> {
+    const zones: Record<string, Record<string, unknown>> = {
+      rateLimitZones: {},
+      connectionLimitZones: {},
+      cacheZones: {}
+    };
+    for (const node of nodes) {
+      if (node.name === 'proxy_cache_path') {
+        const zone: Record<string, unknown> = { path: node.args[0] };
+        let name = '';
+        for (const part of node.args.slice(1)) {
+          const [param, value] = part.split('=', 2);
+          if (param === 'levels') {
+            zone.levels = value;
+          } else if (param === 'keys_zone') {
+            [name, zone.keysZoneSize] = value.split(':');
+          } else if (param === 'max_size') {
+            zone.maxSize = value;
+          } else if (param === 'inactive') {
+            zone.inactive = value;
+          } else if (param === 'use_temp_path') {
+            zone.useTempPath = value === 'on';
+          }
+        }
+        if (name) {
+          zones.cacheZones[name] = zone;
+        }
+        continue;
+      }
+      if (node.name !== 'limit_req_zone' && node.name !== 'limit_conn_zone') {
+        continue;
+      }
+      const zone: Record<string, unknown> = { key: node.args[0] };
+      let name = '';
+      for (const part of node.args.slice(1)) {
+        if (part.startsWith('zone=')) {
+          [name, zone.size] = part.slice(5).split(':');
+        } else if (part.startsWith('rate=')) {
+          zone.rate = part.slice(5);
+        }
+      }
+      if (name) {
+        const target = node.name === 'limit_req_zone' ? 'rateLimitZones' : 'connectionLimitZones';
+        zones[target][name] = zone;
+      }
+    }
+    return zones;
+  }
+
+  private parseUpstream(node: DirectiveNode): Record<string, unknown> {
+    const upstream: Record<string, unknown> = { servers: [] };
+    for (const directive of node.block || []) {
+      const args = directive.args;
+      if (directive.name === 'server') {
+        const server: Record<string, unknown> = { address: args[0] };
+        for (const part of args.slice(1)) {
+          const [param, value] = part.split('=', 2);
+          if (param === 'weight' || param === 'max_fails' || param === 'max_conns') {
+            server[param === 'weight' ? 'weight' : param === 'max_fails' ? 'maxFails' : 'maxConns'] = parseInt(value);
+          } else if (param === 'fail_timeout') {
+            server.failTimeout = value;
+          } else if (param === 'slow_start') {
+            server.slowStart = value;
+          } else if (part === 'backup' || part === 'down') {
+            server[part] = true;
+          } else {
+            this.warn(directive, `Upstream server parameter '${part}' is not supported and was dropped`);
+          }
+        }
+        (upstream.servers as Record<string, unknown>[]).push(server);
+      } else if (directive.name === 'zone') {
+        upstream.zone = args[0];
+        if (args[1]) upstream.zoneSize = args[1];
+      } else if (directive.name === 'least_conn' || directive.name === 'ip_hash') {
+        upstream.loadBalancing = { method: directive.name };
+      } else if (directive.name === 'hash') {
+        upstream.loadBalancing = { method: 'hash', key: args[0], ...(args[1] === 'consistent' && { consistent: true }) };
+      } else if (directive.name === 'random') {
+        upstream.loadBalancing = {
+          method: 'random',
+          ...(args[0] === 'two' && { two: true }),
+          ...(args[1] === 'least_conn' && { twoMethod: 'least_conn' })
+        };
+      } else if (directive.name === 'keepalive') {
+        upstream.keepalive = parseInt(args[0]);
+      } else if (directive.name === 'keepalive_requests') {
+        upstream.keepaliveRequests = parseInt(args[0]);
+      } else if (directive.name === 'keepalive_timeout') {
+        upstream.keepaliveTimeout = args[0];
+      } else {
+        this.warn(directive, `Upstream directive '${directive.name}' is not supported and was dropped`);
+      }
+    }
+    return upstream;
+  }
+
+  // Upstreams go to the site proxying to them, unused ones to the first site
+  private attachUpstreams(configs: Record<string, unknown>[]): void {
+    for (const [name, upstream] of Object.entries(this.upstreams)) {
+      const users = configs.filter(config => ((config.locations || []) as Record<string, unknown>[])
+        .some(l => typeof l.proxyPass === 'string' && upstreamName(l.proxyPass) === name));
+      for (const config of users.length ? users : configs.slice(0, 1)) {
+        config.upstreams = { ...(config.upstreams as Record<string, unknown>), [name]: upstream };
+      }
+    }
+  }
+
+  private attachZones(config: Record<string, unknown>, zones: Record<string, Record<string, unknown>>): void {
+    const locations = (config.locations || []) as Record<string, Record<string, unknown>>[];
+    const references: [string, string][] = [
+      ...locations.filter(l => l.rateLimit?.zone).map(l => ['rateLimitZones', l.rateLimit.zone as string] as [string, string]),
+      ...locations.filter(l => l.connectionLimit?.zone).map(l => ['connectionLimitZones', l.connectionLimit.zone as string] as [string, string]),
+      ...locations.filter(l => l.cache?.zone).map(l => ['cacheZones', l.cache.zone as string] as [string, string])
+    ];
+    for (const [target, name] of references) {
+      if (zones[target][name]) {
+        config[target] = { ...(config[target] as Record<string, unknown>), [name]: zones[target][name] };
+      }
+    }
+  }
+
+  private parseLocation(node: DirectiveNode): Record<string, unknown> {
+    const location: Record<string, unknown> = { path: node.args.map(quoteArgument).join(' ') };
+    const directives = node.block || [];
+    const extraDirectives: string[] = [];
+    const has = (name: string, ...args: string[]) =>
+      directives.some(d => d.name === name && args.every((arg, i) => d.args[i] === arg));
+
+    const proxied = has('proxy_pass');
+    const websocket = proxied && has('proxy_http_version', '1.1') &&
+      has('proxy_set_header', 'Upgrade', '$http_upgrade') && has('proxy_set_header', 'Connection', 'upgrade');
+    const proxyPass = directives.find(d => d.name === 'proxy_pass')?.args[0];
+    const keepalive = !websocket && proxyPass !== undefined && !!this.upstreams[upstreamName(proxyPass)]?.keepalive &&
+      has('proxy_http_version', '1.1') && has('proxy_set_header', 'Connection', '');
+    const php = has('fastcgi_pass');
+    const cached = has('proxy_cache');
+    const cors = directives.some(d => d.name === 'add_header' && d.args[0] === 'Access-Control-Allow-Origin');
+
+    const basicAuth = has('auth_basic') && !has('auth_basic', 'off') && has('auth_basic_user_file');
+    const authRequest = directives.some(d => d.name === 'auth_request' && d.args.length === 1 && d.args[0] !== 'off');
+    // Together with auth, allow rules closed by "deny all" are the auth allow
+    // list; otherwise allow and deny are access rules
+    const accessRules = directives.filter(d => d.name === 'allow' || d.name === 'deny');
+    const lastRule = accessRules[accessRules.length - 1];
+    const allowList = (basicAuth || authRequest || has('satisfy', 'any')) && accessRules.length > 1 &&
+      lastRule.name === 'deny' && lastRule.args.join(' ') === 'all' &&
+      accessRules.slice(0, -1).every(d => d.name === 'allow' && d.args.length === 1 && d.args[0] !== 'all');
+    const denyCategories: Record<string, string[]> = {};
+    const logging: Record<string, unknown> = {};
+    const authEndpoint = proxied && has('internal') && has('proxy_pass_request_body', 'off');
+    // The generator sends all of PROXY_HEADERS or none of them
+    const proxyHeaders = authEndpoint || Object.entries(PROXY_HEADERS).every(([header, value]) => has('proxy_set_header', header, value));
+
+    // Headers from the auth service: "auth_request_set $auth_x $upstream_http_x"
+    // together with "proxy_set_header X $auth_x" or "fastcgi_param HTTP_X $auth_x"
+    const authHeaders = new Map<string, string>();
+    for (const d of directives) {
+      const variable = d.args[1];
+      if (!authRequest || d.args.length !== 2 || !/^\$auth_\w+$/.test(variable || '') ||
+        !has('auth_request_set', variable, `$upstream_http_${variable.slice(6)}`)) {
+        continue;
+      }
+      const name = variable.slice(6);
+      if (d.name === 'proxy_set_header' && d.args[0].toLowerCase().replace(/-/g, '_') === name) {
+        authHeaders.set(variable, d.args[0]);
+      } else if (d.name === 'fastcgi_param' && d.args[0] === `HTTP_${name.toUpperCase()}`) {
+        authHeaders.set(variable, name.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('-'));
+      }
+    }
+
+    const auth = (): Record<string, unknown> => (location.auth ||= {}) as Record<string, unknown>;
+    const cache = (): Record<string, unknown> => location.cache as Record<string, unknown>;
+    if (authEndpoint) {
+      location.authEndpoint = true;
+    }
+    if (cached) {
+      location.cache = { enabled: true };
+    }
+    if (cors) {
+      location.cors = { enabled: true };
+    }
+    if (websocket) {
+      location.websocket = { enabled: true };
+    }
+
+    for (const directive of directives) {
+      const args = directive.args;
+      const single = args.length === 1 && !directive.block;
+      let consumed = false;
+
+      if (directive.name === 'if' && directive.block) {
+        consumed = this.parseDenyCategory(directive, denyCategories);
+      } else if (directive.block) {
+        consumed = false;
+      } else if ((directive.name === 'allow' || directive.name === 'deny') && allowList) {
+        if (directive.name === 'allow') {
+          auth().allow = [...(auth().allow as string[] || []), args[0]];
+        }
+        consumed = true;
+      } else if ((directive.name === 'allow' || directive.name === 'deny') && single) {
+        location.access = [...(location.access as Record<string, unknown>[] || []), { action: directive.name, address: args[0] }];
+        consumed = true;
+      } else if (directive.name === 'satisfy' && single && (args[0] === 'any' || args[0] === 'all')) {
+        if (args[0] === 'any') {
+          auth().satisfy = 'any';
+        }
+        consumed = true;
+      } else if (directive.name === 'auth_basic' && single && basicAuth) {
+        auth().basic = { ...(args[0] !== 'Restricted' && { realm: args[0] }), ...(auth().basic as Record<string, unknown>) };
+        consumed = true;
+      } else if (directive.name === 'auth_basic_user_file' && single && basicAuth) {
+        auth().basic = { ...(auth().basic as Record<string, unknown>), userFile: args[0] };
+        consumed = true;
+      } else if (directive.name === 'auth_request' && single && authRequest) {
+        auth().request = { uri: args[0], ...(auth().request as Record<string, unknown>) };
+        consumed = true;
+      } else if (directive.name === 'auth_request_set' && authHeaders.has(args[0])) {
+        const request = (auth().request ||= {}) as Record<string, unknown>;
+        request.headers = [...(request.headers as string[] || []), authHeaders.get(args[0])];
+        consumed = true;
+      } else if ((directive.name === 'proxy_set_header' || directive.name === 'fastcgi_param') && authHeaders.get(args[1]) !== undefined &&
+        args.length === 2) {
+        // Rendered from auth.request.headers
+        consumed = true;
+      } else if (authEndpoint && ((directive.name === 'internal' && args.length === 0) ||
+        (directive.name === 'proxy_pass_request_body' && single && args[0] === 'off'))) {
+        consumed = true;
+      } else if (authEndpoint && directive.name === 'proxy_set_header' && args.length === 2 && AUTH_ENDPOINT_HEADERS[args[0]] === args[1]) {
+        consumed = true;
+      } else if (directive.name === 'proxy_pass' && single && !location.proxyPass) {
+        location.proxyPass = args[0];
+        if (!proxyHeaders) {
+          location.proxyHeaders = false;
+        }
+        consumed = true;
+      } else if (directive.name === 'proxy_set_header' && proxied && args.length === 2) {
+        consumed = (proxyHeaders && PROXY_HEADERS[args[0]] === args[1]) ||
+          (websocket && (args[0] === 'Upgrade' || args[0] === 'Connection')) ||
+          (keepalive && args[0] === 'Connection' && args[1] === '');
+      } else if (directive.name === 'proxy_http_version' && (websocket || keepalive)) {
+        consumed = true;
+      } else if ((directive.name === 'proxy_read_timeout' || directive.name === 'proxy_send_timeout') && websocket && /^\d+s?$/.test(args[0])) {
+        const ws = location.websocket as Record<string, unknown>;
+        const seconds = parseInt(args[0]);
+        if (directive.name === 'proxy_read_timeout') {
+          ws.timeout = seconds;
+        } else {
+          ws.keepaliveTimeout = seconds;
+        }
+        consumed = true;
+      } else if (directive.name === 'root' && single && !location.root) {
+        location.root = args[0];
+        consumed = true;
+      } else if (directive.name === 'index' && !location.index) {
+        location.index = args.map(quoteArgument).join(' ');
+        consumed = true;
+      } else if (directive.name === 'try_files' && !location.try_files) {
+        location.try_files = args.map(quoteArgument).join(' ');
+        consumed = true;
+      } else if (directive.name === 'fastcgi_pass' && single && !location.php) {
+        location.php = { enabled: true, socketPath: args[0] };
+        consumed = true;
+      } else if (php && directive.name === 'fastcgi_index' && args[0] === 'index.php') {
+        consumed = true;
+      } else if (php && directive.name === 'include' && args[0] === 'fastcgi_params') {
+        consumed = true;
+      } else if (php && directive.name === 'fastcgi_param' && args.length === 2) {
+        const phpConfig = location.php as Record<string, unknown> | undefined;
+        if (phpConfig) {
+          phpConfig.extraParams = { ...(phpConfig.extraParams as Record<string, string>), [args[0]]: args[1] };
+          consumed = true;
+        }
+      } else if (cached && CACHE_DIRECTIVES.includes(directive.name)) {
+        consumed = this.parseCacheDirective(directive, cache());
+      } else if (cached && directive.name === 'add_header' && args[0] === 'X-Cache-Status' &&
+        args[1] === '$upstream_cache_status' && args.length === 2) {
+        cache().statusHeader = true;
+        consumed = true;
+      } else if (cors && directive.name === 'add_header' && args[0].startsWith('Access-Control-') && args.length === 2) {
+        consumed = this.parseCorsHeader(args[0], args[1], location.cors as Record<string, unknown>);
+      } else if (directive.name === 'limit_req' && !location.rateLimit) {
+        const rateLimit: Record<string, unknown> = {};
+        consumed = args.every(part => {
+          if (part.startsWith('zone=')) {
+            rateLimit.zone = part.slice(5);
+          } else if (/^burst=\d+$/.test(part)) {
+            rateLimit.burstSize = parseInt(part.slice(6));
+          } else if (/^delay=\d+$/.test(part)) {
+            rateLimit.delay = parseInt(part.slice(6));
+          } else if (part === 'nodelay') {
+            rateLimit.nodelay = true;
+          } else {
+            return false;
+          }
+          return true;
+        }) && !!rateLimit.zone;
+        if (consumed) {
+          location.rateLimit = { ...(location.rateLimit as Record<string, unknown>), ...rateLimit };
+        }
+      } else if (directive.name === 'limit_req_status' && single && has('limit_req')) {
+        location.rateLimit = { ...(location.rateLimit as Record<string, unknown>), status: parseInt(args[0]) };
+        consumed = true;
+      } else if (directive.name === 'limit_conn' && args.length === 2 && !(location.connectionLimit as Record<string, unknown>)?.zone) {
+        location.connectionLimit = {
+          ...(location.connectionLimit as Record<string, unknown>),
+          zone: args[0],
+          connections: parseInt(args[1])
+        };
+        consumed = true;
+      } else if (directive.name === 'limit_conn_status' && single && has('limit_conn')) {
+        location.connectionLimit = { ...(location.connectionLimit as Record<string, unknown>), status: parseInt(args[0]) };
+        consumed = true;
+      } else if (directive.name === 'access_log' || directive.name === 'error_log') {
+        consumed = this.parseLogDirective(directive, logging);
+      }
+
+      if (!consumed) {
+        extraDirectives.push(formatDirective(directive));
+      }
+    }
+
+    if (Object.keys(denyCategories).length) {
+      location.denyCategories = denyCategories;
+    }
+    if (Object.keys(logging).length) {
+      location.logging = logging;
+    }
+    if (extraDirectives.length) {
+      location.extraDirectives = extraDirectives;
+    }
+    return location;
+  }
+
+  private parseCacheDirective(directive: DirectiveNode, cache: Record<string, unknown>): boolean {
+    const args = directive.args;
+    switch (directive.name) {
+      case 'proxy_cache':
+        if (args.length !== 1 || cache.zone) return false;
+        cache.zone = args[0];
+        return true;
+      case 'proxy_cache_valid':
+        if (args.length > 1) {
+          cache.valid = { ...(cache.valid as Record<string, string>), [args.slice(0, -1).join(' ')]: args[args.length - 1] };
+        } else {
+          cache.validTime = args[0];
+        }
+        return true;
+      case 'proxy_cache_key':
+        cache.keys = args;
+        return true;
+      case 'proxy_cache_use_stale':
+        cache.useStale = args;
+        return true;
+      case 'proxy_cache_min_uses':
+        cache.minUses = parseInt(args[0]);
+        return true;
+      case 'proxy_cache_bypass':
+        cache.bypass = args;
+        return true;
+      case 'proxy_no_cache':
+        cache.noCache = args;
+        return true;
+      case 'proxy_cache_methods':
+        cache.methods = args;
+        return true;
+      case 'proxy_cache_lock':
+        if (args[0] !== 'on') return false;
+        cache.lock = true;
+        return true;
+      case 'proxy_cache_lock_timeout':
+        // Only rendered together with proxy_cache_lock
+        if (!cache.lock) return false;
+        cache.lockTimeout = args[0];
+        return true;
+      case 'proxy_cache_background_update':
+        if (args[0] !== 'on') return false;
+        cache.backgroundUpdate = true;
+        return true;
+    }
+    return false;
+  }
+
+  private parseCorsHeader(header: string, value: string, cors: Record<string, unknown>): boolean {
+    const list = (v: string) => v.split(/\s*,\s*|\s+/).filter(Boolean);
+    if (header === 'Access-Control-Allow-Origin') {
+      cors.origins = value.split(/\s+/).filter(Boolean);
+    } else if (header === 'Access-Control-Allow-Methods') {
+      cors.methods = list(value);
+    } else if (header === 'Access-Control-Allow-Headers') {
+      cors.headers = list(value);
+    } else if (header === 'Access-Control-Allow-Credentials' && value === 'true') {
+      cors.credentials = true;
+    } else {
+      return false;
+    }
+    return true;
+  }
+
+  private parseServerHeader(header: string, value: string, config: Record<string, unknown>): boolean {
+    const security = (config.security || {}) as Record<string, unknown>;
+    if (header === 'Strict-Transport-Security' && config.ssl) {
+      const match = value.match(/^max-age=(\d+)((?:; ?(?:includeSubDomains|preload))*)$/);
+      if (!match) return false;
+      (config.ssl as Record<string, unknown>).hsts = {
+        enabled: true,
+        maxAge: parseInt(match[1]),
+        ...(match[2].includes('includeSubDomains') && { includeSubdomains: true }),
+        ...(match[2].includes('preload') && { preload: true })
+      };
+      return true;
+    } else if (header === 'X-Frame-Options') {
+      security.xFrameOptions = value;
+    } else if (header === 'X-Content-Type-Options' && value === 'nosniff') {
+      security.xContentTypeOptions = true;
+    } else if (header === 'X-XSS-Protection' && value === '1; mode=block') {
+      security.xXSSProtection = true;
+    } else if (header === 'Referrer-Policy') {
+      security.referrerPolicy = value;
+    } else if (header === 'Content-Security-Policy') {
+      security.contentSecurityPolicy = value.split(';').map(p => p.trim()).filter(Boolean);
+    } else {
+      return false;
+    }
+    config.security = security;
+    return true;
+  }
+
+  private parseServer(node: DirectiveNode): Record<string, unknown> {
+    const config: Record<string, unknown> = {};
+    const directives = node.block || [];
+    const extraDirectives: string[] = [];
+    const locations: Record<string, unknown>[] = [];
+
+    // A single plain listen becomes `port`, several or ones with an address
+    // or socket options become `listeners`. The server is treated as SSL when
+    // a listen says so and the ssl_* directives are then folded into the ssl
+    // section.
+    const listens = directives.filter(d => d.name === 'listen');
+    const listeners = new Map(listens.map(d => [d, this.parseListen(d, config)] as const));
+    if ([...listeners.values()].some(listener => listener?.ssl)) {
+      config.ssl = {};
+    }
+    const ssl = config.ssl as Record<string, unknown> | undefined;
+    const quicPorts = [...new Set([...listeners.values()].filter(l => l?.quic).map(l => l!.port))];
+    const altSvc = quicPorts.map(port => `h3=":${port}"; ma=86400`).join(', ');
+    const realIp: Record<string, unknown> = {};
+    const realIpDirectives = this.realIpDirectives(directives);
+    const access: Record<string, unknown>[] = [];
+    const denyCategories: Record<string, string[]> = {};
+    const redirects: Record<string, unknown>[] = [];
+    const logging: Record<string, unknown> = {};
+
+    for (const directive of directives) {
+      const args = directive.args;
+      let consumed = false;
+
+      if (directive.name === 'if' && directive.block) {
+        consumed = this.parseDenyCategory(directive, denyCategories) || this.parseRedirectMap(directive, redirects);
+      } else if (realIpDirectives.includes(directive)) {
+        this.parseRealIpDirective(directive, realIp);
+        consumed = true;
+      } else if ((directive.name === 'allow' || directive.name === 'deny') && args.length === 1) {
+        access.push({ action: directive.name, address: args[0] });
+        consumed = true;
+      } else if (directive.name === 'location' && directive.block && !config.acmeChallenge && this.parseAcmeChallenge(directive)) {
+        config.acmeChallenge = this.parseAcmeChallenge(directive);
+        consumed = true;
+      } else if (directive.name === 'location' && directive.block && this.parseRedirect(directive)) {
+        redirects.push(this.parseRedirect(directive)!);
+        consumed = true;
+      } else if (directive.name === 'location' && directive.block) {
+        locations.push(this.parseLocation(directive));
+        consumed = true;
+      } else if (ZONE_DIRECTIVES.includes(directive.name)) {
+        // Hoisted into the zone maps by convert()
+        consumed = true;
+      } else if (directive.block) {
+        consumed = false;
+      } else if (directive.name === 'server_name' && !config.serverName) {
+        config.serverName = args.map(quoteArgument).join(' ');
+        config.domain = this.extractDomainFromServerName(config.serverName as string);
+        consumed = true;
+      } else if (directive.name === 'listen') {
+        consumed = !!listeners.get(directive);
+      } else if (directive.name === 'http2' && args[0] === 'on') {
+        config.http2 = true;
+        consumed = true;
+      } else if (ssl && directive.name.startsWith('ssl_')) {
+        consumed = this.parseSSLDirective(directive, ssl);
+      } else if (directive.name === 'add_header' && args.length === 2 && args[0] === 'Alt-Svc' && ssl && altSvc) {
+        // Rendered for the QUIC listeners
+        consumed = args[1] === altSvc;
+      } else if (directive.name === 'add_header' && args.length === 2) {
+        consumed = this.parseServerHeader(args[0], args[1], config);
+      } else if (directive.name === 'client_max_body_size' && args.length === 1) {
+        config.clientMaxBodySize = args[0];
+        consumed = true;
+      } else if (directive.name === 'gzip' && args[0] === 'on') {
+        config.gzip = true;
+        config.gzipTypes = config.gzipTypes || [];
+        consumed = true;
+      } else if (directive.name === 'gzip_types' && directives.some(d => d.name === 'gzip' && d.args[0] === 'on')) {
+        config.gzipTypes = args;
+        consumed = true;
+      } else if (directive.name === 'access_log' || directive.name === 'error_log') {
+        consumed = this.parseLogDirective(directive, logging);
+      }
+
+      if (!consumed) {
+        extraDirectives.push(formatDirective(directive));
+      }
+    }
+
+    const parsed = [...listeners.values()].filter(l => l !== null) as Record<string, unknown>[];
+    const main = parsed.find(l => !l.quic && !!l.ssl === !!ssl) || parsed.find(l => !l.quic);
+    if (!main) {
+      this.warn(node, 'Server block has no supported TCP listen; it was given port 80');
+    }
+    config.port = main?.port || 80;
+    const plain = parsed.length === 1 && main && Object.keys(main).every(key => ['port', 'ssl', 'defaultServer'].includes(key));
+    if (plain && main.defaultServer) {
+      config.defaultServer = true;
+    } else if (parsed.length && !plain) {
+      // ssl is only spelled out where it differs from the site
+      config.listeners = parsed.map(({ ssl: listenerSsl, ...listener }) => ({
+        ...listener,
+        ...(!listener.quic && !listenerSsl && ssl && { ssl: false })
+      }));
+    }
+    if (Object.keys(realIp).length) {
+      config.realIp = realIp;
+    }
+    if (Object.keys(denyCategories).length) {
+      config.denyCategories = denyCategories;
+    }
+    if (access.length) {
+      config.access = access;
+    }
+    if (redirects.length) {
+      config.redirects = redirects;
+    }
+    if (Object.keys(logging).length) {
+      config.logging = logging;
+    }
+    config.locations = locations;
+    this.foldSkipPaths(config);
+    if (extraDirectives.length) {
+      config.extraDirectives = extraDirectives;
+    }
+    return config;
+  }
+
+  // access_log and error_log as the generator renders them. Relative paths,
+  // unknown options and further error logs stay in extraDirectives.
+  private parseLogDirective(directive: DirectiveNode, logging: Record<string, unknown>): boolean {
+    const [target, ...params] = directive.args;
+    const access = logging.access as Record<string, unknown>[] | undefined;
+    if (directive.name === 'access_log' && target === 'off') {
+      if (params.length || access) {
+        return false;
+      }
+      logging.access = [];
+      return true;
+    }
+    const destination = parseLogDestination(target);
+    if (!destination) {
+      return false;
+    }
+
+    if (directive.name === 'error_log') {
+      const level = params[0];
+      if (logging.error || params.length > 1 || (level && !LOG_LEVELS.includes(level as LogLevel)) ||
+        (destination.syslog as Record<string, unknown> | undefined)?.severity) {
+        return false;
+      }
+      logging.error = { ...destination, ...(level && { level }) };
+      return true;
+    }
+
+    if (access?.length === 0) {
+      return false;
+    }
+    const log: Record<string, unknown> = { ...destination };
+    const [format, ...options] = params[0]?.includes('=') ? ['', ...params] : params;
+    // The generator spells out "combined" itself when options follow it
+    if (format && (format !== 'combined' || options.length === 0)) {
+      log.format = format;
+    }
+    const known = options.every(option => {
+      if (/^buffer=\d+[kKmMgG]?$/.test(option)) {
+        log.buffer = option.slice(7);
+      } else if (option === 'gzip') {
+        log.gzip = true;
+      } else if (/^gzip=[1-9]$/.test(option)) {
+        log.gzip = parseInt(option.slice(5));
+      } else if (/^flush=\S+$/.test(option)) {
+        log.flush = option.slice(6);
+      } else if (/^if=\$\w+$/.test(option)) {
+        log.if = option.slice(3);
+      } else {
+        return false;
+      }
+      return true;
+    });
+    if (!known) {
+      return false;
+    }
+    logging.access = [...(access || []), log];
+    return true;
+  }
+
+  // log_format in single quotes as the generator renders it; JSON formats
+  // it could have rendered from fields become fields
+  private parseLogFormat(node: DirectiveNode): string | Record<string, unknown> | null {
+    const [name, ...rest] = node.args;
+    const escape = rest[0]?.match(/^escape=(default|json|none)$/)?.[1];
+    const format = rest.slice(escape ? 1 : 0).join('');
+    if (!name || !format || format.includes("'")) {
+      return null;
+    }
+    const fields = escape === 'json' ? parseJsonFields(format) : null;
+    if (fields) {
+      return { fields };
+    }
+    return escape ? { format, escape } : format;
+  }
+
+  private parseLogFormats(context: DirectiveNode[]): Record<string, unknown> {
+    const formats: Record<string, unknown> = {};
+    for (const node of context.filter(n => n.name === 'log_format')) {
+      const format = this.parseLogFormat(node);
+      if (format) {
+        formats[node.args[0]] = format;
+      }
+    }
+    return formats;
+  }
+
+  // A site file declares the built-in "json" format under a name of its own;
+  // its logs go back to using "json"
+  private foldJsonFormat(config: Record<string, unknown>, formats: Record<string, unknown>): void {
+    if (!config.domain || formats.json) {
+      return;
+    }
+    const name = logFormatName(config as unknown as NginxConfig, {}, 'json');
+    if (JSON.stringify((formats[name] as Record<string, unknown> | undefined)?.fields) !== JSON.stringify(JSON_LOG_FIELDS)) {
+      return;
+    }
+    for (const log of siteAccessLogs(config).filter(log => log.format === name)) {
+      log.format = 'json';
+    }
+    delete formats[name];
+  }
+
+  // Access logs that all log if=$log_<domain>, a map of exact URIs to 0, are
+  // skipPaths
+  private foldSkipPaths(config: Record<string, unknown>): void {
+    const variable = config.domain ? skipLogVariable(config.domain as string) : '';
+    const map = this.maps[variable];
+    const logs = siteAccessLogs(config);
+    if (!map || map.source !== '$uri' || map.default !== '1' || map.hostnames || map.volatile ||
+      !logs.length || !logs.every(log => log.if === `$${variable}`)) {
+      return;
+    }
+    const entries = map.entries as { match: string; value: string }[];
+    if (!entries.length || !entries.every(entry => entry.value === '0' && /^\/[^\s;{}"'\\]*$/.test(entry.match))) {
+      return;
+    }
+    logs.forEach(log => delete log.if);
+    config.logging = { ...(config.logging as Record<string, unknown>), skipPaths: entries.map(entry => entry.match) };
+    delete this.maps[variable];
+  }
+
+  // A listen on a port with an optional IPv4 or [IPv6] address; unix sockets
+  // and hostnames stay in extraDirectives
+  private parseListen(directive: DirectiveNode, config: Record<string, unknown>): Record<string, unknown> | null {
+    const [address, ...params] = directive.args;
+    const match = address?.match(/^(?:\[([^\]]+)\]:|(\*|[\d.]+):)?(\d+)$/);
+    if (!match) {
+      return null;
+    }
+    const listener: Record<string, unknown> = { port: parseInt(match[3]) };
+    if (match[1] || (match[2] && match[2] !== '*')) {
+      listener.address = match[1] || match[2];
+    }
+    const flags: Record<string, string> = {
+      ssl: 'ssl',
+      quic: 'quic',
+      default_server: 'defaultServer',
+      default: 'defaultServer',
+      reuseport: 'reuseport',
+      proxy_protocol: 'acceptProxyProtocol'
+    };
+    for (const param of params) {
+      if (flags[param]) {
+        listener[flags[param]] = true;
+      } else if (param === 'http2') {
+        // The older spelling of `http2 on`
+        config.http2 = true;
+      } else {
+        this.warn(directive, `listen parameter '${param}' is not supported and was dropped`);
+      }
+    }
+    return listener;
+  }
+
+  // The location the generator renders for acmeChallenge, in either form
+  private parseAcmeChallenge(node: DirectiveNode): Record<string, unknown> | null {
+    const directives = node.block || [];
+    const only = (...names: string[]) =>
+      directives.length === names.length && names.every(name => directives.some(d => d.name === name));
+    if (node.args.join(' ') !== '^~ /.well-known/acme-challenge/') {
+      return null;
+    }
+    const value = (name: string) => directives.find(d => d.name === name)!.args;
+    if (only('proxy_pass', 'proxy_set_header') && value('proxy_set_header').join(' ') === 'Host $host') {
+      return { proxy: value('proxy_pass')[0] };
+    }
+    if (only('root', 'default_type', 'try_files') && value('default_type')[0] === 'text/plain' &&
+      value('try_files').join(' ') === '$uri =404') {
+      return { webroot: value('root')[0] };
+    }
+    return null;
+  }
+
+  // A port 80 server that only redirects to https is what the generator
+  // renders for ssl.forceRedirect. With an ACME challenge location the
+  // redirect sits in `location /` next to it.
+  private isRedirectServer(node: DirectiveNode): boolean {
+    const directives = node.block || [];
+    const isRedirect = (d: DirectiveNode) =>
+      d.name === 'return' && d.args[0] === '301' && d.args[1] === 'https://$server_name$request_uri';
+    const listens = directives.filter(d => d.name === 'listen');
+    const header = listens.length > 0 &&
+      listens.every(d => /^(?:\[[^\]]+\]:|[\d.*]+:)?80$/.test(d.args[0]) && d.args.slice(1).every(arg => arg === 'proxy_protocol')) &&
+      directives.some(d => d.name === 'server_name');
+    if (directives.length === listens.length + 2) {
+      return header && directives.some(isRedirect);
+    }
+    return directives.length === listens.length + 3 && header &&
+      directives.some(d => d.name === 'location' && this.parseAcmeChallenge(d)) &&
+      directives.some(d => d.name === 'location' && d.args.join(' ') === '/' && d.block?.length === 1 && isRedirect(d.block[0]));
+  }
+
+  // Locations of the forms the generator renders for redirects: `return` in
+  // an exact or regex location, and `rewrite` or a nested regex location in a
+  // ^~ prefix location
+  private parseRedirect(node: DirectiveNode): Record<string, unknown> | null {
+    const [modifier, path, ...rest] = node.args;
+    const directive = node.block?.length === 1 ? node.block[0] : undefined;
+    if (!path || rest.length || !directive) {
+      return null;
+    }
+    const redirect = (match: string, target: string, status: number, keepQuery: boolean) =>
+      /^(\/|https?:\/\/)/.test(target) && REDIRECT_STATUSES.includes(status as typeof REDIRECT_STATUSES[number])
+        ? {
+          source: path,
+          ...(match !== 'exact' && { match }),
+          target,
+          ...(status !== 301 && { status }),
+          ...(!keepQuery && { keepQuery: false })
+        }
+        : null;
+    const withQuery = (target: string): [string, boolean] =>
+      target.endsWith('$is_args$args') ? [target.slice(0, -'$is_args$args'.length), true] : [target, false];
+
+    if ((modifier === '=' || modifier === '~') && directive.name === 'return' && directive.args.length === 2) {
+      const [target, keepQuery] = withQuery(directive.args[1]);
+      return redirect(modifier === '=' ? 'exact' : 'regex', target, Number(directive.args[0]), keepQuery);
+    }
+    if (modifier !== '^~') {
+      return null;
+    }
+    const pattern = `^${path.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(.*)$`;
+    if (directive.name === 'rewrite' && directive.args.length === 3 && directive.args[0] === pattern) {
+      const [, replacement, flag] = directive.args;
+      const match = replacement.match(/^(.*)\$1(\??)$/);
+      const status = flag === 'permanent' ? 301 : flag === 'redirect' ? 302 : 0;
+      return match ? redirect('prefix', match[1], status, !match[2]) : null;
+    }
+    const inner = directive.block?.length === 1 ? directive.block[0] : undefined;
+    if (directive.name === 'location' && directive.args.join(' ') === `~ ${pattern}` && inner?.name === 'return' && inner.args.length === 2) {
+      const [target, keepQuery] = withQuery(inner.args[1]);
+      const status = Number(inner.args[0]);
+      return target.endsWith('$1') && status !== 301 && status !== 302
+        ? redirect('prefix', target.slice(0, -2), status, keepQuery)
+        : null;
+    }
+    return null;
+  }
+
+  // `if ($redirect_...) { return ...; }` over a map of $uri to targets, as
+  // rendered for sites with many exact redirects. The map is then left out of
+  // the imported maps.
+  private parseRedirectMap(directive: DirectiveNode, redirects: Record<string, unknown>[]): boolean {
+    const condition = formatDirective({ ...directive, block: undefined }).match(/^if \(\$(redirect_\w+)\)$/);
+    const body = directive.block?.length === 1 ? directive.block[0] : undefined;
+    const name = condition?.[1] || '';
+    const map = this.maps[name];
+    if (!map || body?.name !== 'return' || body.args.length !== 2 || map.source !== '$uri' || Object.keys(map).length !== 2) {
+      return false;
+    }
+    const status = Number(body.args[0]);
+    const keepQuery = body.args[1] === `$${name}$is_args$args`;
+    const entries = map.entries as { match: string; value: string }[];
+    if (!REDIRECT_STATUSES.includes(status as typeof REDIRECT_STATUSES[number]) || (!keepQuery && body.args[1] !== `$${name}`) ||
+      !entries.every(entry => entry.match.startsWith('/') && /^(\/|https?:\/\/)/.test(entry.value))) {
+      return false;
+    }
+    for (const entry of entries) {
+      redirects.push({
+        source: entry.match,
+        target: entry.value,
+        ...(status !== 301 && { status }),
+        ...(!keepQuery && { keepQuery: false })
+      });
+    }
+    delete this.maps[name];
+    return true;
+  }
+
+  // A server that only answers with a redirect to an absolute URL, as
+  // rendered for hostRedirects and canonicalHost
+  private parseHostRedirect(node: DirectiveNode): Record<string, unknown> | null {
+    const directives = node.block || [];
+    let redirect: DirectiveNode | undefined;
+    let acmeChallenge: Record<string, unknown> | undefined;
+    for (const directive of directives) {
+      if (directive.name === 'return' && !redirect) {
+        redirect = directive;
+      } else if (directive.name === 'location' && directive.args.join(' ') === '/' && directive.block?.length === 1 && !redirect) {
+        redirect = directive.block[0];
+      } else if (directive.name === 'location' && !acmeChallenge && this.parseAcmeChallenge(directive)) {
+        acmeChallenge = this.parseAcmeChallenge(directive)!;
+      } else if (!['listen', 'server_name', 'ssl_certificate', 'ssl_certificate_key'].includes(directive.name) || directive.block) {
+        return null;
+      }
+    }
+    const url = redirect?.name === 'return' && redirect.args.length === 2
+      ? redirect.args[1].match(/^(https?:\/\/[^/$\s]+(?:\/[^$\s]*)?)(\$request_uri)?$/)
+      : null;
+    const serverName = directives.find(d => d.name === 'server_name');
+    if (!url || !serverName || !REDIRECT_STATUSES.includes(Number(redirect!.args[0]) as typeof REDIRECT_STATUSES[number])) {
+      return null;
+    }
+    const value = (name: string) => directives.find(d => d.name === name)?.args[0];
+    return {
+      serverNames: serverName.args,
+      target: url[1],
+      status: Number(redirect!.args[0]),
+      keepPath: !!url[2],
+      node,
+      acmeChallenge,
+      certificate: value('ssl_certificate'),
+      certificateKey: value('ssl_certificate_key')
+    };
+  }
+
+  // Adds a redirect server to the site it redirects to when it listens the way
+  // the generator would render it for that site
+  private foldHostRedirect(redirect: Record<string, unknown>, sites: { config: Record<string, unknown> }[]): boolean {
+    const host = (redirect.target as string).replace(/^https?:\/\/([^/:]+).*$/, '$1');
+    const site = sites.find(({ config }) => (config.serverName as string | undefined)?.split(' ')[0] === host)?.config;
+    const ssl = site?.ssl as Record<string, unknown> | undefined;
+    if (!site) {
+      return false;
+    }
+    if (!sameListens(redirect.node as DirectiveNode, secondaryListeners(site as unknown as NginxConfig)) ||
+      JSON.stringify(redirect.acmeChallenge) !== JSON.stringify(site.acmeChallenge) ||
+      !ssl !== !redirect.certificate || !redirect.certificate !== !redirect.certificateKey) {
+      return false;
+    }
+
+    const config = site as unknown as NginxConfig;
+    const target = redirect.keepPath && redirect.target === defaultRedirectTarget(config) ? undefined : redirect.target as string;
+    const certificate = redirect.certificate !== ssl?.certificate || redirect.certificateKey !== ssl?.certificateKey;
+    const first = config.serverName.split(' ')[0];
+    const counterpart = first.startsWith('www.') ? first.slice(4) : `www.${first}`;
+    const names = redirect.serverNames as string[];
+    if (!site.canonicalHost && !target && redirect.status === 301 && !certificate && names.length === 1 && names[0] === counterpart) {
+      site.canonicalHost = first.startsWith('www.') ? 'www' : 'apex';
+      return true;
+    }
+    site.hostRedirects = [...(site.hostRedirects as unknown[] || []), {
+      serverNames: names,
+      ...(target && { target }),
+      ...(redirect.status !== 301 && { status: redirect.status }),
+      ...(!redirect.keepPath && { keepPath: false }),
+      ...(certificate && { certificate: redirect.certificate, certificateKey: redirect.certificateKey })
+    }];
+    return true;
+  }
+
+  // Returns the directive tree of the http context, or of the file itself for
+  // site files that only hold server blocks.
+  private httpContext(nodes: DirectiveNode[]): DirectiveNode[] {
+    return [...nodes, ...nodes.filter(n => n.name === 'http').flatMap(n => n.block || [])];
+  }
+
+  convert(nginxConfig: string, file?: string): Record<string, unknown> | Record<string, unknown>[] {
+    this.warnings = [];
+    this.geoVariables = new Set();
+    const context = this.httpContext(this.parser.parse(nginxConfig, file));
+    this.upstreams = this.parseUpstreams(context);
+    const servers = context.filter(n => n.name === 'server' && n.block);
+    if (!servers.length) {
+      return {};
+    }
+
+    // Zones may be declared at file, http or server level
+    const zones = this.parseZones([...context, ...servers.flatMap(s => s.block!)]);
+    const maps = this.parseMaps(context);
+    const geo = this.parseGeo(context);
+    this.maps = maps;
+
+    const configs = this.convertServers(servers).map(({ config }) => config);
+    this.attachUpstreams(configs);
+    configs.forEach(config => this.attachZones(config, zones));
+    const logFormats = this.parseLogFormats(context);
+    configs.forEach(config => this.foldJsonFormat(config, logFormats));
+    if (Object.keys(logFormats).length) {
+      configs[0].logFormats = logFormats;
+    }
+    if (Object.keys(maps).length) {
+      configs[0].maps = maps;
+    }
+    if (Object.keys(geo).length) {
+      configs[0].geo = geo;
+    }
+    return configs.length === 1 ? configs[0] : configs;
+  }
+
+  // Imports a complete nginx tree starting at its main config file. Upstreams,
+  // maps and zones end up in the shared http context and every server block
+  // becomes a site that remembers the file it was read from.
+  async convertTree(path: string): Promise<ImportResult> {
+    this.warnings = [];
+    this.geoVariables = new Set();
+    const nodes = await this.parser.parseFile(path, this.warnings);
+    const main: MainContext = {};
+    const http: HttpContext = {};
+    const mainExtra: string[] = [];
+    let stream: StreamContext | undefined;
+
+    const httpBlocks = nodes.filter(n => n.name === 'http' && n.block);
+    // A file without an http block is taken to be the inside of one
+    const context = httpBlocks.length ? httpBlocks.flatMap(n => n.block!) : nodes;
+
+    if (httpBlocks.length) {
+      for (const node of nodes) {
+        const args = node.args;
+        if (node.name === 'http' && node.block) {
+          continue;
+        } else if (node.name === 'user') {
+          main.user = args.join(' ');
+        } else if (node.name === 'worker_processes' && args.length === 1) {
+          main.workerProcesses = args[0] === 'auto' ? 'auto' : parseInt(args[0]);
+        } else if (node.name === 'worker_rlimit_nofile' && args.length === 1) {
+          main.workerRlimitNofile = parseInt(args[0]);
+        } else if (node.name === 'pid' && args.length === 1) {
+          main.pid = args[0];
+        } else if (node.name === 'error_log') {
+          main.errorLog = args.map(quoteArgument).join(' ');
+        } else if (node.name === 'events' && node.block) {
+          for (const event of node.block) {
+            if (event.name === 'worker_connections' && event.args.length === 1) {
+              main.workerConnections = parseInt(event.args[0]);
+            } else {
+              this.warn(event, `events directive '${event.name}' is not supported and was dropped`);
+            }
+          }
+        } else if (node.name === 'stream' && node.block) {
+          stream = this.parseStream(node);
+        } else if (node.name === 'mail') {
+          this.warn(node, `The ${node.name} context is not supported and was skipped`);
+        } else {
+          mainExtra.push(formatDirective(node));
+        }
+      }
+    }
+    if (mainExtra.length) {
+      main.extraDirectives = mainExtra;
+    }
+
+    this.upstreams = this.parseUpstreams(context);
+    const servers = context.filter(n => n.name === 'server' && n.block);
+    const zones = this.parseZones([...context, ...servers.flatMap(s => s.block!)]);
+    const maps = this.parseMaps(context);
+    const geo = this.parseGeo(context);
+    this.maps = maps;
+    const shared: Record<string, unknown> = { ...zones, upstreams: this.upstreams, maps, geo };
+    for (const [key, value] of Object.entries(shared)) {
+      if (Object.keys(value as Record<string, unknown>).length) {
+        (http as Record<string, unknown>)[key] = value;
+      }
+    }
+
+    const httpExtra: string[] = [];
+    const realIp: Record<string, unknown> = {};
+    const realIpDirectives = this.realIpDirectives(context);
+    for (const node of context) {
+      const args = node.args;
+      if (['server', 'upstream', 'map', 'geo', ...ZONE_DIRECTIVES].includes(node.name)) {
+        continue;
+      } else if (realIpDirectives.includes(node)) {
+        this.parseRealIpDirective(node, realIp);
+      } else if (node.name === 'include' && args[0]?.endsWith('mime.types')) {
+        // Always rendered by the main config generator
+      } else if (node.name === 'default_type' && args[0] === 'application/octet-stream') {
+        // Same as above
+      } else if (node.name === 'log_format' && this.parseLogFormat(node)) {
+        http.logFormats = { ...http.logFormats, [args[0]]: this.parseLogFormat(node) as string };
+      } else if (node.name === 'access_log') {
+        http.accessLog = args.map(quoteArgument).join(' ');
+      } else if (node.name === 'resolver') {
+        http.resolvers = args;
+      } else if (node.name === 'resolver_timeout' && args.length === 1) {
+        http.resolverTimeout = args[0];
+      } else if (node.name === 'sendfile' && (args[0] === 'on' || args[0] === 'off')) {
+        http.sendfile = args[0] === 'on';
+      } else if (node.name === 'keepalive_timeout') {
+        http.keepaliveTimeout = args.join(' ');
+      } else if (node.name === 'server_tokens' && args[0] === 'off') {
+        http.serverTokens = false;
+      } else {
+        httpExtra.push(formatDirective(node));
+      }
+    }
+    if (Object.keys(realIp).length) {
+      http.realIp = realIp as HttpContext['realIp'];
+    }
+    if (httpExtra.length) {
+      http.extraDirectives = httpExtra;
+    }
+
+    const domains = new Map<string, DirectiveNode>();
+    const sites = this.convertServers(servers).map(({ config, node }) => {
+      const domain = config.domain as string | undefined;
+      if (!domain) {
+        this.warn(node, 'Server block has no server_name; its domain must be filled in by hand');
+      } else if (domains.has(domain)) {
+        const first = domains.get(domain)!;
+        this.warn(node, `Domain '${domain}' is also used by the server block at ${first.file}:${first.line}`);
+      } else {
+        domains.set(domain, node);
+      }
+      return { config: config as unknown as NginxConfig, ...(node.file && { source: node.file }) };
+    });
+    if (http.maps && !Object.keys(http.maps).length) {
+      delete http.maps;
+    }
+    if (http.logFormats) {
+      sites.forEach(site => this.foldJsonFormat(site.config as unknown as Record<string, unknown>, http.logFormats!));
+      if (!Object.keys(http.logFormats).length) {
+        delete http.logFormats;
+      }
+    }
+
+    const workspace: Workspace = { sites };
+    if (Object.keys(main).length) workspace.main = main;
+    if (Object.keys(http).length) workspace.http = http;
+    if (stream) workspace.stream = stream;
+    return { workspace, warnings: this.warnings };
+  }
+
+  private parseStream(node: DirectiveNode): StreamContext {
+    const context = node.block!;
+    const upstreams = this.parseUpstreams(context);
+    const maps = this.parseMaps(context);
+    const servers: StreamServer[] = [];
+    const extra: string[] = [];
+
+    for (const directive of context) {
+      if (directive.name === 'server' && directive.block) {
+        const server = this.parseStreamServer(directive, upstreams);
+        if (server) {
+          let name = server.name;
+          for (let i = 2; servers.some(s => s.name === name); i++) {
+            name = `${server.name}-${i}`;
+          }
+          servers.push({ ...server, name });
+        }
+      } else if (directive.name !== 'upstream' && directive.name !== 'map') {
+        extra.push(formatDirective(directive));
+      }
+    }
+
+    const stream: StreamContext = { servers };
+    if (Object.keys(upstreams).length) stream.upstreams = upstreams as unknown as StreamContext['upstreams'];
+    if (Object.keys(maps).length) stream.maps = maps as unknown as StreamContext['maps'];
+    if (extra.length) stream.extraDirectives = extra;
+    return stream;
+  }
+
+  private parseStreamServer(node: DirectiveNode, upstreams: Record<string, unknown>): StreamServer | null {
+    const listens = node.block!.filter(d => d.name === 'listen');
+    if (!listens.length) {
+      this.warn(node, 'Stream server block has no listen directive and was skipped');
+      return null;
+    }
+    for (const extraListen of listens.slice(1)) {
+      this.warn(extraListen, `Additional listen '${extraListen.args.join(' ')}' was dropped; stream servers have one listener`);
+    }
+
+    const [listen, ...flags] = listens[0].args;
+    const match = listen.match(/^(?:\[([^\]]+)\]:|([^:]+):)?(\d+)$/);
+    if (!match) {
+      this.warn(listens[0], `Stream listen '${listen}' is not supported; the server was skipped`);
+      return null;
+    }
+    const address = match[1] || (match[2] !== '*' ? match[2] : undefined);
+    const server: Record<string, unknown> = { name: '', port: parseInt(match[3]), ...(address && { address }) };
+    for (const flag of flags) {
+      if (flag === 'udp') {
+        server.protocol = 'udp';
+      } else if (flag === 'proxy_protocol') {
+        server.acceptProxyProtocol = true;
+      } else if (flag !== 'ssl') {
+        this.warn(listens[0], `Listen parameter '${flag}' is not supported and was dropped`);
+      }
+    }
+
+    const ssl: Record<string, unknown> = {};
+    const extra: string[] = [];
+    for (const directive of node.block!) {
+      const args = directive.args;
+      if (directive.name === 'listen') {
+        continue;
+      } else if (directive.name === 'proxy_pass' && args.length === 1) {
+        server.proxyPass = args[0];
+      } else if (directive.name === 'ssl_certificate' && args.length === 1) {
+        ssl.certificate = args[0];
+      } else if (directive.name === 'ssl_certificate_key' && args.length === 1) {
+        ssl.certificateKey = args[0];
+      } else if (directive.name === 'ssl_protocols') {
+        ssl.protocols = args;
+      } else if (directive.name === 'ssl_preread' && (args[0] === 'on' || args[0] === 'off')) {
+        if (args[0] === 'on') server.sslPreread = true;
+      } else if (directive.name === 'proxy_protocol' && (args[0] === 'on' || args[0] === 'off')) {
+        if (args[0] === 'on') server.proxyProtocol = true;
+      } else if (directive.name === 'proxy_timeout' && args.length === 1) {
+        server.proxyTimeout = args[0];
+      } else if (directive.name === 'proxy_connect_timeout' && args.length === 1) {
+        server.proxyConnectTimeout = args[0];
+      } else if (directive.name === 'proxy_responses' && args.length === 1) {
+        server.proxyResponses = parseInt(args[0]);
+      } else {
+        extra.push(formatDirective(directive));
+      }
+    }
+    if (flags.includes('ssl')) {
+      server.ssl = ssl;
+    } else if (Object.keys(ssl).length) {
+      extra.push(...node.block!.filter(d => d.name.startsWith('ssl_') && d.name !== 'ssl_preread').map(formatDirective));
+    }
+    if (extra.length) {
+      server.extraDirectives = extra;
+    }
+    if (!server.proxyPass) {
+      this.warn(node, 'Stream server has no proxy_pass; it must be filled in by hand');
+    }
+
+    // The generator writes the name as a comment before the block
+    const target = server.proxyPass as string | undefined;
+    server.name = node.comment && /^[\w.-]+$/.test(node.comment)
+      ? node.comment
+      : target && Object.hasOwn(upstreams, target) ? target : `stream-${server.port}`;
+    return server as unknown as StreamServer;
+  }
+
+  // Turns server blocks into site configs. A redirect-only server is folded
+  // into the HTTPS site it redirects to when there is one, and so are servers
+  // redirecting other host names to a site.
+  private convertServers(servers: DirectiveNode[]): { config: Record<string, unknown>; node: DirectiveNode }[] {
+    const sites: { config: Record<string, unknown>; node: DirectiveNode }[] = [];
+    const redirects: DirectiveNode[] = [];
+    for (const server of servers) {
+      if (this.isRedirectServer(server)) {
+        redirects.push(server);
+      } else {
+        sites.push({ config: this.parseServer(server), node: server });
+      }
+    }
+
+    for (const redirect of redirects) {
+      const serverName = redirect.block!.find(d => d.name === 'server_name')!.args.map(quoteArgument).join(' ');
+      const target = sites.find(({ config }) => config.ssl && config.serverName === serverName &&
+        sameListens(redirect, redirectListeners({ ...config, ssl: { forceRedirect: true } } as unknown as NginxConfig)));
+      const acmeChallenge = redirect.block!.find(d => d.name === 'location' && this.parseAcmeChallenge(d));
+      if (target && (!acmeChallenge || JSON.stringify(this.parseAcmeChallenge(acmeChallenge)) === JSON.stringify(target.config.acmeChallenge))) {
+        (target.config.ssl as Record<string, unknown>).forceRedirect = true;
+      } else {
+        sites.push({ config: this.parseServer(redirect), node: redirect });
+      }
+    }
+
+    // Host redirects need forceRedirect settled to tell which ports they use
+    return sites.filter(({ node }) => {
+      const redirect = this.parseHostRedirect(node);
+      return !redirect || !this.foldHostRedirect(redirect, sites.filter(site => site.node !== node));
+    });
+  }
+
+  private parseUpstreams(context: DirectiveNode[]): Record<string, Record<string, unknown>> {
+    return Object.fromEntries(context
+      .filter(n => n.name === 'upstream' && n.block)
+      .map(n => [n.args[0], this.parseUpstream(n)]));
+  }
+
+  private parseMaps(context: DirectiveNode[]): Record<string, Record<string, unknown>> {
+    const maps: Record<string, Record<string, unknown>> = {};
+    for (const node of context.filter(n => n.name === 'map' && n.block)) {
+      if (node.args.length !== 2 || !node.args[1].startsWith('$')) {
+        this.warn(node, 'map block without a source and a $variable was skipped');
+        continue;
+      }
+      const map: Record<string, unknown> = { source: node.args[0] };
+      const entries: { match: string; value: string }[] = [];
+      for (const entry of node.block!) {
+        if (entry.block || entry.args.length > 1) {
+          this.warn(entry, `Unsupported map entry '${formatDirective(entry)}' was dropped`);
+        } else if ((entry.name === 'hostnames' || entry.name === 'volatile') && !entry.args.length) {
+          map[entry.name] = true;
+        } else if (entry.name === 'default' && entry.args.length === 1) {
+          map.default = entry.args[0];
+        } else if (entry.args.length === 1) {
+          entries.push({ match: entry.name.replace(/^\\/, ''), value: entry.args[0] });
+        } else {
+          this.warn(entry, `Map entry '${entry.name}' has no value and was dropped`);
+        }
+      }
+      map.entries = entries;
+      maps[node.args[1].slice(1)] = map;
+    }
+    return maps;
+  }
+
+  // geo blocks with plain address entries; other forms stay unsupported
+  private parseGeo(context: DirectiveNode[]): Record<string, Record<string, unknown>> {
+    const geo: Record<string, Record<string, unknown>> = {};
+    for (const node of context.filter(n => n.name === 'geo' && n.block)) {
+      const variable = node.args[node.args.length - 1];
+      if (node.args.length < 1 || node.args.length > 2 || !variable?.startsWith('$') || (node.args.length === 2 && !node.args[0].startsWith('$'))) {
+        this.warn(node, 'geo block without a $variable was skipped');
+        continue;
+      }
+      const unsupported = node.block!.find(entry => ['ranges', 'proxy', 'proxy_recursive', 'delete', 'include'].includes(entry.name));
+      if (unsupported) {
+        this.warn(unsupported, `geo blocks with '${unsupported.name}' are not supported; the block was skipped`);
+        continue;
+      }
+      const block: Record<string, unknown> = node.args.length === 2 ? { source: node.args[0] } : {};
+      const entries: { address: string; value: string }[] = [];
+      for (const entry of node.block!) {
+        if (entry.block || entry.args.length !== 1) {
+          this.warn(entry, `Unsupported geo entry '${formatDirective(entry)}' was dropped`);
+        } else if (entry.name === 'default') {
+          block.default = entry.args[0];
+        } else {
+          entries.push({ address: entry.name, value: entry.args[0] });
+        }
+      }
+      block.entries = entries;
+      geo[variable.slice(1)] = block;
+      this.geoVariables.add(variable.slice(1));
+    }
+    return geo;
+  }
+
+  // set_real_ip_from, real_ip_header and real_ip_recursive on, when the
+  // header is given: without it nginx uses X-Real-IP, the generator
+  // X-Forwarded-For
+  private realIpDirectives(directives: DirectiveNode[]): DirectiveNode[] {
+    if (!directives.some(d => d.name === 'real_ip_header' && d.args.length === 1) ||
+      !directives.some(d => d.name === 'set_real_ip_from')) {
+      return [];
+    }
+    return directives.filter(d =>
+      (d.name === 'set_real_ip_from' && d.args.length === 1) ||
+      (d.name === 'real_ip_header' && d.args.length === 1) ||
+      (d.name === 'real_ip_recursive' && d.args.length === 1 && d.args[0] === 'on'));
+  }
+
+  private parseRealIpDirective(directive: DirectiveNode, realIp: Record<string, unknown>): void {
+    if (directive.name === 'set_real_ip_from') {
+      realIp.from = [...(realIp.from as string[] || []), directive.args[0]];
+    } else if (directive.name === 'real_ip_header') {
+      if (directive.args[0] !== 'X-Forwarded-For') {
+        realIp.header = directive.args[0];
+      }
+    } else {
+      realIp.recursive = true;
+    }
+  }
+
+  // `if ($var = value) { return 403; }` on a geo variable, as rendered for
+  // denyCategories
+  private parseDenyCategory(directive: DirectiveNode, categories: Record<string, string[]>): boolean {
+    const condition = formatDirective({ ...directive, block: undefined }).match(/^if \(\$(\w+) = ([\w.-]+)\)$/);
+    const body = directive.block?.map(formatDirective).join(';');
+    if (!condition || body !== 'return 403' || !this.geoVariables.has(condition[1])) {
+      return false;
+    }
+    categories[condition[1]] = [...(categories[condition[1]] || []), condition[2]];
+    return true;
+  }
+
+  private warn(node: DirectiveNode, message: string): void {
+    this.warnings.push({ file: node.file, line: node.line, column: node.column, message });
+  }
+}
+
+export interface RoundTripReport {
+  context: string;
+  missing: string[];
+  added: string[];
+}
+
+// Converts a config to JSON, renders it again and compares both directive
+// trees. Directive order within a context is ignored; anything present on one
+// side only is reported per context. Zone declarations are compared across the
+// whole file since the generator hoists them out of server blocks.
+export function checkRoundTrip(nginxConfig: string, file?: string): RoundTripReport[] {
+  const parser = new NginxParser();
+  const converted = new NginxToJSON().convert(nginxConfig, file);
+  const configs = (Array.isArray(converted) ? converted : [converted]) as unknown as NginxConfig[];
+  const rendered = configs.filter(c => c.serverName).map(c => generateNginxConfig(c)).join('\n\n');
+
+  // Site files are rendered without the http block around them
+  const before = parser.parse(nginxConfig, file).flatMap(node => node.name === 'http' && node.block ? node.block : [node]);
+  const after = parser.parse(rendered);
+  const reports: RoundTripReport[] = [];
+  compareBlocks(extractZones(before), extractZones(after), 'zones', reports);
+  compareBlocks(before, after, 'main', reports);
+  return reports;
+}
+
+function extractZones(nodes: DirectiveNode[]): DirectiveNode[] {
+  const zones: DirectiveNode[] = [];
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    if (ZONE_DIRECTIVES.includes(nodes[i].name)) {
+      zones.unshift(...nodes.splice(i, 1));
+    } else if (nodes[i].block) {
+      zones.unshift(...extractZones(nodes[i].block!));
+    }
+  }
+  return zones;
+}
+
+function blockKey(node: DirectiveNode): string {
+  if (node.name === 'server') {
+    const find = (name: string) => node.block?.find(d => d.name === name)?.args.join(' ') || '';
+    return `server ${find('server_name')} ${find('listen').split(' ')[0]}`.trim();
+  }
+  return formatDirective({ ...node, block: undefined });
+}
+
+// Whitespace around commas in header values carries no meaning
+function normalize(node: DirectiveNode): string {
+  if (node.name === 'add_header') {
+    return formatDirective({ ...node, args: node.args.map(arg => arg.replace(/\s*,\s*/g, ',')) });
+  }
+  return formatDirective(node);
+}
+
+// Rewrites `listen ... http2` into `listen ...` plus `http2 on`, which is
+// how the converter stores it
+function expandListen(nodes: DirectiveNode[]): DirectiveNode[] {
+  return nodes.flatMap(node => node.name === 'listen' && node.args.includes('http2')
+    ? [{ ...node, args: node.args.filter(arg => arg !== 'http2') }, { ...node, name: 'http2', args: ['on'] }]
+    : [node]);
+}
+
+function compareBlocks(before: DirectiveNode[], after: DirectiveNode[], context: string, reports: RoundTripReport[]): void {
+  before = expandListen(before);
+  const remaining = after.filter(node => !node.block);
+  const missing: string[] = [];
+  for (const node of before.filter(node => !node.block)) {
+    const index = remaining.findIndex(other => normalize(other) === normalize(node));
+    if (index >= 0) {
+      remaining.splice(index, 1);
+    } else {
+      missing.push(formatDirective(node));
+    }
+  }
+  if (missing.length || remaining.length) {
+    reports.push({ context, missing, added: remaining.map(formatDirective) });
+  }
+
+  const afterBlocks = after.filter(node => node.block);
+  for (const node of before.filter(node => node.block)) {
+    const key = blockKey(node);
+    const index = afterBlocks.findIndex(other => blockKey(other) === key);
+    if (index >= 0) {
+      compareBlocks(node.block!, afterBlocks[index].block!, `${context} > ${key}`, reports);
+      afterBlocks.splice(index, 1);
+    } else {
+      reports.push({ context, missing: [formatDirective(node)], added: [] });
+    }
+  }
+  for (const node of afterBlocks) {
+    reports.push({ context, missing: [], added: [formatDirective(node)] });
+  }
+}
+
+// A log path or syslog:server=...; null for relative paths and unknown
+// syslog parameters
+function parseLogDestination(target: string | undefined): Record<string, unknown> | null {
+  if (target && /^\/[^\s;{}"'\\]*$/.test(target)) {
+    return { path: target };
+  }
+  if (!target?.startsWith('syslog:')) {
+    return null;
+  }
+  const syslog: Record<string, unknown> = {};
+  for (const param of target.slice(7).split(',')) {
+    const [key, value] = [param.split('=')[0], param.slice(param.indexOf('=') + 1)];
+    if (param === 'nohostname') {
+      syslog.nohostname = true;
+    } else if (['server', 'facility', 'severity', 'tag'].includes(key) && param.includes('=') && value) {
+      syslog[key] = value;
+    } else {
+      return null;
+    }
+  }
+  return syslog.server ? { syslog } : null;
+}
+
+// The fields jsonLogFormat() renders a format from, or null when it would
+// render something else
+function parseJsonFields(format: string): Record<string, string> | null {
+  try {
+    const fields = JSON.parse(format.replace(/:(\$\w+)(?=[,}])/g, ':"$1"'));
+    if (typeof fields !== 'object' || fields === null || Array.isArray(fields) ||
+      !Object.entries(fields).every(([name, value]) => /^[\w.@-]+$/.test(name) && typeof value === 'string' && !/['"\\]/.test(value))) {
+      return null;
+    }
+    return jsonLogFormat(fields) === format ? fields : null;
+  } catch {
+    return null;
+  }
+}
+
+// Access logs of a converted server and its locations
+function siteAccessLogs(config: Record<string, unknown>): Record<string, unknown>[] {
+  const locations = (config.locations || []) as Record<string, unknown>[];
+  return [config, ...locations].flatMap(block =>
+    ((block.logging as Record<string, unknown> | undefined)?.access || []) as Record<string, unknown>[]);
+}
+
+// Whether a server block listens exactly as the generator renders listeners
+function sameListens(node: DirectiveNode, listeners: Listener[]): boolean {
+  const actual = (node.block || []).filter(d => d.name === 'listen').map(d => d.args.join(' ')).sort();
+  return JSON.stringify(actual) === JSON.stringify(listeners.map(listenArguments).sort());
+}
+
+function upstreamName(proxyPass: string): string {
+  return proxyPass.replace(/^[a-z]+:\/\//, '').split(/[/:]/)[0];
+}
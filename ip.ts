@@ -0,0 +1,76 @@
+// IPv4 and IPv6 addresses and CIDR ranges, as used by allow/deny, geo and
+// set_real_ip_from
+
+export interface Cidr {
+    version: 4 | 6;
+    // The address as a 32 or 128 bit number
+    bits: bigint;
+    prefix: number;
+}
+
+function parseIPv4(address: string): bigint | null {
+    const octets = address.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+    if (!octets || octets.slice(1).some(octet => Number(octet) > 255)) {
+        return null;
+    }
+    return octets.slice(1).reduce((bits, octet) => (bits << 8n) | BigInt(octet), 0n);
+}
+
+function parseIPv6(address: string): bigint | null {
+    // A trailing IPv4 address, as in ::ffff:192.0.2.1, counts as two groups
+    const ipv4 = address.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+    let text = address;
+    if (ipv4) {
+        const bits = parseIPv4(ipv4[2]);
+        if (bits === null) {
+            return null;
+        }
+        text = `${ipv4[1]}${(bits >> 16n).toString(16)}:${(bits & 0xffffn).toString(16)}`;
+    }
+
+    const halves = text.split("::");
+    if (halves.length > 2) {
+        return null;
+    }
+    const head = halves[0] ? halves[0].split(":") : [];
+    const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+    const missing = 8 - head.length - tail.length;
+    if (halves.length === 2 ? missing < 1 : missing !== 0) {
+        return null;
+    }
+    const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+    if (!groups.every(group => /^[0-9a-fA-F]{1,4}$/.test(group))) {
+        return null;
+    }
+    return groups.reduce((bits, group) => (bits << 16n) | BigInt(parseInt(group, 16)), 0n);
+}
+
+// Parses "192.0.2.1", "10.0.0.0/8" or "2001:db8::/32"; null when malformed
+export function parseCidr(value: string): Cidr | null {
+    const [address, prefix, ...rest] = value.split("/");
+    if (rest.length > 0 || (prefix !== undefined && !/^\d{1,3}$/.test(prefix))) {
+        return null;
+    }
+    const version = address.includes(":") ? 6 : 4;
+    const bits = version === 4 ? parseIPv4(address) : parseIPv6(address);
+    const width = version === 4 ? 32 : 128;
+    if (bits === null || (prefix !== undefined && Number(prefix) > width)) {
+        return null;
+    }
+    return { version, bits, prefix: prefix === undefined ? width : Number(prefix) };
+}
+
+// Whether bits below the prefix are set, as in 10.0.0.1/8; nginx ignores them
+export function hasHostBits(cidr: Cidr): boolean {
+    const hostBits = BigInt((cidr.version === 4 ? 32 : 128) - cidr.prefix);
+    return (cidr.bits & ((1n << hostBits) - 1n)) !== 0n;
+}
+
+// Whether every address of inner is also in outer
+export function cidrContains(outer: Cidr, inner: Cidr): boolean {
+    if (outer.version !== inner.version || outer.prefix > inner.prefix) {
+        return false;
+    }
+    const hostBits = BigInt((outer.version === 4 ? 32 : 128) - outer.prefix);
+    return (outer.bits >> hostBits) === (inner.bits >> hostBits);
+}
@@ -0,0 +1,219 @@
+import { NginxConfig, SharedZones } from "./types.ts";
+import { generateNginxConfig } from "./generator.ts";
+import { parseLocation } from "./routing.ts";
+import { DirectiveNode, formatDirective, NginxParser } from "./parser.ts";
+
+// Checks for configs that validate and render, but do not do what they look
+// like they do. The rules look at the rendered server block, so they see the
+// directives nginx gets, whichever field produced them.
+
+export type LintSeverity = "error" | "warning" | "info";
+
+export interface LintFinding {
+    rule: string;
+    severity: LintSeverity;
+    // The config field the finding is about, as in validation errors
+    field: string;
+    message: string;
+    // What to change instead
+    fix?: string;
+}
+
+export interface LintRule {
+    id: string;
+    severity: LintSeverity;
+    description: string;
+    check: (site: LintedSite) => RuleFinding[];
+}
+
+type RuleFinding = Omit<LintFinding, "rule" | "severity"> & { severity?: LintSeverity };
+
+// A location of the config, or a microservice route, with its rendered block
+interface LintedLocation {
+    field: string;
+    location?: NginxConfig["locations"][number];
+    node: DirectiveNode;
+    modifier: string;
+    pattern: string;
+}
+
+interface LintedSite {
+    config: NginxConfig;
+    // The main server block as nginx parses it
+    server: DirectiveNode;
+    locations: LintedLocation[];
+}
+
+export const LINT_RULES: LintRule[] = [
+    {
+        id: "add-header-inheritance",
+        severity: "warning",
+        description: "add_header in a location replaces every add_header of the server, such as the security headers",
+        check: ({ server, locations }) => {
+            const inherited = directives(server, "add_header");
+            if (inherited.length === 0) {
+                return [];
+            }
+            return locations.flatMap(({ field, node }) => {
+                const own = new Set(directives(node, "add_header").map(header => header.args[0]?.toLowerCase()));
+                const lost = inherited.filter(header => !own.has(header.args[0]?.toLowerCase()));
+                if (own.size === 0 || lost.length === 0) {
+                    return [];
+                }
+                return [{
+                    field,
+                    message: `The add_header directives of ${node.args.join(" ")} replace the server's, so ${lost.map(header => header.args[0]).join(", ")} ${lost.length > 1 ? "are" : "is"} not sent with its responses`,
+                    fix: `Repeat them in the location's extraDirectives: ${lost.map(formatDirective).join("; ")}`
+                }];
+            });
+        }
+    },
+    {
+        id: "proxy-pass-uri",
+        severity: "warning",
+        description: "A URI in proxy_pass replaces the matched part of the location path, which joins paths wrongly when only one side ends with a slash",
+        check: ({ locations }) => locations.flatMap(({ field, node, modifier, pattern }): RuleFinding[] => {
+            const proxyPass = directives(node, "proxy_pass")[0];
+            const target = proxyPass?.args[0] || "";
+            const uri = target.match(/^[a-z]+:\/\/[^/]+(\/.*)$/i)?.[1];
+            // With variables, proxy_pass takes its URI as it is
+            if (uri === undefined || target.includes("$")) {
+                return [];
+            }
+            if (modifier.startsWith("~") || pattern.startsWith("@")) {
+                return [{
+                    field,
+                    severity: "error",
+                    message: `proxy_pass ${target} has a URI part in a ${pattern.startsWith("@") ? "named" : "regex"} location, which nginx refuses`,
+                    fix: `Drop '${uri}' from the proxy_pass URL and change the URI with "rewrite ... break" if needed`
+                }];
+            }
+            if (modifier === "=" || directives(node, "rewrite").length > 0) {
+                return [];
+            }
+            if (!pattern.endsWith("/") && uri.endsWith("/")) {
+                return [{
+                    field,
+                    message: `${pattern}/users is passed on as ${uri}/users and ${pattern}users as ${uri}users`,
+                    fix: `Use '${pattern}/' as the location path, or drop the trailing slash of '${target}'`
+                }];
+            }
+            if (pattern.endsWith("/") && !uri.endsWith("/")) {
+                return [{
+                    field,
+                    message: `${pattern}users is passed on as ${uri}users`,
+                    fix: `End proxy_pass with a slash: '${target}/'`
+                }];
+            }
+            return [];
+        })
+    },
+    {
+        id: "root-alias",
+        severity: "warning",
+        description: "root appends the whole URI to the directory, alias only what follows the location path",
+        check: ({ locations }) => locations.flatMap(({ field, node, modifier, pattern }) => {
+            if (modifier !== "" && modifier !== "^~") {
+                return [];
+            }
+            const findings: RuleFinding[] = [];
+            const root = directives(node, "root")[0]?.args[0];
+            const prefix = pattern.replace(/\/+$/, "");
+            if (root && prefix && root.replace(/\/+$/, "").endsWith(prefix)) {
+                const parent = root.replace(/\/+$/, "").slice(0, -prefix.length) || "/";
+                findings.push({
+                    field: `${field}.root`,
+                    message: `Files of ${pattern} are looked up in ${root.replace(/\/+$/, "")}${prefix}/, since root appends the whole URI`,
+                    fix: `Set root to '${parent}', or replace it with "alias ${root.replace(/\/+$/, "")}/" in extraDirectives`
+                });
+            }
+            const alias = directives(node, "alias")[0]?.args[0];
+            if (alias && !pattern.endsWith("/") && alias.endsWith("/")) {
+                findings.push({
+                    field,
+                    severity: "error",
+                    message: `${pattern}../ maps to ${alias}../, so files outside of ${alias} can be read`,
+                    fix: `End the location path with a slash: '${pattern}/'`
+                });
+            } else if (alias && pattern.endsWith("/") && !alias.endsWith("/")) {
+                findings.push({
+                    field,
+                    message: `${pattern}file maps to ${alias}file`,
+                    fix: `End the alias with a slash: '${alias}/'`
+                });
+            }
+            return findings;
+        })
+    },
+    {
+        id: "if-in-location",
+        severity: "warning",
+        description: "Inside a location, if only works reliably with return and rewrite ... last",
+        check: ({ locations }) => locations.flatMap(({ field, node }) => directives(node, "if").flatMap(condition => {
+            const unsafe = (condition.block || []).filter(d => d.name !== "return" && !(d.name === "rewrite" && d.args[2] === "last"));
+            if (unsafe.length === 0) {
+                return [];
+            }
+            return [{
+                field,
+                message: `if ${condition.args.join(" ")} in ${node.args.join(" ")} holds ${[...new Set(unsafe.map(d => d.name))].join(", ")}; nginx runs the if block as a location of its own, which drops or repeats the surrounding directives`,
+                fix: "Compute the value with a map and use its variable in the directive, or move the condition to the server with return or rewrite ... last"
+            }];
+        }))
+    },
+    {
+        id: "php-prefix-location",
+        severity: "error",
+        description: "PHP in a prefix location sends every file below it, static files and uploads included, to PHP-FPM",
+        check: ({ locations }) => locations.flatMap(({ field, location, modifier, pattern }) => {
+            if (!location?.php?.enabled || modifier.startsWith("~") || (modifier === "=" && pattern.endsWith(".php"))) {
+                return [];
+            }
+            return [{
+                field: `${field}.php`,
+                message: `Every request for ${pattern === "/" ? "the site" : `${pattern} and below`} goes to PHP-FPM, including static files and uploads`,
+                fix: "Turn php off here and run .php files from a '~ \\.php$' location with \"try_files $uri =404\""
+            }];
+        })
+    }
+];
+
+// Findings of the lint rules, less the ones the config disables for the
+// site or a location
+export function lintConfig(config: NginxConfig, shared: SharedZones = {}): LintFinding[] {
+    const site = lintedSite(config, shared);
+    const siteDisabled = config.lint?.disable || [];
+    return LINT_RULES.flatMap(rule => rule.check(site).map(finding => ({
+        rule: rule.id,
+        severity: finding.severity || rule.severity,
+        field: finding.field,
+        message: finding.message,
+        ...(finding.fix && { fix: finding.fix })
+    }))).filter(finding => {
+        const index = finding.field.match(/^locations\[(\d+)\]/)?.[1];
+        const disabled = [...siteDisabled, ...(index === undefined ? [] : config.locations[Number(index)]?.lint?.disable || [])];
+        return !disabled.includes(finding.rule);
+    });
+}
+
+// The config's locations and microservice routes come last in the main
+// server, which comes last in the rendered file, in the order of the config
+function lintedSite(config: NginxConfig, shared: SharedZones): LintedSite {
+    const nodes = new NginxParser().parse(generateNginxConfig(config, shared));
+    const server = nodes.filter(node => node.name === "server").pop()!;
+    const sources: { field: string; location?: NginxConfig["locations"][number] }[] = [
+        ...config.locations.map((location, index) => ({ field: `locations[${index}]`, location })),
+        ...(config.microservices || []).map((_, index) => ({ field: `microservices[${index}]` }))
+    ];
+    const blocks = server.block!.filter(node => node.name === "location");
+    const rendered = blocks.slice(blocks.length - sources.length);
+    return {
+        config,
+        server,
+        locations: sources.map((source, index) => ({ ...source, node: rendered[index], ...parseLocation(rendered[index]) }))
+    };
+}
+
+function directives(node: DirectiveNode, name: string): DirectiveNode[] {
+    return (node.block || []).filter(d => d.name === name);
+}
@@ -0,0 +1,75 @@
+import { Listener, NginxConfig } from "./types.ts";
+import { arg } from "./directives.ts";
+
+// The listeners of a site: its own, or the single `listen port` it stands for
+export function siteListeners(config: NginxConfig): Listener[] {
+    if (config.listeners) {
+        return config.listeners.map(listener => ({ ...listener, ssl: !listener.quic && (listener.ssl ?? !!config.ssl) }));
+    }
+    return [{ port: config.port, ssl: !!config.ssl, ...(config.defaultServer && { defaultServer: true }) }];
+}
+
+// Port 80 on every address the site's TCP listeners use, for the
+// HTTP to HTTPS redirect server
+export function redirectListeners(config: NginxConfig): Listener[] {
+    const listeners = new Map<string, Listener>();
+    for (const listener of siteListeners(config).filter(l => !l.quic)) {
+        const key = listener.address ?? "";
+        const existing = listeners.get(key);
+        listeners.set(key, {
+            port: 80,
+            ...(listener.address !== undefined && { address: listener.address }),
+            ...((existing?.acceptProxyProtocol || listener.acceptProxyProtocol) && { acceptProxyProtocol: true })
+        });
+    }
+    return [...listeners.values()];
+}
+
+// Listeners of the other servers of a site (host redirects): the same
+// addresses, without the options only one server may set per socket
+export function secondaryListeners(config: NginxConfig): Listener[] {
+    const listeners = siteListeners(config).map(({ defaultServer: _, reuseport: __, ...listener }) => listener);
+    if (config.ssl?.forceRedirect) {
+        const sockets = new Set(listeners.map(socketKey));
+        listeners.push(...redirectListeners(config).filter(listener => !sockets.has(socketKey(listener))));
+    }
+    return listeners;
+}
+
+// Every socket a site listens on, including its redirect servers
+export function siteSockets(config: NginxConfig): Listener[] {
+    const listeners = siteListeners(config);
+    const sockets = new Set(listeners.map(socketKey));
+    return [...listeners, ...secondaryListeners(config).filter(listener => !sockets.has(socketKey(listener)))];
+}
+
+// "192.0.2.10:443", "[::]:443" or "443"
+export function listenAddress(listener: Listener): string {
+    if (listener.address === undefined) {
+        return String(listener.port);
+    }
+    return listener.address.includes(":") ? `[${listener.address}]:${listener.port}` : `${listener.address}:${listener.port}`;
+}
+
+// For messages: "Port 443", "[::]:443" or "QUIC port 443"
+export function describeListener(listener: Listener): string {
+    const quic = listener.quic ? "QUIC " : "";
+    return listener.address === undefined ? `${quic ? "QUIC port" : "Port"} ${listener.port}` : `${quic}${listenAddress(listener)}`;
+}
+
+// Arguments of the listen directive
+export function listenArguments(listener: Listener): string {
+    return [
+        arg(listenAddress(listener)),
+        listener.ssl && !listener.quic && "ssl",
+        listener.quic && "quic",
+        listener.defaultServer && "default_server",
+        listener.reuseport && "reuseport",
+        listener.acceptProxyProtocol && "proxy_protocol"
+    ].filter(Boolean).join(" ");
+}
+
+// Identifies the socket a listener binds; QUIC listeners bind UDP sockets
+export function socketKey(listener: Listener): string {
+    return `${listener.quic ? "udp" : "tcp"} ${listenAddress({ ...listener, address: listener.address?.toLowerCase() ?? "*" })}`;
+}
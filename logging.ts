@@ -0,0 +1,142 @@
+import { AccessLog, ErrorLog, LogConfig, LogFormat, LogLevel, NginxConfig, SharedZones, SyslogTarget, VariableMap } from "./types.ts";
+import { arg } from "./directives.ts";
+
+// Fields of the built-in "json" format, so every site hands the log pipeline
+// the same ones
+export const JSON_LOG_FIELDS: Record<string, string> = {
+    time: "$time_iso8601",
+    remote_addr: "$remote_addr",
+    request_id: "$request_id",
+    host: "$host",
+    method: "$request_method",
+    uri: "$request_uri",
+    protocol: "$server_protocol",
+    status: "$status",
+    bytes_sent: "$body_bytes_sent",
+    request_time: "$request_time",
+    referer: "$http_referer",
+    user_agent: "$http_user_agent",
+    upstream_addr: "$upstream_addr",
+    upstream_status: "$upstream_status",
+    upstream_response_time: "$upstream_response_time"
+};
+
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "notice", "warn", "error", "crit", "alert", "emerg"];
+
+export const SYSLOG_FACILITIES = [
+    "kern", "user", "mail", "daemon", "auth", "intern", "lpr", "news", "uucp", "clock", "authpriv", "ftp", "ntp",
+    "audit", "alert", "cron", "local0", "local1", "local2", "local3", "local4", "local5", "local6", "local7"
+];
+
+// Variables that always hold a number are written to JSON without quotes.
+// $upstream_response_time is not one of them: it lists a time per upstream
+// tried, or "-".
+const NUMERIC_VARIABLES = new Set([
+    "$status", "$body_bytes_sent", "$bytes_sent", "$request_length", "$request_time", "$msec", "$connection",
+    "$connection_requests", "$pid"
+]);
+
+// The format string of JSON fields, e.g. {"status":$status,"uri":"$request_uri"}
+export function jsonLogFormat(fields: Record<string, string>): string {
+    return `{${Object.entries(fields).map(([name, value]) => `"${name}":${NUMERIC_VARIABLES.has(value) ? value : `"${value}"`}`).join(",")}}`;
+}
+
+// Arguments of log_format after the name
+export function logFormatArguments(format: string | LogFormat): string {
+    if (typeof format === "string") {
+        return arg(format);
+    }
+    const escape = format.fields ? "json" : format.escape;
+    return `${escape ? `${arg(`escape=${escape}`)} ` : ""}${arg(format.fields ? jsonLogFormat(format.fields) : format.format!)}`;
+}
+
+// The name a site's logs use for a format. The built-in "json" format is
+// declared in the file of each site that uses it, under a name of its own,
+// unless the site or the http context declares "json" itself: site files
+// deployed side by side must not declare the same format twice.
+export function logFormatName(config: NginxConfig, shared: SharedZones, format: string): string {
+    if (format !== "json" || config.logFormats?.json || shared.logFormats?.json) {
+        return format;
+    }
+    return `json_${config.domain.replace(/[^A-Za-z0-9]+/g, "_")}`;
+}
+
+// Formats a site file has to declare: its own, and the built-in one when
+// one of its logs uses it
+export function siteLogFormats(config: NginxConfig, shared: SharedZones): Record<string, string | LogFormat> {
+    const formats: Record<string, string | LogFormat> = { ...config.logFormats };
+    const logs = [config.logging, ...config.locations.map(loc => loc.logging)].flatMap(logging => logging?.access || []);
+    const builtin = logFormatName(config, shared, "json");
+    if (builtin !== "json" && logs.some(log => log.format === "json")) {
+        formats[builtin] = { fields: JSON_LOG_FIELDS };
+    }
+    return formats;
+}
+
+// The variable behind skipPaths, e.g. log_example_com
+export function skipLogVariable(domain: string): string {
+    return `log_${domain.replace(/[^A-Za-z0-9]+/g, "_")}`;
+}
+
+// The map behind skipPaths: the variable is 0 for the skipped URIs
+export function skipLogMap(config: NginxConfig): { variable: string; map: VariableMap } | null {
+    const paths = config.logging?.skipPaths || [];
+    if (paths.length === 0) {
+        return null;
+    }
+    return {
+        variable: skipLogVariable(config.domain),
+        map: { source: "$uri", default: "1", entries: paths.map(path => ({ match: path, value: "0" })) }
+    };
+}
+
+// access_log and error_log directives of a server or location. condition is
+// the skipPaths variable, used by access logs without an if of their own.
+export function logDirectives(logging: LogConfig | undefined, formatName: (format: string) => string, condition?: string): string[] {
+    if (!logging) {
+        return [];
+    }
+    const directives: string[] = [];
+    if (logging.access?.length === 0) {
+        directives.push("access_log off");
+    }
+    for (const log of logging.access || []) {
+        directives.push(`access_log ${accessLogArguments(log, formatName, condition)}`);
+    }
+    if (logging.error) {
+        directives.push(`error_log ${errorLogArguments(logging.error)}`);
+    }
+    return directives;
+}
+
+function accessLogArguments(log: AccessLog, formatName: (format: string) => string, condition?: string): string {
+    const when = log.if || (condition && `$${condition}`);
+    const options = [
+        log.buffer && `buffer=${log.buffer}`,
+        log.gzip && (log.gzip === true ? "gzip" : `gzip=${log.gzip}`),
+        log.flush && `flush=${log.flush}`,
+        when && `if=${when}`
+    ].filter(Boolean);
+    // The format is positional, so options need it spelled out
+    const format = log.format || (options.length > 0 ? "combined" : "");
+    return [logDestination(log), format && formatName(format), ...options].filter(Boolean).map(value => arg(value as string)).join(" ");
+}
+
+function errorLogArguments(log: ErrorLog): string {
+    return [logDestination(log), log.level].filter(Boolean).map(value => arg(value as string)).join(" ");
+}
+
+// A file path or syslog:server=...,facility=...
+function logDestination(log: { path?: string; syslog?: SyslogTarget }): string {
+    if (!log.syslog) {
+        return log.path!;
+    }
+    const { server, facility, severity, tag, nohostname } = log.syslog;
+    return `syslog:${[
+        `server=${server}`,
+        facility && `facility=${facility}`,
+        severity && `severity=${severity}`,
+        tag && `tag=${tag}`,
+        nohostname && "nohostname"
+    ].filter(Boolean).join(",")}`;
+}
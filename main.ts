@@ -1,130 +1,158 @@
 import { serve } from "https://deno.land/std@0.140.0/http/server.ts";
-import { NginxConfig } from "./types.ts";
-import { validateConfig } from "./validator.ts";
-import { templates } from "./templates.ts";
+import { ConfigRequest, NginxConfig, Workspace } from "./types.ts";
+import { validateConfig, validationWarnings } from "./validator.ts";
+import { loadTemplates, summarizeParams, templateRoutes, validateTemplateParams } from "./templates.ts";
 import { generateNginxConfig } from "./generator.ts";
+import { renderWorkspace, validateWorkspace, workspaceWarnings } from "./workspace.ts";
+import { createRouter, jsonResponse, Route } from "./http.ts";
+import { FileSiteStore } from "./store.ts";
+import { siteRoutes } from "./sites.ts";
+import { Deployer, deployFailedResponse, deployOptionsFromEnv } from "./deploy.ts";
+import { FileHistoryStore } from "./history.ts";
+import { RenewalService, renewalOptionsFromEnv, renewalRoutes } from "./renewal.ts";
+import { buildJsonSchema, loadTypesSource, schemaRoutes } from "./schema.ts";
+import { FileKeyStore, keyRoutes, protectRoutes, siteForbidden } from "./auth.ts";
+import { htpasswdFiles } from "./htpasswd.ts";
+import { parseExtraDirectivesPolicy } from "./directives.ts";
 
-interface ConfigRequest {
-    template?: string;
-    templateParams?: Record<string, any>;
-    config?: NginxConfig;
-}
+const confDir = Deno.env.get("NGINX_CONF_DIR") || "nginx";
+const store = new FileSiteStore(Deno.env.get("SITES_DIR") || "sites");
+const deployer = new Deployer(deployOptionsFromEnv());
+const history = new FileHistoryStore(Deno.env.get("HISTORY_DIR") || "history");
+const renewalOptions = renewalOptionsFromEnv();
+const renewal = renewalOptions ? new RenewalService(store, renewalOptions) : null;
+const templatesDir = Deno.env.get("TEMPLATES_DIR") || "templates.d";
+const templates = await loadTemplates(templatesDir);
+const keys = new FileKeyStore(Deno.env.get("API_KEYS_FILE") || "keys.json");
+const authEnabled = (await keys.list()).length > 0;
+const extraDirectivesPolicy = parseExtraDirectivesPolicy(Deno.env.get("EXTRA_DIRECTIVES"));
 
-async function handler(req: Request): Promise<Response> {
-    if (req.method === "POST") {
-        try {
-            const data: ConfigRequest = await req.json();
-            let config: NginxConfig;
+async function handleWorkspace(req: Request): Promise<Response> {
+    const workspace: Workspace = await req.json();
 
-            if (data.template && data.templateParams) {
-                if (!templates[data.template]) {
-                    return new Response(JSON.stringify({
-                        error: `Template '${data.template}' not found`,
-                        availableTemplates: Object.keys(templates)
-                    }), {
-                        status: 400,
-                        headers: { "Content-Type": "application/json" }
-                    });
-                }
-                config = templates[data.template](data.templateParams);
-            } else if (data.config) {
-                config = data.config;
-            } else {
-                return new Response(JSON.stringify({
-                    error: "Either template and templateParams or config must be provided",
-                    availableTemplates: Object.keys(templates)
-                }), {
-                    status: 400,
-                    headers: { "Content-Type": "application/json" }
-                });
-            }
+    const errors = validateWorkspace(workspace, extraDirectivesPolicy);
+    if (errors.length > 0) {
+        return jsonResponse({
+            error: "Workspace validation failed",
+            validationErrors: errors
+        }, 400);
+    }
 
-            // Validate configuration
-            const errors = validateConfig(config);
-            if (errors.length > 0) {
-                return new Response(JSON.stringify({
-                    error: "Configuration validation failed",
-                    validationErrors: errors
-                }), {
-                    status: 400,
-                    headers: { "Content-Type": "application/json" }
-                });
-            }
+    const rendered = renderWorkspace(workspace);
+    const deployment = await deployer.deployTree(rendered, ["sites-enabled"]);
+    if (!deployment.success) {
+        return deployFailedResponse(deployment);
+    }
+    const warnings = workspaceWarnings(workspace);
+
+    return jsonResponse({
+        success: true,
+        directory: confDir,
+        files: Object.keys(rendered.files),
+        enabled: Object.keys(rendered.symlinks),
+        ...(warnings.length > 0 && { warnings })
+    });
+}
 
-            // Generate and save configuration
-            const nginxConfig = generateNginxConfig(config);
-            const fileName = `${config.domain}.conf`;
-            await Deno.writeTextFile(fileName, nginxConfig);
+async function handleGenerate(req: Request): Promise<Response> {
+    const data: ConfigRequest = await req.json();
+    let config: NginxConfig;
 
-            return new Response(JSON.stringify({
-                success: true,
-                config: nginxConfig,
-                fileName,
-                template: data.template
-            }), {
-                headers: { "Content-Type": "application/json" }
-            });
-        } catch (error) {
-            return new Response(JSON.stringify({
-                error: error.message
-            }), {
-                status: 500,
-                headers: { "Content-Type": "application/json" }
-            });
+    if (data.template) {
+        const template = Object.hasOwn(templates, data.template) ? templates[data.template] : undefined;
+        if (!template) {
+            return jsonResponse({
+                error: `Template '${data.template}' not found`,
+                availableTemplates: Object.keys(templates)
+            }, 400);
+        }
+        const { params, errors } = validateTemplateParams(template, data.templateParams);
+        if (errors.length > 0) {
+            return jsonResponse({
+                error: "Template parameter validation failed",
+                template: data.template,
+                validationErrors: errors
+            }, 400);
         }
-    } else if (req.method === "GET") {
-        return new Response(JSON.stringify({
-            availableTemplates: Object.keys(templates),
-            documentation: {
-                templates: {
-                    static: {
-                        description: "Basic static website configuration",
-                        params: {
-                            domain: "Domain name (required)",
-                            rootPath: "Root path for static files (required)",
-                            sslEnabled: "Enable SSL configuration (optional, default: false)"
-                        }
-                    },
-                    spa: {
-                        description: "Single Page Application configuration",
-                        params: {
-                            domain: "Domain name (required)",
-                            rootPath: "Root path for SPA files (required)",
-                            apiUrl: "Backend API URL (optional)",
-                            sslEnabled: "Enable SSL configuration (optional, default: false)"
-                        }
-                    },
-                    wordpress: {
-                        description: "WordPress configuration",
-                        params: {
-                            domain: "Domain name (required)",
-                            rootPath: "Root path for WordPress files (required)",
-                            phpVersion: "PHP version (optional, default: 8.1)",
-                            sslEnabled: "Enable SSL configuration (optional, default: false)"
-                        }
-                    },
-                    microservices: {
-                        description: "Microservices configuration",
-                        params: {
-                            domain: "Domain name (required)",
-                            services: "Array of service configurations (required)",
-                            sslEnabled: "Enable SSL configuration (optional, default: false)"
-                        }
-                    }
-                }
-            }
-        }), {
-            headers: { "Content-Type": "application/json" }
-        });
+        config = template.render(params);
+    } else if (data.config) {
+        config = data.config;
+    } else {
+        return jsonResponse({
+            error: "Either template and templateParams or config must be provided",
+            availableTemplates: Object.keys(templates)
+        }, 400);
+    }
+
+    // Validate configuration; rendered templates are held to the
+    // extraDirectives policy like configs from the request
+    const errors = validateConfig(config, {}, extraDirectivesPolicy);
+    if (errors.length > 0) {
+        return jsonResponse({
+            error: "Configuration validation failed",
+            validationErrors: errors
+        }, 400);
+    }
+    const forbidden = siteForbidden(req, config, renewalOptions?.certificateDir);
+    if (forbidden) {
+        return forbidden;
     }
 
-    return new Response(JSON.stringify({
-        error: "Method not allowed"
-    }), {
-        status: 405,
-        headers: { "Content-Type": "application/json" }
+    // Generate and deploy configuration
+    const nginxConfig = generateNginxConfig(config);
+    const fileName = `${config.domain}.conf`;
+    const deployment = await deployer.deploy(fileName, nginxConfig, htpasswdFiles(config));
+    if (!deployment.success) {
+        return deployFailedResponse(deployment);
+    }
+
+    const warnings = validationWarnings(config);
+    return jsonResponse({
+        success: true,
+        config: nginxConfig,
+        fileName,
+        template: data.template,
+        ...(warnings.length > 0 && { warnings })
     });
 }
 
+function handleDocs(): Promise<Response> {
+    return Promise.resolve(jsonResponse({
+        availableTemplates: Object.keys(templates),
+        documentation: {
+            templates: Object.fromEntries(Object.entries(templates).map(([name, template]) => [name, {
+                description: template.description,
+                params: summarizeParams(template)
+            }]))
+        }
+    }));
+}
+
+const routes: Route[] = [
+    { method: "GET", path: "/", summary: "Available templates and their parameters", access: "public", handler: handleDocs },
+    { method: "POST", path: "/", summary: "Generate and deploy a configuration", body: "ConfigRequest", handler: handleGenerate },
+    {
+        method: "POST",
+        path: "/workspace",
+        summary: "Write a multi-site configuration tree",
+        body: "Workspace",
+        global: true,
+        handler: handleWorkspace
+    },
+    ...templateRoutes(templates, templatesDir),
+    ...siteRoutes(store, deployer, history, extraDirectivesPolicy, renewalOptions?.certificateDir),
+    ...renewalRoutes(renewal),
+    ...keyRoutes(keys, authEnabled)
+];
+const schema = buildJsonSchema(await loadTypesSource(), ["NginxConfig", "Workspace", "ConfigRequest", "ExplainRequest", "JsonTemplate", "NewApiKey"]);
+const allRoutes = [...routes, ...schemaRoutes(routes, schema)];
+const handler = createRouter(authEnabled ? protectRoutes(allRoutes, keys) : allRoutes);
+
+if (!authEnabled) {
+    console.warn("Warning: no API keys found, the API is open to anyone. Create a key with tools/keys.ts.");
+}
+
+renewal?.start();
+
 console.log(`Server running on http://localhost:${Deno.env.get("PORT") || 3005}`);
-await serve(handler, { port: Deno.env.get("PORT") || 3005 });
\ No newline at end of file
+await serve(handler, { port: Deno.env.get("PORT") || 3005 });
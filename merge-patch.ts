@@ -0,0 +1,21 @@
+// JSON Merge Patch (RFC 7386): objects are merged recursively, null removes a
+// member and any other value replaces the target outright.
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+    if (!isObject(patch)) {
+        return patch;
+    }
+
+    const result: Record<string, unknown> = isObject(target) ? { ...target } : {};
+    for (const [key, value] of Object.entries(patch)) {
+        if (value === null) {
+            delete result[key];
+        } else {
+            result[key] = applyMergePatch(result[key], value);
+        }
+    }
+    return result;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
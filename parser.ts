@@ -0,0 +1,318 @@
+// Reads nginx configs into directive trees the way nginx itself reads them,
+// and writes directives back as single lines.
+
+import { quoteArgument } from "./directives.ts";
+
+export interface DirectiveNode {
+  name: string;
+  args: string[];
+  line: number;
+  column: number;
+  file?: string;
+  block?: DirectiveNode[];
+  // Text of a comment on the line right before the directive
+  comment?: string;
+}
+
+interface Token {
+  type: 'word' | ';' | '{' | '}';
+  value: string;
+  line: number;
+  column: number;
+  comment?: string;
+}
+
+export interface ImportWarning {
+  file?: string;
+  line?: number;
+  column?: number;
+  message: string;
+}
+
+export class NginxSyntaxError extends Error {
+  constructor(message: string, public line: number, public column: number, public file?: string) {
+    super(`${message} in ${file || 'input'}:${line}:${column}`);
+    this.name = 'NginxSyntaxError';
+  }
+}
+
+// Escapes nginx resolves inside quoted and unquoted words; any other
+// backslash is kept as is, which is what regexes like `\.php$` rely on.
+const ESCAPES: Record<string, string> = { '"': '"', "'": "'", '\\': '\\', t: '\t', r: '\r', n: '\n' };
+
+// Splits a config into words and punctuation following the rules of the nginx
+// lexer: `#` only starts a comment at the beginning of a word, quotes group
+// whitespace and punctuation, and `{` only ends a word outside of `${var}`.
+function tokenize(text: string, file?: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+  let line = 1;
+  let column = 1;
+  let comment: { text: string; line: number } | undefined;
+
+  const next = (): string => {
+    const char = text[pos++];
+    if (char === '\n') {
+      line++;
+      column = 1;
+    } else {
+      column++;
+    }
+    return char;
+  };
+
+  while (pos < text.length) {
+    const char = text[pos];
+    const start = { line, column };
+
+    if (/\s/.test(char)) {
+      next();
+    } else if (char === '#') {
+      const from = pos;
+      while (pos < text.length && text[pos] !== '\n') next();
+      comment = { text: text.slice(from + 1, pos).trim(), line: start.line };
+    } else if (char === ';' || char === '{' || char === '}') {
+      next();
+      tokens.push({ type: char, value: char, ...start });
+      comment = undefined;
+    } else if (char === '"' || char === "'") {
+      const quote = next();
+      let value = '';
+      for (;;) {
+        if (pos >= text.length) {
+          throw new NginxSyntaxError('Unexpected end of file, unterminated string', start.line, start.column, file);
+        }
+        const c = next();
+        if (c === quote) break;
+        if (c === '\\' && pos < text.length) {
+          const escaped = next();
+          value += ESCAPES[escaped] ?? `\\${escaped}`;
+        } else {
+          value += c;
+        }
+      }
+      if (pos < text.length && !/[\s;{)]/.test(text[pos])) {
+        throw new NginxSyntaxError(`Unexpected "${text[pos]}"`, line, column, file);
+      }
+      tokens.push({ type: 'word', value, ...start });
+      comment = undefined;
+    } else {
+      let value = '';
+      let variable = false;
+      while (pos < text.length) {
+        const c = text[pos];
+        if (/\s/.test(c) || c === ';' || (c === '{' && !variable)) break;
+        variable = c === '$';
+        next();
+        if (c === '\\' && pos < text.length) {
+          const escaped = next();
+          value += ESCAPES[escaped] ?? `\\${escaped}`;
+        } else {
+          value += c;
+        }
+      }
+      const before = comment?.line === start.line - 1 ? comment.text : undefined;
+      tokens.push({ type: 'word', value, ...start, ...(before && { comment: before }) });
+      comment = undefined;
+    }
+  }
+
+  return tokens;
+}
+
+export class NginxParser {
+  // Builds the directive tree of a config. Comments are dropped, except that
+  // a directive remembers a comment on the line right before it; everything
+  // else (including directives this tool knows nothing about) is kept.
+  parse(configText: string, file?: string): DirectiveNode[] {
+    const tokens = tokenize(configText, file);
+    let index = 0;
+
+    const parseBlock = (parent?: Token): DirectiveNode[] => {
+      const nodes: DirectiveNode[] = [];
+      while (index < tokens.length) {
+        const token = tokens[index];
+        if (token.type === '}') {
+          if (!parent) {
+            throw new NginxSyntaxError('Unexpected "}"', token.line, token.column, file);
+          }
+          index++;
+          return nodes;
+        }
+        if (token.type !== 'word') {
+          throw new NginxSyntaxError(`Unexpected "${token.value}"`, token.line, token.column, file);
+        }
+
+        const words: Token[] = [];
+        while (index < tokens.length && tokens[index].type === 'word') {
+          words.push(tokens[index++]);
+        }
+        const node: DirectiveNode = {
+          name: words[0].value,
+          args: words.slice(1).map(word => word.value),
+          line: words[0].line,
+          column: words[0].column,
+          ...(file && { file }),
+          ...(words[0].comment && { comment: words[0].comment })
+        };
+
+        const end = tokens[index];
+        if (!end) {
+          throw new NginxSyntaxError('Unexpected end of file, expecting ";" or "}"', token.line, token.column, file);
+        }
+        index++;
+        if (end.type === '{') {
+          node.block = parseBlock(end);
+        } else if (end.type !== ';') {
+          throw new NginxSyntaxError(`Unexpected "${end.value}"`, end.line, end.column, file);
+        }
+        nodes.push(node);
+      }
+
+      if (parent) {
+        throw new NginxSyntaxError('Unexpected end of file, expecting "}"', parent.line, parent.column, file);
+      }
+      return nodes;
+    };
+
+    return parseBlock();
+  }
+
+  // Reads a config file and splices in the files it includes, recursively.
+  // Relative include paths are resolved against the including file first and
+  // against the directory of the top-level file (where nginx itself looks)
+  // second. Includes inside location-level blocks, and includes of files that
+  // only hold `types` blocks such as mime.types, are left as they are.
+  async parseFile(path: string, warnings: ImportWarning[] = []): Promise<DirectiveNode[]> {
+    const root = dirname(path);
+
+    const expand = async (nodes: DirectiveNode[], file: string, stack: string[]): Promise<DirectiveNode[]> => {
+      const result: DirectiveNode[] = [];
+      for (const node of nodes) {
+        if (node.block && !VERBATIM_BLOCKS.includes(node.name)) {
+          node.block = await expand(node.block, file, stack);
+        }
+        if (node.name !== 'include' || node.args.length !== 1) {
+          result.push(node);
+          continue;
+        }
+
+        let matches = await glob(node.args[0], dirname(file));
+        if (!matches.length && !node.args[0].startsWith('/') && dirname(file) !== root) {
+          matches = await glob(node.args[0], root);
+        }
+        if (!matches.length) {
+          if (!/[*?[]/.test(node.args[0])) {
+            warnings.push({ file, line: node.line, column: node.column, message: `Included file '${node.args[0]}' not found` });
+          }
+          continue;
+        }
+
+        const included: DirectiveNode[] = [];
+        for (const match of matches) {
+          if (stack.includes(match)) {
+            warnings.push({ file, line: node.line, column: node.column, message: `Include cycle through '${match}' skipped` });
+            continue;
+          }
+          const parsed = this.parse(await Deno.readTextFile(match), match);
+          included.push(...await expand(parsed, match, [...stack, match]));
+        }
+        if (included.length && included.every(child => child.name === 'types' && child.block)) {
+          result.push(node);
+        } else {
+          result.push(...included);
+        }
+      }
+      return result;
+    };
+
+    return await expand(this.parse(await Deno.readTextFile(path), path), path, [path]);
+  }
+}
+
+// Contexts whose includes are kept instead of expanded, since the rendered
+// site still lives in the same nginx tree
+const VERBATIM_BLOCKS = ['location', 'if', 'limit_except'];
+
+function dirname(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index < 0 ? '.' : index === 0 ? '/' : path.slice(0, index);
+}
+
+// Expands an include pattern the way nginx does with glob(3): `*`, `?` and
+// `[...]` never match `/` or a leading dot, and matches come back sorted.
+async function glob(pattern: string, base: string): Promise<string[]> {
+  const absolute = pattern.startsWith('/') ? pattern : `${base}/${pattern}`;
+  const segments = absolute.split('/');
+  let paths = [segments[0]];
+
+  for (const segment of segments.slice(1)) {
+    if (segment === '' || segment === '.') continue;
+    if (!/[*?[]/.test(segment)) {
+      paths = paths.map(path => `${path}/${segment}`);
+      continue;
+    }
+
+    const matcher = globToRegExp(segment);
+    const next: string[] = [];
+    for (const path of paths) {
+      try {
+        for await (const entry of Deno.readDir(path || '/')) {
+          if (!entry.name.startsWith('.') && matcher.test(entry.name)) {
+            next.push(`${path}/${entry.name}`);
+          }
+        }
+      } catch (error) {
+        if (!(error instanceof Deno.errors.NotFound) && !(error instanceof Deno.errors.NotADirectory)) {
+          throw error;
+        }
+      }
+    }
+    paths = next.sort();
+  }
+
+  const files: string[] = [];
+  for (const path of paths) {
+    try {
+      if ((await Deno.stat(path)).isFile) {
+        files.push(path);
+      }
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        throw error;
+      }
+    }
+  }
+  return files;
+}
+
+function globToRegExp(segment: string): RegExp {
+  let source = '';
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i];
+    if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && segment.indexOf(']', i + 2) > i) {
+      const end = segment.indexOf(']', i + 2);
+      const body = segment.slice(i + 1, end);
+      source += `[${body.startsWith('!') ? `^${body.slice(1)}` : body}]`;
+      i = end;
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// Serializes a directive, nested blocks included, back to a single line
+// without the trailing semicolon, as expected by `extraDirectives`.
+export function formatDirective(node: DirectiveNode): string {
+  const head = [node.name, ...node.args].map(quoteArgument).join(' ');
+  if (!node.block) {
+    return head;
+  }
+  const body = node.block.map(child => child.block ? formatDirective(child) : `${formatDirective(child)};`);
+  return `${head} {${body.length ? ` ${body.join(' ')} ` : ' '}}`;
+}
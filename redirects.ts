@@ -0,0 +1,126 @@
+import { HostRedirect, NginxConfig, Redirect, RedirectStatus } from "./types.ts";
+import { ValidationError } from "./validator.ts";
+
+export const REDIRECT_STATUSES: RedirectStatus[] = [301, 302, 307, 308];
+
+// The host redirects of a site, including the one canonicalHost stands for
+export function hostRedirects(config: NginxConfig): HostRedirect[] {
+    const redirects = [...config.hostRedirects || []];
+    const name = (config.serverName || "").split(/\s+/).filter(Boolean)[0];
+    if (config.canonicalHost && name) {
+        const other = config.canonicalHost === "apex" ? `www.${name}` : name.replace(/^www\./, "");
+        redirects.unshift({ serverNames: [other] });
+    }
+    return redirects;
+}
+
+// Where a host redirect sends clients when it names no target
+export function defaultRedirectTarget(config: NginxConfig): string {
+    const name = (config.serverName || "").split(/\s+/).filter(Boolean)[0];
+    const port = [80, 443].includes(config.port) ? "" : `:${config.port}`;
+    return `${config.ssl ? "https" : "http"}://${name}${port}`;
+}
+
+// Parses "old,new[,status[,match]]" lines, as exported by most CMS and SEO
+// tools. A header row, blank lines and lines starting with # are skipped.
+// Without a match column, a source ending in * is a prefix and one starting
+// with ^ a regex; absolute source URLs are reduced to their path. Targets
+// with a query string of their own drop the one of the request.
+export function parseRedirectCsv(text: string): { redirects: Redirect[]; errors: ValidationError[] } {
+    const redirects: Redirect[] = [];
+    const errors: ValidationError[] = [];
+
+    text.split(/\r?\n/).forEach((line, index) => {
+        const field = `line ${index + 1}`;
+        if (!line.trim() || line.trimStart().startsWith("#")) {
+            return;
+        }
+        const cells = splitCsvLine(line);
+        if (!cells) {
+            errors.push({ field, message: "Unterminated quoted field" });
+            return;
+        }
+        const [source = "", target = "", status = "", match = ""] = cells.map(cell => cell.trim());
+        if (redirects.length === 0 && errors.length === 0 && /^(source|from|old)/i.test(source)) {
+            return;
+        }
+        if (!source || !target) {
+            errors.push({ field, message: "Expected at least a source and a target column" });
+            return;
+        }
+
+        const redirect: Redirect = { source, target };
+        if (match) {
+            if (!["exact", "prefix", "regex"].includes(match)) {
+                errors.push({ field, message: `Unknown match '${match}' (exact, prefix or regex)` });
+                return;
+            }
+            redirect.match = match as Redirect["match"];
+        } else if (source.startsWith("^")) {
+            redirect.match = "regex";
+        } else if (source.endsWith("*")) {
+            redirect.match = "prefix";
+            redirect.source = source.slice(0, -1);
+        }
+
+        if (redirect.match !== "regex" && /^https?:\/\//i.test(redirect.source)) {
+            try {
+                const url = new URL(redirect.source);
+                if (url.search) {
+                    errors.push({ field, message: "Sources cannot match on the query string" });
+                    return;
+                }
+                redirect.source = decodeURI(url.pathname);
+            } catch {
+                errors.push({ field, message: `Invalid source URL '${redirect.source}'` });
+                return;
+            }
+        }
+
+        if (status) {
+            if (!REDIRECT_STATUSES.includes(Number(status) as RedirectStatus)) {
+                errors.push({ field, message: `Status must be one of ${REDIRECT_STATUSES.join(", ")}` });
+                return;
+            }
+            if (Number(status) !== 301) {
+                redirect.status = Number(status) as RedirectStatus;
+            }
+        }
+        if (target.includes("?")) {
+            redirect.keepQuery = false;
+        }
+        redirects.push(redirect);
+    });
+
+    return { redirects, errors };
+}
+
+// RFC 4180 cells of one line; null when a quote is left open
+function splitCsvLine(line: string): string[] | null {
+    const cells: string[] = [];
+    let cell = "";
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quoted) {
+            if (char === '"' && line[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"' && !cell.trim()) {
+            quoted = true;
+            cell = "";
+        } else if (char === ",") {
+            cells.push(cell);
+            cell = "";
+        } else {
+            cell += char;
+        }
+    }
+    cells.push(cell);
+    return quoted ? null : cells;
+}
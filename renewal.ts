@@ -0,0 +1,377 @@
+import { jsonResponse, Route } from "./http.ts";
+import { canAccessDomain } from "./auth.ts";
+import { SiteStore } from "./store.ts";
+import { deployOptionsFromEnv, isInsideDirectory, runCommand, splitCommand } from "./deploy.ts";
+import { fromPem, parseCertificate } from "./tools/x509.ts";
+import {
+    ChallengeSolver,
+    ClientOptions,
+    HttpChallengeSolver,
+    LetsEncryptClient,
+    RemoteChallengeSolver
+} from "./tools/ssl-generator.ts";
+import { FileChallengeStore, serveChallenges } from "./tools/challenge-server.ts";
+import { DnsChallengeSolver, HookScriptProvider, parseTsigKey, Rfc2136Provider } from "./tools/dns.ts";
+
+const DAY = 24 * 60 * 60 * 1000;
+const HOUR = 60 * 60 * 1000;
+
+// Names a CA issues certificates for: host names, optionally behind a "*."
+// wildcard label. server_name regexes, ".example.com" and "_" are not.
+const CERTIFICATE_NAME = /^(\*\.)?[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*$/i;
+
+export interface RenewalOptions {
+    email: string;
+    acme: ClientOptions;
+    // Certificates and keys are only written inside this directory
+    certificateDir: string;
+    solvers: ChallengeSolver[];
+    // Port of the http-01 challenge server run during renewals; none when unset
+    challengePort?: number;
+    // Renew certificates expiring within this many days
+    windowDays: number;
+    // How often the daemon checks the certificates
+    interval: number;
+    // First retry delay after a failure, doubled per failure up to maxBackoff
+    backoff: number;
+    maxBackoff: number;
+    // Run after every pass that renewed at least one certificate
+    hook?: string[];
+    // Keeps attempts and failures across restarts and cron runs
+    stateFile?: string;
+}
+
+// Per certificate bookkeeping, persisted in the state file
+interface RenewalState {
+    lastAttempt?: string;
+    lastRenewed?: string;
+    lastError?: string;
+    failures: number;
+    nextAttempt?: string;
+}
+
+export interface CertificateStatus extends RenewalState {
+    certificate: string;
+    certificateKey: string;
+    // Sites whose ssl.certificate points at this file
+    sites: string[];
+    // Names in the certificate, or the names it will be issued for
+    domains: string[];
+    // server_name entries no certificate can be issued for
+    unsupportedNames?: string[];
+    notAfter?: string;
+    daysLeft?: number;
+    due: boolean;
+}
+
+export interface RenewalResult {
+    renewed: string[];
+    failed: { certificate: string; error: string }[];
+    skipped: string[];
+    hook?: { success: boolean; output: string };
+}
+
+// Reads renewal settings from the environment. Renewal is enabled by
+// setting ACME_EMAIL; the reload command of the deploy pipeline is the
+// default post-renewal hook.
+export function renewalOptionsFromEnv(): RenewalOptions | null {
+    const email = Deno.env.get("ACME_EMAIL");
+    if (!email) {
+        return null;
+    }
+
+    const env = (name: string) => Deno.env.get(name) || undefined;
+    const number = (name: string, fallback: number) => Number(env(name) || fallback);
+    const hook = env("RENEWAL_HOOK");
+    const dnsServer = env("ACME_DNS_SERVER");
+    const dnsHook = env("ACME_DNS_HOOK");
+    const tsigKey = env("ACME_TSIG_KEY");
+    const dnsProvider = dnsServer
+        ? new Rfc2136Provider({ server: dnsServer, zone: env("ACME_DNS_ZONE"), tsig: tsigKey ? parseTsigKey(tsigKey) : undefined })
+        : dnsHook ? new HookScriptProvider(dnsHook) : null;
+    const webroot = env("ACME_WEBROOT");
+    const challengeServer = env("ACME_CHALLENGE_SERVER");
+
+    // Only an in-process challenge server needs a port of its own
+    let solver: ChallengeSolver;
+    if (dnsProvider) {
+        solver = new DnsChallengeSolver(dnsProvider, { resolver: env("ACME_DNS_RESOLVER") });
+    } else if (webroot) {
+        solver = new HttpChallengeSolver(new FileChallengeStore(webroot));
+    } else if (challengeServer) {
+        solver = new RemoteChallengeSolver(challengeServer, env("CHALLENGE_ADMIN_TOKEN") || "");
+    } else {
+        solver = new HttpChallengeSolver();
+    }
+
+    return {
+        email,
+        acme: {
+            directoryUrl: env("ACME_DIRECTORY"),
+            staging: env("ACME_STAGING") === "true",
+            accountKeyPath: env("ACME_ACCOUNT_KEY") || "acme-account.json"
+        },
+        certificateDir: env("CERT_DIR") || "/etc/letsencrypt/live",
+        solvers: [solver],
+        challengePort: dnsProvider || webroot || challengeServer ? undefined : number("ACME_HTTP_PORT", 80),
+        windowDays: number("RENEWAL_WINDOW_DAYS", 30),
+        interval: number("RENEWAL_INTERVAL_HOURS", 12) * HOUR,
+        backoff: number("RENEWAL_BACKOFF_MINUTES", 60) * 60 * 1000,
+        maxBackoff: number("RENEWAL_MAX_BACKOFF_HOURS", 24) * HOUR,
+        hook: hook ? splitCommand(hook) : deployOptionsFromEnv().reloadCommand,
+        stateFile: env("RENEWAL_STATE_FILE") || "renewal-state.json"
+    };
+}
+
+// Keeps the certificates referenced by the stored sites valid. Each pass
+// reads the certificate files, renews those inside the renewal window and
+// runs the hook once if anything changed. Failed renewals are retried with
+// exponential backoff and jitter, so many certificates failing at once do
+// not hit the CA in lockstep.
+export class RenewalService {
+    private state: Record<string, RenewalState> | null = null;
+    private running: Promise<RenewalResult> | null = null;
+    private timer?: ReturnType<typeof setTimeout>;
+
+    constructor(private store: SiteStore, private options: RenewalOptions) {}
+
+    async status(): Promise<CertificateStatus[]> {
+        const state = await this.loadState();
+        const certificates = new Map<string, CertificateStatus>();
+
+        for (const site of await this.store.list()) {
+            if (!site.ssl?.certificate) {
+                continue;
+            }
+            const existing = certificates.get(site.ssl.certificate);
+            if (existing) {
+                existing.sites.push(site.domain);
+                continue;
+            }
+            const names = site.serverName.split(/\s+/).filter(Boolean);
+            const unsupportedNames = names.filter(name => !CERTIFICATE_NAME.test(name));
+            certificates.set(site.ssl.certificate, {
+                certificate: site.ssl.certificate,
+                certificateKey: site.ssl.certificateKey,
+                sites: [site.domain],
+                domains: names.filter(name => CERTIFICATE_NAME.test(name)),
+                ...(unsupportedNames.length ? { unsupportedNames } : {}),
+                due: true,
+                ...(state[site.ssl.certificate] || { failures: 0 })
+            });
+        }
+
+        for (const status of certificates.values()) {
+            try {
+                const info = parseCertificate(fromPem(await Deno.readTextFile(status.certificate))[0] || new Uint8Array());
+                const daysLeft = (info.notAfter.getTime() - Date.now()) / DAY;
+                if (info.domains.length) {
+                    // Renewals keep the names of the existing certificate
+                    status.domains = info.domains;
+                    delete status.unsupportedNames;
+                }
+                status.notAfter = info.notAfter.toISOString();
+                status.daysLeft = Math.floor(daysLeft);
+                status.due = daysLeft <= this.options.windowDays;
+            } catch (error) {
+                // A missing or unreadable certificate is issued from scratch
+                // for the names of its sites
+                if (!(error instanceof Deno.errors.NotFound) && !status.lastError) {
+                    status.lastError = `Cannot read certificate: ${error.message}`;
+                }
+            }
+        }
+        return [...certificates.values()];
+    }
+
+    // Renews every due certificate that is not waiting for a retry. Concurrent
+    // calls share the pass that is already running.
+    run(force = false): Promise<RenewalResult> {
+        if (!this.running) {
+            this.running = this.renewDue(force).finally(() => this.running = null);
+        }
+        return this.running;
+    }
+
+    // Runs passes on a timer until stop() is called
+    start(): void {
+        const tick = async () => {
+            try {
+                const result = await this.run();
+                for (const failure of result.failed) {
+                    console.error(`Renewal of ${failure.certificate} failed: ${failure.error}`);
+                }
+                if (result.hook && !result.hook.success) {
+                    console.error(`Post-renewal hook failed: ${result.hook.output}`);
+                }
+            } catch (error) {
+                console.error(`Renewal pass failed: ${error.message}`);
+            }
+            this.timer = setTimeout(tick, await this.nextDelay());
+        };
+        // Spread the first pass of several instances over a few minutes
+        this.timer = setTimeout(tick, Math.random() * 5 * 60 * 1000);
+    }
+
+    stop(): void {
+        clearTimeout(this.timer);
+    }
+
+    private async renewDue(force: boolean): Promise<RenewalResult> {
+        const result: RenewalResult = { renewed: [], failed: [], skipped: [] };
+        const now = Date.now();
+        const pending = (await this.status()).filter(status => {
+            if (!force && !status.due) {
+                return false;
+            }
+            if (!force && status.nextAttempt && Date.parse(status.nextAttempt) > now) {
+                result.skipped.push(status.certificate);
+                return false;
+            }
+            return true;
+        });
+        if (pending.length === 0) {
+            return result;
+        }
+
+        const challengeServer = new AbortController();
+        const serving = this.options.challengePort
+            ? serveChallenges({ port: this.options.challengePort, signal: challengeServer.signal })
+            : Promise.resolve();
+        try {
+            for (const status of pending) {
+                const error = await this.renew(status);
+                if (error) {
+                    result.failed.push({ certificate: status.certificate, error });
+                } else {
+                    result.renewed.push(status.certificate);
+                }
+            }
+        } finally {
+            challengeServer.abort();
+            await serving;
+        }
+
+        if (result.renewed.length > 0 && this.options.hook?.length) {
+            result.hook = await runCommand(this.options.hook);
+        }
+        return result;
+    }
+
+    private async renew(status: CertificateStatus): Promise<string | null> {
+        const state = await this.loadState();
+        const entry: RenewalState = state[status.certificate] || { failures: 0 };
+        entry.lastAttempt = new Date().toISOString();
+        state[status.certificate] = entry;
+
+        try {
+            for (const path of [status.certificateKey, status.certificate]) {
+                if (!isInsideDirectory(path, this.options.certificateDir)) {
+                    throw new Error(`${path} is outside the certificate directory ${this.options.certificateDir}`);
+                }
+            }
+            if (status.unsupportedNames) {
+                throw new Error(`No certificate can be issued for server names ${status.unsupportedNames.join(", ")}`);
+            }
+            if (status.domains.length === 0) {
+                throw new Error("No server names to issue the certificate for");
+            }
+            const client = new LetsEncryptClient(this.options.acme);
+            const { cert, key } = await client.generateCertificate(status.domains, this.options.email, this.options.solvers);
+            await writeAtomically(status.certificateKey, key, 0o600);
+            await writeAtomically(status.certificate, cert, 0o644);
+            entry.lastRenewed = entry.lastAttempt;
+            entry.failures = 0;
+            delete entry.lastError;
+            delete entry.nextAttempt;
+            return null;
+        } catch (error) {
+            entry.failures++;
+            entry.lastError = error.message;
+            entry.nextAttempt = new Date(Date.now() + this.backoff(entry.failures)).toISOString();
+            return error.message;
+        } finally {
+            await this.saveState();
+        }
+    }
+
+    // Exponential backoff with +/-20% jitter
+    private backoff(failures: number): number {
+        const delay = Math.min(this.options.maxBackoff, this.options.backoff * 2 ** (failures - 1));
+        return delay * (0.8 + Math.random() * 0.4);
+    }
+
+    // The regular interval, or earlier when a retry is scheduled before it
+    private async nextDelay(): Promise<number> {
+        const retries = Object.values(await this.loadState())
+            .filter(entry => entry.nextAttempt)
+            .map(entry => Date.parse(entry.nextAttempt!) - Date.now());
+        const delay = Math.min(this.options.interval, ...retries);
+        return Math.max(60 * 1000, delay * (0.9 + Math.random() * 0.2));
+    }
+
+    private async loadState(): Promise<Record<string, RenewalState>> {
+        if (this.state) {
+            return this.state;
+        }
+        this.state = {};
+        if (this.options.stateFile) {
+            try {
+                this.state = JSON.parse(await Deno.readTextFile(this.options.stateFile));
+            } catch (error) {
+                if (!(error instanceof Deno.errors.NotFound)) {
+                    throw error;
+                }
+            }
+        }
+        return this.state!;
+    }
+
+    private async saveState(): Promise<void> {
+        if (this.options.stateFile && this.state) {
+            await writeAtomically(this.options.stateFile, JSON.stringify(this.state, null, 2), 0o644);
+        }
+    }
+}
+
+async function writeAtomically(path: string, content: string, mode: number): Promise<void> {
+    const dir = path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : ".";
+    await Deno.mkdir(dir || "/", { recursive: true });
+    await Deno.writeTextFile(`${path}.tmp`, content, { mode });
+    await Deno.rename(`${path}.tmp`, path);
+}
+
+export function renewalRoutes(service: RenewalService | null): Route[] {
+    function disabled(): Response {
+        return jsonResponse({ error: "Certificate renewal is not configured (set ACME_EMAIL)" }, 503);
+    }
+
+    async function listCertificates(req: Request): Promise<Response> {
+        if (!service) {
+            return disabled();
+        }
+        const certificates = (await service.status()).filter(status => status.sites.every(site => canAccessDomain(req, site)));
+        return jsonResponse({ certificates });
+    }
+
+    async function renewCertificates(req: Request): Promise<Response> {
+        if (!service) {
+            return disabled();
+        }
+        const force = new URL(req.url).searchParams.get("force") === "true";
+        const result = await service.run(force);
+        return jsonResponse(result, result.failed.length > 0 ? 502 : 200);
+    }
+
+    return [
+        { method: "GET", path: "/certificates", summary: "Certificates of the stored sites and their expiry", handler: listCertificates },
+        {
+            method: "POST",
+            path: "/certificates/renew",
+            summary: "Renew the certificates that are due",
+            query: { force: "\"true\" renews every certificate, ignoring the window and backoff" },
+            global: true,
+            handler: renewCertificates
+        }
+    ];
+}
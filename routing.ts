@@ -0,0 +1,765 @@
+import { ExplainRequest, NginxConfig, SharedZones } from "./types.ts";
+import { generateNginxConfig } from "./generator.ts";
+import { DirectiveNode, formatDirective, NginxParser } from "./parser.ts";
+
+// Follows a request through a rendered config the way nginx would: server
+// selection by port and server_name, the server-level rewrite phase, the
+// location search (exact, longest prefix, ^~, regexes in order, nested
+// locations), the location's rewrite phase, access checks, try_files and
+// index, and the content handler. Files are not looked at: where nginx would
+// check the disk, the trace says what happens in either case and follows the
+// fallback.
+
+// A request as nginx receives it
+export interface TraceRequest {
+    method: string;
+    scheme: "http" | "https";
+    host: string;
+    port: number;
+    // Path and query string, e.g. "/blog/?p=1"
+    uri: string;
+}
+
+export interface TraceStep {
+    phase: "server" | "location" | "rewrite" | "access" | "try_files" | "index" | "content";
+    message: string;
+    // The directive the step is about, as it is written in the config
+    directive?: string;
+    line?: number;
+}
+
+export interface TraceResult {
+    action: "redirect" | "return" | "proxy" | "fastcgi" | "static" | "error";
+    status?: number;
+    // Redirect target, upstream URL, FastCGI script or file
+    target?: string;
+    message: string;
+}
+
+export interface RequestTrace {
+    request: TraceRequest;
+    // server_name of the server block handling the request
+    server: string | null;
+    // The location handling it in the end; the innermost one when nested
+    location: string | null;
+    steps: TraceStep[];
+    result: TraceResult;
+}
+
+// nginx answers 500 after this many internal redirects
+const MAX_INTERNAL_REDIRECTS = 10;
+
+// Traces a request through a site, filling in what the request leaves out:
+// the first server name as host, https when the site has SSL, and the site's
+// port when the scheme is the one it listens with
+export function explainRequest(config: NginxConfig, request: ExplainRequest, shared: SharedZones = {}): RequestTrace {
+    const scheme = request.scheme || (config.ssl ? "https" : "http");
+    const port = request.port || ((scheme === "https") === !!config.ssl ? config.port : scheme === "https" ? 443 : 80);
+    const nodes = new NginxParser().parse(generateNginxConfig(config, shared));
+    return traceRequest(nodes, {
+        method: (request.method || "GET").toUpperCase(),
+        scheme,
+        host: request.host || config.serverName.split(/\s+/)[0],
+        port,
+        uri: request.uri
+    });
+}
+
+export function traceRequest(nodes: DirectiveNode[], request: TraceRequest): RequestTrace {
+    return new Tracer(nodes, request).run();
+}
+
+export interface LocationMatch {
+    // Outermost first
+    chain: DirectiveNode[];
+    // Whether the search is settled; otherwise the regexes of the enclosing
+    // level still get their turn
+    done: boolean;
+    // Of the regex location that matched
+    captures?: string[];
+}
+
+// Tests a regex location: its captures, null when it does not match, or
+// undefined when JavaScript cannot evaluate the regex
+export type RegexMatcher = (pattern: string, value: string, caseless: boolean) => string[] | null | undefined;
+
+// ngx_http_core_find_location: an exact match ends the search; otherwise the
+// longest prefix is remembered and its nested locations searched, then the
+// regexes are tried in order unless the prefix has ^~
+export function searchLocations(blocks: DirectiveNode[], uri: string, match: RegexMatcher = matchRegex): LocationMatch {
+    const locations = blocks.filter(n => n.name === "location" && n.block).map(node => ({ node, ...parseLocation(node) }));
+
+    const exact = locations.find(l => l.modifier === "=" && l.pattern === uri);
+    if (exact) {
+        return { chain: [exact.node], done: true };
+    }
+
+    let best: typeof locations[number] | undefined;
+    for (const location of locations) {
+        if ((location.modifier === "" || location.modifier === "^~") && !location.pattern.startsWith("@") &&
+            uri.startsWith(location.pattern) && location.pattern.length > (best?.pattern.length ?? -1)) {
+            best = location;
+        }
+    }
+
+    let chain: DirectiveNode[] = [];
+    if (best) {
+        const nested = searchLocations(best.node.block!, uri, match);
+        chain = [best.node, ...nested.chain];
+        if (nested.done) {
+            return { chain, done: true, captures: nested.captures };
+        }
+        if (best.modifier === "^~") {
+            return { chain, done: false };
+        }
+    }
+
+    for (const location of locations.filter(l => l.modifier.startsWith("~"))) {
+        const captures = match(location.pattern, uri, location.modifier === "~*");
+        if (captures) {
+            const nested = searchLocations(location.node.block!, uri, match);
+            return { chain: [location.node, ...nested.chain], done: true, captures: nested.captures ?? captures };
+        }
+    }
+    return { chain, done: false };
+}
+
+function matchRegex(pattern: string, value: string, caseless: boolean): string[] | null | undefined {
+    try {
+        const match = new RegExp(pattern.replace(/\(\?P</g, "(?<"), caseless ? "i" : "").exec(value);
+        return match && [...match];
+    } catch {
+        return undefined;
+    }
+}
+
+type RewriteOutcome = TraceResult | "last" | "break" | "changed" | null;
+
+class Tracer {
+    private steps: TraceStep[] = [];
+    private context: DirectiveNode[];
+    private servers: DirectiveNode[];
+    private server: DirectiveNode | null = null;
+    private location: DirectiveNode | null = null;
+    private uri: string;
+    private args: string;
+    private host: string;
+    private captures: string[] = [];
+    private variables: Record<string, string> = {};
+    // Set by the internal redirects of try_files and index, whose targets
+    // are meant to exist
+    private redirected = false;
+
+    constructor(nodes: DirectiveNode[], private request: TraceRequest) {
+        this.context = [...nodes, ...nodes.filter(n => n.name === "http").flatMap(n => n.block || [])];
+        this.servers = this.context.filter(n => n.name === "server" && n.block);
+        const query = request.uri.indexOf("?");
+        this.uri = normalizeUri(query < 0 ? request.uri : request.uri.slice(0, query));
+        this.args = query < 0 ? "" : request.uri.slice(query + 1);
+        this.host = request.host.toLowerCase().replace(/:\d+$/, "").replace(/\.$/, "");
+    }
+
+    run(): RequestTrace {
+        this.server = this.selectServer();
+        if (!this.server) {
+            return this.finish({ action: "error", message: `No server listens on port ${this.request.port}` });
+        }
+
+        const serverRewrite = this.rewrite(this.server.block!.filter(d => d.name !== "location"));
+        if (isResult(serverRewrite)) {
+            return this.finish(serverRewrite);
+        }
+
+        // Each round is a location search, repeated after internal redirects
+        let named: DirectiveNode | null = null;
+        for (let round = 0; round <= MAX_INTERNAL_REDIRECTS; round++) {
+            const chain = named ? [named] : this.findLocation();
+            named = null;
+            this.location = chain[chain.length - 1] || null;
+            const directives = this.location?.block || [];
+
+            const outcome = this.rewrite(directives);
+            if (isResult(outcome)) {
+                return this.finish(outcome);
+            }
+            if (outcome === "last" || outcome === "changed") {
+                continue;
+            }
+
+            const denied = this.checkAccess(chain);
+            if (denied) {
+                return this.finish(denied);
+            }
+
+            const tryFiles = this.location ? directives.find(d => d.name === "try_files") : this.server.block!.find(d => d.name === "try_files");
+            if (tryFiles && tryFiles.args.length >= 2) {
+                const fallback = this.tryFiles(tryFiles, chain);
+                if (isResult(fallback)) {
+                    return this.finish(fallback);
+                }
+                if (fallback !== "found") {
+                    named = fallback;
+                    continue;
+                }
+            }
+
+            const content = this.content(chain);
+            if (content) {
+                return this.finish(content);
+            }
+        }
+        return this.finish({ action: "error", status: 500, message: "Rewrite or internal redirection cycle; nginx answers 500" });
+    }
+
+    private finish(result: TraceResult): RequestTrace {
+        return {
+            request: this.request,
+            server: this.server ? this.server.block!.find(d => d.name === "server_name")?.args.join(" ") ?? "" : null,
+            location: this.location ? this.location.args.join(" ") : null,
+            steps: this.steps,
+            result
+        };
+    }
+
+    private step(phase: TraceStep["phase"], message: string, directive?: DirectiveNode): void {
+        this.steps.push({
+            phase,
+            message,
+            ...(directive && { directive: formatDirective({ ...directive, block: undefined }).replace(/;$/, ""), line: directive.line })
+        });
+    }
+
+    // Servers listening on the port, then by server_name: exact names, the
+    // longest leading wildcard, the longest trailing wildcard, the first
+    // regex; without a match the port's default server, or its first one
+    private selectServer(): DirectiveNode | null {
+        const port = this.request.port;
+        const candidates = this.servers.filter(server => listenPorts(server).includes(port));
+        if (candidates.length === 0) {
+            return null;
+        }
+        const names = candidates.flatMap(server => (server.block!.find(d => d.name === "server_name")?.args || [])
+            .map(name => ({ server, name: name.toLowerCase() })));
+        const host = this.host;
+
+        const exact = names.find(({ name }) => name === host);
+        if (exact) {
+            this.step("server", `server_name '${exact.name}' matches the host exactly`, exact.server);
+            return exact.server;
+        }
+        const longest = (matches: { server: DirectiveNode; name: string }[]) =>
+            matches.sort((a, b) => b.name.length - a.name.length)[0];
+        const leading = longest(names.filter(({ name }) =>
+            (name.startsWith("*.") && host.endsWith(name.slice(1))) ||
+            (name.startsWith(".") && (host === name.slice(1) || host.endsWith(name)))));
+        if (leading) {
+            this.step("server", `Wildcard server_name '${leading.name}' matches the host`, leading.server);
+            return leading.server;
+        }
+        const trailing = longest(names.filter(({ name }) => name.endsWith(".*") && host.startsWith(name.slice(0, -1))));
+        if (trailing) {
+            this.step("server", `Wildcard server_name '${trailing.name}' matches the host`, trailing.server);
+            return trailing.server;
+        }
+        const regex = names.find(({ name }) => name.startsWith("~") && this.match(name.slice(1), host, true) !== null);
+        if (regex) {
+            this.step("server", `Regex server_name '${regex.name}' is the first to match the host`, regex.server);
+            return regex.server;
+        }
+
+        const fallback = candidates.find(server => server.block!.some(d => d.name === "listen" && listenPort(d) === port && d.args.includes("default_server")));
+        if (fallback) {
+            this.step("server", `No server_name matches '${host}'; the default_server of port ${port} answers`, fallback);
+            return fallback;
+        }
+        this.step("server", `No server_name matches '${host}'; the first server on port ${port} answers`, candidates[0]);
+        return candidates[0];
+    }
+
+    // The locations handling the URI, and why nginx picks them
+    private findLocation(): DirectiveNode[] {
+        const { chain, captures } = searchLocations(this.server!.block!, this.uri, (pattern, value, caseless) => this.match(pattern, value, caseless));
+        if (captures) {
+            this.captures = captures;
+        }
+        const location = chain[chain.length - 1];
+        if (!location) {
+            this.step("location", `No location matches '${this.uri}'; the server's own settings apply`);
+            return [];
+        }
+        const { modifier } = parseLocation(location);
+        const reason = modifier === "="
+            ? "is an exact match"
+            : modifier.startsWith("~")
+            ? "is the first regex location to match"
+            : modifier === "^~"
+            ? "is the longest matching prefix; ^~ skips the regex locations"
+            : "is the longest matching prefix and no regex location matches";
+        const path = chain.map(node => `'${node.args.join(" ")}'`).join(" > ");
+        this.step("location", `Location ${path} ${reason} for '${this.uri}'`, location);
+        return chain;
+    }
+
+    // The rewrite module's directives, in order. "changed" means a rewrite
+    // without flag changed the URI, which starts a new location search.
+    private rewrite(directives: DirectiveNode[]): RewriteOutcome {
+        let changed = false;
+        for (const directive of directives) {
+            const args = directive.args;
+            if (directive.name === "set" && args.length === 2) {
+                this.variables[args[0].replace(/^\$/, "")] = this.expand(args[1]);
+            } else if (directive.name === "break") {
+                this.step("rewrite", "break stops the rewrite directives", directive);
+                return "break";
+            } else if (directive.name === "return" && args.length > 0) {
+                return this.returnResult(directive);
+            } else if (directive.name === "rewrite" && args.length >= 2) {
+                const outcome = this.applyRewrite(directive);
+                if (outcome === "changed") {
+                    changed = true;
+                } else if (outcome) {
+                    return outcome;
+                }
+            } else if (directive.name === "if" && directive.block) {
+                const condition = args.join(" ").replace(/^\(\s*|\s*\)$/g, "");
+                const value = this.condition(condition);
+                if (value === undefined) {
+                    this.step("rewrite", `Condition (${condition}) depends on values only known at request time; assumed false`, directive);
+                    continue;
+                }
+                this.step("rewrite", `Condition (${condition}) is ${value}`, directive);
+                if (value) {
+                    const outcome = this.rewrite(directive.block);
+                    if (outcome === "changed") {
+                        changed = true;
+                    } else if (outcome) {
+                        return outcome;
+                    }
+                }
+            }
+        }
+        return changed ? "changed" : null;
+    }
+
+    private applyRewrite(directive: DirectiveNode): RewriteOutcome {
+        const [pattern, replacement, flag] = directive.args;
+        const captures = this.match(pattern, this.uri, false);
+        if (!captures) {
+            this.step("rewrite", `'${this.uri}' does not match ${pattern}`, directive);
+            return null;
+        }
+        this.captures = captures;
+        const target = this.expand(replacement);
+
+        // A replacement ending in ? drops the request's query string
+        const dropArgs = target.endsWith("?");
+        const bare = dropArgs ? target.slice(0, -1) : target;
+        if (/^(https?:\/\/|\$scheme)/.test(replacement) || flag === "redirect" || flag === "permanent") {
+            const status = flag === "permanent" ? 301 : 302;
+            const location = this.absolute(dropArgs || !this.args ? bare : `${bare}${bare.includes("?") ? "&" : "?"}${this.args}`);
+            this.step("rewrite", `'${this.uri}' matches ${pattern}; redirects to ${location}`, directive);
+            return { action: "redirect", status, target: location, message: `${status} redirect to ${location}` };
+        }
+
+        const query = bare.indexOf("?");
+        if (query >= 0) {
+            this.args = dropArgs || !this.args ? bare.slice(query + 1) : `${bare.slice(query + 1)}&${this.args}`;
+        } else if (dropArgs) {
+            this.args = "";
+        }
+        const from = this.uri;
+        this.uri = query >= 0 ? bare.slice(0, query) : bare;
+        const then = flag === "last"
+            ? "; last starts a new location search"
+            : flag === "break"
+            ? "; break keeps the current location"
+            : "";
+        this.step("rewrite", `'${from}' matches ${pattern}; the URI becomes '${this.uri}'${this.args ? ` with query '${this.args}'` : ""}${then}`, directive);
+        return flag === "last" ? "last" : flag === "break" ? "break" : "changed";
+    }
+
+    private returnResult(directive: DirectiveNode): TraceResult {
+        const [first, text] = directive.args;
+        const code = /^\d{3}$/.test(first) ? parseInt(first) : 302;
+        const value = /^\d{3}$/.test(first) ? text : first;
+        if ([301, 302, 303, 307, 308].includes(code) && value !== undefined) {
+            const target = this.absolute(this.expand(value));
+            this.step("rewrite", `return redirects with ${code} to ${target}`, directive);
+            return { action: "redirect", status: code, target, message: `${code} redirect to ${target}` };
+        }
+        this.step("rewrite", `return answers with ${code}`, directive);
+        return {
+            action: "return",
+            status: code,
+            message: value === undefined ? `Answers ${code}` : `Answers ${code} with '${this.expand(value)}'`
+        };
+    }
+
+    // Access phase: address rules, basic auth and auth_request, inherited
+    // from the server unless a location has its own; limit_except for
+    // methods it does not list
+    private checkAccess(chain: DirectiveNode[]): TraceResult | null {
+        const scopes = [...chain].reverse().map(node => node.block!).concat([this.server!.block!]);
+        const own = (names: string[]) => scopes.find(block => block.some(d => names.includes(d.name)))?.filter(d => names.includes(d.name)) || [];
+
+        const rules = own(["allow", "deny"]);
+        if (rules.length) {
+            this.step("access", `The client address is checked against: ${rules.map(d => `${d.name} ${d.args.join(" ")}`).join(", ")}`, rules[0]);
+        }
+        const basic = own(["auth_basic"])[0];
+        if (basic && basic.args[0] !== "off") {
+            this.step("access", `Basic authentication is required (realm '${basic.args[0]}')`, basic);
+        }
+        const authRequest = own(["auth_request"])[0];
+        if (authRequest && authRequest.args[0] !== "off") {
+            this.step("access", `A subrequest to ${authRequest.args[0]} decides: 2xx lets the request through, 401 and 403 are returned`, authRequest);
+        }
+        if ((rules.length || basic) && own(["satisfy"])[0]?.args[0] === "any") {
+            this.step("access", "satisfy any: passing one of the checks is enough");
+        }
+
+        const limitExcept = this.location?.block!.find(d => d.name === "limit_except" && d.block);
+        if (limitExcept) {
+            const methods = limitExcept.args.map(method => method.toUpperCase());
+            const allowed = methods.includes(this.request.method) || (this.request.method === "HEAD" && methods.includes("GET"));
+            if (!allowed) {
+                const denyAll = limitExcept.block!.some(d => d.name === "deny" && d.args[0] === "all");
+                this.step("access", `${this.request.method} is not one of ${methods.join(", ")}, so the limit_except block applies`, limitExcept);
+                if (denyAll && !limitExcept.block!.some(d => d.name === "allow")) {
+                    return { action: "return", status: 403, message: `${this.request.method} requests are denied by limit_except` };
+                }
+            }
+        }
+        return null;
+    }
+
+    // Lists the files try_files checks and follows the fallback, which nginx
+    // uses when none of them exist. When the fallback is an error code, or
+    // after an internal redirect to a fallback file, the file is taken to
+    // exist instead. Returns a result, a named location, "found" when the
+    // location goes on with a file, or null after an internal redirect.
+    private tryFiles(directive: DirectiveNode, chain: DirectiveNode[]): TraceResult | DirectiveNode | "found" | null {
+        const root = this.documentRoot(chain);
+        const candidates = directive.args.slice(0, -1).map(file => ({
+            directory: file.endsWith("/"),
+            path: `${root}${this.expand(file)}`.replace(/\/{2,}/g, "/")
+        })).filter(candidate => candidate.directory || !candidate.path.endsWith("/"));
+        const files = candidates.map(({ directory, path }) => directory ? `the directory ${path}` : path);
+
+        // The document root is the one directory sure to exist
+        if (this.uri === "/" && candidates.some(candidate => candidate.directory && candidate.path === `${root}/`)) {
+            this.step("try_files", `${root}/ is the document root, so this location handles the request with it`, directive);
+            return "found";
+        }
+        const file = candidates.find(candidate => !candidate.directory);
+        if (this.redirected && file) {
+            this.step("try_files", `${file.path} is where the internal redirect was meant to go, so this location handles the request with it`, directive);
+            return "found";
+        }
+        const fallback = directive.args[directive.args.length - 1];
+        const found = files.length === 0
+            ? "No file can match"
+            : `When ${files.length > 1 ? `one of ${files.join(", ")}` : files[0]} exists, this location handles the request with it`;
+
+        if (/^=\d{3}$/.test(fallback)) {
+            this.step("try_files", `${found}; otherwise nginx answers ${fallback.slice(1)}`, directive);
+            return files.length > 0
+                ? "found"
+                : { action: "return", status: parseInt(fallback.slice(1)), message: `Answers ${fallback.slice(1)}` };
+        }
+        if (fallback.startsWith("@")) {
+            const named = this.server!.block!.find(d => d.name === "location" && d.args[0] === fallback && d.block);
+            this.step("try_files", `${found}; otherwise the request goes to location ${fallback}`, directive);
+            if (!named) {
+                return { action: "error", status: 500, message: `Named location ${fallback} does not exist` };
+            }
+            return named;
+        }
+
+        const target = this.expand(fallback);
+        const query = target.indexOf("?");
+        this.uri = normalizeUri(query < 0 ? target : target.slice(0, query));
+        if (query >= 0) {
+            this.args = target.slice(query + 1);
+        }
+        this.redirected = true;
+        this.step("try_files", `${found}; otherwise an internal redirect to '${target}' starts a new location search`, directive);
+        return null;
+    }
+
+    // Content phase of the location: proxy_pass, fastcgi_pass or a static
+    // file, with index files for directories. Returns null after an internal
+    // redirect to an index file.
+    private content(chain: DirectiveNode[]): TraceResult | null {
+        const directives = this.location?.block || [];
+        const proxyPass = directives.find(d => d.name === "proxy_pass");
+        if (proxyPass) {
+            return this.proxyResult(proxyPass);
+        }
+
+        const fastcgiPass = directives.find(d => d.name === "fastcgi_pass");
+        if (fastcgiPass) {
+            const root = this.documentRoot(chain);
+            const index = this.inherited(chain, "fastcgi_index")?.args[0];
+            const scriptName = this.uri.endsWith("/") && index ? `${this.uri}${index}` : this.uri;
+            const param = this.inherited(chain, "fastcgi_param", d => d.args[0] === "SCRIPT_FILENAME");
+            const script = param ? this.expand(param.args[1], { document_root: root, fastcgi_script_name: scriptName }) : undefined;
+            this.step("content", `Passed to PHP-FPM at ${fastcgiPass.args[0]}${script ? ` to run ${script}` : "; no SCRIPT_FILENAME param names the script"}`, fastcgiPass);
+            return { action: "fastcgi", target: script, message: `FastCGI request to ${fastcgiPass.args[0]}` };
+        }
+
+        const alias = directives.find(d => d.name === "alias");
+        const root = this.documentRoot(chain);
+        if (this.uri.endsWith("/")) {
+            const index = this.inherited(chain, "index")?.args || ["index.html"];
+            const file = index[0];
+            const target = file.startsWith("/") ? file : `${this.uri}${file}`;
+            this.step("index", `'${this.uri}' is a directory: if ${root}${this.uri}${file} exists, an internal redirect to '${target}' follows${index.length > 1 ? ` (then ${index.slice(1).join(", ")})` : ""}`, this.inherited(chain, "index"));
+            if (target === this.uri) {
+                return { action: "error", status: 500, message: "The index file redirects to itself" };
+            }
+            this.uri = target;
+            this.redirected = true;
+            return null;
+        }
+
+        let file = `${root}${this.uri}`;
+        if (alias && this.location) {
+            const { modifier, pattern } = parseLocation(this.location);
+            file = modifier.startsWith("~") ? this.expand(alias.args[0]) : `${alias.args[0]}${this.uri.slice(pattern.length)}`;
+        }
+        this.step("content", `Serves the file ${file}, or 404 when it does not exist`, alias || this.inherited(chain, "root"));
+        return { action: "static", target: file, message: `Static file ${file}` };
+    }
+
+    // With a URI in proxy_pass, the part of the request URI matching a prefix
+    // location is replaced by it; after a rewrite, or in regex locations, the
+    // URI is passed on as it is
+    private proxyResult(directive: DirectiveNode): TraceResult {
+        const pass = this.expand(directive.args[0]);
+        const [, base = pass, path] = pass.match(/^([a-z]+:\/\/[^/]+)(\/.*)?$/) || [];
+        const { modifier, pattern } = parseLocation(this.location!);
+        let uri = this.uri;
+        if (path !== undefined && (modifier === "" || modifier === "^~") && uri.startsWith(pattern)) {
+            uri = `${path}${uri.slice(pattern.length)}`;
+        }
+        const target = `${base}${uri}${this.args ? `?${this.args}` : ""}`;
+
+        const upstream = this.context.find(n => n.name === "upstream" && n.block && n.args[0] === base.replace(/^[a-z]+:\/\//, ""));
+        const servers = upstream?.block!.filter(d => d.name === "server").map(d => d.args[0]) || [];
+        this.step("content", `Proxied to ${target}${servers.length ? ` (upstream ${upstream!.args[0]}: ${servers.join(", ")})` : ""}`, directive);
+        return { action: "proxy", target, message: `Proxied to ${target}` };
+    }
+
+    private documentRoot(chain: DirectiveNode[]): string {
+        return (this.inherited(chain, "root")?.args[0] || "html").replace(/\/$/, "");
+    }
+
+    // The directive from the innermost scope that has one: the locations,
+    // the server, then the http context
+    private inherited(chain: DirectiveNode[], name: string, filter: (d: DirectiveNode) => boolean = () => true): DirectiveNode | undefined {
+        const scopes = [...chain].reverse().map(node => node.block!).concat([this.server!.block!, this.context]);
+        for (const scope of scopes) {
+            const directive = scope.find(d => d.name === name && filter(d));
+            if (directive) {
+                return directive;
+            }
+        }
+        return undefined;
+    }
+
+    // Conditions of `if`: a variable on its own, =, !=, and the regex
+    // operators. File checks (-f, -d...) and variables only known at request
+    // time give undefined.
+    private condition(condition: string): boolean | undefined {
+        const match = condition.match(/^(\$\w+|\$\{\w+\})(?:\s+(=|!=|~\*|~|!~\*|!~)\s+(.*))?$/);
+        if (!match) {
+            return undefined;
+        }
+        const value = this.variable(match[1].replace(/^\$\{?|\}$/g, ""));
+        if (value === undefined) {
+            return undefined;
+        }
+        const [, , operator, operand] = match;
+        const right = operand?.replace(/^(["'])(.*)\1$/, "$2");
+        if (!operator) {
+            return value !== "" && value !== "0";
+        }
+        if (operator === "=" || operator === "!=") {
+            const expanded = this.expandKnown(right);
+            return expanded === undefined ? undefined : (value === expanded) === (operator === "=");
+        }
+        const captures = this.match(right, value, operator.endsWith("*"));
+        if (captures === undefined) {
+            return undefined;
+        }
+        if (captures && !operator.startsWith("!")) {
+            this.captures = captures;
+        }
+        return (captures !== null) === !operator.startsWith("!");
+    }
+
+    // Captures of a PCRE pattern against a value: null without a match,
+    // undefined when JavaScript cannot compile the pattern. Named captures
+    // become variables, as in nginx.
+    private match(pattern: string, value: string, caseless: boolean): string[] | null | undefined {
+        try {
+            const match = new RegExp(pattern.replace(/\(\?P</g, "(?<"), caseless ? "i" : "").exec(value);
+            if (!match) {
+                return null;
+            }
+            Object.assign(this.variables, match.groups);
+            return [...match];
+        } catch {
+            this.step("location", `The regex ${pattern} cannot be evaluated here and is treated as not matching`);
+            return undefined;
+        }
+    }
+
+    private expand(text: string, extra: Record<string, string> = {}): string {
+        return text.replace(/\$(\{(\w+)\}|\w+)/g, (whole, _braced, inner) => {
+            const name = inner || whole.slice(1);
+            return extra[name] ?? this.variable(name) ?? whole;
+        });
+    }
+
+    // Like expand(), but undefined when a variable is unknown
+    private expandKnown(text: string): string | undefined {
+        let known = true;
+        const value = text.replace(/\$(\{(\w+)\}|\w+)/g, (whole, _braced, inner) => {
+            const value = this.variable(inner || whole.slice(1));
+            known &&= value !== undefined;
+            return value ?? whole;
+        });
+        return known ? value : undefined;
+    }
+
+    // The variables a trace knows; client addresses, headers other than
+    // Host, and upstream values are not
+    private variable(name: string): string | undefined {
+        if (/^\d$/.test(name)) {
+            return this.captures[Number(name)] ?? "";
+        }
+        if (Object.hasOwn(this.variables, name)) {
+            return this.variables[name];
+        }
+        if (name.startsWith("arg_")) {
+            const arg = this.args.split("&").find(pair => pair.split("=")[0] === name.slice(4));
+            return arg === undefined ? "" : arg.slice(arg.indexOf("=") + 1);
+        }
+        switch (name) {
+            case "uri":
+            case "document_uri":
+                return this.uri;
+            case "request_uri":
+                return this.request.uri;
+            case "args":
+            case "query_string":
+                return this.args;
+            case "is_args":
+                return this.args ? "?" : "";
+            case "host":
+                return this.host;
+            case "http_host":
+                return this.request.host;
+            case "server_name":
+                return this.server?.block!.find(d => d.name === "server_name")?.args[0] ?? "";
+            case "scheme":
+                return this.request.scheme;
+            case "https":
+                return this.request.scheme === "https" ? "on" : "";
+            case "server_port":
+                return String(this.request.port);
+            case "request_method":
+                return this.request.method;
+        }
+        return this.mapValue(name);
+    }
+
+    // The value of a map: exact matches (which ignore case) before regexes,
+    // which are tried in order; then the default
+    private mapValue(name: string): string | undefined {
+        const map = this.context.find(n => n.name === "map" && n.block && n.args[1] === `$${name}`);
+        const source = map && this.expandKnown(map.args[0]);
+        if (source === undefined) {
+            return undefined;
+        }
+        const entries = map!.block!.filter(d => d.args.length === 1 && !["default", "hostnames", "volatile", "include"].includes(d.name));
+        const exact = entries.find(d => !d.name.startsWith("~") && d.name.replace(/^\\/, "").toLowerCase() === source.toLowerCase());
+        const regex = exact ? undefined : entries.find(d => {
+            if (!d.name.startsWith("~")) {
+                return false;
+            }
+            const caseless = d.name.startsWith("~*");
+            const captures = this.match(d.name.slice(caseless ? 2 : 1), source, caseless);
+            if (captures) {
+                this.captures = captures;
+            }
+            return !!captures;
+        });
+        const entry = exact || regex || map!.block!.find(d => d.name === "default");
+        return entry ? this.expand(entry.args[0]) : "";
+    }
+
+    // Redirect targets relative to the server get the scheme and host of the
+    // request, as nginx sends them
+    private absolute(target: string): string {
+        if (!target.startsWith("/")) {
+            return target;
+        }
+        const defaultPort = this.request.scheme === "https" ? 443 : 80;
+        return `${this.request.scheme}://${this.host}${this.request.port === defaultPort ? "" : `:${this.request.port}`}${target}`;
+    }
+}
+
+function isResult(outcome: unknown): outcome is TraceResult {
+    return typeof outcome === "object" && outcome !== null && "action" in outcome;
+}
+
+// "= /path", "^~ /static/", "~* \.jpg$" or "/"
+export function parseLocation(node: DirectiveNode): { modifier: string; pattern: string } {
+    const [first, second] = node.args;
+    if (second !== undefined) {
+        return { modifier: first, pattern: second };
+    }
+    const attached = first.match(/^(=|\^~|~\*|~)(.+)$/);
+    return attached ? { modifier: attached[1], pattern: attached[2] } : { modifier: "", pattern: first };
+}
+
+// TCP ports a server listens on; nginx listens on 80 when there is no listen
+function listenPorts(server: DirectiveNode): number[] {
+    const listens = server.block!.filter(d => d.name === "listen" && !d.args.includes("quic"));
+    if (listens.length === 0) {
+        return [80];
+    }
+    return listens.map(listenPort).filter((port): port is number => port !== null);
+}
+
+function listenPort(directive: DirectiveNode): number | null {
+    const address = directive.args[0] || "";
+    if (address.startsWith("unix:")) {
+        return null;
+    }
+    const port = address.match(/(?:^|:)(\d+)$/);
+    return port ? parseInt(port[1]) : 80;
+}
+
+// Decodes %XX and resolves //, /./ and /../ as nginx does before matching
+function normalizeUri(path: string): string {
+    let decoded = path;
+    try {
+        decoded = decodeURIComponent(path);
+    } catch {
+        // Left as it is; nginx would answer 400
+    }
+    const segments: string[] = [];
+    for (const segment of decoded.split("/").slice(1)) {
+        if (segment === "..") {
+            segments.pop();
+        } else if (segment !== "." && segment !== "") {
+            segments.push(segment);
+        }
+    }
+    const trailing = /\/(\.\.?)?$/.test(decoded) && segments.length > 0;
+    return `/${segments.join("/")}${trailing ? "/" : ""}`;
+}
@@ -0,0 +1,460 @@
+import { jsonResponse, Route, routeAccess } from "./http.ts";
+
+// JSON Schema (draft 2020-12) for the interfaces in types.ts and an OpenAPI
+// 3.1 document for the routes of the API. The schema is built from the
+// source of types.ts when the server starts, so it cannot drift from the
+// interfaces. The parser understands the subset of TypeScript used there:
+// interfaces with extends, type aliases, primitives, string literals, unions,
+// arrays, inline object types, index signatures and Record<string, T>.
+// Comments on the lines before a declaration become its description.
+
+export type JsonSchema = Record<string, unknown>;
+
+type TypeNode =
+    | { kind: "primitive"; name: string }
+    | { kind: "literal"; value: string | number | boolean }
+    | { kind: "ref"; name: string }
+    | { kind: "array"; element: TypeNode }
+    | { kind: "union"; types: TypeNode[] }
+    | { kind: "object"; members: Member[]; index?: TypeNode }
+    | { kind: "any" };
+
+interface Member {
+    name: string;
+    optional: boolean;
+    type: TypeNode;
+    description?: string;
+}
+
+interface Declaration {
+    name: string;
+    description?: string;
+    extends: string[];
+    type: TypeNode;
+}
+
+interface Token {
+    text: string;
+    // Comments on their own lines right before the token
+    comments: string[];
+}
+
+const PRIMITIVES = ["string", "number", "boolean", "null", "unknown", "any", "undefined"];
+
+function tokenize(source: string): Token[] {
+    const pattern = /\s+|\/\/[^\n]*|\/\*[\s\S]*?\*\/|"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|=>|[A-Za-z_$][\w$]*|-?\d+(?:\.\d+)?|[^\s]/y;
+    const tokens: Token[] = [];
+    let comments: string[] = [];
+    let lineStart = true;
+    let match;
+    while ((match = pattern.exec(source)) !== null) {
+        const text = match[0];
+        if (/^\s+$/.test(text)) {
+            if (text.includes("\n")) {
+                lineStart = true;
+                // A blank line separates a comment from what follows
+                if (/\n\s*\n/.test(text)) {
+                    comments = [];
+                }
+            }
+            continue;
+        }
+        if (text.startsWith("//") || text.startsWith("/*")) {
+            if (lineStart) {
+                comments.push(text.replace(/^\/\/\s?|^\/\*+\s*|\s*\*+\/$/g, "").replace(/\n\s*\*?\s*/g, " "));
+            }
+            continue;
+        }
+        tokens.push({ text, comments });
+        comments = [];
+        lineStart = false;
+    }
+    return tokens;
+}
+
+class TypeParser {
+    private position = 0;
+
+    constructor(private tokens: Token[]) {}
+
+    parse(): Declaration[] {
+        const declarations: Declaration[] = [];
+        while (this.position < this.tokens.length) {
+            const start = this.peek();
+            if (start.text === "export") {
+                this.position++;
+            }
+            const keyword = this.next();
+            if (keyword.text === "interface") {
+                declarations.push(this.parseInterface(start.comments));
+            } else if (keyword.text === "type" && /^[A-Za-z_$]/.test(this.peek().text)) {
+                const name = this.next().text;
+                this.expect("=");
+                const type = this.parseType();
+                this.accept(";");
+                declarations.push({ name, description: describe(start.comments), extends: [], type });
+            }
+        }
+        return declarations;
+    }
+
+    private parseInterface(comments: string[]): Declaration {
+        const name = this.next().text;
+        const bases: string[] = [];
+        if (this.accept("extends")) {
+            do {
+                bases.push(this.next().text);
+            } while (this.accept(","));
+        }
+        return { name, description: describe(comments), extends: bases, type: this.parseObject() };
+    }
+
+    private parseObject(): TypeNode {
+        this.expect("{");
+        const members: Member[] = [];
+        let index: TypeNode | undefined;
+        while (!this.accept("}")) {
+            const start = this.peek();
+            if (this.accept("[")) {
+                // [key: string]: T
+                this.next();
+                this.expect(":");
+                this.parseType();
+                this.expect("]");
+                this.expect(":");
+                index = this.parseType();
+            } else {
+                const name = this.next().text.replace(/^["']|["']$/g, "");
+                const optional = this.accept("?");
+                let type: TypeNode;
+                if (this.peek().text === "(") {
+                    // Method signature
+                    this.skipBalanced();
+                    this.expect(":");
+                    this.parseType();
+                    type = { kind: "any" };
+                } else {
+                    this.expect(":");
+                    type = this.parseType();
+                }
+                members.push({ name, optional, type, description: describe(start.comments) });
+            }
+            this.accept(";") || this.accept(",");
+        }
+        return { kind: "object", members, index };
+    }
+
+    private parseType(): TypeNode {
+        this.accept("|");
+        const types = [this.parsePostfix()];
+        while (this.accept("|")) {
+            types.push(this.parsePostfix());
+        }
+        return types.length === 1 ? types[0] : { kind: "union", types };
+    }
+
+    private parsePostfix(): TypeNode {
+        let type = this.parsePrimary();
+        while (this.peek().text === "[" && this.tokens[this.position + 1]?.text === "]") {
+            this.position += 2;
+            type = { kind: "array", element: type };
+        }
+        return type;
+    }
+
+    private parsePrimary(): TypeNode {
+        const token = this.next();
+        const text = token.text;
+        if (text === "{") {
+            this.position--;
+            return this.parseObject();
+        }
+        if (text === "(") {
+            // Either a parenthesized type or a function type
+            this.position--;
+            const start = this.position;
+            this.skipBalanced();
+            if (this.accept("=>")) {
+                this.parseType();
+                return { kind: "any" };
+            }
+            this.position = start + 1;
+            const type = this.parseType();
+            this.expect(")");
+            return type;
+        }
+        if (/^["']/.test(text)) {
+            return { kind: "literal", value: text.startsWith('"') ? JSON.parse(text) : text.slice(1, -1) };
+        }
+        if (/^-?\d/.test(text)) {
+            return { kind: "literal", value: Number(text) };
+        }
+        if (text === "true" || text === "false") {
+            return { kind: "literal", value: text === "true" };
+        }
+        if (this.peek().text === "<") {
+            // Record<string, T>; other generics are not described
+            this.next();
+            const args = [this.parseType()];
+            while (this.accept(",")) {
+                args.push(this.parseType());
+            }
+            this.expect(">");
+            return text === "Record" ? { kind: "object", members: [], index: args[1] } : { kind: "any" };
+        }
+        if (PRIMITIVES.includes(text)) {
+            return text === "unknown" || text === "any" ? { kind: "any" } : { kind: "primitive", name: text };
+        }
+        return { kind: "ref", name: text };
+    }
+
+    private skipBalanced(): void {
+        let depth = 0;
+        do {
+            const text = this.next().text;
+            if ("({[<".includes(text)) depth++;
+            if (")}]>".includes(text)) depth--;
+        } while (depth > 0);
+    }
+
+    private peek(): Token {
+        return this.tokens[this.position] || { text: "", comments: [] };
+    }
+
+    private next(): Token {
+        if (this.position >= this.tokens.length) {
+            throw new Error("Unexpected end of types");
+        }
+        return this.tokens[this.position++];
+    }
+
+    private accept(text: string): boolean {
+        if (this.peek().text === text) {
+            this.position++;
+            return true;
+        }
+        return false;
+    }
+
+    private expect(text: string): void {
+        const token = this.next();
+        if (token.text !== text) {
+            throw new Error(`Expected '${text}' but found '${token.text}' in types`);
+        }
+    }
+}
+
+function describe(comments: string[]): string | undefined {
+    return comments.length ? comments.join(" ").replace(/\s+/g, " ").trim() : undefined;
+}
+
+function toSchema(type: TypeNode, declarations: Map<string, Declaration>): JsonSchema {
+    switch (type.kind) {
+        case "primitive":
+            return { type: type.name === "undefined" ? "null" : type.name };
+        case "literal":
+            return { const: type.value };
+        case "ref":
+            return declarations.has(type.name) ? { $ref: `#/$defs/${type.name}` } : {};
+        case "array":
+            return { type: "array", items: toSchema(type.element, declarations) };
+        case "union": {
+            const members = type.types.filter(member => !(member.kind === "primitive" && member.name === "undefined"));
+            if (members.every(member => member.kind === "literal")) {
+                return { enum: members.map(member => (member as { value: unknown }).value) };
+            }
+            const schemas = members.map(member => toSchema(member, declarations));
+            return schemas.length === 1 ? schemas[0] : { anyOf: schemas };
+        }
+        case "object":
+            return objectSchema(type.members, type.index, declarations);
+        case "any":
+            return {};
+    }
+}
+
+function objectSchema(members: Member[], index: TypeNode | undefined, declarations: Map<string, Declaration>): JsonSchema {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const member of members) {
+        const schema = toSchema(member.type, declarations);
+        properties[member.name] = member.description ? { description: member.description, ...schema } : schema;
+        if (!member.optional) {
+            required.push(member.name);
+        }
+    }
+    return {
+        type: "object",
+        ...(members.length > 0 && { properties }),
+        ...(required.length > 0 && { required }),
+        additionalProperties: index ? toSchema(index, declarations) : false
+    };
+}
+
+// Members of an interface including those inherited through extends
+function allMembers(declaration: Declaration, declarations: Map<string, Declaration>): Member[] {
+    const inherited = declaration.extends.flatMap(base => {
+        const parent = declarations.get(base);
+        return parent ? allMembers(parent, declarations) : [];
+    });
+    const own = declaration.type.kind === "object" ? declaration.type.members : [];
+    return [...inherited.filter(member => !own.some(o => o.name === member.name)), ...own];
+}
+
+// Builds a schema whose root is the first of roots, with every declaration
+// reachable from roots under $defs
+export function buildJsonSchema(typesSource: string, roots: string[]): JsonSchema {
+    const declarations = new Map(new TypeParser(tokenize(typesSource)).parse().map(d => [d.name, d]));
+    const defs: Record<string, JsonSchema> = {};
+
+    const visit = (name: string): void => {
+        const declaration = declarations.get(name);
+        if (!declaration || defs[name]) {
+            return;
+        }
+        const type = declaration.type;
+        const schema = type.kind === "object"
+            ? objectSchema(allMembers(declaration, declarations), type.index, declarations)
+            : toSchema(type, declarations);
+        defs[name] = declaration.description ? { description: declaration.description, ...schema } : schema;
+        for (const match of JSON.stringify(schema).matchAll(/"#\/\$defs\/(\w+)"/g)) {
+            visit(match[1]);
+        }
+    };
+    for (const root of roots) {
+        if (!declarations.has(root)) {
+            throw new Error(`Type '${root}' not found`);
+        }
+        visit(root);
+    }
+
+    return {
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        $id: "/schema.json",
+        title: roots[0],
+        $ref: `#/$defs/${roots[0]}`,
+        $defs: Object.fromEntries(Object.keys(defs).sort().map(name => [name, defs[name]]))
+    };
+}
+
+// Reads types.ts next to this module, locally or from the URL the API runs from
+export async function loadTypesSource(): Promise<string> {
+    const response = await fetch(new URL("./types.ts", import.meta.url));
+    if (!response.ok) {
+        throw new Error(`Cannot load types.ts: ${response.status}`);
+    }
+    return await response.text();
+}
+
+const ERROR_SCHEMA: JsonSchema = {
+    type: "object",
+    properties: {
+        error: { type: "string" },
+        validationErrors: {
+            type: "array",
+            items: {
+                type: "object",
+                properties: { field: { type: "string" }, message: { type: "string" } },
+                required: ["field", "message"]
+            }
+        }
+    },
+    required: ["error"]
+};
+
+export function buildOpenApiDocument(routes: Route[], schema: JsonSchema): JsonSchema {
+    const schemas = JSON.parse(JSON.stringify(schema.$defs).replaceAll("#/$defs/", "#/components/schemas/"));
+    const paths: Record<string, Record<string, unknown>> = {};
+
+    for (const route of routes) {
+        const parameters: JsonSchema[] = [];
+        // /sites/:domain/versions/:version(\d+) -> /sites/{domain}/versions/{version}
+        const path = route.path.replace(/:(\w+)(\(([^)]*)\))?/g, (_, name, _group, pattern) => {
+            parameters.push({
+                name,
+                in: "path",
+                required: true,
+                schema: pattern === "\\d+" ? { type: "integer" } : { type: "string" }
+            });
+            return `{${name}}`;
+        });
+        for (const [name, description] of Object.entries(route.query || {})) {
+            parameters.push({ name, in: "query", description, schema: { type: "string" } });
+        }
+
+        const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+        const contentType = route.contentType || "application/json";
+        const access = routeAccess(route);
+        paths[path] = paths[path] || {};
+        paths[path][route.method.toLowerCase()] = {
+            ...(route.summary && { summary: route.summary }),
+            ...(access !== "public" && {
+                description: `Requires the ${access} role${route.global ? " and a key not limited to domains" : ""}.`,
+                security: [{ bearerAuth: [] }, { apiKeyHeader: [] }]
+            }),
+            ...(parameters.length > 0 && { parameters }),
+            ...(route.body && {
+                requestBody: {
+                    content: {
+                        [route.method === "PATCH" ? "application/merge-patch+json" : "application/json"]: {
+                            schema: route.method === "PATCH" ? { type: "object" } : ref(route.body)
+                        }
+                    }
+                }
+            }),
+            responses: {
+                "2XX": {
+                    description: "Success",
+                    content: {
+                        [contentType]: {
+                            schema: route.response
+                                ? ref(route.response)
+                                : contentType === "application/json" ? { type: "object" } : { type: "string" }
+                        }
+                    }
+                },
+                default: {
+                    description: "Error",
+                    content: { "application/json": { schema: ref("ErrorResponse") } }
+                }
+            }
+        };
+    }
+
+    return {
+        openapi: "3.1.0",
+        info: { title: "Nginx Configuration API", version: "1.0.0" },
+        paths,
+        components: {
+            schemas: { ...schemas, ErrorResponse: ERROR_SCHEMA },
+            // Only enforced when the server has API keys
+            securitySchemes: {
+                bearerAuth: { type: "http", scheme: "bearer" },
+                apiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" }
+            }
+        }
+    };
+}
+
+// GET /schema.json and GET /openapi.json; routes are the other routes of the
+// API, which are documented together with these two
+export function schemaRoutes(routes: Route[], schema: JsonSchema): Route[] {
+    const own: Route[] = [
+        {
+            method: "GET",
+            path: "/schema.json",
+            summary: "JSON Schema of NginxConfig and the other request types",
+            access: "public",
+            handler: () => Promise.resolve(jsonResponse(schema))
+        },
+        {
+            method: "GET",
+            path: "/openapi.json",
+            summary: "OpenAPI document of the API",
+            access: "public",
+            handler: () => Promise.resolve(jsonResponse(document))
+        }
+    ];
+    const document = buildOpenApiDocument([...routes, ...own], schema);
+    return own;
+}
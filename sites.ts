@@ -0,0 +1,379 @@
+import { ExplainRequest, NginxConfig, Redirect } from "./types.ts";
+import { ValidationError, validateCertificatePaths, validateConfig, validationWarnings } from "./validator.ts";
+import { generateNginxConfig } from "./generator.ts";
+import { applyMergePatch } from "./merge-patch.ts";
+import { jsonResponse, Route, RouteParams } from "./http.ts";
+import { SiteStore } from "./store.ts";
+import { Deployer, deployFailedResponse } from "./deploy.ts";
+import { HistoryStore } from "./history.ts";
+import { unifiedDiff } from "./diff.ts";
+import { canAccessDomain, principal, siteForbidden } from "./auth.ts";
+import { hashPasswords, htpasswdFiles } from "./htpasswd.ts";
+import { parseRedirectCsv } from "./redirects.ts";
+import { siteConflicts } from "./workspace.ts";
+import { explainRequest } from "./routing.ts";
+import { lintConfig } from "./lint.ts";
+import { ExtraDirectivesPolicy } from "./directives.ts";
+
+// With a certificate directory (certificate renewal is on), the ssl paths of
+// saved sites must lie inside it
+export function siteRoutes(
+    store: SiteStore,
+    deployer: Deployer,
+    history: HistoryStore,
+    policy: ExtraDirectivesPolicy = "all",
+    certificateDir?: string
+): Route[] {
+    async function listSites(req: Request): Promise<Response> {
+        const sites = (await store.list()).filter(site => canAccessDomain(req, site.domain));
+        return jsonResponse({
+            sites: sites.map(site => ({
+                domain: site.domain,
+                serverName: site.serverName,
+                port: site.port
+            }))
+        });
+    }
+
+    async function getSite(_req: Request, params: RouteParams): Promise<Response> {
+        const site = await store.get(params.domain!);
+        if (!site) {
+            return notFound(params.domain!);
+        }
+        return jsonResponse(site);
+    }
+
+    async function getRenderedSite(_req: Request, params: RouteParams): Promise<Response> {
+        const site = await store.get(params.domain!);
+        if (!site) {
+            return notFound(params.domain!);
+        }
+        return new Response(generateNginxConfig(site), {
+            headers: { "Content-Type": "text/plain; charset=utf-8" }
+        });
+    }
+
+    async function putSite(req: Request, params: RouteParams): Promise<Response> {
+        const config: NginxConfig = await req.json();
+        if (!isObject(config)) {
+            return notAnObject();
+        }
+        config.domain = config.domain || params.domain!;
+        const existing = await store.get(params.domain!);
+        return await saveSite(req, config, params.domain!, existing ? 200 : 201);
+    }
+
+    async function patchSite(req: Request, params: RouteParams): Promise<Response> {
+        const existing = await store.get(params.domain!);
+        if (!existing) {
+            return notFound(params.domain!);
+        }
+        // A patch that is not an object replaces the whole site
+        const config = applyMergePatch(existing, await req.json()) as NginxConfig;
+        if (!isObject(config)) {
+            return notAnObject();
+        }
+        return await saveSite(req, config, params.domain!, 200);
+    }
+
+    async function deleteSite(_req: Request, params: RouteParams): Promise<Response> {
+        const site = await store.get(params.domain!);
+        if (!site) {
+            return notFound(params.domain!);
+        }
+
+        const deployment = await deployer.remove(`${params.domain}.conf`, Object.keys(htpasswdFiles(site)));
+        if (!deployment.success) {
+            return deployFailedResponse(deployment);
+        }
+
+        await store.delete(params.domain!);
+        return jsonResponse({ success: true, domain: params.domain });
+    }
+
+    async function validateSite(req: Request, params: RouteParams): Promise<Response> {
+        const body = await req.text();
+        const config: NginxConfig | null = body ? JSON.parse(body) : await store.get(params.domain!);
+        if (body && !isObject(config)) {
+            return notAnObject();
+        }
+        if (!config) {
+            return notFound(params.domain!);
+        }
+        config.domain = config.domain || params.domain!;
+
+        const errors = checkSite(config, params.domain!, policy, certificateDir);
+        return jsonResponse({
+            valid: errors.length === 0,
+            validationErrors: errors,
+            ...(errors.length === 0 && { warnings: validationWarnings(config), config: generateNginxConfig(config) })
+        });
+    }
+
+    // Lint findings of the config in the body, or of the stored site
+    async function lintSite(req: Request, params: RouteParams): Promise<Response> {
+        const body = await req.text();
+        const config: NginxConfig | null = body ? JSON.parse(body) : await store.get(params.domain!);
+        if (body && !isObject(config)) {
+            return notAnObject();
+        }
+        if (!config) {
+            return notFound(params.domain!);
+        }
+        config.domain = config.domain || params.domain!;
+
+        const errors = checkSite(config, params.domain!, policy);
+        if (errors.length > 0) {
+            return jsonResponse({
+                error: "Configuration validation failed",
+                validationErrors: errors
+            }, 400);
+        }
+        return jsonResponse({ findings: lintConfig(config) });
+    }
+
+    // Follows a request through the stored site, or the config in the body,
+    // to the server and location that handle it
+    async function explainSite(req: Request, params: RouteParams): Promise<Response> {
+        const request: ExplainRequest = await req.json();
+        if (!isObject(request) || (request.config !== undefined && !isObject(request.config))) {
+            return notAnObject();
+        }
+        if (typeof request.uri !== "string" || !request.uri.startsWith("/")) {
+            return jsonResponse({ error: "uri must be a path starting with /" }, 400);
+        }
+        const config = request.config || await store.get(params.domain!);
+        if (!config) {
+            return notFound(params.domain!);
+        }
+        config.domain = config.domain || params.domain!;
+
+        const errors = checkSite(config, params.domain!, policy);
+        if (errors.length > 0) {
+            return jsonResponse({
+                error: "Configuration validation failed",
+                validationErrors: errors
+            }, 400);
+        }
+        return jsonResponse(explainRequest(config, request));
+    }
+
+    // Adds the redirects of a CSV file to a site; in append mode a row
+    // replaces an existing redirect from the same source
+    async function importRedirects(req: Request, params: RouteParams): Promise<Response> {
+        const existing = await store.get(params.domain!);
+        if (!existing) {
+            return notFound(params.domain!);
+        }
+        const mode = new URL(req.url).searchParams.get("mode") || "append";
+        if (mode !== "append" && mode !== "replace") {
+            return jsonResponse({ error: "Mode must be 'append' or 'replace'" }, 400);
+        }
+
+        const { redirects, errors } = parseRedirectCsv(await req.text());
+        if (errors.length > 0) {
+            return jsonResponse({ error: "Invalid redirect CSV", validationErrors: errors }, 400);
+        }
+        const key = (redirect: Redirect) => `${redirect.match || "exact"} ${redirect.source}`;
+        const sources = new Set(redirects.map(key));
+        const kept = mode === "append" ? (existing.redirects || []).filter(redirect => !sources.has(key(redirect))) : [];
+        const config = { ...existing, redirects: [...kept, ...redirects] };
+        return await saveSite(req, config, params.domain!, 200, `Import ${redirects.length} redirects (${mode})`);
+    }
+
+    async function listVersions(_req: Request, params: RouteParams): Promise<Response> {
+        const versions = await history.list(params.domain!);
+        return jsonResponse({
+            domain: params.domain,
+            versions: versions.map(({ version, timestamp, author, message }) => ({ version, timestamp, author, message }))
+        });
+    }
+
+    async function getVersion(_req: Request, params: RouteParams): Promise<Response> {
+        const version = await history.get(params.domain!, Number(params.version));
+        if (!version) {
+            return versionNotFound(params.domain!, params.version!);
+        }
+        return jsonResponse(version);
+    }
+
+    async function diffVersions(req: Request, params: RouteParams): Promise<Response> {
+        const url = new URL(req.url);
+        const versions = await history.list(params.domain!);
+        if (versions.length === 0) {
+            return jsonResponse({ error: `Site '${params.domain}' has no versions` }, 404);
+        }
+
+        const to = url.searchParams.has("to") ? Number(url.searchParams.get("to")) : versions[versions.length - 1].version;
+        const from = url.searchParams.has("from") ? Number(url.searchParams.get("from")) : to - 1;
+        const fromVersion = versions.find(v => v.version === from);
+        const toVersion = versions.find(v => v.version === to);
+        if (toVersion && !fromVersion && !url.searchParams.has("from")) {
+            return jsonResponse({ error: `Version ${to} of site '${params.domain}' has no previous version to compare with` }, 404);
+        }
+        if (!fromVersion || !toVersion) {
+            return versionNotFound(params.domain!, String(fromVersion ? to : from));
+        }
+
+        return jsonResponse({
+            domain: params.domain,
+            from,
+            to,
+            config: unifiedDiff(
+                JSON.stringify(fromVersion.config, null, 2) + "\n",
+                JSON.stringify(toVersion.config, null, 2) + "\n",
+                `${params.domain}.json@${from}`,
+                `${params.domain}.json@${to}`
+            ),
+            rendered: unifiedDiff(
+                fromVersion.rendered,
+                toVersion.rendered,
+                `${params.domain}.conf@${from}`,
+                `${params.domain}.conf@${to}`
+            )
+        });
+    }
+
+    async function rollbackSite(req: Request, params: RouteParams): Promise<Response> {
+        const version = await history.get(params.domain!, Number(params.version));
+        if (!version) {
+            return versionNotFound(params.domain!, params.version!);
+        }
+        const existing = await store.get(params.domain!);
+        return await saveSite(req, version.config, params.domain!, existing ? 200 : 201, `Rollback to version ${version.version}`);
+    }
+
+    async function saveSite(req: Request, config: NginxConfig, domain: string, status: number, message?: string): Promise<Response> {
+        const errors = checkSite(config, domain, policy, certificateDir);
+        if (!errors.some(error => error.field.startsWith("listeners"))) {
+            const others = (await store.list()).filter(site => site.domain !== domain);
+            for (const conflict of siteConflicts([...others, config])) {
+                if (conflict.site === others.length) {
+                    errors.push({ field: conflict.field, message: conflict.message });
+                }
+            }
+        }
+        if (errors.length > 0) {
+            return jsonResponse({
+                error: "Configuration validation failed",
+                validationErrors: errors
+            }, 400);
+        }
+        const forbidden = siteForbidden(req, config, certificateDir);
+        if (forbidden) {
+            return forbidden;
+        }
+
+        hashPasswords(config);
+        const nginxConfig = generateNginxConfig(config);
+        const deployment = await deployer.deploy(`${config.domain}.conf`, nginxConfig, htpasswdFiles(config));
+        if (!deployment.success) {
+            return deployFailedResponse(deployment);
+        }
+
+        await store.put(config);
+        const version = await history.append(domain, {
+            author: principal(req)?.name || req.headers.get("X-Author") || "anonymous",
+            message,
+            config,
+            rendered: nginxConfig
+        });
+
+        const warnings = validationWarnings(config);
+        return jsonResponse({
+            success: true,
+            site: config,
+            config: nginxConfig,
+            fileName: deployment.path,
+            version: version.version,
+            ...(warnings.length > 0 && { warnings })
+        }, status);
+    }
+
+    return [
+        { method: "GET", path: "/sites", summary: "List stored sites", handler: listSites },
+        { method: "GET", path: "/sites/:domain", summary: "Get a stored site", response: "NginxConfig", handler: getSite },
+        { method: "PUT", path: "/sites/:domain", summary: "Create or replace a site", body: "NginxConfig", handler: putSite },
+        { method: "PATCH", path: "/sites/:domain", summary: "Apply a JSON Merge Patch to a site", body: "NginxConfig", handler: patchSite },
+        { method: "DELETE", path: "/sites/:domain", summary: "Delete a site", handler: deleteSite },
+        {
+            method: "GET",
+            path: "/sites/:domain/rendered",
+            summary: "Generated nginx configuration of a site",
+            contentType: "text/plain",
+            handler: getRenderedSite
+        },
+        {
+            method: "POST",
+            path: "/sites/:domain/validate",
+            summary: "Validate and render a config, or the stored one, without saving",
+            body: "NginxConfig",
+            handler: validateSite
+        },
+        {
+            method: "POST",
+            path: "/sites/:domain/lint",
+            summary: "Check a config, or the stored one, for common nginx pitfalls",
+            body: "NginxConfig",
+            access: "read",
+            handler: lintSite
+        },
+        {
+            method: "POST",
+            path: "/sites/:domain/explain",
+            summary: "Show which server and location handle a request, and the rewrites, try_files and handler that apply",
+            body: "ExplainRequest",
+            access: "read",
+            handler: explainSite
+        },
+        {
+            method: "POST",
+            path: "/sites/:domain/redirects",
+            summary: "Import redirects from a CSV of source,target[,status[,match]] rows and deploy the site",
+            query: { mode: "append (default; rows replace redirects from the same source) or replace" },
+            handler: importRedirects
+        },
+        { method: "GET", path: "/sites/:domain/versions", summary: "List the versions of a site", handler: listVersions },
+        { method: "GET", path: "/sites/:domain/versions/:version(\\d+)", summary: "Get a version of a site", handler: getVersion },
+        {
+            method: "POST",
+            path: "/sites/:domain/versions/:version(\\d+)/rollback",
+            summary: "Restore and deploy a version of a site",
+            handler: rollbackSite
+        },
+        {
+            method: "GET",
+            path: "/sites/:domain/diff",
+            summary: "Unified diff between two versions of a site",
+            query: { from: "Older version (default: the one before to)", to: "Newer version (default: the latest)" },
+            handler: diffVersions
+        }
+    ];
+}
+
+function checkSite(config: NginxConfig, domain: string, policy: ExtraDirectivesPolicy, certificateDir?: string): ValidationError[] {
+    const errors = validateConfig(config, {}, policy);
+    if (certificateDir) {
+        errors.push(...validateCertificatePaths(config, certificateDir));
+    }
+    if (config.domain && config.domain !== domain) {
+        errors.unshift({ field: "domain", message: `Domain '${config.domain}' does not match '${domain}' in the URL` });
+    }
+    return errors;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function notAnObject(): Response {
+    return jsonResponse({ error: "Request body must be a JSON object" }, 400);
+}
+
+function notFound(domain: string): Response {
+    return jsonResponse({ error: `Site '${domain}' not found` }, 404);
+}
+
+function versionNotFound(domain: string, version: string): Response {
+    return jsonResponse({ error: `Version ${version} of site '${domain}' not found` }, 404);
+}
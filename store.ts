@@ -0,0 +1,89 @@
+import { NginxConfig } from "./types.ts";
+
+export interface SiteStore {
+    list(): Promise<NginxConfig[]>;
+    get(domain: string): Promise<NginxConfig | null>;
+    put(config: NginxConfig): Promise<void>;
+    delete(domain: string): Promise<boolean>;
+}
+
+export class MemorySiteStore implements SiteStore {
+    private sites = new Map<string, NginxConfig>();
+
+    list(): Promise<NginxConfig[]> {
+        return Promise.resolve([...this.sites.values()].map(site => structuredClone(site)));
+    }
+
+    get(domain: string): Promise<NginxConfig | null> {
+        const site = this.sites.get(domain);
+        return Promise.resolve(site ? structuredClone(site) : null);
+    }
+
+    put(config: NginxConfig): Promise<void> {
+        this.sites.set(config.domain, structuredClone(config));
+        return Promise.resolve();
+    }
+
+    delete(domain: string): Promise<boolean> {
+        return Promise.resolve(this.sites.delete(domain));
+    }
+}
+
+// Stores each site as <dir>/<domain>.json. Writes go through a temporary file
+// and a rename so a crash never leaves a half-written site behind.
+export class FileSiteStore implements SiteStore {
+    constructor(private dir: string) {}
+
+    private path(domain: string): string {
+        if (!/^[a-zA-Z0-9][a-zA-Z0-9-_.]*$/.test(domain)) {
+            throw new Error(`Invalid domain '${domain}'`);
+        }
+        return `${this.dir}/${domain}.json`;
+    }
+
+    async list(): Promise<NginxConfig[]> {
+        const sites: NginxConfig[] = [];
+        try {
+            for await (const entry of Deno.readDir(this.dir)) {
+                if (entry.isFile && entry.name.endsWith(".json")) {
+                    sites.push(JSON.parse(await Deno.readTextFile(`${this.dir}/${entry.name}`)));
+                }
+            }
+        } catch (error) {
+            if (!(error instanceof Deno.errors.NotFound)) {
+                throw error;
+            }
+        }
+        return sites.sort((a, b) => a.domain.localeCompare(b.domain));
+    }
+
+    async get(domain: string): Promise<NginxConfig | null> {
+        try {
+            return JSON.parse(await Deno.readTextFile(this.path(domain)));
+        } catch (error) {
+            if (error instanceof Deno.errors.NotFound) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async put(config: NginxConfig): Promise<void> {
+        const path = this.path(config.domain);
+        await Deno.mkdir(this.dir, { recursive: true });
+        await Deno.writeTextFile(`${path}.tmp`, JSON.stringify(config, null, 2));
+        await Deno.rename(`${path}.tmp`, path);
+    }
+
+    async delete(domain: string): Promise<boolean> {
+        try {
+            await Deno.remove(this.path(domain));
+            return true;
+        } catch (error) {
+            if (error instanceof Deno.errors.NotFound) {
+                return false;
+            }
+            throw error;
+        }
+    }
+}
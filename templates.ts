@@ -1,196 +1,314 @@
-import { NginxConfig } from "./types.ts";
-
-export const templates: { [key: string]: (params: any) => NginxConfig } = {
-  static: (params: {
-    domain: string;
-    rootPath: string;
-    sslEnabled?: boolean;
-  }): NginxConfig => ({
-    domain: params.domain,
-    serverName: `${params.domain} www.${params.domain}`,
-    port: params.sslEnabled ? 443 : 80,
-    ...(params.sslEnabled && {
-      ssl: {
-        certificate: `/etc/letsencrypt/live/${params.domain}/fullchain.pem`,
-        certificateKey: `/etc/letsencrypt/live/${params.domain}/privkey.pem`,
-        forceRedirect: true
-      }
-    }),
-    gzip: true,
-    locations: [
-      {
-        path: "/",
-        root: params.rootPath,
-        index: "index.html",
-        try_files: "$uri $uri/ =404"
-      },
-      {
-        path: "/assets",
-        root: params.rootPath,
-        extraDirectives: [
-          "expires 30d",
-          "add_header Cache-Control public"
-        ]
-      }
-    ]
-  }),
-
-  spa: (params: {
-    domain: string;
-    rootPath: string;
-    apiUrl?: string;
-    sslEnabled?: boolean;
-  }): NginxConfig => ({
-    domain: params.domain,
-    serverName: `${params.domain} www.${params.domain}`,
-    port: params.sslEnabled ? 443 : 80,
-    ...(params.sslEnabled && {
-      ssl: {
-        certificate: `/etc/letsencrypt/live/${params.domain}/fullchain.pem`,
-        certificateKey: `/etc/letsencrypt/live/${params.domain}/privkey.pem`,
-        forceRedirect: true
-      }
-    }),
-    gzip: true,
-    security: {
-      xFrameOptions: "DENY",
-      xContentTypeOptions: true,
-      xXSSProtection: true
-    },
-    locations: [
-      {
-        path: "/",
-        root: params.rootPath,
-        index: "index.html",
-        try_files: "$uri $uri/ /index.html"
-      },
-      ...(params.apiUrl ? [{
-        path: "/api",
-        proxyPass: params.apiUrl,
-        cors: {
-          enabled: true,
-          origins: [`https://${params.domain}`],
-          methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-          headers: ["Authorization", "Content-Type"],
-          credentials: true
-        }
-      }] : []),
-      {
-        path: "/assets",
-        root: params.rootPath,
-        extraDirectives: [
-          "expires 30d",
-          "add_header Cache-Control public"
-        ]
+import { JsonTemplate, NginxConfig, TemplateDefinition, TemplateParam, TemplateParamType } from "./types.ts";
+import { ValidationError } from "./validator.ts";
+import { jsonResponse, Route, RouteParams } from "./http.ts";
+import staticSite from "./templates/static.ts";
+import spa from "./templates/spa.ts";
+import wordpress from "./templates/wordpress.ts";
+import microservices from "./templates/microservices.ts";
+
+export type TemplateRegistry = Record<string, TemplateDefinition>;
+
+// Imported statically so they are available when the API runs from a URL
+export const builtinTemplates: TemplateRegistry = { static: staticSite, spa, wordpress, microservices };
+
+const PARAM_TYPES: TemplateParamType[] = ["string", "number", "boolean", "array", "object"];
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Returned by substitute() for values that are left out of a JSON template
+const OMIT = Symbol("omit");
+
+// Loads the templates in dir on top of the built-in ones; a file's name
+// without its extension becomes the template name.
+//
+// *.ts and *.js files are modules with a TemplateDefinition as their default
+// export. *.json files are declarative: {"description", "params", "config"},
+// where config is an NginxConfig in which "{{name}}" is replaced by the
+// parameter's value (keeping its type when it is the whole string) and an
+// object with "$if": "name" (or "!name") is only kept when the parameter is
+// truthy (or falsy).
+export async function loadTemplates(dir?: string): Promise<TemplateRegistry> {
+  const registry: TemplateRegistry = { ...builtinTemplates };
+  if (!dir) {
+    return registry;
+  }
+
+  const files: string[] = [];
+  try {
+    for await (const entry of Deno.readDir(dir)) {
+      if (entry.isFile && /^[\w-]+\.(json|ts|js)$/.test(entry.name)) {
+        files.push(entry.name);
       }
-    ]
-  }),
-
-  wordpress: (params: {
-    domain: string;
-    rootPath: string;
-    phpVersion?: string;
-    sslEnabled?: boolean;
-  }): NginxConfig => ({
-    domain: params.domain,
-    serverName: `${params.domain} www.${params.domain}`,
-    port: params.sslEnabled ? 443 : 80,
-    ...(params.sslEnabled && {
-      ssl: {
-        certificate: `/etc/letsencrypt/live/${params.domain}/fullchain.pem`,
-        certificateKey: `/etc/letsencrypt/live/${params.domain}/privkey.pem`,
-        forceRedirect: true
+    }
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return registry;
+    }
+    throw error;
+  }
+
+  for (const file of files.sort()) {
+    const name = file.replace(/\.\w+$/, "");
+    const path = `${dir}/${file}`;
+    try {
+      const template = file.endsWith(".json")
+        ? jsonTemplate(JSON.parse(await Deno.readTextFile(path)))
+        : (await import(new URL(path, `file://${Deno.cwd()}/`).href)).default;
+      checkDefinition(template);
+      registry[name] = template;
+    } catch (error) {
+      throw new Error(`Invalid template ${path}: ${error.message}`);
+    }
+  }
+  return registry;
+}
+
+function checkDefinition(template: TemplateDefinition): void {
+  if (typeof template?.description !== "string" || typeof template.render !== "function") {
+    throw new Error("a template needs a description and a render function or config");
+  }
+  if (typeof template.params !== "object" || template.params === null) {
+    throw new Error("params must be an object");
+  }
+  const checkParam = (param: TemplateParam, field: string): void => {
+    if (!PARAM_TYPES.includes(param?.type)) {
+      throw new Error(`parameter ${field} must have a type of ${PARAM_TYPES.join(", ")}`);
+    }
+    if (param.items) {
+      checkParam(param.items, `${field}[]`);
+    }
+    for (const [name, property] of Object.entries(param.properties || {})) {
+      checkParam(property, `${field}.${name}`);
+    }
+  };
+  for (const [name, param] of Object.entries(template.params)) {
+    checkParam(param, name);
+  }
+}
+
+function jsonTemplate(file: JsonTemplate): TemplateDefinition {
+  if (typeof file.config !== "object" || file.config === null) {
+    throw new Error("config must be an object");
+  }
+  const unknown = placeholders(file.config).filter(name => !Object.hasOwn(file.params || {}, name));
+  if (unknown.length > 0) {
+    throw new Error(`config uses undeclared parameters: ${[...new Set(unknown)].join(", ")}`);
+  }
+  return {
+    description: file.description,
+    params: file.params,
+    render: params => substitute(file.config, params) as NginxConfig
+  };
+}
+
+function placeholders(value: unknown): string[] {
+  if (typeof value === "string") {
+    return [...value.matchAll(PLACEHOLDER)].map(match => match[1]);
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.entries(value).flatMap(([key, item]) =>
+      key === "$if" && typeof item === "string" ? [item.replace(/^!/, "")] : placeholders(item)
+    );
+  }
+  return [];
+}
+
+function substitute(value: unknown, params: Record<string, any>): unknown {
+  if (typeof value === "string") {
+    const whole = value.match(/^\{\{\s*(\w+)\s*\}\}$/);
+    if (whole) {
+      return params[whole[1]] === undefined ? OMIT : params[whole[1]];
+    }
+    return value.replace(PLACEHOLDER, (_, name) => String(params[name] ?? ""));
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => substitute(item, params)).filter(item => item !== OMIT);
+  }
+  if (typeof value === "object" && value !== null) {
+    const { $if: condition, ...fields } = value as Record<string, unknown>;
+    if (typeof condition === "string") {
+      const negated = condition.startsWith("!");
+      if (Boolean(params[condition.replace(/^!/, "")]) === negated) {
+        return OMIT;
       }
-    }),
-    gzip: true,
-    clientMaxBodySize: "64M",
-    locations: [
-      {
-        path: "/",
-        root: params.rootPath,
-        index: "index.php",
-        try_files: "$uri $uri/ /index.php?$args",
-        php: {
-          enabled: true,
-          socketPath: `/var/run/php/php${params.phpVersion || "8.1"}-fpm.sock`,
-          extraParams: {
-            "SCRIPT_FILENAME": "$document_root$fastcgi_script_name",
-            "PATH_INFO": "$fastcgi_path_info"
-          }
-        }
-      },
-      {
-        path: "~ \\.php$",
-        php: {
-          enabled: true,
-          socketPath: `/var/run/php/php${params.phpVersion || "8.1"}-fpm.sock`,
-          extraParams: {
-            "SCRIPT_FILENAME": "$document_root$fastcgi_script_name",
-            "PATH_INFO": "$fastcgi_path_info"
-          }
-        }
-      },
-      {
-        path: "/wp-content",
-        root: params.rootPath,
-        extraDirectives: [
-          "expires 30d",
-          "add_header Cache-Control public"
-        ]
+    }
+    const result: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(fields)) {
+      const substituted = substitute(field, params);
+      if (substituted !== OMIT) {
+        result[key] = substituted;
       }
-    ]
-  }),
-
-  microservices: (params: {
-    domain: string;
-    services: {
-      name: string;
-      port: number;
-      path: string;
-      methods?: string[];
-      corsEnabled?: boolean;
-    }[];
-    sslEnabled?: boolean;
-  }): NginxConfig => ({
-    domain: params.domain,
-    serverName: params.domain,
-    port: params.sslEnabled ? 443 : 80,
-    ...(params.sslEnabled && {
-      ssl: {
-        certificate: `/etc/letsencrypt/live/${params.domain}/fullchain.pem`,
-        certificateKey: `/etc/letsencrypt/live/${params.domain}/privkey.pem`,
-        forceRedirect: true,
-        protocols: ["TLSv1.2", "TLSv1.3"]
+    }
+    return result;
+  }
+  return value;
+}
+
+function typeOf(value: unknown): string {
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  return value === null ? "null" : typeof value;
+}
+
+function checkValue(param: TemplateParam, value: unknown, field: string, errors: ValidationError[]): unknown {
+  if (value === undefined) {
+    if (param.required) {
+      errors.push({ field, message: "Missing required parameter" });
+    }
+    return param.default;
+  }
+  if (typeOf(value) !== param.type) {
+    errors.push({ field, message: `Expected ${param.type}, got ${typeOf(value)}` });
+    return value;
+  }
+  if (param.enum && !param.enum.includes(value as string | number)) {
+    errors.push({ field, message: `Must be one of: ${param.enum.join(", ")}` });
+  }
+  if (param.type === "array" && param.items) {
+    return (value as unknown[]).map((item, i) => checkValue(param.items!, item, `${field}[${i}]`, errors));
+  }
+  if (param.type === "object" && param.properties) {
+    return checkObject(param.properties, value as Record<string, unknown>, field, errors);
+  }
+  return value;
+}
+
+function checkObject(
+  schema: Record<string, TemplateParam>,
+  value: Record<string, unknown>,
+  field: string,
+  errors: ValidationError[]
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const name of Object.keys(value)) {
+    if (!Object.hasOwn(schema, name)) {
+      errors.push({ field: `${field}.${name}`, message: "Unknown parameter" });
+    }
+  }
+  for (const [name, param] of Object.entries(schema)) {
+    const checked = checkValue(param, value[name], `${field}.${name}`, errors);
+    if (checked !== undefined) {
+      result[name] = checked;
+    }
+  }
+  return result;
+}
+
+// Checks params against the template's schema and fills in defaults. Fields
+// of the errors are prefixed with templateParams, as in the request body.
+export function validateTemplateParams(
+  template: TemplateDefinition,
+  params: unknown
+): { params: Record<string, any>; errors: ValidationError[] } {
+  if (params !== undefined && typeOf(params) !== "object") {
+    return { params: {}, errors: [{ field: "templateParams", message: `Expected object, got ${typeOf(params)}` }] };
+  }
+  const errors: ValidationError[] = [];
+  const checked = checkObject(template.params, (params || {}) as Record<string, unknown>, "templateParams", errors);
+  return { params: checked, errors };
+}
+
+// One line per parameter, e.g. "Domain name (required)"
+export function summarizeParams(template: TemplateDefinition): Record<string, string> {
+  return Object.fromEntries(Object.entries(template.params).map(([name, param]) => {
+    const usage = param.required
+      ? "required"
+      : param.default !== undefined ? `optional, default: ${typeof param.default === "object" ? JSON.stringify(param.default) : param.default}` : "optional";
+    return [name, `${param.description} (${usage})`];
+  }));
+}
+
+// Read routes for everyone and, for admins, routes that save and delete JSON
+// templates in dir. Changes apply to the registry right away.
+export function templateRoutes(templates: TemplateRegistry, dir: string): Route[] {
+  // The built-in modules are part of the source tree, which the API does not
+  // write to or delete from
+  const builtinDir = new URL(dir.replace(/\/*$/, "/"), `file://${Deno.cwd()}/`).href === new URL("./templates/", import.meta.url).href;
+  const readOnly = () => jsonResponse({ error: `${dir} holds the built-in templates; set TEMPLATES_DIR to a directory of its own` }, 409);
+
+  function listTemplates(): Promise<Response> {
+    return Promise.resolve(jsonResponse({
+      templates: Object.entries(templates).map(([name, template]) => ({ name, description: template.description }))
+    }));
+  }
+
+  function getTemplate(_req: Request, params: RouteParams): Promise<Response> {
+    const template = Object.hasOwn(templates, params.name!) ? templates[params.name!] : undefined;
+    if (!template) {
+      return Promise.resolve(jsonResponse({
+        error: `Template '${params.name}' not found`,
+        availableTemplates: Object.keys(templates)
+      }, 404));
+    }
+    return Promise.resolve(jsonResponse({
+      name: params.name,
+      description: template.description,
+      params: template.params
+    }));
+  }
+
+  async function putTemplate(req: Request, params: RouteParams): Promise<Response> {
+    const name = params.name!;
+    if (builtinDir) {
+      return readOnly();
+    }
+    if (!/^[\w-]+$/.test(name)) {
+      return jsonResponse({ error: "Template names may only contain letters, digits, '_' and '-'" }, 400);
+    }
+    const file: JsonTemplate = await req.json();
+    let template: TemplateDefinition;
+    try {
+      template = jsonTemplate(file);
+      checkDefinition(template);
+    } catch (error) {
+      return jsonResponse({ error: `Invalid template: ${error.message}` }, 400);
+    }
+
+    const existed = Object.hasOwn(templates, name);
+    await Deno.mkdir(dir, { recursive: true });
+    await Deno.writeTextFile(`${dir}/${name}.json.tmp`, JSON.stringify(file, null, 2));
+    await Deno.rename(`${dir}/${name}.json.tmp`, `${dir}/${name}.json`);
+    templates[name] = template;
+    return jsonResponse({ success: true, name }, existed ? 200 : 201);
+  }
+
+  async function deleteTemplate(_req: Request, params: RouteParams): Promise<Response> {
+    const name = params.name!;
+    if (!Object.hasOwn(templates, name)) {
+      return jsonResponse({ error: `Template '${name}' not found` }, 404);
+    }
+    if (builtinDir) {
+      return readOnly();
+    }
+    try {
+      await Deno.remove(`${dir}/${name}.json`);
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        throw error;
       }
-    }),
-    security: {
-      xFrameOptions: "DENY",
-      xContentTypeOptions: true,
-      xXSSProtection: true,
-      referrerPolicy: "strict-origin-when-cross-origin"
+      return jsonResponse({ error: `Only JSON templates in ${dir} can be deleted` }, 409);
+    }
+    // A JSON file may have replaced a built-in template
+    if (Object.hasOwn(builtinTemplates, name)) {
+      templates[name] = builtinTemplates[name];
+    } else {
+      delete templates[name];
+    }
+    return jsonResponse({ success: true, name });
+  }
+
+  return [
+    { method: "GET", path: "/templates", summary: "List templates", handler: listTemplates },
+    { method: "GET", path: "/templates/:name", summary: "Parameter schema of a template", handler: getTemplate },
+    {
+      method: "PUT",
+      path: "/templates/:name",
+      summary: "Create or replace a JSON template",
+      body: "JsonTemplate",
+      access: "admin",
+      global: true,
+      handler: putTemplate
     },
-    gzip: true,
-    upstreams: Object.fromEntries(
-      params.services.map(svc => [
-        svc.name,
-        [{ address: `localhost:${svc.port}` }]
-      ])
-    ),
-    locations: params.services.map(svc => ({
-      path: svc.path,
-      proxyPass: `http://${svc.name}`,
-      ...(svc.methods && {
-        extraDirectives: [`limit_except ${svc.methods.join(" ")} { deny all; }`]
-      }),
-      ...(svc.corsEnabled && {
-        cors: {
-          enabled: true,
-          origins: [`https://${params.domain}`],
-          methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-          headers: ["Authorization", "Content-Type"],
-          credentials: true
-        }
-      })
-    }))
-  })
-};
\ No newline at end of file
+    { method: "DELETE", path: "/templates/:name", summary: "Delete a JSON template", access: "admin", global: true, handler: deleteTemplate }
+  ];
+}
@@ -0,0 +1,85 @@
+import { NginxConfig, TemplateDefinition } from "../types.ts";
+import { args } from "../directives.ts";
+
+// Methods limit_except accepts
+const HTTP_METHODS = ["GET", "HEAD", "POST", "PUT", "DELETE", "MKCOL", "COPY", "MOVE", "OPTIONS", "PROPFIND", "PROPPATCH", "LOCK", "UNLOCK", "PATCH"];
+
+interface Service {
+  name: string;
+  port: number;
+  path: string;
+  methods?: string[];
+  corsEnabled?: boolean;
+}
+
+const template: TemplateDefinition = {
+  description: "Microservices configuration",
+  params: {
+    domain: { type: "string", required: true, description: "Domain name" },
+    services: {
+      type: "array",
+      required: true,
+      description: "Services to proxy, each getting an upstream on localhost",
+      items: {
+        type: "object",
+        description: "Service configuration",
+        properties: {
+          name: { type: "string", required: true, description: "Upstream name" },
+          port: { type: "number", required: true, description: "Port the service listens on" },
+          path: { type: "string", required: true, description: "Location path routed to the service" },
+          methods: {
+            type: "array",
+            description: "Allowed HTTP methods, all when unset",
+            items: { type: "string", enum: HTTP_METHODS, description: "HTTP method" }
+          },
+          corsEnabled: { type: "boolean", default: false, description: "Allow cross-origin requests from the domain" }
+        }
+      }
+    },
+    sslEnabled: { type: "boolean", default: false, description: "Enable SSL configuration" }
+  },
+  render: (params): NginxConfig => ({
+    domain: params.domain,
+    serverName: params.domain,
+    port: params.sslEnabled ? 443 : 80,
+    ...(params.sslEnabled && {
+      ssl: {
+        certificate: `/etc/letsencrypt/live/${params.domain}/fullchain.pem`,
+        certificateKey: `/etc/letsencrypt/live/${params.domain}/privkey.pem`,
+        forceRedirect: true,
+        protocols: ["TLSv1.2", "TLSv1.3"]
+      }
+    }),
+    security: {
+      xFrameOptions: "DENY",
+      xContentTypeOptions: true,
+      xXSSProtection: true,
+      referrerPolicy: "strict-origin-when-cross-origin"
+    },
+    gzip: true,
+    upstreams: Object.fromEntries(
+      params.services.map((svc: Service) => [
+        svc.name,
+        { servers: [{ address: `localhost:${svc.port}` }] }
+      ])
+    ),
+    locations: params.services.map((svc: Service) => ({
+      path: svc.path,
+      proxyPass: `http://${svc.name}`,
+      ...(svc.methods && {
+        extraDirectives: [`limit_except ${args(svc.methods)} { deny all; }`]
+      }),
+      ...(svc.corsEnabled && {
+        cors: {
+          enabled: true,
+          origins: [`https://${params.domain}`],
+          methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
+          headers: ["Authorization", "Content-Type"],
+          credentials: true
+        }
+      })
+    }))
+  })
+};
+
+export default template;
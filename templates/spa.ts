@@ -0,0 +1,68 @@
+import { NginxConfig, TemplateDefinition } from "../types.ts";
+
+// add_header in a location drops the server's headers, so locations that add
+// their own repeat the ones from `security` below
+const securityHeaders = [
+  "add_header X-Frame-Options DENY",
+  "add_header X-Content-Type-Options nosniff",
+  'add_header X-XSS-Protection "1; mode=block"'
+];
+
+const template: TemplateDefinition = {
+  description: "Single Page Application configuration",
+  params: {
+    domain: { type: "string", required: true, description: "Domain name" },
+    rootPath: { type: "string", required: true, description: "Root path for SPA files" },
+    apiUrl: { type: "string", description: "Backend API URL, proxied at /api" },
+    sslEnabled: { type: "boolean", default: false, description: "Enable SSL configuration" }
+  },
+  render: (params): NginxConfig => ({
+    domain: params.domain,
+    serverName: `${params.domain} www.${params.domain}`,
+    port: params.sslEnabled ? 443 : 80,
+    ...(params.sslEnabled && {
+      ssl: {
+        certificate: `/etc/letsencrypt/live/${params.domain}/fullchain.pem`,
+        certificateKey: `/etc/letsencrypt/live/${params.domain}/privkey.pem`,
+        forceRedirect: true
+      }
+    }),
+    gzip: true,
+    security: {
+      xFrameOptions: "DENY",
+      xContentTypeOptions: true,
+      xXSSProtection: true
+    },
+    locations: [
+      {
+        path: "/",
+        root: params.rootPath,
+        index: "index.html",
+        try_files: "$uri $uri/ /index.html"
+      },
+      ...(params.apiUrl ? [{
+        path: "/api",
+        proxyPass: params.apiUrl,
+        cors: {
+          enabled: true,
+          origins: [`https://${params.domain}`],
+          methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
+          headers: ["Authorization", "Content-Type"],
+          credentials: true
+        },
+        extraDirectives: securityHeaders
+      }] : []),
+      {
+        path: "/assets",
+        root: params.rootPath,
+        extraDirectives: [
+          "expires 30d",
+          "add_header Cache-Control public",
+          ...securityHeaders
+        ]
+      }
+    ]
+  })
+};
+
+export default template;
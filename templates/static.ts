@@ -0,0 +1,41 @@
+import { NginxConfig, TemplateDefinition } from "../types.ts";
+
+const template: TemplateDefinition = {
+  description: "Basic static website configuration",
+  params: {
+    domain: { type: "string", required: true, description: "Domain name" },
+    rootPath: { type: "string", required: true, description: "Root path for static files" },
+    sslEnabled: { type: "boolean", default: false, description: "Enable SSL configuration" }
+  },
+  render: (params): NginxConfig => ({
+    domain: params.domain,
+    serverName: `${params.domain} www.${params.domain}`,
+    port: params.sslEnabled ? 443 : 80,
+    ...(params.sslEnabled && {
+      ssl: {
+        certificate: `/etc/letsencrypt/live/${params.domain}/fullchain.pem`,
+        certificateKey: `/etc/letsencrypt/live/${params.domain}/privkey.pem`,
+        forceRedirect: true
+      }
+    }),
+    gzip: true,
+    locations: [
+      {
+        path: "/",
+        root: params.rootPath,
+        index: "index.html",
+        try_files: "$uri $uri/ =404"
+      },
+      {
+        path: "/assets",
+        root: params.rootPath,
+        extraDirectives: [
+          "expires 30d",
+          "add_header Cache-Control public"
+        ]
+      }
+    ]
+  })
+};
+
+export default template;
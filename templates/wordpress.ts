@@ -0,0 +1,56 @@
+import { NginxConfig, TemplateDefinition } from "../types.ts";
+
+const template: TemplateDefinition = {
+  description: "WordPress configuration",
+  params: {
+    domain: { type: "string", required: true, description: "Domain name" },
+    rootPath: { type: "string", required: true, description: "Root path for WordPress files" },
+    phpVersion: { type: "string", default: "8.1", description: "PHP version" },
+    sslEnabled: { type: "boolean", default: false, description: "Enable SSL configuration" }
+  },
+  render: (params): NginxConfig => ({
+    domain: params.domain,
+    serverName: `${params.domain} www.${params.domain}`,
+    port: params.sslEnabled ? 443 : 80,
+    ...(params.sslEnabled && {
+      ssl: {
+        certificate: `/etc/letsencrypt/live/${params.domain}/fullchain.pem`,
+        certificateKey: `/etc/letsencrypt/live/${params.domain}/privkey.pem`,
+        forceRedirect: true
+      }
+    }),
+    gzip: true,
+    clientMaxBodySize: "64M",
+    locations: [
+      {
+        path: "/",
+        root: params.rootPath,
+        index: "index.php",
+        try_files: "$uri $uri/ /index.php?$args"
+      },
+      {
+        path: "~ \\.php$",
+        root: params.rootPath,
+        try_files: "$uri =404",
+        php: {
+          enabled: true,
+          socketPath: `/var/run/php/php${params.phpVersion}-fpm.sock`,
+          extraParams: {
+            "SCRIPT_FILENAME": "$document_root$fastcgi_script_name",
+            "PATH_INFO": "$fastcgi_path_info"
+          }
+        }
+      },
+      {
+        path: "/wp-content",
+        root: params.rootPath,
+        extraDirectives: [
+          "expires 30d",
+          "add_header Cache-Control public"
+        ]
+      }
+    ]
+  })
+};
+
+export default template;
@@ -0,0 +1,133 @@
+import { assert, assertEquals, assertRejects } from "https://deno.land/std@0.140.0/testing/asserts.ts";
+import { AcmeError, HttpChallengeSolver, LetsEncryptClient } from "../tools/ssl-generator.ts";
+import { DnsChallengeSolver, parseTsigKey, Rfc2136Provider } from "../tools/dns.ts";
+import { FileChallengeStore, serveChallenges } from "../tools/challenge-server.ts";
+import { fromPem, parseCertificate } from "../tools/x509.ts";
+
+// Runs the ACME flow of tools/ssl-generator.ts against examples/acme-stub.ts,
+// and the dns-01 flow through examples/dns-stub.ts, as child processes
+
+interface Stub {
+    stop(): Promise<void>;
+}
+
+// A port nothing listens on right now
+function freePort(): number {
+    const listener = Deno.listen({ hostname: "127.0.0.1", port: 0 });
+    const { port } = listener.addr as Deno.NetAddr;
+    listener.close();
+    return port;
+}
+
+// Starts an example server on port and waits until it accepts connections
+async function start(script: string, port: number, args: string[], flags: string[] = []): Promise<Stub> {
+    const child = new Deno.Command(Deno.execPath(), {
+        args: ["run", "-A", ...flags, new URL(`../examples/${script}`, import.meta.url).pathname, "--port", String(port), ...args],
+        stdout: "null",
+        stderr: "inherit"
+    }).spawn();
+    const stop = async () => {
+        child.kill();
+        await child.status;
+    };
+    const deadline = Date.now() + 30_000;
+    for (;;) {
+        try {
+            (await Deno.connect({ hostname: "127.0.0.1", port })).close();
+            return { stop };
+        } catch (error) {
+            if (Date.now() > deadline) {
+                await stop();
+                throw new Error(`${script} is not listening on port ${port}: ${error.message}`);
+            }
+            await new Promise(resolve => setTimeout(resolve, 100));
+        }
+    }
+}
+
+function client(dir: string, directoryPort: number): LetsEncryptClient {
+    return new LetsEncryptClient({
+        directoryUrl: `http://127.0.0.1:${directoryPort}/dir`,
+        accountKeyPath: `${dir}/account.json`,
+        pollInterval: 100,
+        pollTimeout: 10_000
+    });
+}
+
+function certificateNames(chain: string): string[] {
+    return parseCertificate(fromPem(chain)[0]).domains.sort();
+}
+
+Deno.test("a certificate is issued with http-01 through the challenge server", async () => {
+    const dir = await Deno.makeTempDir();
+    const [acmePort, httpPort] = [freePort(), freePort()];
+    const acme = await start("acme-stub.ts", acmePort, ["--http-port", String(httpPort)]);
+    const challenges = new AbortController();
+    const serving = serveChallenges({ port: httpPort, hostname: "127.0.0.1", signal: challenges.signal });
+    try {
+        const { cert, key } = await client(dir, acmePort).generateCertificate(["example.com", "www.example.com"], "admin@example.com", [new HttpChallengeSolver()]);
+        assertEquals(certificateNames(cert), ["example.com", "www.example.com"]);
+        assertEquals(fromPem(cert).length, 2);
+        assertEquals(fromPem(key, "PRIVATE KEY").length, 1);
+
+        // The account is registered once and kept in the key file
+        const account = JSON.parse(await Deno.readTextFile(`${dir}/account.json`));
+        assert(account.url?.startsWith(`http://127.0.0.1:${acmePort}/acct/`));
+    } finally {
+        challenges.abort();
+        await serving;
+        await acme.stop();
+        await Deno.remove(dir, { recursive: true });
+    }
+});
+
+Deno.test("an unanswered http-01 challenge fails the order and is cleaned up", async () => {
+    const dir = await Deno.makeTempDir();
+    const [acmePort, httpPort] = [freePort(), freePort()];
+    const acme = await start("acme-stub.ts", acmePort, ["--http-port", String(httpPort)]);
+    // Written to a webroot nothing serves
+    const store = new FileChallengeStore(`${dir}/webroot`);
+    try {
+        await assertRejects(
+            () => client(dir, acmePort).generateCertificate(["example.com"], undefined, [new HttpChallengeSolver(store)]),
+            AcmeError,
+            "authorization of example.com is invalid"
+        );
+        assertEquals(await store.list(), []);
+    } finally {
+        await acme.stop();
+        await Deno.remove(dir, { recursive: true });
+    }
+});
+
+Deno.test("a wildcard certificate is issued with dns-01 through RFC 2136 updates", async () => {
+    const dir = await Deno.makeTempDir();
+    const [acmePort, dnsPort] = [freePort(), freePort()];
+    const resolver = `127.0.0.1:${dnsPort}`;
+    const dns = await start("dns-stub.ts", dnsPort, ["--zone", "example.com"], ["--unstable-net"]);
+    const acme = await start("acme-stub.ts", acmePort, ["--http-port", String(freePort()), "--dns-resolver", resolver]);
+    try {
+        const solver = new DnsChallengeSolver(new Rfc2136Provider({ server: resolver }), { resolver, interval: 100, timeout: 10_000 });
+        const { cert } = await client(dir, acmePort).generateCertificate(["example.com", "*.example.com"], undefined, [solver]);
+        assertEquals(certificateNames(cert), ["*.example.com", "example.com"]);
+
+        // Both TXT records are removed again
+        const records = await Deno.resolveDns("_acme-challenge.example.com", "TXT", { nameServer: { ipAddr: "127.0.0.1", port: dnsPort } }).catch(() => []);
+        assertEquals(records, []);
+    } finally {
+        await acme.stop();
+        await dns.stop();
+        await Deno.remove(dir, { recursive: true });
+    }
+});
+
+Deno.test("updates signed with the wrong TSIG key are refused", async () => {
+    const dnsPort = freePort();
+    const dns = await start("dns-stub.ts", dnsPort, ["--zone", "example.com", "--tsig-key", "acme:c2VjcmV0"]);
+    try {
+        const provider = new Rfc2136Provider({ server: `127.0.0.1:${dnsPort}`, zone: "example.com", tsig: parseTsigKey("acme:d3Jvbmc=") });
+        await assertRejects(() => provider.addTxt("_acme-challenge.example.com", "value"), Error, "was refused: NOTAUTH");
+    } finally {
+        await dns.stop();
+    }
+});
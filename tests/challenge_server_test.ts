@@ -0,0 +1,107 @@
+import { assert, assertEquals, assertRejects } from "https://deno.land/std@0.140.0/testing/asserts.ts";
+import { createChallengeHandler, FileChallengeStore, MemoryChallengeStore } from "../tools/challenge-server.ts";
+
+const TOKEN = "Xk2_-a9";
+const KEY_AUTHORIZATION = `${TOKEN}.thumbprint`;
+
+Deno.test("FileChallengeStore keeps each challenge in a file that expires with its mtime", async () => {
+    const dir = await Deno.makeTempDir();
+    const store = new FileChallengeStore(dir);
+    const path = `${dir}/.well-known/acme-challenge/${TOKEN}`;
+    try {
+        const before = Date.now();
+        await store.put(TOKEN, KEY_AUTHORIZATION, 300);
+        assertEquals(await Deno.readTextFile(path), KEY_AUTHORIZATION);
+        const expires = (await Deno.stat(path)).mtime!.getTime();
+        assert(expires >= before + 299_000 && expires <= Date.now() + 301_000, `mtime ${new Date(expires).toISOString()}`);
+        assertEquals(await store.get(TOKEN), KEY_AUTHORIZATION);
+        assertEquals(await store.list(), [{ token: TOKEN, expires: new Date(expires).toISOString() }]);
+
+        // Once the mtime has passed, the challenge is gone and its file removed
+        await Deno.utime(path, new Date(), new Date(Date.now() - 1000));
+        assertEquals(await store.list(), []);
+        assertEquals(await store.get(TOKEN), null);
+        await assertRejects(() => Deno.stat(path), Deno.errors.NotFound);
+
+        assertEquals(await store.delete(TOKEN), false);
+    } finally {
+        await Deno.remove(dir, { recursive: true });
+    }
+});
+
+Deno.test("FileChallengeStore refuses tokens that are not base64url", async () => {
+    const dir = await Deno.makeTempDir();
+    const store = new FileChallengeStore(`${dir}/webroot`);
+    try {
+        for (const token of ["../../escape", "a/b", "a.b", ""]) {
+            await assertRejects(() => store.put(token, `${token}.x`), Error, "Invalid challenge token");
+            await assertRejects(() => store.get(token), Error, "Invalid challenge token");
+            await assertRejects(() => store.delete(token), Error, "Invalid challenge token");
+        }
+        // Nothing is written for them
+        assertEquals([...Deno.readDirSync(dir)], []);
+    } finally {
+        await Deno.remove(dir, { recursive: true });
+    }
+});
+
+function request(method: string, path: string, token?: string, body?: unknown): Request {
+    return new Request(`http://localhost${path}`, {
+        method,
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+        body: body === undefined ? undefined : JSON.stringify(body)
+    });
+}
+
+Deno.test("the admin API needs the admin token", async () => {
+    const store = new MemoryChallengeStore();
+    const disabled = createChallengeHandler(store);
+    assertEquals((await disabled(request("GET", "/challenges", "secret"))).status, 404);
+
+    const handler = createChallengeHandler(store, "secret");
+    for (const token of [undefined, "wrong", "secre", "secrets"]) {
+        const response = await handler(request("PUT", `/challenges/${TOKEN}`, token, { keyAuthorization: KEY_AUTHORIZATION }));
+        assertEquals(response.status, 401);
+        assertEquals(response.headers.get("WWW-Authenticate"), "Bearer");
+    }
+    assertEquals(await store.get(TOKEN), null);
+    assertEquals((await handler(request("GET", "/challenges", "secret"))).status, 200);
+});
+
+Deno.test("the admin API registers and removes challenges the CA can fetch", async () => {
+    const store = new MemoryChallengeStore();
+    const handler = createChallengeHandler(store, "secret");
+
+    assertEquals((await handler(request("PUT", `/challenges/${TOKEN}`, "secret", { keyAuthorization: KEY_AUTHORIZATION, ttl: 60 }))).status, 204);
+    const served = await handler(request("GET", `/.well-known/acme-challenge/${TOKEN}`));
+    assertEquals([served.status, await served.text()], [200, KEY_AUTHORIZATION]);
+    const { challenges } = await (await handler(request("GET", "/challenges", "secret"))).json();
+    assertEquals(challenges.map((challenge: { token: string }) => challenge.token), [TOKEN]);
+
+    assertEquals((await handler(request("DELETE", `/challenges/${TOKEN}`, "secret"))).status, 204);
+    assertEquals((await handler(request("DELETE", `/challenges/${TOKEN}`, "secret"))).status, 404);
+    assertEquals((await handler(request("GET", `/.well-known/acme-challenge/${TOKEN}`))).status, 404);
+});
+
+Deno.test("the admin API rejects bad tokens, key authorizations and TTLs", async () => {
+    const store = new MemoryChallengeStore();
+    const handler = createChallengeHandler(store, "secret");
+    const put = async (token: string, body: unknown) => {
+        const response = await handler(request("PUT", `/challenges/${token}`, "secret", body));
+        await response.body?.cancel();
+        return response.status;
+    };
+
+    assertEquals(await put("a.b", { keyAuthorization: "a.b.x" }), 400);
+    assertEquals(await put("a%2F..%2Fb", { keyAuthorization: "a/../b.x" }), 400);
+    // The key authorization must belong to the token in the URL
+    assertEquals(await put(TOKEN, { keyAuthorization: "other.thumbprint" }), 400);
+    assertEquals(await put(TOKEN, { keyAuthorization: `${TOKEN}thumbprint` }), 400);
+    assertEquals(await put(TOKEN, { keyAuthorization: `x${TOKEN}.thumbprint` }), 400);
+    assertEquals(await put(TOKEN, { keyAuthorization: 1 }), 400);
+    assertEquals(await put(TOKEN, "not an object"), 400);
+    for (const ttl of [0, -1, 1.5, "60"]) {
+        assertEquals(await put(TOKEN, { keyAuthorization: KEY_AUTHORIZATION, ttl }), 400);
+    }
+    assertEquals(await store.list(), []);
+});
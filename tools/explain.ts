@@ -0,0 +1,126 @@
+import { parse as parseFlags } from "https://deno.land/std/flags/mod.ts";
+import { explainRequest, RequestTrace, traceRequest } from "../routing.ts";
+import { builtinTemplates, loadTemplates, validateTemplateParams } from "../templates.ts";
+import { validateConfig } from "../validator.ts";
+import { ExplainRequest, NginxConfig } from "../types.ts";
+import { NginxParser } from "../parser.ts";
+
+// Shows how nginx routes a request through a site: the server and location
+// that handle it, and the rewrites, try_files and handler on the way
+async function main() {
+  const flags = parseFlags(Deno.args, {
+    boolean: ["help", "json"],
+    string: ["method", "template", "params", "templates"],
+    alias: { X: "method", t: "template", p: "params", h: "help" },
+  });
+  const args = flags._.map(String);
+  const [input, url] = flags.template ? [undefined, args[0]] : args;
+
+  if (flags.help || !url) {
+    console.log(`
+Request Routing Explainer
+
+Usage:
+  explain.ts <site.json|site.conf> <url|path> [options]
+  explain.ts --template <name> [--params <json>] <url|path>
+
+Options:
+  -X, --method <method>   Request method (default: GET)
+  -t, --template <name>   Explain a site rendered from a template
+  -p, --params <json>     Template parameters; domain defaults to the URL's host
+  --templates <dir>       Directory with more templates
+  --json                  Print the trace as JSON
+  -h, --help              Show this help message
+
+A path on its own is requested from the site's first server name, with https
+when the site has SSL. Site configs (.json) are validated first; nginx files
+(.conf) are traced as they are.
+
+Examples:
+  explain.ts site.json https://example.com/blog/?p=1
+  explain.ts --template wordpress --params '{"rootPath":"/var/www/wp"}' http://example.com/wp-admin/
+    `);
+    Deno.exit(flags.help ? 0 : 1);
+  }
+
+  const request = parseRequest(url, flags.method);
+  let trace: RequestTrace;
+  if (input?.endsWith(".conf")) {
+    const nodes = new NginxParser().parse(await Deno.readTextFile(input), input);
+    trace = traceRequest(nodes, {
+      method: request.method!,
+      scheme: request.scheme || "http",
+      host: request.host || "localhost",
+      port: request.port || (request.scheme === "https" ? 443 : 80),
+      uri: request.uri
+    });
+  } else {
+    const config = flags.template
+      ? await renderTemplate(flags.template, flags.params, flags.templates, request.host)
+      : JSON.parse(await Deno.readTextFile(input!)) as NginxConfig;
+    const errors = validateConfig(config);
+    if (errors.length > 0) {
+      errors.forEach(error => console.error(`${input || flags.template}: ${error.field}: ${error.message}`));
+      Deno.exit(1);
+    }
+    trace = explainRequest(config, request);
+  }
+
+  if (flags.json) {
+    console.log(JSON.stringify(trace, null, 2));
+    return;
+  }
+  printTrace(trace);
+}
+
+// "https://example.com:8443/a?b", "example.com/a" or "/a"
+function parseRequest(url: string, method = "GET"): ExplainRequest {
+  if (url.startsWith("/")) {
+    return { method: method.toUpperCase(), uri: url };
+  }
+  const parsed = new URL(/^[a-z]+:\/\//i.test(url) ? url : `http://${url}`);
+  const scheme = parsed.protocol === "https:" ? "https" : "http";
+  return {
+    method: method.toUpperCase(),
+    scheme,
+    host: parsed.hostname,
+    port: parsed.port ? Number(parsed.port) : scheme === "https" ? 443 : 80,
+    uri: `${parsed.pathname}${parsed.search}`
+  };
+}
+
+async function renderTemplate(name: string, paramsJson: string | undefined, dir: string | undefined, host?: string): Promise<NginxConfig> {
+  const templates = dir ? await loadTemplates(dir) : builtinTemplates;
+  const template = templates[name];
+  if (!template) {
+    console.error(`Unknown template '${name}' (${Object.keys(templates).join(", ")})`);
+    Deno.exit(1);
+  }
+  const given = paramsJson ? JSON.parse(paramsJson) : {};
+  if (template.params.domain && given.domain === undefined && host) {
+    given.domain = host.replace(/^www\./, "");
+  }
+  const { params, errors } = validateTemplateParams(template, given);
+  if (errors.length > 0) {
+    errors.forEach(error => console.error(`${name}: ${error.field}: ${error.message}`));
+    Deno.exit(1);
+  }
+  return template.render(params);
+}
+
+function printTrace(trace: RequestTrace) {
+  const { method, scheme, host, port, uri } = trace.request;
+  console.log(`${method} ${scheme}://${host}:${port}${uri}\n`);
+  for (const step of trace.steps) {
+    console.log(`  ${step.phase.padEnd(9)} ${step.message}`);
+    if (step.directive) {
+      console.log(`  ${"".padEnd(9)}   line ${step.line}: ${step.directive}`);
+    }
+  }
+  const { result } = trace;
+  console.log(`\n=> ${result.message}${result.target && !result.message.includes(result.target) ? ` (${result.target})` : ""}`);
+}
+
+if (import.meta.main) {
+  main();
+}
@@ -0,0 +1,75 @@
+import { parse as parseFlags } from "https://deno.land/std/flags/mod.ts";
+import { createKey, FileKeyStore, validateNewKey } from "../auth.ts";
+import { NewApiKey, Role } from "../types.ts";
+
+// Manages the API keys of the server, including the first admin key that
+// turns authentication on
+async function main() {
+  const flags = parseFlags(Deno.args, {
+    boolean: ["help"],
+    string: ["file", "name", "role", "domains"],
+    default: { file: Deno.env.get("API_KEYS_FILE") || "keys.json" },
+    alias: { f: "file", h: "help" },
+  });
+  const [command, id] = flags._.map(String);
+
+  if (flags.help || !command) {
+    console.log(`
+API Key Management
+
+Usage:
+  keys.ts create --name <name> --role <role> [--domains <patterns>]
+  keys.ts list
+  keys.ts revoke <id>
+
+Options:
+  -f, --file <file>       Keys file (default: keys.json, or API_KEYS_FILE)
+  --name <name>           Who the key is for, recorded as the author of changes
+  --role <role>           read, operator (generate and deploy) or admin
+                          (also manages keys and templates)
+  --domains <patterns>    Comma-separated domains the key may act on, e.g.
+                          "*.team.example.com,team.example.com"
+  -h, --help              Show this help message
+
+The server turns authentication on when the keys file holds at least one key.
+Tokens are only shown when they are created.
+    `);
+    Deno.exit(flags.help ? 0 : 1);
+  }
+
+  const store = new FileKeyStore(flags.file);
+
+  if (command === "create") {
+    const options: NewApiKey = {
+      name: flags.name || "",
+      role: flags.role as Role,
+      ...(flags.domains && { domains: flags.domains.split(",").map((domain: string) => domain.trim()).filter(Boolean) }),
+    };
+    const error = validateNewKey(options);
+    if (error) {
+      console.error(`Error: ${error}`);
+      Deno.exit(1);
+    }
+    const { key, token } = await createKey(store, options);
+    console.log(`Created ${key.role} key ${key.id} for ${key.name}`);
+    console.log(`Token: ${token}`);
+  } else if (command === "list") {
+    for (const key of await store.list()) {
+      const domains = key.domains ? key.domains.join(", ") : "all domains";
+      console.log(`${key.id}  ${key.role.padEnd(8)}  ${key.name} (${domains}), created ${key.created}`);
+    }
+  } else if (command === "revoke") {
+    if (!id || !await store.delete(id)) {
+      console.error(`Error: API key '${id || ""}' not found`);
+      Deno.exit(1);
+    }
+    console.log(`Revoked ${id}`);
+  } else {
+    console.error(`Error: Unknown command '${command}'`);
+    Deno.exit(1);
+  }
+}
+
+if (import.meta.main) {
+  main();
+}
@@ -0,0 +1,100 @@
+import { parse as parseFlags } from "https://deno.land/std/flags/mod.ts";
+import { LINT_RULES, LintFinding, lintConfig } from "../lint.ts";
+import { builtinTemplates, loadTemplates, validateTemplateParams } from "../templates.ts";
+import { validateConfig } from "../validator.ts";
+import { NginxConfig } from "../types.ts";
+
+// Checks site configs, or sites rendered from templates, for nginx pitfalls
+// that pass validation. Exits with 1 on errors, or warnings with --strict.
+async function main() {
+  const flags = parseFlags(Deno.args, {
+    boolean: ["help", "json", "rules", "strict"],
+    string: ["template", "params", "templates"],
+    alias: { t: "template", p: "params", h: "help" },
+  });
+  const files = flags._.map(String);
+
+  if (flags.rules) {
+    for (const rule of LINT_RULES) {
+      console.log(`${rule.id.padEnd(24)} ${rule.severity.padEnd(8)} ${rule.description}`);
+    }
+    return;
+  }
+
+  if (flags.help || (files.length === 0 && !flags.template)) {
+    console.log(`
+Config Linter
+
+Usage:
+  lint.ts <site.json>... [options]
+  lint.ts --template <name> [--params <json>]
+
+Options:
+  -t, --template <name>   Lint a site rendered from a template
+  -p, --params <json>     Template parameters (domain defaults to example.com)
+  --templates <dir>       Directory with more templates
+  --strict                Exit with 1 on warnings too
+  --json                  Print the findings as JSON
+  --rules                 List the rules
+  -h, --help              Show this help message
+
+Rules are disabled with "lint": {"disable": ["rule-id"]} in a site, or in a
+location for that location only.
+    `);
+    Deno.exit(flags.help ? 0 : 1);
+  }
+
+  const sites: { name: string; config: NginxConfig }[] = flags.template
+    ? [{ name: flags.template, config: await renderTemplate(flags.template, flags.params, flags.templates) }]
+    : await Promise.all(files.map(async (file: string) => ({ name: file, config: JSON.parse(await Deno.readTextFile(file)) })));
+
+  const results: Record<string, LintFinding[]> = {};
+  let failed = false;
+  for (const { name, config } of sites) {
+    const errors = validateConfig(config);
+    if (errors.length > 0) {
+      errors.forEach(error => console.error(`${name}: ${error.field}: ${error.message}`));
+      failed = true;
+      continue;
+    }
+    results[name] = lintConfig(config);
+    failed ||= results[name].some(finding => finding.severity === "error" || (flags.strict && finding.severity === "warning"));
+  }
+
+  if (flags.json) {
+    console.log(JSON.stringify(results, null, 2));
+  } else {
+    for (const [name, findings] of Object.entries(results)) {
+      for (const finding of findings) {
+        console.log(`${name}: ${finding.field}: ${finding.severity} [${finding.rule}] ${finding.message}`);
+        if (finding.fix) {
+          console.log(`  fix: ${finding.fix}`);
+        }
+      }
+    }
+  }
+  Deno.exit(failed ? 1 : 0);
+}
+
+async function renderTemplate(name: string, paramsJson: string | undefined, dir: string | undefined): Promise<NginxConfig> {
+  const templates = dir ? await loadTemplates(dir) : builtinTemplates;
+  const template = templates[name];
+  if (!template) {
+    console.error(`Unknown template '${name}' (${Object.keys(templates).join(", ")})`);
+    Deno.exit(1);
+  }
+  const given = paramsJson ? JSON.parse(paramsJson) : {};
+  if (template.params.domain && given.domain === undefined) {
+    given.domain = "example.com";
+  }
+  const { params, errors } = validateTemplateParams(template, given);
+  if (errors.length > 0) {
+    errors.forEach(error => console.error(`${name}: ${error.field}: ${error.message}`));
+    Deno.exit(1);
+  }
+  return template.render(params);
+}
+
+if (import.meta.main) {
+  main();
+}
@@ -0,0 +1,75 @@
+import { parse as parseFlags } from "https://deno.land/std/flags/mod.ts";
+import { FileSiteStore } from "../store.ts";
+import { RenewalService, renewalOptionsFromEnv } from "../renewal.ts";
+
+// One renewal pass for cron, configured through the same environment
+// variables as the API server
+async function main() {
+  const flags = parseFlags(Deno.args, {
+    boolean: ["status", "force", "help"],
+    alias: { h: "help" },
+  });
+
+  if (flags.help) {
+    console.log(`
+Certificate Renewal
+
+Renews the certificates of the stored sites that expire within the renewal
+window, then runs the post-renewal hook. Configured through environment
+variables (ACME_EMAIL, SITES_DIR, RENEWAL_WINDOW_DAYS, RENEWAL_HOOK, ...).
+
+Usage:
+  renew.ts [options]
+
+Options:
+  --status     Print the certificates and their expiry without renewing
+  --force      Renew every certificate, ignoring the window and backoff
+  -h, --help   Show this help message
+
+Example (crontab):
+  17 3 * * * ACME_EMAIL=admin@example.com luwak tools/renew.ts
+    `);
+    Deno.exit(0);
+  }
+
+  const options = renewalOptionsFromEnv();
+  if (!options) {
+    console.error("Error: ACME_EMAIL is required");
+    Deno.exit(1);
+  }
+
+  const service = new RenewalService(new FileSiteStore(Deno.env.get("SITES_DIR") || "sites"), options);
+
+  if (flags.status) {
+    for (const status of await service.status()) {
+      const expiry = status.notAfter ? `${status.notAfter} (${status.daysLeft} days)` : "missing";
+      console.log(`${status.certificate}: ${status.domains.join(", ")}`);
+      console.log(`  expires: ${expiry}${status.due ? ", due for renewal" : ""}`);
+      if (status.lastError) {
+        console.log(`  last error: ${status.lastError} (retry after ${status.nextAttempt})`);
+      }
+    }
+    return;
+  }
+
+  const result = await service.run(flags.force);
+  for (const certificate of result.renewed) {
+    console.log(`Renewed ${certificate}`);
+  }
+  for (const certificate of result.skipped) {
+    console.log(`Skipped ${certificate}: waiting to retry after an earlier failure`);
+  }
+  for (const failure of result.failed) {
+    console.error(`Failed to renew ${failure.certificate}: ${failure.error}`);
+  }
+  if (result.hook && !result.hook.success) {
+    console.error(`Post-renewal hook failed: ${result.hook.output}`);
+  }
+  if (result.failed.length > 0 || result.hook?.success === false) {
+    Deno.exit(1);
+  }
+}
+
+if (import.meta.main) {
+  main();
+}
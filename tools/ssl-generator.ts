@@ -1,20 +1,47 @@
 import { parse as parseFlags } from "https://deno.land/std/flags/mod.ts";
-import { encode as encodeBase64 } from "https://deno.land/std/encoding/base64.ts";
-import { crypto } from "https://deno.land/std/crypto/mod.ts";
+import { encode as encodeBase64Url } from "https://deno.land/std/encoding/base64url.ts";
+import { addChallenge, ChallengeStore, FileChallengeStore, removeChallenge, serveChallenges } from "./challenge-server.ts";
+import { createCsr, toPem } from "./x509.ts";
+import { DnsChallengeSolver, DnsProvider, HookScriptProvider, parseTsigKey, Rfc2136Provider } from "./dns.ts";
+
+const LETS_ENCRYPT = "https://acme-v02.api.letsencrypt.org/directory";
+const LETS_ENCRYPT_STAGING = "https://acme-staging-v02.api.letsencrypt.org/directory";
+
+const KEY_ALGORITHM: RsaHashedKeyGenParams = {
+  name: "RSASSA-PKCS1-v1_5",
+  modulusLength: 2048,
+  publicExponent: new Uint8Array([1, 0, 1]),
+  hash: "SHA-256",
+};
 
 interface ACMEAccount {
-  privateKey: CryptoKeyPair;
-  url: string;
-  contact?: string[];
+  keys: CryptoKeyPair;
+  // Public part of the key as sent in the JWS header
+  jwk: JsonWebKey;
+  url?: string;
+}
+
+// What gets written to the account key file
+interface StoredAccount {
+  key: JsonWebKey;
+  url?: string;
 }
 
-interface ACMEOrder {
+export interface ACMEOrder {
   url: string;
   status: string;
   identifiers: { type: string; value: string }[];
   authorizations: string[];
   finalize: string;
   certificate?: string;
+  error?: ACMEProblem;
+}
+
+interface ACMEAuthorization {
+  identifier: { type: string; value: string };
+  status: string;
+  challenges: ACMEChallenge[];
+  wildcard?: boolean;
 }
 
 interface ACMEChallenge {
@@ -22,227 +49,369 @@ interface ACMEChallenge {
   url: string;
   token: string;
   status: string;
+  error?: ACMEProblem;
 }
 
-class LetsEncryptClient {
+interface ACMEProblem {
+  type: string;
+  detail?: string;
+}
+
+// Makes a challenge answer reachable for the CA and removes it afterwards
+export interface ChallengeSolver {
+  type: string;
+  present(identifier: string, token: string, keyAuthorization: string): Promise<void>;
+  cleanup(identifier: string, token: string, keyAuthorization: string): Promise<void>;
+}
+
+// Answers http-01 challenges through a challenge store: by default the one
+// of the in-process challenge server (see serveChallenges), or e.g. a
+// FileChallengeStore in the webroot nginx serves the challenges from
+export class HttpChallengeSolver implements ChallengeSolver {
+  type = "http-01";
+
+  constructor(private store?: ChallengeStore) {}
+
+  async present(_identifier: string, token: string, keyAuthorization: string): Promise<void> {
+    if (this.store) {
+      await this.store.put(token, keyAuthorization);
+    } else {
+      await addChallenge(token, keyAuthorization);
+    }
+  }
+
+  async cleanup(_identifier: string, token: string): Promise<void> {
+    if (this.store) {
+      await this.store.delete(token);
+    } else {
+      await removeChallenge(token);
+    }
+  }
+}
+
+// Registers http-01 challenges with a challenge server running elsewhere,
+// e.g. next to nginx, through its admin API
+export class RemoteChallengeSolver implements ChallengeSolver {
+  type = "http-01";
+
+  constructor(private serverUrl: string, private adminToken: string) {}
+
+  async present(_identifier: string, token: string, keyAuthorization: string): Promise<void> {
+    await this.call("PUT", token, { keyAuthorization });
+  }
+
+  async cleanup(_identifier: string, token: string): Promise<void> {
+    await this.call("DELETE", token);
+  }
+
+  private async call(method: string, token: string, body?: Record<string, unknown>): Promise<void> {
+    const response = await fetch(`${this.serverUrl.replace(/\/$/, "")}/challenges/${token}`, {
+      method,
+      headers: { Authorization: `Bearer ${this.adminToken}`, "Content-Type": "application/json" },
+      body: body && JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      throw new AcmeError(`Challenge server refused ${method} of ${token}: ${error?.error || `HTTP ${response.status}`}`);
+    }
+    await response.body?.cancel();
+  }
+}
+
+export interface ClientOptions {
+  directoryUrl?: string;
+  staging?: boolean;
+  // File holding the account key; created on first use
+  accountKeyPath?: string;
+  pollInterval?: number;
+  pollTimeout?: number;
+}
+
+export class AcmeError extends Error {
+  constructor(message: string, public problem?: ACMEProblem) {
+    super(problem?.detail ? `${message}: ${problem.detail}` : message);
+    this.name = "AcmeError";
+  }
+}
+
+// RFC 8555 client. Requests are signed with the account key as JWS, using
+// the full JWK until the account URL is known and the key ID after that.
+export class LetsEncryptClient {
   private directory: Record<string, string> = {};
   private account: ACMEAccount | null = null;
   private nonce: string | null = null;
-  private baseUrl: string;
+  private directoryUrl: string;
 
-  constructor(staging = false) {
-    this.baseUrl = staging
-      ? "https://acme-staging-v02.api.letsencrypt.org/directory"
-      : "https://acme-v02.api.letsencrypt.org/directory";
+  constructor(private options: ClientOptions = {}) {
+    this.directoryUrl = options.directoryUrl || (options.staging ? LETS_ENCRYPT_STAGING : LETS_ENCRYPT);
   }
 
   private async generateKeyPair(): Promise<CryptoKeyPair> {
-    return await crypto.subtle.generateKey(
-      {
-        name: "RSASSA-PKCS1-v1_5",
-        modulusLength: 2048,
-        publicExponent: new Uint8Array([1, 0, 1]),
-        hash: "SHA-256",
-      },
-      true,
-      ["sign", "verify"]
-    );
+    return await crypto.subtle.generateKey(KEY_ALGORITHM, true, ["sign", "verify"]) as CryptoKeyPair;
   }
 
   private async sign(key: CryptoKey, data: string): Promise<string> {
-    const encoder = new TextEncoder();
-    const signature = await crypto.subtle.sign(
-      "RSASSA-PKCS1-v1_5",
-      key,
-      encoder.encode(data)
-    );
-    return encodeBase64(new Uint8Array(signature));
+    const signature = await crypto.subtle.sign("RSASSA-PKCS1-v1_5", key, new TextEncoder().encode(data));
+    return encodeBase64Url(new Uint8Array(signature));
   }
 
   private async fetchNonce(): Promise<string> {
-    const response = await fetch(this.directory.newNonce, {
-      method: "HEAD",
-    });
-    return response.headers.get("Replay-Nonce") || "";
+    const response = await fetch(this.directory.newNonce, { method: "HEAD" });
+    const nonce = response.headers.get("Replay-Nonce");
+    if (!nonce) {
+      throw new AcmeError("The ACME server did not return a nonce");
+    }
+    return nonce;
   }
 
+  // Sends a JWS-signed POST. Without a payload this is a POST-as-GET, the
+  // only way to read ACME resources. A rejected nonce is retried once.
   private async signedRequest(
     url: string,
-    payload: Record<string, unknown> = {},
-    method = "POST"
+    payload?: Record<string, unknown>,
+    accept?: string,
+    retry = true,
   ): Promise<Response> {
     if (!this.account) {
-      throw new Error("Account not initialized");
-    }
-
-    if (!this.nonce) {
-      this.nonce = await this.fetchNonce();
+      throw new AcmeError("Account not initialized");
     }
 
-    const protected_header = {
+    const protectedHeader = {
       alg: "RS256",
-      nonce: this.nonce,
+      nonce: this.nonce || await this.fetchNonce(),
       url,
-      kid: this.account.url,
+      ...(this.account.url ? { kid: this.account.url } : { jwk: this.account.jwk }),
     };
+    this.nonce = null;
 
-    const payload_encoded = encodeBase64(
-      new TextEncoder().encode(JSON.stringify(payload))
-    );
-    const protected_encoded = encodeBase64(
-      new TextEncoder().encode(JSON.stringify(protected_header))
-    );
-
-    const signature = await this.sign(
-      this.account.privateKey.privateKey,
-      protected_encoded + "." + payload_encoded
-    );
-
-    const body = JSON.stringify({
-      protected: protected_encoded,
-      payload: payload_encoded,
-      signature,
-    });
+    const encoder = new TextEncoder();
+    const protectedEncoded = encodeBase64Url(encoder.encode(JSON.stringify(protectedHeader)));
+    const payloadEncoded = payload === undefined ? "" : encodeBase64Url(encoder.encode(JSON.stringify(payload)));
+    const signature = await this.sign(this.account.keys.privateKey, `${protectedEncoded}.${payloadEncoded}`);
 
     const response = await fetch(url, {
-      method,
+      method: "POST",
       headers: {
         "Content-Type": "application/jose+json",
+        ...(accept && { Accept: accept }),
       },
-      body,
+      body: JSON.stringify({ protected: protectedEncoded, payload: payloadEncoded, signature }),
     });
+    this.nonce = response.headers.get("Replay-Nonce");
 
-    this.nonce = response.headers.get("Replay-Nonce") || null;
+    if (response.status === 400 && retry) {
+      const problem = await response.clone().json().catch(() => null);
+      if (problem?.type === "urn:ietf:params:acme:error:badNonce") {
+        await response.body?.cancel();
+        return await this.signedRequest(url, payload, accept, false);
+      }
+    }
     return response;
   }
 
+  private async request<T>(url: string, payload: Record<string, unknown> | undefined, what: string): Promise<{ body: T; response: Response }> {
+    const response = await this.signedRequest(url, payload);
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new AcmeError(`Failed to ${what}`, body || { type: "about:blank", detail: `HTTP ${response.status}` });
+    }
+    return { body, response };
+  }
+
+  // Polls a resource with POST-as-GET until it reaches one of the given
+  // states, honouring Retry-After
+  private async poll<T extends { status: string; error?: ACMEProblem; challenges?: ACMEChallenge[] }>(url: string, states: string[], what: string): Promise<T> {
+    const deadline = Date.now() + (this.options.pollTimeout ?? 120_000);
+    for (;;) {
+      const { body, response } = await this.request<T>(url, undefined, `check ${what}`);
+      if (states.includes(body.status)) {
+        return body;
+      }
+      if (body.status === "invalid") {
+        throw new AcmeError(`${what} is invalid`, problemOf(body));
+      }
+      if (Date.now() > deadline) {
+        throw new AcmeError(`Timed out waiting for ${what} (status '${body.status}')`);
+      }
+      const retryAfter = parseInt(response.headers.get("Retry-After") || "");
+      await new Promise((resolve) => setTimeout(resolve, retryAfter > 0 ? retryAfter * 1000 : this.options.pollInterval ?? 1000));
+    }
+  }
+
   async initialize(): Promise<void> {
-    const response = await fetch(this.baseUrl);
+    const response = await fetch(this.directoryUrl);
+    if (!response.ok) {
+      throw new AcmeError(`Failed to load the ACME directory from ${this.directoryUrl}`);
+    }
     this.directory = await response.json();
   }
 
-  async createAccount(email: string): Promise<void> {
-    const keyPair = await this.generateKeyPair();
-    const payload = {
-      termsOfServiceAgreed: true,
-      contact: [`mailto:${email}`],
-    };
-
-    const response = await this.signedRequest(
-      this.directory.newAccount,
-      payload
-    );
+  // Loads the account key from disk, or creates and saves a new one
+  private async loadAccount(): Promise<ACMEAccount> {
+    const path = this.options.accountKeyPath;
+    let stored: StoredAccount | null = null;
+    if (path) {
+      try {
+        stored = JSON.parse(await Deno.readTextFile(path));
+      } catch (error) {
+        if (!(error instanceof Deno.errors.NotFound)) {
+          throw error;
+        }
+      }
+    }
 
-    if (!response.ok) {
-      throw new Error(`Failed to create account: ${await response.text()}`);
+    if (stored) {
+      const { kty, n, e } = stored.key;
+      const privateKey = await crypto.subtle.importKey("jwk", stored.key, KEY_ALGORITHM, true, ["sign"]);
+      const publicKey = await crypto.subtle.importKey("jwk", { kty, n, e }, KEY_ALGORITHM, true, ["verify"]);
+      return { keys: { privateKey, publicKey }, jwk: { e, kty, n }, url: stored.url };
     }
 
-    this.account = {
-      privateKey: keyPair,
-      url: response.headers.get("Location") || "",
-      contact: [`mailto:${email}`],
-    };
+    const keys = await this.generateKeyPair();
+    const { kty, n, e } = await crypto.subtle.exportKey("jwk", keys.publicKey);
+    const account = { keys, jwk: { e, kty, n } };
+    await this.saveAccount(account);
+    return account;
   }
 
-  async createOrder(domain: string): Promise<ACMEOrder> {
-    const payload = {
-      identifiers: [
-        {
-          type: "dns",
-          value: domain,
-        },
-      ],
+  private async saveAccount(account: ACMEAccount): Promise<void> {
+    if (!this.options.accountKeyPath) {
+      return;
+    }
+    const stored: StoredAccount = {
+      key: await crypto.subtle.exportKey("jwk", account.keys.privateKey),
+      url: account.url,
     };
+    await Deno.writeTextFile(this.options.accountKeyPath, JSON.stringify(stored, null, 2), { mode: 0o600 });
+  }
 
-    const response = await this.signedRequest(
-      this.directory.newOrder,
-      payload
-    );
+  // Registers the account key, or looks up the existing account for it
+  async createAccount(email?: string): Promise<void> {
+    this.account = await this.loadAccount();
+    if (this.account.url) {
+      return;
+    }
 
-    if (!response.ok) {
-      throw new Error(`Failed to create order: ${await response.text()}`);
+    const { response } = await this.request(this.directory.newAccount, {
+      termsOfServiceAgreed: true,
+      ...(email && { contact: [`mailto:${email}`] }),
+    }, "create account");
+
+    const url = response.headers.get("Location");
+    if (!url) {
+      throw new AcmeError("The ACME server did not return an account URL");
     }
+    this.account.url = url;
+    await this.saveAccount(this.account);
+  }
 
-    return await response.json();
+  async createOrder(domains: string[]): Promise<ACMEOrder> {
+    const { body, response } = await this.request<ACMEOrder>(this.directory.newOrder, {
+      identifiers: domains.map((value) => ({ type: "dns", value })),
+    }, "create order");
+    return { ...body, url: response.headers.get("Location") || "" };
   }
 
-  async getAuthorization(url: string): Promise<{
-    challenges: ACMEChallenge[];
-    wildcard: boolean;
-  }> {
-    const response = await this.signedRequest(url, {}, "GET");
-    if (!response.ok) {
-      throw new Error(`Failed to get authorization: ${await response.text()}`);
-    }
-    return await response.json();
+  // RFC 8555, 8.1: token plus the base64url SHA-256 thumbprint of the JWK,
+  // whose members must be in lexicographic order
+  async keyAuthorization(token: string): Promise<string> {
+    const { e, kty, n } = this.account!.jwk;
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(JSON.stringify({ e, kty, n })));
+    return `${token}.${encodeBase64Url(new Uint8Array(digest))}`;
   }
 
-  async verifyChallenge(challenge: ACMEChallenge): Promise<void> {
-    const response = await this.signedRequest(challenge.url, {});
-    if (!response.ok) {
-      throw new Error(`Failed to verify challenge: ${await response.text()}`);
+  private async authorize(url: string, solvers: ChallengeSolver[]): Promise<void> {
+    const { body: authorization } = await this.request<ACMEAuthorization>(url, undefined, "get authorization");
+    if (authorization.status === "valid") {
+      return;
     }
-  }
 
-  async waitForValidation(url: string): Promise<void> {
-    while (true) {
-      const response = await this.signedRequest(url, {}, "GET");
-      if (!response.ok) {
-        throw new Error(`Failed to check status: ${await response.text()}`);
-      }
-      const status = await response.json();
-      if (status.status === "valid") {
-        return;
-      }
-      if (status.status === "invalid") {
-        throw new Error("Challenge validation failed");
-      }
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+    const identifier = authorization.identifier.value;
+    const solver = solvers.find((s) => authorization.challenges.some((c) => c.type === s.type));
+    const challenge = solver && authorization.challenges.find((c) => c.type === solver.type);
+    if (!solver || !challenge) {
+      const offered = authorization.challenges.map((c) => c.type).join(", ");
+      throw new AcmeError(`No supported challenge for ${identifier} (offered: ${offered})`);
+    }
+
+    // The cleanup also runs when presenting fails halfway, e.g. when a DNS
+    // record was added but never became visible
+    const keyAuthorization = await this.keyAuthorization(challenge.token);
+    try {
+      await solver.present(identifier, challenge.token, keyAuthorization);
+      console.log(`Verifying ${authorization.wildcard ? "*." : ""}${identifier} with ${challenge.type}...`);
+      await this.request(challenge.url, {}, "respond to challenge");
+      await this.poll<ACMEAuthorization>(url, ["valid"], `authorization of ${identifier}`);
+    } finally {
+      await solver.cleanup(identifier, challenge.token, keyAuthorization).catch((error) =>
+        console.error(`Warning: cleaning up the challenge for ${identifier} failed: ${error.message}`)
+      );
     }
   }
 
+  // Runs the whole flow for one certificate covering all given names and
+  // returns the PEM chain together with its new private key
   async generateCertificate(
-    domain: string,
-    email: string
+    domains: string[],
+    email?: string,
+    solvers: ChallengeSolver[] = [new HttpChallengeSolver()],
   ): Promise<{ cert: string; key: string }> {
     await this.initialize();
     await this.createAccount(email);
 
-    console.log("Creating order...");
-    const order = await this.createOrder(domain);
-
-    for (const authUrl of order.authorizations) {
-      const auth = await this.getAuthorization(authUrl);
-      const challenge = auth.challenges.find((c) => c.type === "http-01");
-      if (!challenge) {
-        throw new Error("No HTTP challenge found");
-      }
-
-      console.log("Creating challenge response...");
-      // Here you would need to set up the HTTP challenge
-      // by serving the token at /.well-known/acme-challenge/{token}
+    console.log(`Creating order for ${domains.join(", ")}...`);
+    const order = await this.createOrder(domains);
+    for (const url of order.authorizations) {
+      await this.authorize(url, solvers);
+    }
 
-      console.log("Verifying challenge...");
-      await this.verifyChallenge(challenge);
-      await this.waitForValidation(authUrl);
+    console.log("Finalizing order...");
+    const keys = await this.generateKeyPair();
+    const csr = await createCsr(domains, keys);
+    await this.poll<ACMEOrder>(order.url, ["ready", "processing", "valid"], "order");
+    await this.request(order.finalize, { csr: encodeBase64Url(csr) }, "finalize order");
+    const finalized = await this.poll<ACMEOrder>(order.url, ["valid"], "order");
+    if (!finalized.certificate) {
+      throw new AcmeError("The order is valid but has no certificate URL");
     }
 
-    // Generate CSR and finalize order
-    const keyPair = await this.generateKeyPair();
-    // Generate CSR using the key pair
-    // Finalize order with CSR
+    const response = await this.signedRequest(finalized.certificate, undefined, "application/pem-certificate-chain");
+    if (!response.ok) {
+      throw new AcmeError("Failed to download certificate", await response.json().catch(() => undefined));
+    }
 
+    const privateKey = new Uint8Array(await crypto.subtle.exportKey("pkcs8", keys.privateKey));
     return {
-      cert: "certificate content",
-      key: "private key content",
+      cert: await response.text(),
+      key: toPem("PRIVATE KEY", privateKey),
     };
   }
 }
 
+function problemOf(resource: { error?: ACMEProblem; challenges?: ACMEChallenge[] }): ACMEProblem | undefined {
+  return resource.error || resource.challenges?.find((c) => c.error)?.error;
+}
+
 async function main() {
   const flags = parseFlags(Deno.args, {
     boolean: ["staging", "help"],
-    string: ["domain", "email", "output"],
+    string: [
+      "domain",
+      "email",
+      "output",
+      "directory",
+      "account-key",
+      "http-port",
+      "webroot",
+      "challenge-server",
+      "dns-server",
+      "dns-zone",
+      "tsig-key",
+      "dns-hook",
+      "dns-resolver",
+      "propagation-timeout",
+    ],
+    collect: ["domain"],
     alias: {
       d: "domain",
       e: "email",
@@ -260,26 +429,74 @@ Usage:
   ssl-generator.ts [options]
 
 Options:
-  -d, --domain <domain>    Domain name to generate certificate for
+  -d, --domain <domain>    Domain name to generate certificate for; repeat or
+                           separate with commas for more names on one certificate
   -e, --email <email>      Email address for Let's Encrypt account
   -o, --output <dir>       Output directory for certificates (default: current directory)
   -s, --staging            Use Let's Encrypt staging environment
+  --directory <url>        ACME directory URL of another CA or a local test server
+  --account-key <file>     Account key file, created on first use
+                           (default: <output>/account-key.json)
+  --http-port <port>       Port the http-01 challenge server listens on (default: 80)
+  --webroot <dir>          Write http-01 challenges below <dir> for nginx to serve
+                           (see acmeChallenge.webroot) instead of listening
+  --challenge-server <url> Register http-01 challenges with a running challenge
+                           server; needs CHALLENGE_ADMIN_TOKEN
   -h, --help              Show this help message
 
+DNS-01 (required for wildcard names such as *.example.com):
+  --dns-server <host:port> Name server accepting RFC 2136 dynamic updates
+  --dns-zone <zone>        Zone to update (default: looked up on the server)
+  --tsig-key <key>         TSIG key for the updates as [algorithm:]name:secret
+                           (default algorithm: hmac-sha256)
+  --dns-hook <script>      Publish records with a script instead, called as
+                           <script> present|cleanup <name> <value>
+  --dns-resolver <ip:port> Resolver polled until the record is visible
+                           (default: system resolver)
+  --propagation-timeout <s> How long to wait for the record (default: 120)
+
 Example:
   deno run --allow-read --allow-write --allow-net ssl-generator.ts \\
     --domain example.com \\
+    --domain www.example.com \\
     --email admin@example.com \\
     --output /etc/nginx/ssl
+
+  deno run --allow-read --allow-write --allow-net ssl-generator.ts \\
+    --domain example.com,*.example.com \\
+    --dns-server ns1.example.com \\
+    --tsig-key hmac-sha256:acme-key:c2VjcmV0 \\
+    --email admin@example.com
     `);
     Deno.exit(0);
   }
 
-  if (!flags.domain || !flags.email) {
+  const domains = [flags.domain || []].flat().flatMap((d: string) => d.split(",")).map((d: string) => d.trim()).filter(Boolean);
+  if (!domains.length || !flags.email) {
     console.error("Error: domain and email are required");
     Deno.exit(1);
   }
 
+  let dnsProvider: DnsProvider | null = null;
+  try {
+    if (flags["dns-server"]) {
+      dnsProvider = new Rfc2136Provider({
+        server: flags["dns-server"],
+        zone: flags["dns-zone"],
+        tsig: flags["tsig-key"] ? parseTsigKey(flags["tsig-key"]) : undefined,
+      });
+    } else if (flags["dns-hook"]) {
+      dnsProvider = new HookScriptProvider(flags["dns-hook"]);
+    }
+  } catch (error) {
+    console.error(`Error: ${error.message}`);
+    Deno.exit(1);
+  }
+  if (!dnsProvider && domains.some((d: string) => d.startsWith("*."))) {
+    console.error("Error: wildcard names need a DNS-01 provider (--dns-server or --dns-hook)");
+    Deno.exit(1);
+  }
+
   const outputDir = flags.output || ".";
   try {
     await Deno.mkdir(outputDir, { recursive: true });
@@ -288,19 +505,49 @@ Example:
     Deno.exit(1);
   }
 
+  const adminToken = Deno.env.get("CHALLENGE_ADMIN_TOKEN");
+  if (flags["challenge-server"] && !adminToken) {
+    console.error("Error: --challenge-server needs the admin token in CHALLENGE_ADMIN_TOKEN");
+    Deno.exit(1);
+  }
+
+  // The local challenge server is only needed when nothing else answers
+  // the challenges
+  let solver: ChallengeSolver;
+  if (dnsProvider) {
+    solver = new DnsChallengeSolver(dnsProvider, {
+      resolver: flags["dns-resolver"],
+      timeout: Number(flags["propagation-timeout"] || 120) * 1000,
+    });
+  } else if (flags.webroot) {
+    solver = new HttpChallengeSolver(new FileChallengeStore(flags.webroot));
+  } else if (flags["challenge-server"]) {
+    solver = new RemoteChallengeSolver(flags["challenge-server"], adminToken!);
+  } else {
+    solver = new HttpChallengeSolver();
+  }
+  const challengeServer = new AbortController();
+  const httpPort = Number(flags["http-port"] || 80);
+  const serving = solver instanceof HttpChallengeSolver && !flags.webroot
+    ? serveChallenges({ port: httpPort, signal: challengeServer.signal })
+    : Promise.resolve();
+
   try {
-    console.log(`Generating certificate for ${flags.domain}...`);
-    const client = new LetsEncryptClient(flags.staging);
-    const { cert, key } = await client.generateCertificate(
-      flags.domain,
-      flags.email
-    );
+    console.log(`Generating certificate for ${domains.join(", ")}...`);
+    const client = new LetsEncryptClient({
+      directoryUrl: flags.directory,
+      staging: flags.staging,
+      accountKeyPath: flags["account-key"] || `${outputDir}/account-key.json`,
+    });
+    const { cert, key } = await client.generateCertificate(domains, flags.email, [solver]);
 
-    const certPath = `${outputDir}/${flags.domain}.crt`;
-    const keyPath = `${outputDir}/${flags.domain}.key`;
+    // *.example.com is written as _wildcard.example.com.crt
+    const baseName = domains[0].replace(/^\*\./, "_wildcard.");
+    const certPath = `${outputDir}/${baseName}.crt`;
+    const keyPath = `${outputDir}/${baseName}.key`;
 
     await Deno.writeTextFile(certPath, cert);
-    await Deno.writeTextFile(keyPath, key);
+    await Deno.writeTextFile(keyPath, key, { mode: 0o600 });
 
     console.log(`
 Certificate generation successful!
@@ -310,9 +557,12 @@ Private Key: ${keyPath}
   } catch (error) {
     console.error(`Error generating certificate: ${error.message}`);
     Deno.exit(1);
+  } finally {
+    challengeServer.abort();
+    await serving;
   }
 }
 
 if (import.meta.main) {
   main();
-}
\ No newline at end of file
+}
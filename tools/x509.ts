@@ -0,0 +1,239 @@
+// Just enough ASN.1 DER to build certificate signing requests for the ACME
+// client and to read back the certificates a CA returns.
+
+export interface DerNode {
+  tag: number;
+  // Contents octets, without tag and length
+  value: Uint8Array;
+  // The complete encoding, tag and length included
+  raw: Uint8Array;
+  children?: DerNode[];
+}
+
+export const OID = {
+  commonName: "2.5.4.3",
+  subjectAltName: "2.5.29.17",
+  basicConstraints: "2.5.29.19",
+  extensionRequest: "1.2.840.113549.1.9.14",
+  sha256WithRSAEncryption: "1.2.840.113549.1.1.11",
+};
+
+const textEncoder = new TextEncoder();
+
+function concat(...parts: Uint8Array[]) {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function encodeLength(length: number): Uint8Array {
+  if (length < 0x80) {
+    return new Uint8Array([length]);
+  }
+  const bytes: number[] = [];
+  for (let n = length; n > 0; n = Math.floor(n / 256)) {
+    bytes.unshift(n & 0xff);
+  }
+  return new Uint8Array([0x80 | bytes.length, ...bytes]);
+}
+
+export function der(tag: number, ...contents: Uint8Array[]) {
+  const value = concat(...contents);
+  return concat(new Uint8Array([tag]), encodeLength(value.length), value);
+}
+
+export const sequence = (...contents: Uint8Array[]) => der(0x30, ...contents);
+export const set = (...contents: Uint8Array[]) => der(0x31, ...contents);
+export const nullValue = () => der(0x05);
+export const octetString = (bytes: Uint8Array) => der(0x04, bytes);
+export const utf8String = (text: string) => der(0x0c, textEncoder.encode(text));
+export const ia5String = (text: string) => der(0x16, textEncoder.encode(text));
+export const bitString = (bytes: Uint8Array) => der(0x03, new Uint8Array([0]), bytes);
+export const boolean = (value: boolean) => der(0x01, new Uint8Array([value ? 0xff : 0]));
+
+// Context-specific tag; constructed for EXPLICIT tagging or IMPLICIT
+// tagging of a constructed type
+export function tagged(number: number, constructed: boolean, ...contents: Uint8Array[]): Uint8Array {
+  return der(0x80 | (constructed ? 0x20 : 0) | number, ...contents);
+}
+
+// Non-negative integers only
+export function integer(value: number | Uint8Array): Uint8Array {
+  let bytes: number[];
+  if (typeof value === "number") {
+    bytes = [];
+    for (let n = value; n > 0; n = Math.floor(n / 256)) {
+      bytes.unshift(n & 0xff);
+    }
+    if (bytes.length === 0) bytes = [0];
+  } else {
+    bytes = [...value];
+    while (bytes.length > 1 && bytes[0] === 0 && bytes[1] < 0x80) bytes.shift();
+  }
+  if (bytes[0] >= 0x80) bytes.unshift(0);
+  return der(0x02, new Uint8Array(bytes));
+}
+
+export function oid(dotted: string): Uint8Array {
+  const parts = dotted.split(".").map(Number);
+  const bytes = [parts[0] * 40 + parts[1]];
+  for (const part of parts.slice(2)) {
+    const base128 = [part & 0x7f];
+    for (let n = Math.floor(part / 128); n > 0; n = Math.floor(n / 128)) {
+      base128.unshift(0x80 | (n & 0x7f));
+    }
+    bytes.push(...base128);
+  }
+  return der(0x06, new Uint8Array(bytes));
+}
+
+// UTCTime up to 2049, GeneralizedTime after that (RFC 5280, 4.1.2.5)
+export function time(date: Date): Uint8Array {
+  const iso = date.toISOString().replace(/[-:T]/g, "").replace(/\.\d+/, "");
+  return date.getUTCFullYear() < 2050
+    ? der(0x17, textEncoder.encode(iso.slice(2)))
+    : der(0x18, textEncoder.encode(iso));
+}
+
+export function name(commonName: string): Uint8Array {
+  return sequence(set(sequence(oid(OID.commonName), utf8String(commonName))));
+}
+
+export function subjectAltName(domains: string[]): Uint8Array {
+  const names = domains.map((domain) => tagged(2, false, textEncoder.encode(domain)));
+  return sequence(oid(OID.subjectAltName), octetString(sequence(...names)));
+}
+
+export function readDer(bytes: Uint8Array, offset = 0): DerNode {
+  const tag = bytes[offset];
+  let length = bytes[offset + 1];
+  let header = 2;
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    length = 0;
+    for (let i = 0; i < count; i++) {
+      length = length * 256 + bytes[offset + 2 + i];
+    }
+    header += count;
+  }
+  if (offset + header + length > bytes.length) {
+    throw new Error("Truncated DER data");
+  }
+
+  const node: DerNode = {
+    tag,
+    value: bytes.subarray(offset + header, offset + header + length),
+    raw: bytes.subarray(offset, offset + header + length),
+  };
+  if (tag & 0x20) {
+    node.children = [];
+    for (let position = 0; position < node.value.length;) {
+      const child = readDer(node.value, position);
+      node.children.push(child);
+      position += child.raw.length;
+    }
+  }
+  return node;
+}
+
+export function readOid(node: DerNode): string {
+  const parts = [Math.floor(node.value[0] / 40), node.value[0] % 40];
+  let current = 0;
+  for (const byte of node.value.subarray(1)) {
+    current = current * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) {
+      parts.push(current);
+      current = 0;
+    }
+  }
+  return parts.join(".");
+}
+
+export function toPem(label: string, bytes: Uint8Array): string {
+  const base64 = btoa(String.fromCharCode(...bytes));
+  return `-----BEGIN ${label}-----\n${base64.match(/.{1,64}/g)!.join("\n")}\n-----END ${label}-----\n`;
+}
+
+// Returns every block with the given label, in order
+export function fromPem(pem: string, label = "CERTIFICATE"): Uint8Array[] {
+  const pattern = new RegExp(`-----BEGIN ${label}-----([^-]+)-----END ${label}-----`, "g");
+  return [...pem.matchAll(pattern)].map((match) =>
+    Uint8Array.from(atob(match[1].replace(/\s+/g, "")), (c) => c.charCodeAt(0))
+  );
+}
+
+export interface CertificateInfo {
+  subject?: string;
+  // dNSName entries of the subjectAltName extension
+  domains: string[];
+  notBefore: Date;
+  notAfter: Date;
+}
+
+function readTime(node: DerNode): Date {
+  const text = new TextDecoder().decode(node.value);
+  const match = text.match(/^(\d{2}|\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})Z$/);
+  if (!match) {
+    throw new Error(`Unsupported certificate time '${text}'`);
+  }
+  let year = Number(match[1]);
+  if (node.tag === 0x17) {
+    year += year < 50 ? 2000 : 1900;
+  }
+  const [month, day, hour, minute, second] = match.slice(2).map(Number);
+  return new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+}
+
+// Reads the names and validity period of a DER certificate
+export function parseCertificate(bytes: Uint8Array): CertificateInfo {
+  const tbs = readDer(bytes).children?.[0];
+  if (!tbs?.children) {
+    throw new Error("Not an X.509 certificate");
+  }
+  // The version is optional and explicitly tagged [0]
+  const fields = tbs.children[0].tag === 0xa0 ? tbs.children.slice(1) : tbs.children;
+  const [, , , validity, subject] = fields;
+  const info: CertificateInfo = {
+    domains: [],
+    notBefore: readTime(validity.children![0]),
+    notAfter: readTime(validity.children![1]),
+  };
+
+  for (const rdn of subject.children || []) {
+    for (const attribute of rdn.children || []) {
+      if (readOid(attribute.children![0]) === OID.commonName) {
+        info.subject = new TextDecoder().decode(attribute.children![1].value);
+      }
+    }
+  }
+
+  const extensions = fields.find((field) => field.tag === 0xa3)?.children?.[0].children || [];
+  for (const extension of extensions) {
+    if (readOid(extension.children![0]) !== OID.subjectAltName) continue;
+    const names = readDer(extension.children![extension.children!.length - 1].value);
+    for (const name of names.children || []) {
+      if (name.tag === 0x82) info.domains.push(new TextDecoder().decode(name.value));
+    }
+  }
+  return info;
+}
+
+// Builds a PKCS#10 request for the given names, signed with an RSA key
+// created for RSASSA-PKCS1-v1_5 with SHA-256. The first name becomes the
+// common name; all of them go into the subjectAltName extension.
+export async function createCsr(domains: string[], keys: CryptoKeyPair): Promise<Uint8Array> {
+  const publicKey = new Uint8Array(await crypto.subtle.exportKey("spki", keys.publicKey));
+  const extensions = sequence(subjectAltName(domains));
+  const info = sequence(
+    integer(0),
+    name(domains[0]),
+    publicKey,
+    tagged(0, true, sequence(oid(OID.extensionRequest), set(extensions))),
+  );
+  const signature = new Uint8Array(await crypto.subtle.sign("RSASSA-PKCS1-v1_5", keys.privateKey, info));
+  return sequence(info, sequence(oid(OID.sha256WithRSAEncryption), nullValue()), bitString(signature));
+}
@@ -3,11 +3,46 @@ export interface UpstreamServer {
     weight?: number;
     maxFails?: number;
     failTimeout?: string;
+    maxConns?: number;
+    slowStart?: string;
+    backup?: boolean;
+    down?: boolean;
+}
+
+export interface LoadBalancing {
+    method: "round_robin" | "least_conn" | "ip_hash" | "hash" | "random";
+    key?: string;
+    consistent?: boolean;
+    two?: boolean;
+    twoMethod?: "least_conn";
+}
+
+export interface Upstream {
+    servers: UpstreamServer[];
+    loadBalancing?: LoadBalancing;
+    keepalive?: number;
+    keepaliveRequests?: number;
+    keepaliveTimeout?: string;
+    zone?: string;
+    zoneSize?: string;
+}
+
+export interface CacheZone {
+    path: string;
+    levels?: string;
+    keysZoneSize?: string;
+    maxSize?: string;
+    inactive?: string;
+    useTempPath?: boolean;
 }
 
 export interface CacheConfig {
     enabled: boolean;
+    zone: string;
     validTime?: string;
+    valid?: {
+        [statusCodes: string]: string;
+    };
     keys?: string[];
     useStale?: string[];
     minUses?: number;
@@ -15,12 +50,87 @@ export interface CacheConfig {
     noCache?: string[];
     noStore?: string[];
     methods?: string[];
+    lock?: boolean;
+    lockTimeout?: string;
+    backgroundUpdate?: boolean;
+    statusHeader?: boolean;
 }
 
-export interface RateLimit {
+export interface RateLimitZone {
+    key: string;
     rate: string;
+    size?: string;
+}
+
+export interface ConnectionLimitZone {
+    key: string;
+    size?: string;
+}
+
+// A `map` block defining `$<name>` from `source`. Matches and values are
+// taken literally and quoted as needed when written to the config.
+export interface VariableMap {
+    source: string;
+    default?: string;
+    hostnames?: boolean;
+    volatile?: boolean;
+    entries: {
+        match: string;
+        value: string;
+    }[];
+}
+
+// Named lists of addresses and CIDR ranges (IPv4 or IPv6), referenced by
+// access rules, geo entries and realIp
+export type IpList = string[];
+
+// Allows or denies an address, a CIDR range, "all", or every entry of a
+// named IP list. Rules are checked in order and the first match wins.
+export interface AccessRule {
+    action: "allow" | "deny";
+    address?: string;
+    list?: string;
+}
+
+// A `geo` block setting `$<name>` from the client address. Each entry maps an
+// address or CIDR range, or every entry of a named IP list, to a value.
+export interface GeoMap {
+    // Variable holding the address (default: $remote_addr, which is the real
+    // client address when realIp is set)
+    source?: string;
+    default?: string;
+    entries: {
+        address?: string;
+        list?: string;
+        value: string;
+    }[];
+}
+
+// Takes the client address from a header set by trusted proxies
+export interface RealIpConfig {
+    // Addresses or CIDR ranges of the proxies
+    from?: string[];
+    // Named IP lists of the proxies
+    fromLists?: string[];
+    // Header with the client address (default: X-Forwarded-For), or
+    // "proxy_protocol"
+    header?: string;
+    // Skip trusted addresses in the header from the right
+    recursive?: boolean;
+}
+
+export interface RateLimit {
+    zone: string;
     burstSize?: number;
+    delay?: number;
     nodelay?: boolean;
+    status?: number;
+}
+
+export interface ConnectionLimit {
+    zone: string;
+    connections: number;
+    status?: number;
 }
 
 export interface SecurityHeaders {
@@ -51,12 +161,86 @@ export interface SSLConfig {
     };
 }
 
+// Serves /.well-known/acme-challenge/ for http-01 validation, either by
+// proxying to tools/challenge-server.ts or from a webroot the challenge
+// files are written into. Exactly one of the two is set.
+export interface AcmeChallengeConfig {
+    proxy?: string;
+    webroot?: string;
+}
+
 export interface WebSocketConfig {
     enabled: boolean;
     timeout?: number;
     keepaliveTimeout?: number;
 }
 
+export interface BasicAuthUser {
+    username: string;
+    // Hashed with apr1 before the site is stored
+    password?: string;
+    // An existing htpasswd hash, e.g. from `htpasswd -nB`
+    passwordHash?: string;
+}
+
+// Access control for a location. With satisfy "any" a client from an allowed
+// address gets in without credentials; otherwise it needs both.
+export interface LocationAuth {
+    basic?: {
+        realm?: string;
+        // Written to a generated htpasswd file
+        users?: BasicAuthUser[];
+        // An existing htpasswd file, instead of users
+        userFile?: string;
+    };
+    // auth_request: a subrequest to uri, an internal location of the site,
+    // lets the request through on 2xx and denies it on 401 or 403. This is
+    // how JWTs or sessions are checked by an external service.
+    request?: {
+        uri: string;
+        // Response headers of the auth service passed on to the upstream,
+        // e.g. "X-User"
+        headers?: string[];
+    };
+    satisfy?: "all" | "any";
+    // Addresses or CIDR ranges; everyone else is denied
+    allow?: string[];
+}
+
+export type RedirectStatus = 301 | 302 | 307 | 308;
+
+// Sends requests for source to target. "exact" and "prefix" sources are
+// paths; a prefix redirect appends the rest of the path to the target.
+// "regex" sources are PCRE patterns whose groups the target can use as $1,
+// $2...
+export interface Redirect {
+    source: string;
+    // Default: exact
+    match?: "exact" | "prefix" | "regex";
+    // A path or an absolute URL
+    target: string;
+    // Default: 301
+    status?: RedirectStatus;
+    // Append the query string of the request (default: true)
+    keepQuery?: boolean;
+}
+
+// A server block answering for other host names with a redirect, e.g.
+// www.example.com to example.com, or an old domain to the site
+export interface HostRedirect {
+    serverNames: string[];
+    // URL to send clients to, optionally with a path (default: the site's
+    // first server name, over https when the site has SSL)
+    target?: string;
+    // Default: 301
+    status?: RedirectStatus;
+    // Keep the path and query string of the request (default: true)
+    keepPath?: boolean;
+    // Certificate for the names, when the site's does not cover them
+    certificate?: string;
+    certificateKey?: string;
+}
+
 export interface MicroserviceRoute {
     path: string;
     upstream: string;
@@ -72,26 +256,175 @@ export interface MicroserviceRoute {
     };
 }
 
-export interface NginxConfig {
+export interface SharedZones {
+    upstreams?: {
+        [name: string]: Upstream;
+    };
+    rateLimitZones?: {
+        [name: string]: RateLimitZone;
+    };
+    connectionLimitZones?: {
+        [name: string]: ConnectionLimitZone;
+    };
+    cacheZones?: {
+        [name: string]: CacheZone;
+    };
+    maps?: {
+        [variable: string]: VariableMap;
+    };
+    geo?: {
+        [variable: string]: GeoMap;
+    };
+    ipLists?: {
+        [name: string]: IpList;
+    };
+    logFormats?: {
+        [name: string]: string | LogFormat;
+    };
+}
+
+// A `log_format`. A plain string is a format as nginx takes it; fields are
+// written as a JSON object with escape=json, e.g. { "status": "$status" }
+export interface LogFormat {
+    format?: string;
+    fields?: {
+        [name: string]: string;
+    };
+    // How variables are escaped in format (default: nginx's own escaping)
+    escape?: "default" | "json" | "none";
+}
+
+export type LogLevel = "debug" | "info" | "notice" | "warn" | "error" | "crit" | "alert" | "emerg";
+
+// Sends logs to a syslog server instead of a file
+export interface SyslogTarget {
+    // "192.0.2.20", "logs.example.com:514" or "unix:/dev/log"
+    server: string;
+    // Default: local7
+    facility?: string;
+    // Severity of access log messages (default: info)
+    severity?: LogLevel;
+    // Default: nginx
+    tag?: string;
+    // Leave the hostname out of the messages
+    nohostname?: boolean;
+}
+
+export interface AccessLog {
+    // Absolute path of the log file; exactly one of path and syslog is required
+    path?: string;
+    syslog?: SyslogTarget;
+    // A declared log format, "combined" or the built-in "json" (default:
+    // combined)
+    format?: string;
+    // Buffer writes up to this size, e.g. "32k"
+    buffer?: string;
+    // Write buffered entries out at least this often, e.g. "5s"
+    flush?: string;
+    // Compress buffered entries; a level from 1 to 9, true for 1
+    gzip?: boolean | number;
+    // Log only requests for which this variable is neither empty nor "0",
+    // e.g. a map result
+    if?: string;
+}
+
+export interface ErrorLog {
+    // Absolute path of the log file; exactly one of path and syslog is required
+    path?: string;
+    syslog?: SyslogTarget;
+    // Least severe level logged (default: error)
+    level?: LogLevel;
+}
+
+// Logs of a server or a location. Access logs replace the inherited ones, an
+// empty list turns access logging off.
+export interface LogConfig {
+    access?: AccessLog[];
+    error?: ErrorLog;
+}
+
+export interface SiteLogConfig extends LogConfig {
+    // URIs left out of every access log of the site, e.g. health checks
+    skipPaths?: string[];
+}
+
+// A `listen` of a site
+export interface Listener {
+    port: number;
+    // IPv4 or IPv6 address to bind, e.g. "192.0.2.10" or "::" for all IPv6
+    // addresses; all IPv4 addresses when unset
+    address?: string;
+    // TLS over TCP (default: whether the site has SSL)
+    ssl?: boolean;
+    // HTTP/3 over UDP; needs SSL on the site and announces itself with an
+    // Alt-Svc header
+    quic?: boolean;
+    defaultServer?: boolean;
+    // A listening socket per worker; at most one server may set it per
+    // address and port
+    reuseport?: boolean;
+    // Expect the PROXY protocol header from the load balancer in front
+    acceptProxyProtocol?: boolean;
+}
+
+// Lint rules to leave out, by ID; on a location they only apply to it
+export interface LintSettings {
+    disable?: string[];
+}
+
+export interface NginxConfig extends SharedZones {
     domain: string;
     serverName: string;
+    // The port clients use; with listeners, one of them must be on it
     port: number;
+    defaultServer?: boolean;
+    // Replace the single `listen port` when set
+    listeners?: Listener[];
+    http2?: boolean;
     ssl?: SSLConfig;
+    acmeChallenge?: AcmeChallengeConfig;
     security?: SecurityHeaders;
-    clientMaxBodySize?: string;
-    upstreams?: {
-        [name: string]: UpstreamServer[];
+    realIp?: RealIpConfig;
+    access?: AccessRule[];
+    // Geo categories answered with 403, by geo variable; checked before the
+    // access rules
+    denyCategories?: {
+        [geoVariable: string]: string[];
     };
+    clientMaxBodySize?: string;
     gzip?: boolean;
     gzipTypes?: string[];
     microservices?: MicroserviceRoute[];
+    redirects?: Redirect[];
+    hostRedirects?: HostRedirect[];
+    // Redirects the www or apex counterpart of the first server name to it:
+    // "apex" answers www.example.com with a redirect to example.com, "www"
+    // the other way round
+    canonicalHost?: "www" | "apex";
+    logging?: SiteLogConfig;
+    lint?: LintSettings;
+    extraDirectives?: string[];
     locations: {
         path: string;
         proxyPass?: string;
+        // false leaves out the Host, X-Real-IP, X-Forwarded-For and
+        // X-Forwarded-Proto headers sent with proxyPass (default: true)
+        proxyHeaders?: boolean;
         root?: string;
         index?: string;
         try_files?: string;
         extraDirectives?: string[];
+        auth?: LocationAuth;
+        // Replaces the server's access rules
+        access?: AccessRule[];
+        // In addition to the server's denied categories
+        denyCategories?: {
+            [geoVariable: string]: string[];
+        };
+        // Internal location answering auth_request subrequests: the request
+        // body is not forwarded, the original URI and method are passed in
+        // X-Original-URI and X-Original-Method
+        authEndpoint?: boolean;
         php?: {
             enabled: boolean;
             socketPath?: string;
@@ -100,6 +433,9 @@ export interface NginxConfig {
         websocket?: WebSocketConfig;
         cache?: CacheConfig;
         rateLimit?: RateLimit;
+        connectionLimit?: ConnectionLimit;
+        logging?: LogConfig;
+        lint?: LintSettings;
         cors?: {
             enabled: boolean;
             origins?: string[];
@@ -108,4 +444,160 @@ export interface NginxConfig {
             credentials?: boolean;
         };
     }[];
-}
\ No newline at end of file
+}
+
+export interface MainContext {
+    user?: string;
+    workerProcesses?: number | "auto";
+    workerConnections?: number;
+    workerRlimitNofile?: number;
+    pid?: string;
+    errorLog?: string;
+    extraDirectives?: string[];
+}
+
+export interface HttpContext extends SharedZones {
+    // Raw arguments of access_log, e.g. "/var/log/nginx/access.log main"
+    accessLog?: string;
+    realIp?: RealIpConfig;
+    resolvers?: string[];
+    resolverTimeout?: string;
+    sendfile?: boolean;
+    keepaliveTimeout?: string;
+    serverTokens?: boolean;
+    extraDirectives?: string[];
+}
+
+// Body of POST /: a template with its parameters, or a complete config
+export interface ConfigRequest {
+    template?: string;
+    templateParams?: Record<string, any>;
+    config?: NginxConfig;
+}
+
+// A request to follow through a site with POST /sites/:domain/explain
+export interface ExplainRequest {
+    // Path and query string, e.g. "/blog/?p=1"
+    uri: string;
+    // Default: GET
+    method?: string;
+    // Default: the first server name of the site
+    host?: string;
+    // Default: https when the site has SSL
+    scheme?: "http" | "https";
+    // Default: the site's port, or 80/443 for the other scheme
+    port?: number;
+    // Explains this config instead of the stored one
+    config?: NginxConfig;
+}
+
+// An upstream of the stream context. ip_hash and keepalive only exist for
+// HTTP upstreams.
+export interface StreamUpstream {
+    servers: UpstreamServer[];
+    loadBalancing?: LoadBalancing;
+    zone?: string;
+    zoneSize?: string;
+}
+
+// A `server` block of the stream context, proxying TCP or UDP connections
+export interface StreamServer {
+    // Identifies the server in errors and comments, e.g. "postgres"
+    name: string;
+    port: number;
+    // Address to bind, all addresses when unset
+    address?: string;
+    protocol?: "tcp" | "udp";
+    // Expect the PROXY protocol header from the load balancer in front
+    acceptProxyProtocol?: boolean;
+    // Upstream name, host:port or a variable such as a map result
+    proxyPass: string;
+    // Send the PROXY protocol header to the upstream
+    proxyProtocol?: boolean;
+    proxyTimeout?: string;
+    proxyConnectTimeout?: string;
+    // Datagrams expected back per client datagram, UDP only
+    proxyResponses?: number;
+    // Terminate TLS; TCP only
+    ssl?: {
+        certificate: string;
+        certificateKey: string;
+        protocols?: string[];
+    };
+    // Read the SNI name of TLS connections without terminating them, so a map
+    // on $ssl_preread_server_name can choose the upstream; TCP only
+    sslPreread?: boolean;
+    extraDirectives?: string[];
+}
+
+// The stream {} context of nginx.conf
+export interface StreamContext {
+    upstreams?: {
+        [name: string]: StreamUpstream;
+    };
+    maps?: {
+        [variable: string]: VariableMap;
+    };
+    servers: StreamServer[];
+    extraDirectives?: string[];
+}
+
+export interface WorkspaceSite {
+    config: NginxConfig;
+    enabled?: boolean;
+    // File the site was imported from, if any
+    source?: string;
+}
+
+export interface Workspace {
+    main?: MainContext;
+    http?: HttpContext;
+    stream?: StreamContext;
+    sites: WorkspaceSite[];
+}
+
+export type TemplateParamType = "string" | "number" | "boolean" | "array" | "object";
+
+export interface TemplateParam {
+    type: TemplateParamType;
+    description: string;
+    required?: boolean;
+    default?: unknown;
+    // Allowed values of a string or number parameter
+    enum?: (string | number)[];
+    // Schema of each element of an array parameter
+    items?: TemplateParam;
+    // Schema of the fields of an object parameter
+    properties?: Record<string, TemplateParam>;
+}
+
+// What a template module exports as default; JSON templates have the same
+// fields but a `config` body instead of `render`
+export interface TemplateDefinition {
+    description: string;
+    params: Record<string, TemplateParam>;
+    // Called with parameters that passed the schema, defaults applied
+    render: (params: Record<string, any>) => NginxConfig;
+}
+
+// A JSON template in the templates directory, also the body of
+// PUT /templates/:name
+export interface JsonTemplate {
+    description: string;
+    params: Record<string, TemplateParam>;
+    // An NginxConfig with {{param}} placeholders and "$if" conditions
+    config: Record<string, unknown>;
+}
+
+// read may only read, operator may also generate and deploy, admin may
+// also manage API keys and templates
+export type Role = "read" | "operator" | "admin";
+
+// Body of POST /keys
+export interface NewApiKey {
+    name: string;
+    role: Role;
+    // Domains the key may act on, either exact or "*.team.example.com" for
+    // any subdomain; a key without domains may act on every site
+    domains?: string[];
+}
@@ -1,11 +1,22 @@
-import { NginxConfig } from "./types.ts";
+import { AccessRule, GeoMap, IpList, LintSettings, LocationAuth, LogConfig, NginxConfig, RealIpConfig, RedirectStatus, SharedZones, SiteLogConfig, StreamContext, SyslogTarget } from "./types.ts";
+import { htpasswdPath } from "./htpasswd.ts";
+import { Cidr, cidrContains, hasHostBits, parseCidr } from "./ip.ts";
+import { defaultRedirectTarget, hostRedirects, REDIRECT_STATUSES } from "./redirects.ts";
+import { describeListener, redirectListeners, siteListeners, socketKey } from "./listeners.ts";
+import { isInsideDirectory } from "./deploy.ts";
+import { LOG_LEVELS, skipLogMap, SYSLOG_FACILITIES } from "./logging.ts";
+import { LINT_RULES } from "./lint.ts";
+import { ExtraDirectivesPolicy, hasControlCharacters, splitArguments } from "./directives.ts";
+import { terminate } from "./generator.ts";
+import { DirectiveNode, NginxParser, NginxSyntaxError } from "./parser.ts";
+import { searchLocations } from "./routing.ts";
 
-interface ValidationError {
+export interface ValidationError {
     field: string;
     message: string;
 }
 
-export function validateConfig(config: NginxConfig): ValidationError[] {
+export function validateConfig(config: NginxConfig, shared: SharedZones = {}, policy: ExtraDirectivesPolicy = "all"): ValidationError[] {
     const errors: ValidationError[] = [];
 
     // Required fields
@@ -22,6 +33,9 @@ export function validateConfig(config: NginxConfig): ValidationError[] {
     if (typeof config.port !== "number" || config.port < 1 || config.port > 65535) {
         errors.push({ field: "port", message: "Port must be a number between 1 and 65535" });
     }
+    if (config.listeners !== undefined) {
+        errors.push(...validateListeners(config));
+    }
 
     // SSL Configuration
     if (config.ssl) {
@@ -37,6 +51,21 @@ export function validateConfig(config: NginxConfig): ValidationError[] {
         if (config.ssl.hsts?.maxAge && (typeof config.ssl.hsts.maxAge !== "number" || config.ssl.hsts.maxAge < 0)) {
             errors.push({ field: "ssl.hsts.maxAge", message: "HSTS max age must be a positive number" });
         }
+        if (config.ssl.forceRedirect && !errors.some(error => error.field === "port" || error.field.startsWith("listeners"))) {
+            errors.push(...validateRedirectSockets(config));
+        }
+    }
+
+    // ACME challenge location
+    if (config.acmeChallenge) {
+        const { proxy, webroot } = config.acmeChallenge;
+        if (!proxy === !webroot) {
+            errors.push({ field: "acmeChallenge", message: "Exactly one of proxy and webroot is required" });
+        } else if (proxy && !isValidUrl(proxy)) {
+            errors.push({ field: "acmeChallenge.proxy", message: "Invalid challenge server URL (e.g., 'http://127.0.0.1:8402')" });
+        } else if (webroot && !webroot.startsWith("/")) {
+            errors.push({ field: "acmeChallenge.webroot", message: "Webroot must be an absolute path" });
+        }
     }
 
     // Security Headers
@@ -48,6 +77,7 @@ export function validateConfig(config: NginxConfig): ValidationError[] {
     if (!config.locations || config.locations.length === 0) {
         errors.push({ field: "locations", message: "At least one location block is required" });
     } else {
+        const htpasswdFiles = new Map<string, string>();
         config.locations.forEach((loc, index) => {
             if (!loc.path) {
                 errors.push({ field: `locations[${index}].path`, message: "Location path is required" });
@@ -57,16 +87,75 @@ export function validateConfig(config: NginxConfig): ValidationError[] {
                 errors.push({ field: `locations[${index}].proxyPass`, message: "Invalid proxy_pass URL" });
             }
 
+            if (loc.auth) {
+                errors.push(...validateLocationAuth(config, index, `locations[${index}].auth`));
+                if (loc.path && loc.auth.basic?.users) {
+                    const path = htpasswdPath(config.domain, loc.path);
+                    const existing = htpasswdFiles.get(path);
+                    if (existing) {
+                        errors.push({ field: `locations[${index}].path`, message: `Location '${loc.path}' would share the htpasswd file of '${existing}'` });
+                    } else {
+                        htpasswdFiles.set(path, loc.path);
+                    }
+                }
+            }
+
+            if (loc.authEndpoint && !loc.proxyPass) {
+                errors.push({ field: `locations[${index}].authEndpoint`, message: "An auth endpoint must proxy to the auth service (proxyPass)" });
+            }
+
             if (loc.rateLimit) {
-                if (!isValidRateLimit(loc.rateLimit.rate)) {
-                    errors.push({ field: `locations[${index}].rateLimit.rate`, message: "Invalid rate limit format (e.g., '10r/s')" });
+                if (!loc.rateLimit.zone) {
+                    errors.push({ field: `locations[${index}].rateLimit.zone`, message: "Rate limit zone is required" });
+                } else if (!(config.rateLimitZones?.[loc.rateLimit.zone] || shared.rateLimitZones?.[loc.rateLimit.zone])) {
+                    errors.push({ field: `locations[${index}].rateLimit.zone`, message: `Rate limit zone '${loc.rateLimit.zone}' is not declared` });
                 }
                 if (loc.rateLimit.burstSize && (typeof loc.rateLimit.burstSize !== "number" || loc.rateLimit.burstSize < 0)) {
                     errors.push({ field: `locations[${index}].rateLimit.burstSize`, message: "Burst size must be a positive number" });
                 }
+                if (loc.rateLimit.delay !== undefined) {
+                    if (typeof loc.rateLimit.delay !== "number" || loc.rateLimit.delay < 0) {
+                        errors.push({ field: `locations[${index}].rateLimit.delay`, message: "Delay must be a positive number" });
+                    }
+                    if (loc.rateLimit.nodelay) {
+                        errors.push({ field: `locations[${index}].rateLimit.delay`, message: "Delay and nodelay cannot be used together" });
+                    }
+                }
+                if (loc.rateLimit.status && !isValidErrorStatus(loc.rateLimit.status)) {
+                    errors.push({ field: `locations[${index}].rateLimit.status`, message: "Rate limit status must be between 400 and 599" });
+                }
+            }
+
+            if (loc.connectionLimit) {
+                if (!loc.connectionLimit.zone) {
+                    errors.push({ field: `locations[${index}].connectionLimit.zone`, message: "Connection limit zone is required" });
+                } else if (!(config.connectionLimitZones?.[loc.connectionLimit.zone] || shared.connectionLimitZones?.[loc.connectionLimit.zone])) {
+                    errors.push({ field: `locations[${index}].connectionLimit.zone`, message: `Connection limit zone '${loc.connectionLimit.zone}' is not declared` });
+                }
+                if (!Number.isInteger(loc.connectionLimit.connections) || loc.connectionLimit.connections < 1) {
+                    errors.push({ field: `locations[${index}].connectionLimit.connections`, message: "Connections must be a positive integer" });
+                }
+                if (loc.connectionLimit.status && !isValidErrorStatus(loc.connectionLimit.status)) {
+                    errors.push({ field: `locations[${index}].connectionLimit.status`, message: "Connection limit status must be between 400 and 599" });
+                }
             }
 
             if (loc.cache?.enabled) {
+                if (!loc.cache.zone) {
+                    errors.push({ field: `locations[${index}].cache.zone`, message: "Cache zone is required" });
+                } else if (!(config.cacheZones?.[loc.cache.zone] || shared.cacheZones?.[loc.cache.zone])) {
+                    errors.push({ field: `locations[${index}].cache.zone`, message: `Cache zone '${loc.cache.zone}' is not declared` });
+                }
+                if (loc.cache.valid) {
+                    Object.entries(loc.cache.valid).forEach(([codes, time]) => {
+                        if (!codes.split(" ").every(code => code === "any" || /^[1-5]\d\d$/.test(code))) {
+                            errors.push({ field: `locations[${index}].cache.valid.${codes}`, message: "Cache validity keys must be status codes (e.g., '200 301') or 'any'" });
+                        }
+                        if (!isValidTime(time)) {
+                            errors.push({ field: `locations[${index}].cache.valid.${codes}`, message: "Invalid cache validity time (e.g., '10m')" });
+                        }
+                    });
+                }
                 if (loc.cache.minUses && (typeof loc.cache.minUses !== "number" || loc.cache.minUses < 0)) {
                     errors.push({ field: `locations[${index}].cache.minUses`, message: "Cache min uses must be a positive number" });
                 }
@@ -80,23 +169,408 @@ export function validateConfig(config: NginxConfig): ValidationError[] {
         });
     }
 
+    // Redirects
+    if (config.redirects !== undefined) {
+        errors.push(...validateRedirects(config));
+    }
+    if (config.hostRedirects !== undefined || config.canonicalHost !== undefined) {
+        errors.push(...validateHostRedirects(config));
+    }
+
+    // Client addresses and access control
+    const ipLists = { ...shared.ipLists, ...config.ipLists };
+    const geo = { ...shared.geo, ...config.geo };
+    if (config.realIp) {
+        errors.push(...validateRealIp(config.realIp, ipLists, "realIp"));
+    }
+    if (config.access !== undefined) {
+        errors.push(...validateAccessRules(config.access, ipLists, "access"));
+    }
+    if (config.denyCategories !== undefined) {
+        errors.push(...validateDenyCategories(config.denyCategories, geo, "denyCategories"));
+    }
+    config.locations?.forEach((loc, index) => {
+        if (loc.access !== undefined) {
+            errors.push(...validateAccessRules(loc.access, ipLists, `locations[${index}].access`));
+            if (loc.auth?.allow) {
+                errors.push({ field: `locations[${index}].access`, message: "Use either access or auth.allow, not both" });
+            }
+        }
+        if (loc.denyCategories !== undefined) {
+            errors.push(...validateDenyCategories(loc.denyCategories, geo, `locations[${index}].denyCategories`));
+        }
+    });
+
+    // Logging
+    if (config.logging !== undefined) {
+        errors.push(...validateLogging(config.logging, config, shared, "logging"));
+        if (config.logging.skipPaths !== undefined) {
+            errors.push(...validateSkipPaths(config.logging.skipPaths, config));
+        }
+    }
+    config.locations?.forEach((loc, index) => {
+        if (loc.logging !== undefined) {
+            errors.push(...validateLogging(loc.logging, config, shared, `locations[${index}].logging`));
+            if ((loc.logging as SiteLogConfig).skipPaths !== undefined) {
+                errors.push({ field: `locations[${index}].logging.skipPaths`, message: "skipPaths can only be set for the whole site" });
+            }
+        }
+    });
+
+    // Lint rules disabled for the site or a location
+    if (config.lint !== undefined) {
+        errors.push(...validateLintSettings(config.lint, "lint"));
+    }
+    config.locations?.forEach((loc, index) => {
+        if (loc.lint !== undefined) {
+            errors.push(...validateLintSettings(loc.lint, `locations[${index}].lint`));
+        }
+    });
+
+    // Directives written as they are
+    if (config.extraDirectives !== undefined) {
+        errors.push(...validateExtraDirectives(config.extraDirectives, "extraDirectives", policy));
+    }
+    config.locations?.forEach((loc, index) => {
+        if (loc.extraDirectives !== undefined) {
+            errors.push(...validateExtraDirectives(loc.extraDirectives, `locations[${index}].extraDirectives`, policy));
+        }
+    });
+    errors.push(...validateControlCharacters(config));
+
+    // Upstreams and shared zones
+    errors.push(...validateSharedZones(config, "", ipLists));
+
+    return errors;
+}
+
+// extraDirectives are the one place the generator writes config text as it
+// is, so each entry has to be exactly one complete directive, with its block
+// balanced, and one the policy allows
+export function validateExtraDirectives(directives: unknown, field: string, policy: ExtraDirectivesPolicy = "all"): ValidationError[] {
+    if (!Array.isArray(directives)) {
+        return [{ field, message: "extraDirectives must be a list of directives" }];
+    }
+    if (policy === "none" && directives.length > 0) {
+        return [{ field, message: "extraDirectives are not allowed on this server" }];
+    }
+    const errors: ValidationError[] = [];
+    directives.forEach((directive, index) => {
+        const entry = `${field}[${index}]`;
+        if (typeof directive !== "string" || !directive.trim()) {
+            errors.push({ field: entry, message: "Directive must be a non-empty string" });
+            return;
+        }
+        let nodes: DirectiveNode[];
+        try {
+            nodes = new NginxParser().parse(`${terminate(directive)}\n`);
+        } catch (error) {
+            if (!(error instanceof NginxSyntaxError)) {
+                throw error;
+            }
+            errors.push({ field: entry, message: `Invalid directive: ${error.message}` });
+            return;
+        }
+        if (nodes.length !== 1) {
+            errors.push({ field: entry, message: `Must be exactly one directive, found ${nodes.length}` });
+        } else if (Array.isArray(policy)) {
+            const denied = [...new Set(directiveNames(nodes[0]))].filter(name => !policy.includes(name));
+            if (denied.length > 0) {
+                errors.push({ field: entry, message: `Not allowed in extraDirectives: ${denied.join(", ")} (allowed: ${policy.join(", ")})` });
+            }
+        }
+    });
+    return errors;
+}
+
+function directiveNames(node: DirectiveNode): string[] {
+    return [node.name, ...(node.block || []).flatMap(directiveNames)];
+}
+
+// nginx has no escape for most control characters, and a line break in a
+// value written to a comment would end it. Object keys, such as map names
+// and FastCGI params, are checked too.
+export function validateControlCharacters(value: unknown, field = ""): ValidationError[] {
+    if (typeof value === "string") {
+        return hasControlCharacters(value) ? [{ field, message: "Control characters are not allowed" }] : [];
+    }
+    if (Array.isArray(value)) {
+        return value.flatMap((item, index) => validateControlCharacters(item, `${field}[${index}]`));
+    }
+    if (value && typeof value === "object") {
+        return Object.entries(value).flatMap(([key, item]) => {
+            const path = field ? `${field}.${key}` : key;
+            return hasControlCharacters(key)
+                ? [{ field: path, message: "Control characters are not allowed in names" }]
+                : validateControlCharacters(item, path);
+        });
+    }
+    return [];
+}
+
+// ipLists are the lists geo entries may name: those of the zones and, for a
+// site, those of the http context
+export function validateSharedZones(zones: SharedZones, prefix = "", ipLists: Record<string, IpList> = zones.ipLists || {}): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    // IP lists
+    if (zones.ipLists) {
+        Object.entries(zones.ipLists).forEach(([name, list]) => {
+            if (!isValidZoneName(name)) {
+                errors.push({ field: `${prefix}ipLists.${name}`, message: "Invalid IP list name" });
+            }
+            if (!Array.isArray(list) || list.length === 0) {
+                errors.push({ field: `${prefix}ipLists.${name}`, message: "IP list must have at least one address" });
+                return;
+            }
+            list.forEach((address, index) => {
+                const error = addressError(address);
+                if (error) {
+                    errors.push({ field: `${prefix}ipLists.${name}[${index}]`, message: error });
+                }
+            });
+        });
+    }
+
+    // Geo blocks
+    if (zones.geo) {
+        Object.entries(zones.geo).forEach(([name, geo]) => {
+            if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name)) {
+                errors.push({ field: `${prefix}geo.${name}`, message: "Invalid variable name" });
+            } else if (zones.maps?.[name]) {
+                errors.push({ field: `${prefix}geo.${name}`, message: `Variable '$${name}' is also set by a map` });
+            }
+            if (geo.source !== undefined && !/^\$[a-zA-Z_][a-zA-Z0-9_]*$/.test(geo.source)) {
+                errors.push({ field: `${prefix}geo.${name}.source`, message: "Geo source must be a variable (e.g., '$http_x_forwarded_for')" });
+            }
+            if (geo.default !== undefined && !isValidGeoValue(geo.default)) {
+                errors.push({ field: `${prefix}geo.${name}.default`, message: "Geo values may not contain whitespace, quotes, ';' or braces" });
+            }
+            if (!Array.isArray(geo.entries) || geo.entries.length === 0) {
+                errors.push({ field: `${prefix}geo.${name}.entries`, message: "Geo block must have at least one entry" });
+                return;
+            }
+            const seen = new Map<string, number>();
+            geo.entries.forEach((entry, index) => {
+                const field = `${prefix}geo.${name}.entries[${index}]`;
+                if ((entry?.address === undefined) === (entry?.list === undefined)) {
+                    errors.push({ field, message: "Exactly one of address and list is required" });
+                    return;
+                }
+                if (entry.address !== undefined) {
+                    const error = addressError(entry.address);
+                    if (error) {
+                        errors.push({ field: `${field}.address`, message: error });
+                    }
+                } else if (!Object.hasOwn(ipLists, entry.list!)) {
+                    errors.push({ field: `${field}.list`, message: `IP list '${entry.list}' is not declared` });
+                }
+                if (typeof entry.value !== "string" || !isValidGeoValue(entry.value)) {
+                    errors.push({ field: `${field}.value`, message: "Geo values may not contain whitespace, quotes, ';' or braces" });
+                }
+                for (const address of entry.list ? ipLists[entry.list] || [] : [entry.address!]) {
+                    const first = seen.get(address);
+                    if (first !== undefined) {
+                        errors.push({ field, message: `Address '${address}' is already mapped by entries[${first}]` });
+                    } else {
+                        seen.set(address, index);
+                    }
+                }
+            });
+        });
+    }
+
+    // Rate limit zones
+    if (zones.rateLimitZones) {
+        Object.entries(zones.rateLimitZones).forEach(([name, zone]) => {
+            if (!isValidZoneName(name)) {
+                errors.push({ field: `${prefix}rateLimitZones.${name}`, message: "Invalid zone name" });
+            }
+            if (!zone.key) {
+                errors.push({ field: `${prefix}rateLimitZones.${name}.key`, message: "Zone key is required (e.g., '$binary_remote_addr')" });
+            }
+            if (!zone.rate || !isValidRateLimit(zone.rate)) {
+                errors.push({ field: `${prefix}rateLimitZones.${name}.rate`, message: "Invalid rate limit format (e.g., '10r/s')" });
+            }
+            if (zone.size && !isValidSize(zone.size)) {
+                errors.push({ field: `${prefix}rateLimitZones.${name}.size`, message: "Invalid zone size (e.g., '10m')" });
+            }
+        });
+    }
+
+    if (zones.connectionLimitZones) {
+        Object.entries(zones.connectionLimitZones).forEach(([name, zone]) => {
+            if (!isValidZoneName(name)) {
+                errors.push({ field: `${prefix}connectionLimitZones.${name}`, message: "Invalid zone name" });
+            }
+            if (!zone.key) {
+                errors.push({ field: `${prefix}connectionLimitZones.${name}.key`, message: "Zone key is required (e.g., '$binary_remote_addr')" });
+            }
+            if (zone.size && !isValidSize(zone.size)) {
+                errors.push({ field: `${prefix}connectionLimitZones.${name}.size`, message: "Invalid zone size (e.g., '10m')" });
+            }
+        });
+    }
+
+    // Cache zones
+    if (zones.cacheZones) {
+        Object.entries(zones.cacheZones).forEach(([name, zone]) => {
+            if (!isValidZoneName(name)) {
+                errors.push({ field: `${prefix}cacheZones.${name}`, message: "Invalid zone name" });
+            }
+            if (!zone.path) {
+                errors.push({ field: `${prefix}cacheZones.${name}.path`, message: "Cache path is required" });
+            }
+            if (zone.levels && !/^[12](:[12]){0,2}$/.test(zone.levels)) {
+                errors.push({ field: `${prefix}cacheZones.${name}.levels`, message: "Invalid cache levels (e.g., '1:2')" });
+            }
+            if (zone.keysZoneSize && !isValidSize(zone.keysZoneSize)) {
+                errors.push({ field: `${prefix}cacheZones.${name}.keysZoneSize`, message: "Invalid keys zone size (e.g., '10m')" });
+            }
+            if (zone.maxSize && !isValidSize(zone.maxSize)) {
+                errors.push({ field: `${prefix}cacheZones.${name}.maxSize`, message: "Invalid max size (e.g., '1g')" });
+            }
+            if (zone.inactive && !isValidTime(zone.inactive)) {
+                errors.push({ field: `${prefix}cacheZones.${name}.inactive`, message: "Invalid inactive time (e.g., '60m')" });
+            }
+        });
+    }
+
+    // Maps
+    if (zones.maps) {
+        Object.entries(zones.maps).forEach(([name, map]) => {
+            if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name)) {
+                errors.push({ field: `${prefix}maps.${name}`, message: "Invalid variable name" });
+            }
+            if (!map.source || !map.source.includes("$")) {
+                errors.push({ field: `${prefix}maps.${name}.source`, message: "Map source must contain a variable (e.g., '$uri')" });
+            }
+            if (!Array.isArray(map.entries)) {
+                errors.push({ field: `${prefix}maps.${name}.entries`, message: "Map entries must be an array" });
+                return;
+            }
+            const matches = new Set<string>();
+            map.entries.forEach((entry, index) => {
+                if (typeof entry.match !== "string" || entry.value === undefined) {
+                    errors.push({ field: `${prefix}maps.${name}.entries[${index}]`, message: "Map entries need a match and a value" });
+                } else if (matches.has(entry.match)) {
+                    errors.push({ field: `${prefix}maps.${name}.entries[${index}].match`, message: `Duplicate match '${entry.match}'` });
+                }
+                matches.add(entry.match);
+            });
+        });
+    }
+
+    // Log formats
+    if (zones.logFormats) {
+        Object.entries(zones.logFormats).forEach(([name, format]) => {
+            const field = `${prefix}logFormats.${name}`;
+            if (!isValidZoneName(name)) {
+                errors.push({ field, message: "Invalid log format name" });
+            } else if (name === "combined") {
+                errors.push({ field, message: "The 'combined' format is predefined by nginx" });
+            }
+            if (typeof format === "string") {
+                if (!isValidLogFormat(format)) {
+                    errors.push({ field, message: "Log format must be a non-empty string without single quotes" });
+                }
+                return;
+            }
+            if ((format?.format === undefined) === (format?.fields === undefined)) {
+                errors.push({ field, message: "Exactly one of format and fields is required" });
+                return;
+            }
+            if (format.format !== undefined && !isValidLogFormat(format.format)) {
+                errors.push({ field: `${field}.format`, message: "Log format must be a non-empty string without single quotes" });
+            }
+            if (format.fields !== undefined) {
+                const fields = Object.entries(format.fields || {});
+                if (fields.length === 0) {
+                    errors.push({ field: `${field}.fields`, message: "A JSON log format needs at least one field" });
+                }
+                fields.forEach(([key, value]) => {
+                    if (!/^[\w.@-]+$/.test(key)) {
+                        errors.push({ field: `${field}.fields.${key}`, message: "Field names may only contain letters, digits, '_', '.', '@' and '-'" });
+                    }
+                    if (typeof value !== "string" || /['"\\]/.test(value)) {
+                        errors.push({ field: `${field}.fields.${key}`, message: "Field values must be strings without quotes or backslashes (e.g., '$request_uri')" });
+                    }
+                });
+                if (format.escape !== undefined) {
+                    errors.push({ field: `${field}.escape`, message: "Fields are always escaped for JSON" });
+                }
+            } else if (format.escape !== undefined && !["default", "json", "none"].includes(format.escape)) {
+                errors.push({ field: `${field}.escape`, message: "Escape must be one of default, json or none" });
+            }
+        });
+    }
+
     // Upstreams
-    if (config.upstreams) {
-        Object.entries(config.upstreams).forEach(([name, servers]) => {
-            if (!servers || servers.length === 0) {
-                errors.push({ field: `upstreams.${name}`, message: "Upstream must have at least one server" });
+    if (zones.upstreams) {
+        Object.entries(zones.upstreams).forEach(([name, upstream]) => {
+            const method = upstream.loadBalancing?.method;
+
+            if (!upstream.servers || upstream.servers.length === 0) {
+                errors.push({ field: `${prefix}upstreams.${name}.servers`, message: "Upstream must have at least one server" });
             } else {
-                servers.forEach((server, index) => {
+                upstream.servers.forEach((server, index) => {
                     if (!server.address) {
-                        errors.push({ field: `upstreams.${name}[${index}].address`, message: "Server address is required" });
+                        errors.push({ field: `${prefix}upstreams.${name}.servers[${index}].address`, message: "Server address is required" });
                     }
                     if (server.weight && (typeof server.weight !== "number" || server.weight < 0)) {
-                        errors.push({ field: `upstreams.${name}[${index}].weight`, message: "Weight must be a positive number" });
+                        errors.push({ field: `${prefix}upstreams.${name}.servers[${index}].weight`, message: "Weight must be a positive number" });
                     }
                     if (server.maxFails && (typeof server.maxFails !== "number" || server.maxFails < 0)) {
-                        errors.push({ field: `upstreams.${name}[${index}].maxFails`, message: "Max fails must be a positive number" });
+                        errors.push({ field: `${prefix}upstreams.${name}.servers[${index}].maxFails`, message: "Max fails must be a positive number" });
+                    }
+                    if (server.maxConns && (typeof server.maxConns !== "number" || server.maxConns < 0)) {
+                        errors.push({ field: `${prefix}upstreams.${name}.servers[${index}].maxConns`, message: "Max connections must be a positive number" });
+                    }
+                    if (server.backup && (method === "hash" || method === "ip_hash" || method === "random")) {
+                        errors.push({ field: `${prefix}upstreams.${name}.servers[${index}].backup`, message: `Backup servers cannot be used with the '${method}' load balancing method` });
+                    }
+                    if (server.slowStart && (method === "hash" || method === "ip_hash" || method === "random")) {
+                        errors.push({ field: `${prefix}upstreams.${name}.servers[${index}].slowStart`, message: `Slow start cannot be used with the '${method}' load balancing method` });
                     }
                 });
+                if (upstream.servers.every(server => server.backup || server.down)) {
+                    errors.push({ field: `${prefix}upstreams.${name}.servers`, message: "Upstream must have at least one active non-backup server" });
+                }
+            }
+
+            if (upstream.loadBalancing) {
+                const balancing = upstream.loadBalancing;
+                if (!["round_robin", "least_conn", "ip_hash", "hash", "random"].includes(balancing.method)) {
+                    errors.push({ field: `${prefix}upstreams.${name}.loadBalancing.method`, message: "Invalid load balancing method" });
+                }
+                if (method === "hash" && !balancing.key) {
+                    errors.push({ field: `${prefix}upstreams.${name}.loadBalancing.key`, message: "Hash load balancing requires a key (e.g., '$request_uri')" });
+                }
+                if (method !== "hash" && (balancing.key || balancing.consistent)) {
+                    errors.push({ field: `${prefix}upstreams.${name}.loadBalancing`, message: "Key and consistent are only valid with the 'hash' method" });
+                }
+                if (method !== "random" && (balancing.two || balancing.twoMethod)) {
+                    errors.push({ field: `${prefix}upstreams.${name}.loadBalancing`, message: "Two and twoMethod are only valid with the 'random' method" });
+                }
+                if (balancing.twoMethod && !balancing.two) {
+                    errors.push({ field: `${prefix}upstreams.${name}.loadBalancing.twoMethod`, message: "twoMethod requires two to be enabled" });
+                }
+            }
+
+            if (upstream.keepalive !== undefined && (!Number.isInteger(upstream.keepalive) || upstream.keepalive < 1)) {
+                errors.push({ field: `${prefix}upstreams.${name}.keepalive`, message: "Keepalive must be a positive integer" });
+            }
+            if (!upstream.keepalive && (upstream.keepaliveRequests || upstream.keepaliveTimeout)) {
+                errors.push({ field: `${prefix}upstreams.${name}.keepalive`, message: "keepaliveRequests and keepaliveTimeout require keepalive to be set" });
+            }
+            if (upstream.keepaliveTimeout && !isValidTime(upstream.keepaliveTimeout)) {
+                errors.push({ field: `${prefix}upstreams.${name}.keepaliveTimeout`, message: "Invalid keepalive timeout (e.g., '60s')" });
+            }
+            if (upstream.zone && !isValidZoneName(upstream.zone)) {
+                errors.push({ field: `${prefix}upstreams.${name}.zone`, message: "Invalid zone name" });
+            }
+            if (upstream.zoneSize && !isValidSize(upstream.zoneSize)) {
+                errors.push({ field: `${prefix}upstreams.${name}.zoneSize`, message: "Invalid zone size (e.g., '64k')" });
             }
         });
     }
@@ -104,6 +578,640 @@ export function validateConfig(config: NginxConfig): ValidationError[] {
     return errors;
 }
 
+export function validateStream(stream: StreamContext, prefix = "stream."): ValidationError[] {
+    const errors = validateSharedZones({ upstreams: stream.upstreams, maps: stream.maps }, prefix);
+
+    Object.entries(stream.upstreams || {}).forEach(([name, upstream]) => {
+        if (upstream.loadBalancing?.method === "ip_hash") {
+            errors.push({ field: `${prefix}upstreams.${name}.loadBalancing.method`, message: "ip_hash is not available for stream upstreams; use hash $remote_addr" });
+        }
+    });
+
+    if (!Array.isArray(stream.servers) || stream.servers.length === 0) {
+        errors.push({ field: `${prefix}servers`, message: "At least one stream server is required" });
+        return errors;
+    }
+
+    const names = new Set<string>();
+    const listeners = new Map<string, string>();
+    stream.servers.forEach((server, index) => {
+        const field = `${prefix}servers[${index}]`;
+        const protocol = server.protocol || "tcp";
+
+        if (!server.name) {
+            errors.push({ field: `${field}.name`, message: "Stream server name is required" });
+        } else if (names.has(server.name)) {
+            errors.push({ field: `${field}.name`, message: `Stream server name '${server.name}' is already used` });
+        }
+        names.add(server.name);
+
+        if (!Number.isInteger(server.port) || server.port < 1 || server.port > 65535) {
+            errors.push({ field: `${field}.port`, message: "Port must be between 1 and 65535" });
+        }
+        if (protocol !== "tcp" && protocol !== "udp") {
+            errors.push({ field: `${field}.protocol`, message: "Protocol must be 'tcp' or 'udp'" });
+        }
+        const listener = `${server.address || "*"}:${server.port}/${protocol}`;
+        const existing = listeners.get(listener);
+        if (existing) {
+            errors.push({ field: `${field}.port`, message: `${protocol.toUpperCase()} port ${server.port} is already used by stream server '${existing}'` });
+        } else {
+            listeners.set(listener, server.name);
+        }
+
+        if (!server.proxyPass) {
+            errors.push({ field: `${field}.proxyPass`, message: "proxyPass is required" });
+        } else if (server.proxyPass.startsWith("$")) {
+            if (!stream.maps?.[server.proxyPass.slice(1)]) {
+                errors.push({ field: `${field}.proxyPass`, message: `Variable '${server.proxyPass}' is not defined by a stream map` });
+            }
+        } else if (!server.proxyPass.includes(":") && !stream.upstreams?.[server.proxyPass]) {
+            errors.push({ field: `${field}.proxyPass`, message: `Upstream '${server.proxyPass}' is not defined in the stream context (use host:port for a single server)` });
+        }
+
+        if (protocol === "udp" && (server.ssl || server.sslPreread)) {
+            errors.push({ field: `${field}.protocol`, message: "TLS termination and ssl_preread are only available over TCP" });
+        }
+        if (server.ssl && server.sslPreread) {
+            errors.push({ field: `${field}.sslPreread`, message: "sslPreread passes TLS through and cannot be combined with ssl termination" });
+        }
+        if (server.ssl && (!server.ssl.certificate || !server.ssl.certificateKey)) {
+            errors.push({ field: `${field}.ssl`, message: "SSL certificate and key are required" });
+        }
+        if (server.proxyResponses !== undefined) {
+            if (protocol !== "udp") {
+                errors.push({ field: `${field}.proxyResponses`, message: "proxyResponses only applies to UDP" });
+            } else if (!Number.isInteger(server.proxyResponses) || server.proxyResponses < 0) {
+                errors.push({ field: `${field}.proxyResponses`, message: "proxyResponses must be a non-negative integer" });
+            }
+        }
+        if (server.proxyTimeout && !isValidTime(server.proxyTimeout)) {
+            errors.push({ field: `${field}.proxyTimeout`, message: "Invalid proxy timeout (e.g., '10m')" });
+        }
+        if (server.proxyConnectTimeout && !isValidTime(server.proxyConnectTimeout)) {
+            errors.push({ field: `${field}.proxyConnectTimeout`, message: "Invalid proxy connect timeout (e.g., '5s')" });
+        }
+    });
+
+    return errors;
+}
+
+function validateLocationAuth(config: NginxConfig, index: number, field: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const location = config.locations[index];
+    const auth: LocationAuth = location.auth!;
+
+    if (!auth.basic && !auth.request && !auth.allow) {
+        errors.push({ field, message: "At least one of basic, request and allow is required" });
+    }
+
+    if (auth.basic) {
+        const { realm, users, userFile } = auth.basic;
+        if (!users === !userFile) {
+            errors.push({ field: `${field}.basic`, message: "Exactly one of users and userFile is required" });
+        } else if (users && (!Array.isArray(users) || users.length === 0)) {
+            errors.push({ field: `${field}.basic.users`, message: "At least one user is required" });
+        } else if (users) {
+            const usernames = new Set<string>();
+            users.forEach((user, i) => {
+                if (typeof user?.username !== "string" || !/^[^:\s]+$/.test(user.username)) {
+                    errors.push({ field: `${field}.basic.users[${i}].username`, message: "Username is required and may not contain ':' or whitespace" });
+                } else if (usernames.has(user.username)) {
+                    errors.push({ field: `${field}.basic.users[${i}].username`, message: `Duplicate user '${user.username}'` });
+                } else {
+                    usernames.add(user.username);
+                }
+                if ((user?.password === undefined) === (user?.passwordHash === undefined)) {
+                    errors.push({ field: `${field}.basic.users[${i}]`, message: "Exactly one of password and passwordHash is required" });
+                } else if (user.password !== undefined && (typeof user.password !== "string" || !user.password)) {
+                    errors.push({ field: `${field}.basic.users[${i}].password`, message: "Password must be a non-empty string" });
+                } else if (user.passwordHash !== undefined && !/^[^:\s]+$/.test(user.passwordHash)) {
+                    errors.push({ field: `${field}.basic.users[${i}].passwordHash`, message: "Invalid password hash (e.g., '$apr1$...' or '$2y$...')" });
+                }
+            });
+        } else if (/\s/.test(userFile!)) {
+            errors.push({ field: `${field}.basic.userFile`, message: "User file path may not contain whitespace" });
+        }
+        if (realm !== undefined && !/^[^"\\\x00-\x1f]*$/.test(realm)) {
+            errors.push({ field: `${field}.basic.realm`, message: "Realm may not contain quotes, backslashes or control characters" });
+        }
+    }
+
+    if (auth.request) {
+        const { uri, headers } = auth.request;
+        if (typeof uri !== "string" || !/^\/\S*$/.test(uri)) {
+            errors.push({ field: `${field}.request.uri`, message: "Auth URI must be a path (e.g., '/_auth')" });
+        } else {
+            // The site's locations as nginx reads them; ones without a path never match
+            const locations = config.locations.map((other): DirectiveNode => {
+                const args = splitArguments(typeof other.path === "string" ? other.path : "");
+                return { name: args.length ? "location" : "", args, line: 0, column: 0, block: [] };
+            });
+            const endpoint = locations.indexOf(searchLocations(locations, uri).chain[0]);
+            if (endpoint === -1) {
+                errors.push({ field: `${field}.request.uri`, message: `No location of the site serves the auth endpoint '${uri}'` });
+            } else if (endpoint === index) {
+                errors.push({ field: `${field}.request.uri`, message: `The auth endpoint '${uri}' is served by this location itself; add an internal location for it` });
+            } else if (config.locations[endpoint].auth?.request) {
+                errors.push({ field: `${field}.request.uri`, message: `The auth endpoint '${config.locations[endpoint].path}' requires auth_request itself` });
+            }
+        }
+        if (headers !== undefined) {
+            if (!Array.isArray(headers) || headers.some(header => typeof header !== "string" || !/^[A-Za-z0-9-]+$/.test(header))) {
+                errors.push({ field: `${field}.request.headers`, message: "Headers must be a list of header names (e.g., 'X-User')" });
+            } else if (headers.length > 0 && !location.proxyPass && !location.php?.enabled) {
+                errors.push({ field: `${field}.request.headers`, message: "Headers can only be passed on by proxyPass or PHP locations" });
+            }
+        }
+    }
+
+    if (auth.satisfy !== undefined && !["all", "any"].includes(auth.satisfy)) {
+        errors.push({ field: `${field}.satisfy`, message: "Satisfy must be 'all' or 'any'" });
+    } else if (auth.satisfy === "any" && (!auth.allow?.length || (!auth.basic && !auth.request))) {
+        errors.push({ field: `${field}.satisfy`, message: "Satisfy 'any' needs an allow list and basic or request auth" });
+    }
+
+    if (auth.allow !== undefined) {
+        if (!Array.isArray(auth.allow) || auth.allow.length === 0) {
+            errors.push({ field: `${field}.allow`, message: "Allow must be a non-empty list of addresses" });
+        } else {
+            auth.allow.forEach((address, i) => {
+                const error = addressError(address);
+                if (error) {
+                    errors.push({ field: `${field}.allow[${i}]`, message: error });
+                }
+            });
+        }
+    }
+
+    return errors;
+}
+
+export function validateRealIp(realIp: RealIpConfig, ipLists: Record<string, IpList>, field: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+    if (!realIp.from?.length && !realIp.fromLists?.length) {
+        errors.push({ field, message: "At least one trusted proxy (from or fromLists) is required" });
+    }
+    (realIp.from || []).forEach((address, index) => {
+        const error = address === "unix:" ? null : addressError(address);
+        if (error) {
+            errors.push({ field: `${field}.from[${index}]`, message: error });
+        }
+    });
+    (realIp.fromLists || []).forEach((name, index) => {
+        if (!Object.hasOwn(ipLists, name)) {
+            errors.push({ field: `${field}.fromLists[${index}]`, message: `IP list '${name}' is not declared` });
+        }
+    });
+    if (realIp.header !== undefined && !/^[A-Za-z0-9-]+$/.test(realIp.header)) {
+        errors.push({ field: `${field}.header`, message: "Header must be a header name (e.g., 'X-Forwarded-For') or 'proxy_protocol'" });
+    }
+    return errors;
+}
+
+function validateAccessRules(rules: AccessRule[], ipLists: Record<string, IpList>, field: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+    if (!Array.isArray(rules)) {
+        return [{ field, message: "Access rules must be an array" }];
+    }
+    rules.forEach((rule, index) => {
+        if (rule?.action !== "allow" && rule?.action !== "deny") {
+            errors.push({ field: `${field}[${index}].action`, message: "Action must be 'allow' or 'deny'" });
+        }
+        if ((rule?.address === undefined) === (rule?.list === undefined)) {
+            errors.push({ field: `${field}[${index}]`, message: "Exactly one of address and list is required" });
+        } else if (rule.address !== undefined) {
+            const error = rule.address === "all" ? null : addressError(rule.address);
+            if (error) {
+                errors.push({ field: `${field}[${index}].address`, message: error });
+            }
+        } else if (!Object.hasOwn(ipLists, rule.list!)) {
+            errors.push({ field: `${field}[${index}].list`, message: `IP list '${rule.list}' is not declared` });
+        }
+    });
+    return errors;
+}
+
+function validateDenyCategories(categories: Record<string, string[]>, geo: Record<string, GeoMap>, field: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+    for (const [variable, values] of Object.entries(categories || {})) {
+        if (!Object.hasOwn(geo, variable)) {
+            errors.push({ field: `${field}.${variable}`, message: `Geo variable '${variable}' is not declared` });
+        }
+        if (!Array.isArray(values) || values.length === 0 || !values.every(value => typeof value === "string" && /^[\w.-]+$/.test(value))) {
+            errors.push({ field: `${field}.${variable}`, message: "Categories must be a non-empty list of values (letters, digits, '_', '.', '-')" });
+        }
+    }
+    return errors;
+}
+
+// With renewal on, certificates and keys are written to the paths of the
+// stored sites, so those have to lie inside the certificate directory
+export function validateCertificatePaths(config: NginxConfig, dir: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+    for (const key of ["certificate", "certificateKey"] as const) {
+        const path = config.ssl?.[key];
+        if (typeof path === "string" && !isInsideDirectory(path, dir)) {
+            errors.push({ field: `ssl.${key}`, message: `Must be an absolute path inside the certificate directory ${dir}` });
+        }
+    }
+    return errors;
+}
+
+function validateListeners(config: NginxConfig): ValidationError[] {
+    const errors: ValidationError[] = [];
+    if (!Array.isArray(config.listeners) || config.listeners.length === 0) {
+        return [{ field: "listeners", message: "Listeners must be a non-empty array" }];
+    }
+    if (config.defaultServer) {
+        errors.push({ field: "defaultServer", message: "With listeners, set defaultServer on the listeners instead" });
+    }
+    if (!config.listeners.some(listener => listener?.port === config.port && !listener.quic)) {
+        errors.push({ field: "listeners", message: `One TCP listener must be on port ${config.port}` });
+    }
+
+    const sockets = new Map<string, number>();
+    config.listeners.forEach((listener, index) => {
+        const field = `listeners[${index}]`;
+        if (!Number.isInteger(listener?.port) || listener.port < 1 || listener.port > 65535) {
+            errors.push({ field: `${field}.port`, message: "Port must be between 1 and 65535" });
+            return;
+        }
+        if (listener.address !== undefined) {
+            const cidr = typeof listener.address === "string" ? parseCidr(listener.address) : null;
+            if (!cidr || listener.address.includes("/")) {
+                errors.push({ field: `${field}.address`, message: "Address must be an IPv4 or IPv6 address without brackets (e.g., '192.0.2.10' or '::')" });
+            }
+        }
+        if (listener.quic) {
+            if (!config.ssl) {
+                errors.push({ field: `${field}.quic`, message: "QUIC needs the SSL certificate of the site" });
+            }
+            if (listener.ssl) {
+                errors.push({ field: `${field}.ssl`, message: "QUIC brings its own TLS; ssl cannot be set on a QUIC listener" });
+            }
+            if (listener.acceptProxyProtocol) {
+                errors.push({ field: `${field}.acceptProxyProtocol`, message: "The PROXY protocol is not available over QUIC" });
+            }
+        } else if (listener.ssl && !config.ssl) {
+            errors.push({ field: `${field}.ssl`, message: "SSL listeners need the ssl section of the site" });
+        }
+
+        const key = socketKey(listener);
+        const first = sockets.get(key);
+        if (first !== undefined) {
+            errors.push({ field, message: `${describeListener(listener)} is already used by listeners[${first}]` });
+        } else {
+            sockets.set(key, index);
+        }
+    });
+    return errors;
+}
+
+// The HTTP to HTTPS redirect server listens on port 80 of the site's
+// addresses. nginx keeps ssl per socket, so a site listener there would turn
+// the redirect server's socket into an SSL one (listeners default to ssl with
+// an ssl section), or serve the same names as the redirect server.
+function validateRedirectSockets(config: NginxConfig): ValidationError[] {
+    const redirectSockets = new Set(redirectListeners(config).map(socketKey));
+    return siteListeners(config).flatMap((listener, index) => {
+        if (listener.quic || !redirectSockets.has(socketKey(listener))) {
+            return [];
+        }
+        return [{
+            field: config.listeners ? `listeners[${index}]` : "port",
+            message: listener.ssl
+                ? `${describeListener(listener)} is used by the HTTP to HTTPS redirect server of ssl.forceRedirect, which cannot share it with an ssl listener`
+                : `${describeListener(listener)} is used by the HTTP to HTTPS redirect server of ssl.forceRedirect`
+        }];
+    });
+}
+
+function validateRedirects(config: NginxConfig): ValidationError[] {
+    const errors: ValidationError[] = [];
+    if (!Array.isArray(config.redirects)) {
+        return [{ field: "redirects", message: "Redirects must be an array" }];
+    }
+
+    // Locations the redirects would duplicate; nginx refuses to start then
+    const locations = new Map<string, string>();
+    for (const loc of config.locations || []) {
+        const [, modifier = "", path] = (loc.path || "").match(/^(?:(=|\^~|~\*?)\s+)?(.*)$/)!;
+        if (!modifier.startsWith("~")) {
+            locations.set(`${modifier === "=" ? "exact" : "prefix"} ${path}`, loc.path);
+        }
+    }
+    const sources = new Map<string, number>();
+
+    config.redirects.forEach((redirect, index) => {
+        const field = `redirects[${index}]`;
+        const match = redirect?.match ?? "exact";
+        if (!["exact", "prefix", "regex"].includes(match)) {
+            errors.push({ field: `${field}.match`, message: "Match must be 'exact', 'prefix' or 'regex'" });
+            return;
+        }
+
+        let groups = 0;
+        if (typeof redirect.source !== "string" || !redirect.source) {
+            errors.push({ field: `${field}.source`, message: "Source is required" });
+            return;
+        } else if (/[\s;"'`]/.test(redirect.source) || (match !== "regex" && /[{}]/.test(redirect.source))) {
+            errors.push({ field: `${field}.source`, message: "Sources may not contain whitespace, quotes, ';' or, unless regexes, braces" });
+        } else if (match === "regex") {
+            try {
+                groups = new RegExp(`${redirect.source}|`).exec("")!.length - 1;
+            } catch {
+                errors.push({ field: `${field}.source`, message: "Invalid regular expression" });
+            }
+        } else if (!redirect.source.startsWith("/") || /[?#]/.test(redirect.source)) {
+            errors.push({ field: `${field}.source`, message: "Source must be a path starting with '/', without query string" });
+        } else {
+            const location = locations.get(`${match} ${redirect.source}`);
+            if (location) {
+                errors.push({ field: `${field}.source`, message: `Location '${location}' already serves '${redirect.source}'` });
+            }
+        }
+
+        const key = `${match} ${redirect.source}`;
+        const first = sources.get(key);
+        if (first !== undefined) {
+            errors.push({ field: `${field}.source`, message: `'${redirect.source}' is already redirected by redirects[${first}]` });
+        } else {
+            sources.set(key, index);
+        }
+
+        const target = redirect.target;
+        if (typeof target !== "string" || !/^(\/|https?:\/\/[^/\s]+)/.test(target)) {
+            errors.push({ field: `${field}.target`, message: "Target must be a path or an absolute http(s) URL" });
+        } else if (/[\s;{}"'`]/.test(target)) {
+            errors.push({ field: `${field}.target`, message: "Targets may not contain whitespace, quotes, ';' or braces" });
+        } else {
+            if (target.includes("?") && redirect.keepQuery !== false) {
+                errors.push({ field: `${field}.keepQuery`, message: "Target has a query string of its own; set keepQuery to false" });
+            }
+            const reference = [...target.matchAll(/\$(\d)/g)].find(([, n]) => Number(n) > groups);
+            if (reference) {
+                errors.push({ field: `${field}.target`, message: `'${reference[0]}' does not refer to a group of the source` });
+            }
+            if (match === "exact" && target === redirect.source) {
+                errors.push({ field: `${field}.target`, message: "Redirect points to itself" });
+            }
+        }
+
+        if (redirect.status !== undefined && !REDIRECT_STATUSES.includes(redirect.status)) {
+            errors.push({ field: `${field}.status`, message: `Status must be one of ${REDIRECT_STATUSES.join(", ")}` });
+        }
+    });
+    return errors;
+}
+
+function validateHostRedirects(config: NginxConfig): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const siteNames = new Set((config.serverName || "").split(/\s+/).filter(Boolean));
+    const first = [...siteNames][0] || "";
+
+    if (config.canonicalHost !== undefined) {
+        if (!["www", "apex"].includes(config.canonicalHost)) {
+            errors.push({ field: "canonicalHost", message: "Canonical host must be 'www' or 'apex'" });
+        } else if ((config.canonicalHost === "www") !== first.startsWith("www.")) {
+            errors.push({
+                field: "canonicalHost",
+                message: config.canonicalHost === "www"
+                    ? `The first server name '${first}' must start with 'www.'`
+                    : `The first server name '${first}' must not start with 'www.'`
+            });
+        }
+    }
+    if (config.hostRedirects !== undefined && !Array.isArray(config.hostRedirects)) {
+        errors.push({ field: "hostRedirects", message: "Host redirects must be an array" });
+        return errors;
+    }
+    if (errors.length > 0) {
+        return errors;
+    }
+
+    // canonicalHost comes first in hostRedirects()
+    const offset = config.canonicalHost ? 1 : 0;
+    const names = new Map<string, string>();
+    hostRedirects(config).forEach((redirect, i) => {
+        const field = i < offset ? "canonicalHost" : `hostRedirects[${i - offset}]`;
+        if (!Array.isArray(redirect?.serverNames) || redirect.serverNames.length === 0) {
+            errors.push({ field: `${field}.serverNames`, message: "At least one server name is required" });
+            return;
+        }
+        redirect.serverNames.forEach((name, j) => {
+            const nameField = i < offset ? field : `${field}.serverNames[${j}]`;
+            if (typeof name !== "string" || !/^[*A-Za-z0-9][A-Za-z0-9.*_-]*$/.test(name)) {
+                errors.push({ field: nameField, message: "Invalid server name" });
+            } else if (siteNames.has(name)) {
+                errors.push({ field: nameField, message: `'${name}' is also a server name of the site` });
+            } else if (names.has(name)) {
+                errors.push({ field: nameField, message: `'${name}' is already redirected by ${names.get(name)}` });
+            } else {
+                names.set(name, field);
+            }
+        });
+
+        const target = redirect.target ?? defaultRedirectTarget(config);
+        const url = target.match(/^https?:\/\/([^/:\s]+)(:\d+)?(\/[^\s;{}"']*)?$/);
+        if (!url) {
+            errors.push({ field: `${field}.target`, message: "Target must be an http(s) URL (e.g., 'https://example.com')" });
+        } else if (redirect.serverNames.includes(url[1])) {
+            errors.push({ field: `${field}.target`, message: `Target host '${url[1]}' would redirect to itself` });
+        } else if (redirect.keepPath !== false && url[3]?.endsWith("/")) {
+            errors.push({ field: `${field}.target`, message: "The request path starts with '/'; drop the trailing slash of the target" });
+        } else if (redirect.keepPath !== false && url[3]?.includes("?")) {
+            errors.push({ field: `${field}.target`, message: "Target cannot have a query string when the path is kept" });
+        }
+
+        if (redirect.status !== undefined && !REDIRECT_STATUSES.includes(redirect.status as RedirectStatus)) {
+            errors.push({ field: `${field}.status`, message: `Status must be one of ${REDIRECT_STATUSES.join(", ")}` });
+        }
+        if ((redirect.certificate === undefined) !== (redirect.certificateKey === undefined)) {
+            errors.push({ field: `${field}.certificate`, message: "Certificate and certificateKey must be given together" });
+        } else if (redirect.certificate !== undefined && !config.ssl) {
+            errors.push({ field: `${field}.certificate`, message: "Certificates are only used when the site has SSL" });
+        }
+    });
+    return errors;
+}
+
+// Access and error logs of a server or location. Formats may be declared by
+// the site or the http context.
+function validateLogging(logging: LogConfig, config: NginxConfig, shared: SharedZones, field: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const skipPaths = config.logging?.skipPaths;
+
+    if (logging.access !== undefined && !Array.isArray(logging.access)) {
+        errors.push({ field: `${field}.access`, message: "Access logs must be an array; an empty one turns access logging off" });
+    }
+    (Array.isArray(logging.access) ? logging.access : []).forEach((log, index) => {
+        const logField = `${field}.access[${index}]`;
+        errors.push(...validateLogDestination(log, logField));
+        if (log.format !== undefined && !["combined", "json"].includes(log.format) &&
+            !Object.hasOwn(config.logFormats || {}, log.format) && !Object.hasOwn(shared.logFormats || {}, log.format)) {
+            errors.push({ field: `${logField}.format`, message: `Log format '${log.format}' is not declared` });
+        }
+        if (log.buffer !== undefined && !isValidSize(log.buffer)) {
+            errors.push({ field: `${logField}.buffer`, message: "Invalid buffer size (e.g., '32k')" });
+        }
+        if (log.flush !== undefined) {
+            if (!isValidTime(log.flush)) {
+                errors.push({ field: `${logField}.flush`, message: "Invalid flush time (e.g., '5s')" });
+            } else if (!log.buffer && !log.gzip) {
+                errors.push({ field: `${logField}.flush`, message: "Flush needs a buffer or gzip" });
+            }
+        }
+        if (log.gzip !== undefined && typeof log.gzip !== "boolean" && !(Number.isInteger(log.gzip) && log.gzip >= 1 && log.gzip <= 9)) {
+            errors.push({ field: `${logField}.gzip`, message: "Gzip must be true or a level from 1 to 9" });
+        }
+        if (log.syslog && (log.buffer || log.gzip || log.flush)) {
+            errors.push({ field: logField, message: "Logs sent to syslog cannot be buffered or compressed" });
+        }
+        if (log.if !== undefined) {
+            if (!/^\$[a-zA-Z_][a-zA-Z0-9_]*$/.test(log.if)) {
+                errors.push({ field: `${logField}.if`, message: "Condition must be a variable (e.g., '$loggable')" });
+            } else if (skipPaths?.length) {
+                errors.push({ field: `${logField}.if`, message: "Use either if or the site's skipPaths, not both" });
+            }
+        }
+    });
+
+    if (logging.error !== undefined) {
+        errors.push(...validateLogDestination(logging.error, `${field}.error`));
+        if (logging.error.level !== undefined && !LOG_LEVELS.includes(logging.error.level)) {
+            errors.push({ field: `${field}.error.level`, message: `Level must be one of ${LOG_LEVELS.join(", ")}` });
+        }
+        if (logging.error.syslog?.severity !== undefined) {
+            errors.push({ field: `${field}.error.syslog.severity`, message: "Error logs take their severity from the message; use level" });
+        }
+    }
+
+    return errors;
+}
+
+// URIs left out of the access logs, through the map skipLogMap() renders
+function validateSkipPaths(skipPaths: string[], config: NginxConfig): ValidationError[] {
+    if (!Array.isArray(skipPaths)) {
+        return [{ field: "logging.skipPaths", message: "Skipped paths must be an array" }];
+    }
+    const errors: ValidationError[] = [];
+    const seen = new Set<string>();
+    skipPaths.forEach((path, index) => {
+        if (typeof path !== "string" || !/^\/[^\s;{}"'\\]*$/.test(path)) {
+            errors.push({ field: `logging.skipPaths[${index}]`, message: "Skipped paths must be URIs starting with '/' (e.g., '/health')" });
+        } else if (seen.has(path)) {
+            errors.push({ field: `logging.skipPaths[${index}]`, message: `Duplicate path '${path}'` });
+        }
+        seen.add(path);
+    });
+    const skip = skipLogMap(config);
+    if (skip && (config.maps?.[skip.variable] || config.geo?.[skip.variable])) {
+        errors.push({ field: "logging.skipPaths", message: `Variable '$${skip.variable}' is set by skipPaths and cannot be declared by the site` });
+    }
+    return errors;
+}
+
+function validateLintSettings(lint: LintSettings, field: string): ValidationError[] {
+    if (lint.disable !== undefined && !Array.isArray(lint.disable)) {
+        return [{ field: `${field}.disable`, message: "Disabled lint rules must be an array of rule IDs" }];
+    }
+    const ids = LINT_RULES.map(rule => rule.id);
+    return (lint.disable || []).flatMap((id, index) => ids.includes(id) ? [] : [{
+        field: `${field}.disable[${index}]`,
+        message: `Unknown lint rule '${id}' (${ids.join(", ")})`
+    }]);
+}
+
+function validateLogDestination(log: { path?: string; syslog?: SyslogTarget }, field: string): ValidationError[] {
+    if ((log?.path === undefined) === (log?.syslog === undefined)) {
+        return [{ field, message: "Exactly one of path and syslog is required" }];
+    }
+    if (log.path !== undefined) {
+        return typeof log.path === "string" && /^\/[^\s;{}"'\\]*$/.test(log.path)
+            ? []
+            : [{ field: `${field}.path`, message: "Log path must be an absolute path without whitespace or quotes" }];
+    }
+    const errors: ValidationError[] = [];
+    const { server, facility, severity, tag } = log.syslog!;
+    if (typeof server !== "string" || !/^[^\s,;{}"'\\]+$/.test(server)) {
+        errors.push({ field: `${field}.syslog.server`, message: "Syslog server is required (e.g., '192.0.2.20:514' or 'unix:/dev/log')" });
+    }
+    if (facility !== undefined && !SYSLOG_FACILITIES.includes(facility)) {
+        errors.push({ field: `${field}.syslog.facility`, message: "Unknown syslog facility (e.g., 'local7')" });
+    }
+    if (severity !== undefined && !LOG_LEVELS.includes(severity)) {
+        errors.push({ field: `${field}.syslog.severity`, message: `Severity must be one of ${LOG_LEVELS.join(", ")}` });
+    }
+    if (tag !== undefined && !/^[A-Za-z0-9_]{1,32}$/.test(tag)) {
+        errors.push({ field: `${field}.syslog.tag`, message: "Syslog tags are up to 32 letters, digits or '_'" });
+    }
+    return errors;
+}
+
+// Problems that do not stop a config from working, e.g. access rules that can
+// never match because an earlier rule covers them
+export function validationWarnings(config: NginxConfig, shared: SharedZones = {}): ValidationError[] {
+    const ipLists = { ...shared.ipLists, ...config.ipLists };
+    const warnings = unreachableRules(config.access, ipLists, "access");
+    config.locations?.forEach((loc, index) => {
+        warnings.push(...unreachableRules(loc.access, ipLists, `locations[${index}].access`));
+    });
+    warnings.push(...redirectChains(config.redirects));
+    return warnings;
+}
+
+// Exact redirects whose target is redirected again, costing clients a round trip
+function redirectChains(redirects: NginxConfig["redirects"]): ValidationError[] {
+    const list = Array.isArray(redirects) ? redirects : [];
+    const exact = new Map(list.filter(r => (r.match ?? "exact") === "exact").map(r => [r.source, r.target]));
+    return list.flatMap((redirect, index) => {
+        const next = (redirect.match ?? "exact") === "exact" && redirect.target !== redirect.source ? exact.get(redirect.target) : undefined;
+        return next === undefined ? [] : [{
+            field: `redirects[${index}].target`,
+            message: `'${redirect.target}' is redirected again to '${next}'; point straight there`
+        }];
+    });
+}
+
+function unreachableRules(rules: AccessRule[] | undefined, ipLists: Record<string, IpList>, field: string): ValidationError[] {
+    const warnings: ValidationError[] = [];
+    const earlier: { rule: string; cidr: Cidr | "all" }[] = [];
+    (Array.isArray(rules) ? rules : []).forEach((rule, index) => {
+        for (const address of rule.list ? ipLists[rule.list] || [] : [rule.address]) {
+            const cidr = address === "all" ? "all" : parseCidr(address || "");
+            if (!cidr) {
+                continue;
+            }
+            const shadow = earlier.find(other => other.cidr === "all" || (cidr !== "all" && cidrContains(other.cidr, cidr)));
+            if (shadow) {
+                warnings.push({
+                    field: `${field}[${index}]`,
+                    message: `'${rule.action} ${address}' is unreachable: '${shadow.rule}' comes first and ${shadow.cidr === "all" ? "matches every client" : "covers it"}`
+                });
+            }
+            earlier.push({ rule: `${rule.action} ${address}`, cidr });
+        }
+    });
+    return warnings;
+}
+
+// Why an IPv4 or IPv6 address or CIDR range is malformed, or null
+function addressError(address: string): string | null {
+    const cidr = typeof address === "string" ? parseCidr(address) : null;
+    if (!cidr) {
+        return "Invalid address or CIDR range (e.g., '10.0.0.0/8' or '2001:db8::/32')";
+    }
+    if (hasHostBits(cidr)) {
+        return `'${address}' has bits set after the /${cidr.prefix} prefix`;
+    }
+    return null;
+}
+
+function isValidGeoValue(value: string): boolean {
+    return /^[^\s;{}"']+$/.test(value);
+}
+
 function isValidUrl(str: string): boolean {
     try {
         if (str.startsWith("unix:")) {
@@ -117,5 +1225,25 @@ function isValidUrl(str: string): boolean {
 }
 
 function isValidRateLimit(rate: string): boolean {
-    return /^\d+r\/[smhd]$/.test(rate);
+    return /^\d+r\/[sm]$/.test(rate);
+}
+
+function isValidSize(size: string): boolean {
+    return /^\d+[kKmMgG]?$/.test(size);
+}
+
+function isValidTime(time: string): boolean {
+    return /^(\d+(ms|s|m|h|d|w|M|y)?)+$/.test(time);
+}
+
+function isValidLogFormat(format: string): boolean {
+    return typeof format === "string" && format.length > 0 && !format.includes("'");
+}
+
+function isValidZoneName(name: string): boolean {
+    return /^[a-zA-Z0-9_]+$/.test(name);
+}
+
+function isValidErrorStatus(status: number): boolean {
+    return Number.isInteger(status) && status >= 400 && status <= 599;
 }
\ No newline at end of file
@@ -0,0 +1,356 @@
+import { MainContext, HttpContext, Listener, NginxConfig, SharedZones, StreamContext, StreamServer, Workspace } from "./types.ts";
+import { generateNginxConfig, generateSharedBlocks, realIpDirectives, terminate } from "./generator.ts";
+import { htpasswdFiles } from "./htpasswd.ts";
+import { hostRedirects } from "./redirects.ts";
+import { describeListener, listenAddress, siteListeners, siteSockets, socketKey } from "./listeners.ts";
+import { logFormatArguments } from "./logging.ts";
+import { arg, args, commentText, ExtraDirectivesPolicy } from "./directives.ts";
+import {
+    ValidationError,
+    validateConfig,
+    validateControlCharacters,
+    validateExtraDirectives,
+    validateRealIp,
+    validateSharedZones,
+    validateStream,
+    validationWarnings
+} from "./validator.ts";
+
+export interface RenderedWorkspace {
+    files: { [path: string]: string };
+    symlinks: { [path: string]: string };
+}
+
+const sharedKinds: { key: keyof SharedZones; label: string }[] = [
+    { key: "upstreams", label: "Upstream" },
+    { key: "rateLimitZones", label: "Rate limit zone" },
+    { key: "connectionLimitZones", label: "Connection limit zone" },
+    { key: "cacheZones", label: "Cache zone" },
+    { key: "maps", label: "Map variable" },
+    { key: "geo", label: "Geo variable" },
+    { key: "ipLists", label: "IP list" },
+    { key: "logFormats", label: "Log format" }
+];
+
+// Options nginx keeps per listening socket, so the sites sharing one have to
+// agree on them: one default_server and one reuseport per socket, and the
+// PROXY protocol for all servers on it or for none. Conflicts are reported on
+// the later site.
+export function listenerConflicts(configs: NginxConfig[]): { site: number; field: string; message: string }[] {
+    const conflicts: { site: number; field: string; message: string }[] = [];
+    const defaultServers = new Map<string, string>();
+    const reuseports = new Map<string, string>();
+    const proxyProtocol = new Map<string, { owner: string; enabled: boolean }>();
+
+    configs.forEach((config, site) => {
+        const owner = `site '${config.domain}'`;
+        const field = (index: number, option: string) => config.listeners ? `listeners[${index}].${option}` : option;
+
+        siteListeners(config).forEach((listener, index) => {
+            const key = socketKey(listener);
+            for (const [option, enabled, claimed, label] of [
+                ["defaultServer", listener.defaultServer, defaultServers, "default_server"],
+                ["reuseport", listener.reuseport, reuseports, "reuseport"]
+            ] as const) {
+                if (!enabled) {
+                    continue;
+                }
+                const existing = claimed.get(key);
+                if (existing) {
+                    conflicts.push({ site, field: field(index, option), message: `${describeListener(listener)} already has ${label} in ${existing}` });
+                } else {
+                    claimed.set(key, owner);
+                }
+            }
+        });
+
+        for (const listener of siteSockets(config).filter(l => !l.quic)) {
+            const key = socketKey(listener);
+            const enabled = !!listener.acceptProxyProtocol;
+            const existing = proxyProtocol.get(key);
+            if (!existing) {
+                proxyProtocol.set(key, { owner, enabled });
+            } else if (existing.enabled !== enabled) {
+                conflicts.push({
+                    site,
+                    field: config.listeners ? "listeners" : "port",
+                    message: `${describeListener(listener)} ${existing.enabled ? "expects" : "does not expect"} the PROXY protocol in ${existing.owner}; nginx applies it to every server on the socket`
+                });
+            }
+        }
+    });
+    return conflicts;
+}
+
+// Names the sites of one nginx instance cannot both declare: upstream, zone,
+// map, geo and log format names, which share the http context (and any it
+// already declares), and a server name on the same socket. Listener
+// conflicts are included; all are reported on the later site.
+export function siteConflicts(configs: NginxConfig[], http: SharedZones = {}): { site: number; field: string; message: string }[] {
+    const conflicts: { site: number; field: string; message: string }[] = [];
+    const serverNames = new Map<string, string>();
+    const sharedNames = new Map<string, string>();
+
+    // map and geo blocks both set variables
+    const namespace = (key: keyof SharedZones) => key === "geo" ? "maps" : key;
+    for (const { key } of sharedKinds) {
+        Object.keys(http[key] || {}).forEach(name => sharedNames.set(`${namespace(key)}.${name}`, "the http context"));
+    }
+
+    configs.forEach((config, site) => {
+        const owner = `site '${config.domain}'`;
+
+        for (const { key, label } of sharedKinds) {
+            for (const name of Object.keys(config[key] || {})) {
+                const existing = sharedNames.get(`${namespace(key)}.${name}`);
+                if (existing) {
+                    conflicts.push({ site, field: `${key}.${name}`, message: `${label} '${name}' is already declared by ${existing}` });
+                } else {
+                    sharedNames.set(`${namespace(key)}.${name}`, owner);
+                }
+            }
+        }
+
+        // Host redirect servers listen on the same ports as the site
+        const names = [
+            ...(config.serverName || "").split(/\s+/).filter(Boolean).map(name => ({ name, field: "serverName" })),
+            ...(Array.isArray(config.hostRedirects) || config.canonicalHost ? hostRedirects(config) : [])
+                .flatMap((redirect, i) => (Array.isArray(redirect?.serverNames) ? redirect.serverNames : [])
+                    .map(name => ({ name, field: config.canonicalHost && i === 0 ? "canonicalHost" : "hostRedirects" })))
+        ];
+        for (const listener of siteSockets(config).filter(l => !l.quic)) {
+            for (const { name, field } of names) {
+                const key = `${name} ${socketKey(listener)}`;
+                const existing = serverNames.get(key);
+                if (existing) {
+                    conflicts.push({ site, field, message: `Server name '${name}' on ${listener.address === undefined ? `port ${listener.port}` : listenAddress(listener)} is already claimed by ${existing}` });
+                } else {
+                    serverNames.set(key, owner);
+                }
+            }
+        }
+    });
+    return [...conflicts, ...listenerConflicts(configs)];
+}
+
+export function validateWorkspace(workspace: Workspace, policy: ExtraDirectivesPolicy = "all"): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const http = workspace.http || {};
+
+    errors.push(...validateSharedZones(http, "http."));
+    if (http.realIp) {
+        errors.push(...validateRealIp(http.realIp, http.ipLists || {}, "http.realIp"));
+    }
+    if (workspace.stream) {
+        errors.push(...validateStream(workspace.stream));
+    }
+
+    // Sites are checked by validateConfig below
+    const contexts = [
+        { field: "main", directives: workspace.main?.extraDirectives },
+        { field: "http", directives: http.extraDirectives },
+        { field: "stream", directives: workspace.stream?.extraDirectives },
+        ...(Array.isArray(workspace.stream?.servers) ? workspace.stream!.servers : [])
+            .map((server, index) => ({ field: `stream.servers[${index}]`, directives: server?.extraDirectives }))
+    ];
+    for (const { field, directives } of contexts) {
+        if (directives !== undefined) {
+            errors.push(...validateExtraDirectives(directives, `${field}.extraDirectives`, policy));
+        }
+    }
+    errors.push(...validateControlCharacters({ main: workspace.main, http: workspace.http, stream: workspace.stream }));
+
+    if (!Array.isArray(workspace.sites) || workspace.sites.length === 0) {
+        errors.push({ field: "sites", message: "At least one site is required" });
+        return errors;
+    }
+
+    const domains = new Set<string>();
+    const sockets = new Map<number, Listener[]>();
+
+    workspace.sites.forEach((site, index) => {
+        const prefix = `sites[${index}]`;
+        const config = site?.config;
+        if (!config) {
+            errors.push({ field: `${prefix}.config`, message: "Site configuration is required" });
+            return;
+        }
+
+        const siteErrors = validateConfig(config, http, policy);
+        siteErrors.forEach(error => {
+            errors.push({ field: `${prefix}.${error.field}`, message: error.message });
+        });
+        // Clashes are only checked between sites with valid listeners
+        if (!siteErrors.some(error => error.field.startsWith("listeners"))) {
+            sockets.set(index, siteSockets(config));
+        }
+
+        if (domains.has(config.domain)) {
+            errors.push({ field: `${prefix}.domain`, message: `Domain '${config.domain}' is already used by another site` });
+        } else {
+            domains.add(config.domain);
+        }
+    });
+
+    const configs = workspace.sites.map((site, index) => ({ config: site?.config, index })).filter(({ index }) => sockets.has(index));
+    for (const conflict of siteConflicts(configs.map(({ config }) => config), http)) {
+        errors.push({ field: `sites[${configs[conflict.site].index}].${conflict.field}`, message: conflict.message });
+    }
+
+    // A stream server cannot bind a port an HTTP server listens on, over the
+    // same protocol, unless both name different addresses
+    (Array.isArray(workspace.stream?.servers) ? workspace.stream!.servers : []).forEach((server, index) => {
+        const protocol = server.protocol || "tcp";
+        const site = configs.find(({ index }) => sockets.get(index)!.some(listener =>
+            listener.port === server.port && (listener.quic ? "udp" : "tcp") === protocol &&
+            (!listener.address || !server.address || listener.address === server.address)
+        ));
+        if (site) {
+            errors.push({ field: `stream.servers[${index}].port`, message: `${protocol.toUpperCase()} port ${server.port} is already used by the HTTP server of site '${site.config.domain}'` });
+        }
+    });
+
+    return errors;
+}
+
+// Warnings of all sites, with the same field prefixes as the errors
+export function workspaceWarnings(workspace: Workspace): ValidationError[] {
+    return workspace.sites.flatMap((site, index) =>
+        validationWarnings(site.config, workspace.http).map(warning => ({ field: `sites[${index}].${warning.field}`, message: warning.message }))
+    );
+}
+
+export function generateMainConfig(workspace: Workspace): string {
+    const main: MainContext = workspace.main || {};
+    const http: HttpContext = workspace.http || {};
+    let nginxConfig = "";
+
+    nginxConfig += `user ${args(main.user || "www-data")};\n`;
+    nginxConfig += `worker_processes ${arg(main.workerProcesses || "auto")};\n`;
+    if (main.workerRlimitNofile) {
+        nginxConfig += `worker_rlimit_nofile ${arg(main.workerRlimitNofile)};\n`;
+    }
+    nginxConfig += `pid ${arg(main.pid || "/run/nginx.pid")};\n`;
+    if (main.errorLog) {
+        nginxConfig += `error_log ${args(main.errorLog)};\n`;
+    }
+    if (main.extraDirectives) {
+        nginxConfig += main.extraDirectives.map(d => `${terminate(d)}\n`).join("");
+    }
+
+    nginxConfig += `\nevents {\n    worker_connections ${arg(main.workerConnections || 1024)};\n}\n\n`;
+
+    let httpConfig = "include mime.types;\ndefault_type application/octet-stream;\n";
+    httpConfig += `sendfile ${http.sendfile === false ? "off" : "on"};\n`;
+    if (http.keepaliveTimeout) {
+        httpConfig += `keepalive_timeout ${args(http.keepaliveTimeout)};\n`;
+    }
+    if (http.serverTokens === false) {
+        httpConfig += "server_tokens off;\n";
+    }
+    if (http.logFormats) {
+        for (const [name, format] of Object.entries(http.logFormats)) {
+            httpConfig += `log_format ${arg(name)} ${logFormatArguments(format)};\n`;
+        }
+    }
+    if (http.accessLog) {
+        httpConfig += `access_log ${args(http.accessLog)};\n`;
+    }
+    httpConfig += realIpDirectives(http.realIp, http.ipLists || {}).map(d => `${d};\n`).join("");
+    if (http.resolvers?.length) {
+        httpConfig += `resolver ${args(http.resolvers)};\n`;
+        if (http.resolverTimeout) {
+            httpConfig += `resolver_timeout ${arg(http.resolverTimeout)};\n`;
+        }
+    }
+    if (http.extraDirectives) {
+        httpConfig += http.extraDirectives.map(d => `${terminate(d)}\n`).join("");
+    }
+    httpConfig += "\n" + generateSharedBlocks(http);
+    httpConfig += "include sites-enabled/*.conf;\n";
+
+    nginxConfig += `http {\n${indent(httpConfig)}}\n`;
+
+    if (workspace.stream) {
+        nginxConfig += `\n${generateStreamConfig(workspace.stream)}`;
+    }
+    return nginxConfig;
+}
+
+function streamListen(server: StreamServer): string {
+    const address = server.address?.includes(":") && !server.address.startsWith("[") ? `[${server.address}]` : server.address;
+    let listen = arg(address ? `${address}:${server.port}` : server.port);
+    if (server.protocol === "udp") {
+        listen += " udp";
+    }
+    if (server.ssl) {
+        listen += " ssl";
+    }
+    if (server.acceptProxyProtocol) {
+        listen += " proxy_protocol";
+    }
+    return listen;
+}
+
+// Renders the stream {} context for TCP and UDP proxying. Each server is
+// preceded by a comment with its name, which nginx2json reads back.
+export function generateStreamConfig(stream: StreamContext): string {
+    let streamConfig = generateSharedBlocks({ maps: stream.maps, upstreams: stream.upstreams });
+    if (stream.extraDirectives) {
+        streamConfig += stream.extraDirectives.map(d => `${terminate(d)}\n`).join("") + "\n";
+    }
+
+    for (const server of stream.servers) {
+        streamConfig += `# ${commentText(server.name)}\nserver {\n    listen ${streamListen(server)};\n`;
+        if (server.ssl) {
+            streamConfig += `    ssl_certificate ${arg(server.ssl.certificate)};\n`;
+            streamConfig += `    ssl_certificate_key ${arg(server.ssl.certificateKey)};\n`;
+            if (server.ssl.protocols?.length) {
+                streamConfig += `    ssl_protocols ${args(server.ssl.protocols)};\n`;
+            }
+        }
+        if (server.sslPreread) {
+            streamConfig += "    ssl_preread on;\n";
+        }
+        if (server.proxyConnectTimeout) {
+            streamConfig += `    proxy_connect_timeout ${arg(server.proxyConnectTimeout)};\n`;
+        }
+        if (server.proxyTimeout) {
+            streamConfig += `    proxy_timeout ${arg(server.proxyTimeout)};\n`;
+        }
+        if (server.proxyResponses !== undefined) {
+            streamConfig += `    proxy_responses ${arg(server.proxyResponses)};\n`;
+        }
+        if (server.proxyProtocol) {
+            streamConfig += "    proxy_protocol on;\n";
+        }
+        if (server.extraDirectives) {
+            streamConfig += server.extraDirectives.map(d => `    ${terminate(d)}\n`).join("");
+        }
+        streamConfig += `    proxy_pass ${arg(server.proxyPass)};\n}\n\n`;
+    }
+
+    return `stream {\n${indent(streamConfig.trimEnd() + "\n")}}\n`;
+}
+
+export function renderWorkspace(workspace: Workspace): RenderedWorkspace {
+    const rendered: RenderedWorkspace = {
+        files: { "nginx.conf": generateMainConfig(workspace) },
+        symlinks: {}
+    };
+
+    for (const site of workspace.sites) {
+        const fileName = `${site.config.domain}.conf`;
+        rendered.files[`sites-available/${fileName}`] = generateNginxConfig(site.config, workspace.http);
+        Object.assign(rendered.files, htpasswdFiles(site.config));
+        if (site.enabled !== false) {
+            rendered.symlinks[`sites-enabled/${fileName}`] = `../sites-available/${fileName}`;
+        }
+    }
+
+    return rendered;
+}
+
+function indent(text: string): string {
+    return text.split("\n").map(line => line ? `    ${line}` : line).join("\n");
+}